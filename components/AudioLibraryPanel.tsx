@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef } from "react";
+import { AudioTrack, AudioTrackLicense } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { AUDIO_LICENSE_LABELS } from "../services/audioFingerprint";
+import { addAudioTrack, deleteAudioTrack, listAudioTracks, updateAudioTrack } from "../services/audioLibrary";
+
+const LICENSES = Object.keys(AUDIO_LICENSE_LABELS) as AudioTrackLicense[];
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const isAudioFile = (file: File) => file.type.startsWith('audio/') || /\.(mp3|m4a|aac|wav|ogg|oga|flac|opus)$/i.test(file.name);
+
+const formatDuration = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.round(sec % 60)).padStart(2, '0')}`;
+
+// Tracks every audit's audio is fingerprinted against: a team's licensed music folder, sounds that
+// are trending on the platform, or anything else worth catching.
+const AudioLibraryPanel = () => {
+    const { user } = useAuth();
+    const [tracks, setTracks] = useState<AudioTrack[] | null>(null);
+    const [license, setLicense] = useState<AudioTrackLicense>('licensed');
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const filesRef = useRef<HTMLInputElement>(null);
+    const folderRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!user) return;
+        listAudioTracks(user).then(setTracks).catch(() => setTracks([]));
+    }, [user]);
+
+    // React has no prop for directory pickers
+    useEffect(() => {
+        folderRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    if (!user) return null;
+
+    const addFiles = async (fileList: FileList | null) => {
+        const files = Array.from(fileList ?? []).filter(isAudioFile);
+        if (!files.length) {
+            setErrors(['No audio files found. Add MP3, M4A, WAV, OGG or FLAC files.']);
+            return;
+        }
+        setErrors([]);
+        const failed: string[] = [];
+        // One at a time: decoding several songs at once can exhaust a tab's memory
+        for (const [i, file] of files.entries()) {
+            setProgress({ done: i, total: files.length });
+            try {
+                await addAudioTrack(user, file, license);
+            } catch (err) {
+                failed.push(err instanceof Error ? err.message : `${file.name} could not be added.`);
+            }
+        }
+        setProgress(null);
+        setErrors(failed);
+        setTracks(await listAudioTracks(user));
+    };
+
+    const changeLicense = async (track: AudioTrack, next: AudioTrackLicense) => {
+        const updated = await updateAudioTrack(user, track.id, { license: next });
+        setTracks((current) => current?.map((t) => (t.id === updated.id ? updated : t)) ?? null);
+    };
+
+    const remove = async (track: AudioTrack) => {
+        await deleteAudioTrack(user, track.id);
+        setTracks((current) => current?.filter((t) => t.id !== track.id) ?? null);
+    };
+
+    const fileInput = (ref: React.RefObject<HTMLInputElement>) => (
+        <input
+            ref={ref}
+            type="file"
+            accept="audio/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = '';
+            }}
+        />
+    );
+
+    return (
+        <div>
+            <p className="text-sm text-gray-400 mb-4">
+                Every audit fingerprints the creative's audio and compares it with these tracks. Only the fingerprints are stored.
+            </p>
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <select value={license} onChange={(e) => setLicense(e.target.value as AudioTrackLicense)} className={inputClass} aria-label="Add tracks as">
+                    {LICENSES.map((value) => (
+                        <option key={value} value={value}>
+                            Add as: {AUDIO_LICENSE_LABELS[value]}
+                        </option>
+                    ))}
+                </select>
+                {fileInput(filesRef)}
+                {fileInput(folderRef)}
+                <button
+                    onClick={() => filesRef.current?.click()}
+                    disabled={!!progress}
+                    className="px-4 py-2 rounded-lg border border-white/10 text-xs font-bold hover:bg-white/5 transition-colors disabled:opacity-40"
+                >
+                    <i className="fa-solid fa-music mr-1.5"></i>Add tracks
+                </button>
+                <button
+                    onClick={() => folderRef.current?.click()}
+                    disabled={!!progress}
+                    className="px-4 py-2 rounded-lg border border-white/10 text-xs font-bold hover:bg-white/5 transition-colors disabled:opacity-40"
+                >
+                    <i className="fa-solid fa-folder-open mr-1.5"></i>Add folder
+                </button>
+                {progress && (
+                    <span className="text-xs font-mono text-gray-500">
+                        Fingerprinting {progress.done + 1}/{progress.total}
+                    </span>
+                )}
+            </div>
+            {errors.length > 0 && (
+                <ul className="text-xs text-[#ff2e63] mb-4 space-y-1">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+            )}
+            {tracks === null ? (
+                <div className="text-sm text-gray-500">Loading…</div>
+            ) : tracks.length ? (
+                <ul className="divide-y divide-white/5">
+                    {tracks.map((track) => (
+                        <li key={track.id} className="py-2.5 flex items-center gap-3 text-sm">
+                            <div className="min-w-0 flex-1">
+                                <div className="text-white truncate">{track.title}</div>
+                                <div className="text-[11px] text-gray-500 font-mono truncate">
+                                    {track.artist ? `${track.artist} · ` : ''}{formatDuration(track.durationSec)}
+                                </div>
+                            </div>
+                            <select
+                                value={track.license}
+                                onChange={(e) => changeLicense(track, e.target.value as AudioTrackLicense)}
+                                className={`${inputClass} text-xs py-1.5`}
+                                aria-label={`Licence for ${track.title}`}
+                            >
+                                {LICENSES.map((value) => <option key={value} value={value}>{AUDIO_LICENSE_LABELS[value]}</option>)}
+                            </select>
+                            <button onClick={() => remove(track)} className="text-xs text-gray-600 hover:text-[#ff2e63] transition-colors" title="Remove track">
+                                <i className="fa-solid fa-trash"></i>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <div className="text-sm text-gray-500">No tracks yet. Without a library, audits can only tell whether the creative has audio.</div>
+            )}
+        </div>
+    );
+};
+
+export default AudioLibraryPanel;
@@ -0,0 +1,34 @@
+import React, { useState } from "react";
+import { useI18n } from "../context/I18nContext";
+import { AUDIT_LANGUAGES, AUDIT_LANGUAGE_AUTO, auditLanguageName, readAuditLanguage, writeAuditLanguage } from "../services/i18n";
+
+// Chooses the language reports are written in. The choice is remembered, so batches and the
+// extension use it too. Language names follow the UI language.
+const AuditLanguagePicker = ({ onChange, disabled }: { onChange?: (language: string) => void; disabled?: boolean }) => {
+    const { locale } = useI18n();
+    const [language, setLanguage] = useState(readAuditLanguage);
+
+    const select = (next: string) => {
+        writeAuditLanguage(next);
+        setLanguage(next);
+        onChange?.(next);
+    };
+
+    return (
+        <div className="flex items-center gap-3 text-xs">
+            <span className="text-gray-500 whitespace-nowrap">Report language</span>
+            <select
+                value={language}
+                onChange={(e) => select(e.target.value)}
+                disabled={disabled}
+                className="flex-1 min-w-0 bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30 disabled:opacity-50"
+                aria-label="Report language"
+            >
+                <option value={AUDIT_LANGUAGE_AUTO}>Same as the creative</option>
+                {AUDIT_LANGUAGES.map((code) => <option key={code} value={code}>{auditLanguageName(code, locale)}</option>)}
+            </select>
+        </div>
+    );
+};
+
+export default AuditLanguagePicker;
@@ -0,0 +1,331 @@
+import React from "react";
+import { AudioEvidence, AuditReport, AuditScoring, PacingMetrics, Transcript, ReportBlock, ReportSectionKey, ReportValidationError } from "../types";
+import { SECTION_TITLES, reportSectionKeys } from "../services/reportParser";
+import { findingId, formatTimestamp, tokenizeTimestamps } from "../services/findings";
+import { AUDIO_LICENSE_LABELS, confidenceLabel } from "../services/audioFingerprint";
+import { isTimed, measureSpeech } from "../services/transcripts";
+import { DEFAULT_RUBRIC, SUBSCORE_LABELS, scoreBreakdown } from "../services/rubric";
+import PacingChart from "./PacingChart";
+
+export const SECTION_COLORS: Record<ReportSectionKey, string> = {
+    hook: '#ff2e63',
+    body: '#08d9d6',
+    audio: '#ffbd2e',
+    script: '#a78bfa',
+    brand: '#34d399',
+};
+
+// Present when timestamps should be clickable (a video is attached to the report)
+interface SeekProps {
+    onSeek?: (startSec: number, findingId: string) => void;
+    activeFindingId?: string | null;
+    durationSec?: number;
+}
+
+const RING_RADIUS = 26;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export const scoreColor = (score: number, maxScore: number) => {
+    const ratio = maxScore > 0 ? score / maxScore : 0;
+    if (ratio >= 0.7) return '#08d9d6';
+    if (ratio >= 0.5) return '#ffbd2e';
+    return '#ff2e63';
+};
+
+export const formatScore = (score: number) => (Number.isInteger(score) ? String(score) : score.toFixed(1));
+
+export const ScoreRing = ({ score, maxScore }: { score: number; maxScore: number }) => {
+    const ratio = Math.min(Math.max(maxScore > 0 ? score / maxScore : 0, 0), 1);
+    const offset = RING_CIRCUMFERENCE * (1 - ratio);
+
+    return (
+        <div className="relative w-14 h-14 shrink-0 flex items-center justify-center">
+            <svg className="w-full h-full -rotate-90" viewBox="0 0 60 60">
+                <circle cx="30" cy="30" r={RING_RADIUS} stroke="#333" strokeWidth="4" fill="transparent" />
+                <circle
+                    cx="30" cy="30" r={RING_RADIUS}
+                    stroke={scoreColor(score, maxScore)} strokeWidth="4"
+                    fill="transparent"
+                    strokeDasharray={RING_CIRCUMFERENCE.toFixed(2)}
+                    strokeDashoffset={offset.toFixed(2)}
+                    strokeLinecap="round"
+                />
+            </svg>
+            <span className="absolute text-white font-bold text-xl">{formatScore(score)}</span>
+        </div>
+    );
+};
+
+// Renders *emphasis* the way the model writes it
+const Emphasis = ({ text }: { text: string }) => {
+    const parts = text.split(/(\*[^*\s][^*]*\*)/g);
+    return (
+        <>
+            {parts.map((part, i) =>
+                /^\*[^*]+\*$/.test(part) ? <em key={i}>{part.slice(1, -1)}</em> : <React.Fragment key={i}>{part}</React.Fragment>
+            )}
+        </>
+    );
+};
+
+interface InlineTextProps extends SeekProps {
+    text: string;
+    section: ReportSectionKey;
+    blockIndex: number;
+    itemIndex?: number;
+}
+
+const InlineText = ({ text, section, blockIndex, itemIndex, onSeek, activeFindingId, durationSec }: InlineTextProps) => {
+    if (!onSeek) return <Emphasis text={text} />;
+
+    return (
+        <>
+            {tokenizeTimestamps(text).map((token, i) => {
+                if (typeof token === 'string') return <Emphasis key={i} text={token} />;
+                const id = findingId(section, blockIndex, itemIndex, token.index);
+                if (durationSec !== undefined && token.startSec > durationSec + 0.5) {
+                    return <React.Fragment key={i}>{token.label}</React.Fragment>;
+                }
+                const active = id === activeFindingId;
+                return (
+                    <button
+                        key={i}
+                        type="button"
+                        onClick={() => onSeek(token.startSec, id)}
+                        title={`Jump to ${token.label}`}
+                        className="font-mono text-[12px] px-1 rounded transition-colors hover:bg-white/10"
+                        style={{ color: SECTION_COLORS[section], backgroundColor: active ? `${SECTION_COLORS[section]}26` : undefined }}
+                    >
+                        {token.label}
+                    </button>
+                );
+            })}
+        </>
+    );
+};
+
+const Label = ({ label }: { label: string }) => (
+    <strong className="text-white font-semibold">{label}:</strong>
+);
+
+interface BlockProps extends SeekProps {
+    block: ReportBlock;
+    isLast: boolean;
+    section: ReportSectionKey;
+    blockIndex: number;
+}
+
+const Block = ({ block, isLast, section, blockIndex, ...seek }: BlockProps) => {
+    if (block.type === 'list') {
+        return (
+            <>
+                {block.label && <p className="mb-2"><Label label={block.label} /></p>}
+                <ul className={`space-y-2 pl-1 ${isLast ? '' : 'mb-3'}`}>
+                    {block.items.map((item, i) => (
+                        <li key={i}>- <InlineText text={item} section={section} blockIndex={blockIndex} itemIndex={i} {...seek} /></li>
+                    ))}
+                </ul>
+            </>
+        );
+    }
+
+    return (
+        <p className={isLast ? '' : 'mb-3'}>
+            {block.label && <><Label label={block.label} />{' '}</>}
+            <InlineText text={block.text} section={section} blockIndex={blockIndex} {...seek} />
+        </p>
+    );
+};
+
+// The fingerprint matches behind the #AUDIO section, with each matched range clickable like a timestamp
+const AudioEvidenceList = ({ evidence, onSeek, activeFindingId }: { evidence: AudioEvidence } & SeekProps) => {
+    if (!evidence.hasAudio || !evidence.libraryTracks) return null;
+    return (
+        <div className="mt-3 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2.5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1.5">
+                Fingerprint check · {evidence.libraryTracks} library {evidence.libraryTracks === 1 ? 'track' : 'tracks'}
+            </div>
+            {evidence.matches.length ? (
+                <ul className="space-y-2">
+                    {evidence.matches.map((match) => (
+                        <li key={match.trackId}>
+                            <span className="text-white">{match.title}</span>
+                            {match.artist && <span className="text-gray-500"> · {match.artist}</span>}
+                            <span className={`ml-2 text-[10px] font-mono uppercase ${match.license === 'licensed' ? 'text-[#08d9d6]' : 'text-[#ff2e63]'}`}>
+                                {AUDIO_LICENSE_LABELS[match.license]}
+                            </span>
+                            <div className="text-[11px] text-gray-500">
+                                {confidenceLabel(match.confidence)} confidence ({Math.round(match.confidence * 100)}%) ·{' '}
+                                {match.ranges.map((range, i) => {
+                                    const id = `audio-${match.trackId}-${i}`;
+                                    const label = `${formatTimestamp(range.startSec)}-${formatTimestamp(range.endSec)}`;
+                                    return (
+                                        <React.Fragment key={id}>
+                                            {i > 0 && ', '}
+                                            {onSeek ? (
+                                                <button
+                                                    onClick={() => onSeek(range.startSec, id)}
+                                                    className="font-mono rounded px-0.5 hover:underline"
+                                                    style={{ color: SECTION_COLORS.audio, backgroundColor: id === activeFindingId ? `${SECTION_COLORS.audio}26` : undefined }}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ) : (
+                                                <span className="font-mono">{label}</span>
+                                            )}
+                                            <span className="text-gray-600"> (track {formatTimestamp(range.trackStartSec)})</span>
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <div className="text-[11px] text-gray-500">No matches.</div>
+            )}
+        </div>
+    );
+};
+
+// The transcript behind the #SCRIPT section. Timed cues seek like timestamps, and the cue playing at
+// `currentTime` is highlighted.
+export const TranscriptCueList = ({
+    transcript,
+    currentTime,
+    onSeek,
+    activeFindingId,
+    durationSec,
+}: { transcript: Transcript; currentTime?: number } & SeekProps) => {
+    const speech = measureSpeech(transcript, durationSec ?? 0);
+    const timed = isTimed(transcript);
+    return (
+        <div className="mt-3 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2.5">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1.5">
+                <span>Transcript{transcript.fileName ? ` · ${transcript.fileName}` : ''}</span>
+                <span>{speech.wordCount} words</span>
+                {(timed || !!durationSec) && <span>{speech.wordsPerSecond} words/s</span>}
+                {speech.firstWordSec !== null && <span>First word {speech.firstWordSec}s</span>}
+            </div>
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {transcript.cues.map((cue, i) => {
+                    const id = `cue-${i}`;
+                    const playing = currentTime !== undefined && cue.startSec !== undefined && currentTime >= cue.startSec && currentTime < (cue.endSec ?? cue.startSec);
+                    return (
+                        <li key={id} className={`flex gap-2 ${playing ? 'text-white' : 'text-gray-400'}`}>
+                            {cue.startSec !== undefined &&
+                                (onSeek ? (
+                                    <button
+                                        onClick={() => onSeek(cue.startSec!, id)}
+                                        className="font-mono rounded px-0.5 hover:underline shrink-0"
+                                        style={{ color: SECTION_COLORS.script, backgroundColor: id === activeFindingId ? `${SECTION_COLORS.script}26` : undefined }}
+                                    >
+                                        {formatTimestamp(cue.startSec)}
+                                    </button>
+                                ) : (
+                                    <span className="font-mono text-gray-600 shrink-0">{formatTimestamp(cue.startSec)}</span>
+                                ))}
+                            <span>{cue.text}</span>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+// Each sub-score with the share of the headline score it carries under the rubric. Without a rubric
+// score the sub-scores are listed on their own.
+export const ScoreBreakdown = ({ report, scoring }: { report: AuditReport; scoring?: AuditScoring }) => {
+    const rows = scoreBreakdown(report, scoring?.weights ?? DEFAULT_RUBRIC.weights);
+    return (
+        <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2.5 mt-5 pt-4 border-t border-white/5">
+            {rows.map(({ key, subscore, share }) => (
+                <div key={key} className={`flex items-center gap-3 text-[11px] ${subscore === null ? 'opacity-40' : ''}`}>
+                    <span className="w-14 text-gray-400 shrink-0">{SUBSCORE_LABELS[key]}</span>
+                    <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                        {subscore !== null && (
+                            <div className="h-full rounded-full" style={{ width: `${subscore * 10}%`, backgroundColor: scoreColor(subscore, 10) }} />
+                        )}
+                    </div>
+                    <span className="w-8 text-right font-mono text-white shrink-0">{subscore === null ? '—' : formatScore(subscore)}</span>
+                    {scoring && <span className="w-9 text-right font-mono text-gray-600 shrink-0" title="Weight in the score">{Math.round(share * 100)}%</span>}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface MeasuredProps {
+    audio?: AudioEvidence;
+    pacing?: PacingMetrics;
+    transcript?: Transcript;
+}
+
+export const AuditReportView = ({
+    report,
+    scoring,
+    audio,
+    pacing,
+    transcript,
+    ...seek
+}: { report: AuditReport; scoring?: AuditScoring } & MeasuredProps & SeekProps) => {
+    return (
+        <>
+            {/* Score Box */}
+            <div className="bg-[#181818] rounded-xl p-5 border border-white/5 mb-6 relative overflow-hidden">
+                <div className="flex items-center gap-5">
+                    {scoring ? <ScoreRing score={scoring.score} maxScore={10} /> : <ScoreRing score={report.score} maxScore={report.maxScore} />}
+                    <div>
+                        <div className="text-white font-bold text-base mb-1">Viral Potential Score</div>
+                        <div className="text-gray-500 text-[11px] leading-tight">
+                            {scoring
+                                ? `Weighted from the sub-scores by the ${scoring.rubricName} rubric, version ${scoring.rubricVersion}.`
+                                : 'AI Analysis based on hook, pacing & copy.'}
+                        </div>
+                    </div>
+                </div>
+                {report.subscores && <ScoreBreakdown report={report} scoring={scoring} />}
+            </div>
+
+            {/* Text Content */}
+            <div className="space-y-6 text-[13px] leading-relaxed text-gray-300">
+                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">#SCORE: {report.score}/{report.maxScore}</div>
+
+                {reportSectionKeys(report).map((key) => {
+                    const blocks = report.sections[key].blocks;
+                    return (
+                        <div key={key}>
+                            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-2">#{SECTION_TITLES[key]}</div>
+                            {blocks.map((block, i) => (
+                                <Block key={i} block={block} isLast={i === blocks.length - 1} section={key} blockIndex={i} {...seek} />
+                            ))}
+                            {key === 'body' && pacing && seek.durationSec && (
+                                <PacingChart pacing={pacing} durationSec={seek.durationSec} onSeek={seek.onSeek} />
+                            )}
+                            {key === 'audio' && audio && <AudioEvidenceList evidence={audio} {...seek} />}
+                            {key === 'script' && transcript && <TranscriptCueList transcript={transcript} {...seek} />}
+                        </div>
+                    );
+                })}
+            </div>
+        </>
+    );
+};
+
+export const ReportErrors = ({ errors }: { errors: ReportValidationError[] }) => (
+    <div className="bg-[#181818] rounded-xl p-5 border border-[#ff2e63]/30 text-[13px] text-gray-300">
+        <div className="flex items-center gap-2 text-white font-bold mb-3">
+            <i className="fa-solid fa-triangle-exclamation text-[#ff2e63]"></i>
+            This report could not be displayed
+        </div>
+        <ul className="space-y-1.5 font-mono text-[11px] text-gray-400">
+            {errors.map((error, i) => (
+                <li key={i}>
+                    {error.line ? <span className="text-gray-600">L{error.line} </span> : null}
+                    {error.message}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
@@ -0,0 +1,448 @@
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { motion } from "framer-motion";
+import { AuditRequest, AuditResult, BrandProfile, SavedAudit, Transcript } from "../types";
+import { AuditReportView } from "./AuditReportView";
+import TimelineScrubber from "./TimelineScrubber";
+import ReportExportMenu from "./ReportExportMenu";
+import PlacementPreview from "./PlacementPreview";
+import TranscriptPanel from "./TranscriptPanel";
+import BrandProfilePicker from "./BrandProfilePicker";
+import AuditLanguagePicker from "./AuditLanguagePicker";
+import VerifyEmailBanner from "./VerifyEmailBanner";
+import UsageMeter from "./UsageMeter";
+import UpgradePrompt from "./UpgradePrompt";
+import { useEntitlements } from "../hooks/useEntitlements";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { Link } from "../context/RouterContext";
+import { auditPath } from "../constants";
+import { saveAudit } from "../services/auditStore";
+import { extractFindings } from "../services/findings";
+import { toBrandRules } from "../services/brandProfiles";
+import { readAuditLanguage } from "../services/i18n";
+import { getAuditService } from "../services/auditService";
+import { listAudioTracks } from "../services/audioLibrary";
+import { prepareAuditRequest } from "../services/auditPipeline";
+import { describeAuditError, isAuditError } from "../services/auditErrors";
+import {
+    ACCEPTED_VIDEO_EXTENSIONS,
+    MAX_VIDEO_BYTES,
+    MAX_VIDEO_DURATION_SEC,
+    VideoMetadata,
+    readVideoMetadata,
+    createThumbnail,
+    validateVideoFile,
+    validateVideoMetadata,
+} from "../services/videoFile";
+
+type Stage = 'empty' | 'checking' | 'ready' | 'sampling' | 'auditing' | 'done' | 'error';
+
+interface Creative {
+    file: File;
+    url: string;
+    meta: VideoMetadata | null;
+}
+
+const formatDuration = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.round(sec % 60)).padStart(2, '0')}`;
+
+const ProgressBar = ({ value }: { value: number | null }) => (
+    <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+        {value === null ? (
+            <motion.div
+                className="h-full w-1/3 bg-[#08d9d6] rounded-full"
+                animate={{ x: ['-100%', '300%'] }}
+                transition={{ repeat: Infinity, duration: 1.4, ease: 'easeInOut' }}
+            />
+        ) : (
+            <div className="h-full bg-[#08d9d6] rounded-full transition-all duration-200" style={{ width: `${Math.round(value * 100)}%` }} />
+        )}
+    </div>
+);
+
+const DropZone = ({ onFile, error }: { onFile: (file: File) => void; error: string | null }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [dragging, setDragging] = useState(false);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        const file = e.dataTransfer.files?.[0];
+        if (file) onFile(file);
+    };
+
+    return (
+        <div
+            onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => inputRef.current?.click()}
+            className={`rounded-2xl border-2 border-dashed p-12 text-center cursor-pointer transition-colors ${
+                dragging ? 'border-[#08d9d6] bg-[#08d9d6]/5' : 'border-white/10 hover:border-white/30 bg-[#0a0a0a]/80'
+            }`}
+        >
+            <input
+                ref={inputRef}
+                type="file"
+                accept={[...ACCEPTED_VIDEO_EXTENSIONS, 'video/mp4', 'video/quicktime'].join(',')}
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onFile(file);
+                    e.target.value = '';
+                }}
+            />
+            <div className="w-14 h-14 mx-auto mb-5 bg-white/5 rounded-xl flex items-center justify-center text-xl">
+                <i className="fa-solid fa-cloud-arrow-up"></i>
+            </div>
+            <div className="font-heading font-bold text-lg mb-2">Drop an MP4 or MOV creative</div>
+            <div className="text-sm text-gray-500">
+                Up to {Math.round(MAX_VIDEO_BYTES / (1024 * 1024))} MB and {MAX_VIDEO_DURATION_SEC / 60} minutes. Nothing is uploaded until you start the audit.
+            </div>
+            {error && (
+                <div className="mt-5 text-sm text-[#ff2e63] flex items-center justify-center gap-2">
+                    <i className="fa-solid fa-circle-exclamation"></i> {error}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const AuditWorkspace = ({ onSaved }: { onSaved?: (audit: SavedAudit) => void }) => {
+    const { user } = useAuth();
+    const { library } = useWorkspace();
+    const { check, recordAudit } = useEntitlements();
+    const [creative, setCreative] = useState<Creative | null>(null);
+    const [stage, setStage] = useState<Stage>('empty');
+    const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<number | null>(0);
+    const [statusText, setStatusText] = useState('');
+    const [result, setResult] = useState<AuditResult | null>(null);
+    const [measured, setMeasured] = useState<Pick<AuditRequest, 'audio' | 'pacing' | 'transcript'>>({});
+    const [transcript, setTranscript] = useState<Transcript | undefined>();
+    const [burnedInCaptions, setBurnedInCaptions] = useState(false);
+    const [brandProfile, setBrandProfile] = useState<BrandProfile | null>(null);
+    const [language, setLanguage] = useState(readAuditLanguage);
+    const [savedAudit, setSavedAudit] = useState<SavedAudit | null>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [activeFindingId, setActiveFindingId] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    const durationSec = creative?.meta?.durationSec;
+    const findings = useMemo(
+        () => (result ? extractFindings(result.report, durationSec) : []),
+        [result, durationSec]
+    );
+
+    // Release the object URL whenever the creative changes or the workspace unmounts
+    const creativeUrl = creative?.url;
+    useEffect(() => {
+        return () => {
+            if (creativeUrl) URL.revokeObjectURL(creativeUrl);
+        };
+    }, [creativeUrl]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const reset = () => {
+        abortRef.current?.abort();
+        setCreative(null);
+        setResult(null);
+        setSavedAudit(null);
+        setTranscript(undefined);
+        setBurnedInCaptions(false);
+        setError(null);
+        setStage('empty');
+    };
+
+    const handleFile = async (file: File) => {
+        abortRef.current?.abort();
+        setResult(null);
+        setSavedAudit(null);
+        setCurrentTime(0);
+        setActiveFindingId(null);
+        setTranscript(undefined);
+        setBurnedInCaptions(false);
+
+        const fileError = validateVideoFile(file);
+        if (fileError) {
+            setCreative(null);
+            setError(fileError);
+            setStage('empty');
+            return;
+        }
+
+        // A later pick, a reset or unmounting aborts this read, so a slow file can't overwrite a newer one
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const url = URL.createObjectURL(file);
+        setCreative({ file, url, meta: null });
+        setError(null);
+        setStage('checking');
+
+        try {
+            const meta = await readVideoMetadata(url, controller.signal);
+            if (controller.signal.aborted) return;
+            const metaError = validateVideoMetadata(meta);
+            if (metaError) {
+                setCreative(null);
+                setError(metaError);
+                setStage('empty');
+                return;
+            }
+            setCreative({ file, url, meta });
+            setStage('ready');
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setCreative(null);
+            setError(err instanceof Error ? err.message : 'Could not read this video.');
+            setStage('empty');
+        }
+    };
+
+    // Unverified or over-quota accounts can preview files but not spend audits
+    const access = check({ type: 'audit' });
+    const canAudit = access.allowed;
+
+    const startAudit = async () => {
+        if (!creative?.meta || !canAudit) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const service = getAuditService();
+        setError(null);
+        setResult(null);
+        setSavedAudit(null);
+        setActiveFindingId(null);
+
+        try {
+            setStage('sampling');
+            setProgress(0);
+            // A storage failure costs the audit its audio evidence, not the audit itself
+            const tracks = user ? await listAudioTracks(user).catch(() => []) : [];
+            const request = await prepareAuditRequest(creative.file, creative.url, creative.meta, {
+                tracks,
+                transcript,
+                burnedInCaptions,
+                brandProfile: brandProfile ? toBrandRules(brandProfile) : undefined,
+                language,
+                signal: controller.signal,
+                onProgress: (step, done, total) => {
+                    if (step === 'audio') {
+                        setProgress(null);
+                        setStatusText('Fingerprinting audio');
+                    } else {
+                        setProgress(total ? done / total : 0);
+                        setStatusText(total ? `Sampling frames ${done}/${total}` : 'Sampling frames');
+                    }
+                },
+            });
+
+            setStage('auditing');
+            setProgress(null);
+            setStatusText(`Analysing with ${service.provider.label}`);
+            const auditResult = await service.runAudit(request, {
+                signal: controller.signal,
+                onAttempt: (attempt) => {
+                    if (attempt > 1) setStatusText(`Retrying with ${service.provider.label} (attempt ${attempt})`);
+                },
+            });
+            // Only completed audits count against the plan
+            recordAudit();
+            setMeasured({ audio: request.audio, pacing: request.pacing, transcript: request.transcript });
+            setResult(auditResult);
+            setStage('done');
+            if (library) {
+                // History is best effort: a storage failure shouldn't hide a finished report.
+                // The thumbnail skips the opening frame, which is often black.
+                const { frames } = request;
+                const thumbnail = frames.length ? await createThumbnail(frames[Math.min(1, frames.length - 1)]).catch(() => undefined) : undefined;
+                const saved = await saveAudit(library, request, auditResult, { thumbnail }).catch(() => null);
+                if (saved) {
+                    setSavedAudit(saved);
+                    onSaved?.(saved);
+                }
+            }
+        } catch (err) {
+            if (isAuditError(err) && err.code === 'cancelled') {
+                setStage('ready');
+                return;
+            }
+            setError(err instanceof Error && !isAuditError(err) ? err.message : describeAuditError(err));
+            setStage('error');
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+        }
+    };
+
+    const cancelAudit = () => abortRef.current?.abort();
+
+    const seekTo = (sec: number, findingId?: string) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = Math.min(Math.max(sec, 0), video.duration || sec);
+        setCurrentTime(video.currentTime);
+        setActiveFindingId(findingId ?? null);
+    };
+
+    const busy = stage === 'sampling' || stage === 'auditing' || stage === 'checking';
+
+    return (
+        <section id="workspace" className="py-24 relative z-10 scroll-mt-24">
+            <div className="max-w-6xl mx-auto px-6">
+                <div className="mb-10 flex flex-wrap items-end justify-between gap-6">
+                    <div>
+                        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Workspace</div>
+                        <h2 className="text-3xl md:text-4xl font-bold font-heading">Audit a creative</h2>
+                    </div>
+                    <UsageMeter />
+                </div>
+
+                <VerifyEmailBanner />
+                {!access.allowed && (
+                    <div className="mb-6">
+                        <UpgradePrompt decision={access} />
+                    </div>
+                )}
+
+                {!creative ? (
+                    <DropZone onFile={handleFile} error={error} />
+                ) : (
+                    <div className="grid lg:grid-cols-[1fr_420px] gap-6 items-start">
+                        <div className="space-y-6 min-w-0">
+                            {/* Preview */}
+                            <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 overflow-hidden">
+                                <div className="bg-black aspect-video flex items-center justify-center">
+                                    <video
+                                        ref={videoRef}
+                                        src={creative.url}
+                                        controls
+                                        playsInline
+                                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                        className="w-full h-full object-contain"
+                                    />
+                                </div>
+                                {result && durationSec && (
+                                    <div className="px-5 pt-4">
+                                        <TimelineScrubber
+                                            durationSec={durationSec}
+                                            currentTime={currentTime}
+                                            findings={findings}
+                                            activeFindingId={activeFindingId}
+                                            onSeek={seekTo}
+                                        />
+                                    </div>
+                                )}
+                                <div className="p-5 flex flex-wrap items-center justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <div className="font-medium text-white truncate">{creative.file.name}</div>
+                                        <div className="text-xs text-gray-500 font-mono mt-1">
+                                            {(creative.file.size / (1024 * 1024)).toFixed(1)} MB
+                                            {creative.meta && ` · ${formatDuration(creative.meta.durationSec)} · ${creative.meta.width}x${creative.meta.height}`}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-3">
+                                        <button
+                                            onClick={reset}
+                                            disabled={busy}
+                                            className="px-4 py-2.5 rounded-lg border border-white/10 text-sm hover:bg-white/5 transition-colors disabled:opacity-40"
+                                        >
+                                            Replace
+                                        </button>
+                                        {busy && stage !== 'checking' ? (
+                                            <button
+                                                onClick={cancelAudit}
+                                                className="px-5 py-2.5 rounded-lg border border-[#ff2e63]/40 text-[#ff2e63] text-sm font-bold hover:bg-[#ff2e63]/10 transition-colors"
+                                            >
+                                                Cancel
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={startAudit}
+                                                disabled={!canAudit || (stage !== 'ready' && stage !== 'done' && stage !== 'error')}
+                                                className="px-5 py-2.5 rounded-lg bg-white text-black text-sm font-bold hover:bg-gray-200 transition-colors disabled:opacity-40"
+                                            >
+                                                {stage === 'done' ? 'Re-run Audit' : 'Run Audit'}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                {(stage === 'sampling' || stage === 'auditing') && (
+                                    <div className="px-5 pb-5 space-y-2">
+                                        <div className="text-xs text-gray-400 font-mono">{statusText}</div>
+                                        <ProgressBar value={progress} />
+                                    </div>
+                                )}
+                            </div>
+                            <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5 space-y-3">
+                                <BrandProfilePicker onChange={setBrandProfile} disabled={busy} />
+                                <AuditLanguagePicker onChange={setLanguage} disabled={busy} />
+                                {brandProfile && !transcript && (
+                                    <div className="text-[11px] text-gray-500">
+                                        Without a transcript, banned and required phrases are only checked against on-screen text.
+                                    </div>
+                                )}
+                            </div>
+                            {creative.meta && (
+                                <TranscriptPanel
+                                    durationSec={creative.meta.durationSec}
+                                    transcript={transcript}
+                                    burnedInCaptions={burnedInCaptions}
+                                    onChange={setTranscript}
+                                    onBurnedInCaptionsChange={setBurnedInCaptions}
+                                    currentTime={currentTime}
+                                    onSeek={seekTo}
+                                    disabled={busy}
+                                />
+                            )}
+                            {creative.meta && <PlacementPreview src={creative.url} width={creative.meta.width} height={creative.meta.height} />}
+                        </div>
+
+                        {/* Report */}
+                        <div className="bg-[#111] rounded-xl border border-white/10 flex flex-col overflow-hidden max-h-[720px]">
+                            <div className="px-5 py-4 border-b border-white/5 flex justify-between items-center shrink-0">
+                                <div className="font-bold text-lg tracking-tight">
+                                    <span className="text-[#ff2e63]">ViralAudit</span> <span className="text-[#08d9d6]">AI</span>
+                                </div>
+                                {result && (
+                                    <div className="flex items-center gap-3">
+                                        <ReportExportMenu report={result.report} meta={{ creativeName: creative.file.name, durationSec, scoring: savedAudit?.scoring }} />
+                                        <span className="text-[10px] font-mono text-gray-600">{result.providerId}</span>
+                                        {savedAudit && (
+                                            <Link to={auditPath(savedAudit.id)} className="text-[11px] text-gray-400 hover:text-white transition-colors" title="Permanent link to this report">
+                                                <i className="fa-solid fa-link"></i>
+                                            </Link>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="flex-1 overflow-y-auto p-5">
+                                {result ? (
+                                    <AuditReportView
+                                        report={result.report}
+                                        scoring={savedAudit?.scoring}
+                                        audio={measured.audio}
+                                        pacing={measured.pacing}
+                                        transcript={measured.transcript}
+                                        onSeek={seekTo}
+                                        activeFindingId={activeFindingId}
+                                        durationSec={durationSec}
+                                    />
+                                ) : stage === 'error' ? (
+                                    <div className="text-sm text-[#ff2e63] flex items-start gap-2">
+                                        <i className="fa-solid fa-circle-exclamation mt-0.5"></i> {error}
+                                    </div>
+                                ) : (
+                                    <div className="text-sm text-gray-500 text-center py-16">
+                                        {busy ? statusText || 'Reading video…' : 'Run the audit to see the report here.'}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default AuditWorkspace;
@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AuthView, useAuth } from "../context/AuthContext";
+import { useI18n } from "../context/I18nContext";
+import { AuthError, MIN_PASSWORD_LENGTH, isAuthError } from "../services/authClient";
+
+const toAuthError = (err: unknown, fallback: string) => (isAuthError(err) ? err : new AuthError('network', fallback));
+
+const Spinner = () => <i className="fa-solid fa-circle-notch fa-spin"></i>;
+
+const Notice = ({ tone, children }: { tone: 'error' | 'success'; children: React.ReactNode }) => (
+    <div className={`text-sm rounded-lg px-4 py-3 flex items-center gap-2 border ${
+        tone === 'error'
+            ? 'text-[#ff2e63] bg-[#ff2e63]/10 border-[#ff2e63]/20'
+            : 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20'
+    }`}>
+        <i className={`fa-solid ${tone === 'error' ? 'fa-circle-exclamation' : 'fa-circle-check'}`}></i> {children}
+    </div>
+);
+
+const AuthModal = () => {
+    const {
+        showAuthModal, setShowAuthModal, login, signup, authView, setAuthView, authToken,
+        requestPasswordReset, resetPassword, verifyEmail, requestMagicLink, signInWithMagicLink,
+    } = useAuth();
+    const { t, format } = useI18n();
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<AuthError | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const consumedToken = useRef<string | null>(null);
+
+    // Each time the modal opens it starts clean
+    useEffect(() => {
+        if (!showAuthModal) return;
+        setError(null);
+        setNotice(null);
+        setPassword("");
+    }, [showAuthModal]);
+
+    // Links for verify and magic sign-in are consumed as soon as the view opens
+    useEffect(() => {
+        if (!showAuthModal || !authToken || consumedToken.current === authToken) return;
+        if (authView !== 'verify' && authView !== 'magic') return;
+        consumedToken.current = authToken;
+
+        setLoading(true);
+        setError(null);
+        (async () => {
+            try {
+                if (authView === 'verify') {
+                    await verifyEmail();
+                    setNotice(t.auth.verified);
+                } else {
+                    await signInWithMagicLink();
+                    setShowAuthModal(false);
+                }
+            } catch (err) {
+                setError(toAuthError(err, t.auth.genericError));
+            } finally {
+                setLoading(false);
+            }
+        })();
+    }, [showAuthModal, authView, authToken, verifyEmail, signInWithMagicLink, setShowAuthModal, t]);
+
+    if (!showAuthModal) return null;
+
+    const switchView = (view: AuthView) => {
+        setError(null);
+        setNotice(null);
+        setPassword("");
+        setAuthView(view);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        setNotice(null);
+
+        try {
+            switch (authView) {
+                case 'login':
+                    await login(email, password);
+                    break;
+                case 'signup':
+                    await signup(email, password);
+                    break;
+                case 'forgot':
+                    await requestPasswordReset(email);
+                    setNotice(format(t.auth.resetSent, { email }));
+                    break;
+                case 'magic':
+                    await requestMagicLink(email);
+                    setNotice(format(t.auth.magicSent, { email }));
+                    break;
+                case 'reset':
+                    await resetPassword(password);
+                    setShowAuthModal(false);
+                    break;
+            }
+            if (authView === 'login' || authView === 'signup') setEmail("");
+            setPassword("");
+        } catch (err) {
+            setError(toAuthError(err, t.auth.genericError));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fieldError = (field: 'email' | 'password') => (error?.field === field ? error.message : null);
+    const inputClass = (field: 'email' | 'password') =>
+        `w-full bg-[#0a0a0a] border rounded-lg px-4 py-3 text-white focus:outline-none transition-colors ${
+            fieldError(field) ? 'border-[#ff2e63]/60 focus:border-[#ff2e63]' : 'border-white/10 focus:border-white/30'
+        }`;
+
+    const showEmail = authView === 'login' || authView === 'signup' || authView === 'forgot' || authView === 'magic';
+    const showPassword = authView === 'login' || authView === 'signup' || authView === 'reset';
+    const tokenView = authView === 'verify' || (authView === 'magic' && !!authToken);
+    const tokenError = error && !error.field && (authView === 'reset' || tokenView) && error.code === 'invalid_token';
+
+    const submitLabel: Partial<Record<AuthView, string>> = t.auth.submit;
+
+    return (
+        <AnimatePresence>
+            {showAuthModal && (
+                <>
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={() => setShowAuthModal(false)}
+                        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-[200] cursor-pointer"
+                    />
+                    <div className="fixed inset-0 z-[201] flex items-center justify-center pointer-events-none p-4">
+                        <motion.div
+                            initial={{ scale: 0.95, opacity: 0, y: 20 }}
+                            animate={{ scale: 1, opacity: 1, y: 0 }}
+                            exit={{ scale: 0.95, opacity: 0, y: 20 }}
+                            className="bg-[#111] w-full max-w-md rounded-2xl border border-white/10 shadow-2xl pointer-events-auto overflow-hidden"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-white/5 flex justify-between items-center bg-[#151515]">
+                                <h3 className="font-heading font-bold text-xl">{t.auth.titles[authView]}</h3>
+                                <button
+                                    onClick={() => setShowAuthModal(false)}
+                                    className="text-gray-500 hover:text-white transition-colors"
+                                >
+                                    <i className="fa-solid fa-xmark text-lg"></i>
+                                </button>
+                            </div>
+
+                            {/* Body */}
+                            <div className="p-8">
+                                {tokenView ? (
+                                    <div className="space-y-4 text-center">
+                                        {loading && (
+                                            <div className="text-gray-400 text-sm flex items-center justify-center gap-2">
+                                                <Spinner /> {authView === 'verify' ? t.auth.confirming : t.auth.signingIn}
+                                            </div>
+                                        )}
+                                        {notice && <Notice tone="success">{notice}</Notice>}
+                                        {error && <Notice tone="error">{error.message}</Notice>}
+                                        {!loading && !notice && !error && authView === 'verify' && (
+                                            <p className="text-sm text-gray-400">{t.auth.verifyHint}</p>
+                                        )}
+                                        {!loading && (notice || error) && (
+                                            <button
+                                                onClick={() => (error && authView === 'magic' ? switchView('magic') : setShowAuthModal(false))}
+                                                className="w-full bg-white text-black font-bold py-3.5 rounded-lg hover:bg-gray-200 transition-all"
+                                            >
+                                                {error && authView === 'magic' ? t.auth.requestNewLink : t.auth.continue}
+                                            </button>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+                                        {authView === 'forgot' && !notice && (
+                                            <p className="text-sm text-gray-400">{t.auth.forgotHint}</p>
+                                        )}
+                                        {authView === 'magic' && !notice && (
+                                            <p className="text-sm text-gray-400">{t.auth.magicHint}</p>
+                                        )}
+                                        {notice && <Notice tone="success">{notice}</Notice>}
+                                        {error && !error.field && <Notice tone="error">{error.message}</Notice>}
+
+                                        {showEmail && (
+                                            <div>
+                                                <label className="block text-xs font-mono text-gray-500 uppercase mb-2">{t.auth.emailLabel}</label>
+                                                <input
+                                                    type="email"
+                                                    required
+                                                    value={email}
+                                                    onChange={(e) => { setEmail(e.target.value); if (error?.field === 'email') setError(null); }}
+                                                    aria-invalid={!!fieldError('email')}
+                                                    className={inputClass('email')}
+                                                    placeholder={t.auth.emailPlaceholder}
+                                                />
+                                                {fieldError('email') && (
+                                                    <p className="mt-2 text-xs text-[#ff2e63]">
+                                                        {fieldError('email')}
+                                                        {error?.code === 'email_taken' && (
+                                                            <> <button type="button" onClick={() => switchView('login')} className="text-white hover:underline">{t.auth.signIn}</button></>
+                                                        )}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        )}
+
+                                        {showPassword && (
+                                            <div>
+                                                <div className="flex justify-between items-center mb-2">
+                                                    <label className="block text-xs font-mono text-gray-500 uppercase">
+                                                        {authView === 'reset' ? t.auth.newPasswordLabel : t.auth.passwordLabel}
+                                                    </label>
+                                                    {authView === 'login' && (
+                                                        <button type="button" onClick={() => switchView('forgot')} className="text-xs text-gray-500 hover:text-white transition-colors">
+                                                            {t.auth.forgotPassword}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <input
+                                                    type="password"
+                                                    required
+                                                    value={password}
+                                                    onChange={(e) => { setPassword(e.target.value); if (error?.field === 'password') setError(null); }}
+                                                    aria-invalid={!!fieldError('password')}
+                                                    className={inputClass('password')}
+                                                    placeholder={authView === 'login' ? '••••••••' : format(t.auth.passwordPlaceholder, { min: MIN_PASSWORD_LENGTH })}
+                                                />
+                                                {fieldError('password') && (
+                                                    <p className="mt-2 text-xs text-[#ff2e63]">{fieldError('password')}</p>
+                                                )}
+                                            </div>
+                                        )}
+
+                                        {!(notice && (authView === 'forgot' || authView === 'magic')) && !tokenError && (
+                                            <button
+                                                type="submit"
+                                                disabled={loading}
+                                                className="w-full bg-white text-black font-bold py-3.5 rounded-lg hover:bg-gray-200 transition-all mt-4 flex items-center justify-center gap-2"
+                                            >
+                                                {loading ? <Spinner /> : submitLabel[authView]}
+                                            </button>
+                                        )}
+                                        {tokenError && (
+                                            <button
+                                                type="button"
+                                                onClick={() => switchView('forgot')}
+                                                className="w-full bg-white text-black font-bold py-3.5 rounded-lg hover:bg-gray-200 transition-all mt-4"
+                                            >
+                                                {t.auth.requestNewLink}
+                                            </button>
+                                        )}
+                                    </form>
+                                )}
+
+                                <div className="mt-6 text-center text-sm text-gray-500 space-y-2">
+                                    {authView === 'login' && (
+                                        <>
+                                            <div>
+                                                {t.auth.noAccount}{' '}
+                                                <button onClick={() => switchView('signup')} className="text-white hover:underline font-medium">
+                                                    {t.auth.signUp}
+                                                </button>
+                                            </div>
+                                            <div>
+                                                <button onClick={() => switchView('magic')} className="text-gray-400 hover:text-white transition-colors">
+                                                    {t.auth.magicInstead}
+                                                </button>
+                                            </div>
+                                        </>
+                                    )}
+                                    {authView === 'signup' && (
+                                        <>
+                                            {t.auth.haveAccount}{' '}
+                                            <button onClick={() => switchView('login')} className="text-white hover:underline font-medium">
+                                                {t.auth.signIn}
+                                            </button>
+                                        </>
+                                    )}
+                                    {(authView === 'forgot' || (authView === 'magic' && !authToken)) && (
+                                        <button onClick={() => switchView('login')} className="text-white hover:underline font-medium">
+                                            {t.auth.backToSignIn}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default AuthModal;
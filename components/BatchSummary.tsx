@@ -0,0 +1,54 @@
+import React from "react";
+import { BatchItem } from "../types";
+import { Link } from "../context/RouterContext";
+import { scoreColor } from "./AuditReportView";
+import { auditPath } from "../constants";
+import { BATCH_STATUS_LABELS, summarizeBatch } from "../services/batchAudits";
+
+// The batch's finished creatives ranked by score, so the strongest can go live first
+const BatchSummary = ({ items }: { items: BatchItem[] }) => {
+    const { counts, averageScore, ranked } = summarizeBatch(items);
+    const statuses = (Object.keys(counts) as (keyof typeof counts)[]).filter((status) => counts[status] > 0);
+
+    return (
+        <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5">
+            <div className="flex flex-wrap items-baseline justify-between gap-3 mb-4">
+                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Ranking</div>
+                <div className="text-xs text-gray-500 font-mono">
+                    {statuses.map((status) => `${counts[status]} ${BATCH_STATUS_LABELS[status].toLowerCase()}`).join(' · ')}
+                    {averageScore !== null && ` · average ${averageScore.toFixed(1)}/10`}
+                </div>
+            </div>
+            {ranked.length === 0 ? (
+                <div className="text-xs text-gray-500">Creatives are ranked here by score as their audits finish.</div>
+            ) : (
+                <ol className="divide-y divide-white/5">
+                    {ranked.map((item, i) => {
+                        const row = (
+                            <>
+                                <span className="w-6 text-xs font-mono text-gray-600">{i + 1}</span>
+                                <span className="flex-1 min-w-0 text-sm text-white truncate">{item.name}</span>
+                                <span className="font-mono font-bold text-sm" style={{ color: scoreColor(item.score!, item.maxScore!) }}>
+                                    {item.score}/{item.maxScore}
+                                </span>
+                            </>
+                        );
+                        return (
+                            <li key={item.id}>
+                                {item.auditId ? (
+                                    <Link to={auditPath(item.auditId)} className="flex items-center gap-3 py-2.5 hover:bg-white/5 transition-colors">
+                                        {row}
+                                    </Link>
+                                ) : (
+                                    <div className="flex items-center gap-3 py-2.5">{row}</div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default BatchSummary;
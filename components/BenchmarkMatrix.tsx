@@ -0,0 +1,82 @@
+import React from "react";
+import { BENCHMARK_DIMENSIONS, BENCHMARK_DIMENSION_LABELS, BenchmarkComparison } from "../services/benchmark";
+
+const formatScore = (score: number | null) => (score === null ? '—' : `${score}`);
+
+// Side-by-side scores: one row per dimension, our creative in the first column
+const BenchmarkMatrix = ({ comparison }: { comparison: BenchmarkComparison }) => {
+    const { entries, best, losses } = comparison;
+    const ours = entries[0];
+
+    return (
+        <div className="space-y-6">
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse">
+                    <thead>
+                        <tr>
+                            <th className="text-left py-2 pr-4 text-[10px] font-mono text-gray-500 uppercase tracking-widest font-normal">Out of 10</th>
+                            {entries.map((entry) => (
+                                <th
+                                    key={entry.id}
+                                    className={`py-2 px-3 text-left font-medium max-w-[140px] truncate ${entry.ours ? 'text-white' : 'text-gray-400'}`}
+                                    title={entry.name}
+                                >
+                                    {entry.ours ? 'Your ad' : entry.name}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                        {BENCHMARK_DIMENSIONS.map((dimension) => (
+                            <tr key={dimension} className="border-t border-white/5">
+                                <td className="py-2 pr-4 font-sans text-gray-400">{BENCHMARK_DIMENSION_LABELS[dimension]}</td>
+                                {entries.map((entry) => {
+                                    const score = entry.scores[dimension];
+                                    const leads = score !== null && score === best[dimension];
+                                    const behind = entry.ours && score !== null && best[dimension] !== null && score < best[dimension];
+                                    return (
+                                        <td
+                                            key={entry.id}
+                                            className={`py-2 px-3 ${entry.ours ? 'bg-white/[0.03]' : ''} ${
+                                                behind ? 'text-[#ff2e63]' : leads ? 'text-[#08d9d6] font-bold' : 'text-gray-300'
+                                            }`}
+                                        >
+                                            {formatScore(score)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div>
+                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Where your ad loses</div>
+                {losses.length ? (
+                    <ol className="space-y-2">
+                        {losses.map((loss, i) => (
+                            <li key={loss.dimension} className="flex gap-3 text-sm">
+                                <span className="font-mono text-gray-600 w-4 shrink-0">{i + 1}.</span>
+                                <span className="text-gray-300">
+                                    <span className="text-white font-medium">{BENCHMARK_DIMENSION_LABELS[loss.dimension]}</span>
+                                    {`: ${loss.ours} vs ${loss.best} for ${loss.leader} (−${loss.gap}). `}
+                                    <span className="text-gray-500">
+                                        {loss.beatenBy} of {loss.compared} {loss.compared === 1 ? 'competitor scores' : 'competitors score'} higher.
+                                    </span>
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                ) : (
+                    <p className="text-sm text-gray-500">Your ad matches or beats every competitor on every scored dimension.</p>
+                )}
+                {BENCHMARK_DIMENSIONS.some((dimension) => ours.scores[dimension] === null) && (
+                    <p className="text-xs text-gray-600 mt-3">Dimensions marked — weren't scored for this report. Re-run the audit to get them.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BenchmarkMatrix;
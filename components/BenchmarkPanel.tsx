@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { BenchmarkCompetitor, BenchmarkSet, SavedAudit } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import UpgradePrompt from "./UpgradePrompt";
+import BenchmarkMatrix from "./BenchmarkMatrix";
+import { updateAudit } from "../services/auditStore";
+import { MAX_BENCHMARK_COMPETITORS, auditCompetitor, compareBenchmark } from "../services/benchmark";
+import { createBenchmarkSet, deleteBenchmarkSet, listBenchmarkSets, updateBenchmarkSet } from "../services/benchmarkStore";
+import { describeAuditError, isAuditError } from "../services/auditErrors";
+import { ACCEPTED_VIDEO_EXTENSIONS } from "../services/videoFile";
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const errorMessage = (err: unknown) => (err instanceof Error && !isAuditError(err) ? err.message : describeAuditError(err));
+
+// Audits competitor creatives and compares them with this audit. Competitor sets are saved per
+// niche so the next audit in the same niche can reuse them without re-running anything.
+const BenchmarkPanel = ({ audit, onChange }: { audit: SavedAudit; onChange: (audit: SavedAudit) => void }) => {
+    const { library } = useWorkspace();
+    const { check, recordAudit } = useEntitlements();
+    const [sets, setSets] = useState<BenchmarkSet[]>([]);
+    const [activeSetId, setActiveSetId] = useState<string | null>(null);
+    const [competitors, setCompetitors] = useState<BenchmarkCompetitor[]>([]);
+    const [name, setName] = useState('');
+    const [niche, setNiche] = useState('');
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const access = check({ type: 'feature', feature: 'competitor_benchmarking' });
+    // Viewers can open a workspace's sets but not change them
+    const canEdit = check({ type: 'action', action: 'library.edit' }).allowed;
+    const running = status !== null;
+    const room = MAX_BENCHMARK_COMPETITORS - competitors.length;
+
+    const loadSet = (set: BenchmarkSet | null) => {
+        setActiveSetId(set?.id ?? null);
+        setCompetitors(set?.competitors ?? []);
+        setName(set?.name ?? '');
+        setNiche(set?.niche ?? '');
+        setError(null);
+    };
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Reopens the set this audit was last compared against
+    useEffect(() => {
+        if (!library || !access.allowed) return;
+        let cancelled = false;
+        listBenchmarkSets(library)
+            .then((list) => {
+                if (cancelled) return;
+                setSets(list);
+                const attached = list.find((set) => set.id === audit.benchmarkSetId);
+                if (attached) loadSet(attached);
+            })
+            .catch(() => !cancelled && setError('Could not load your saved benchmark sets.'));
+        return () => {
+            cancelled = true;
+        };
+    }, [library?.userId, library?.workspaceId, access.allowed, audit.id]);
+
+    const comparison = useMemo(
+        () => (competitors.length ? compareBenchmark({ id: audit.id, name: audit.creativeName, report: audit.report }, competitors) : null),
+        [audit.id, audit.creativeName, audit.report, competitors]
+    );
+
+    const niches = useMemo(() => Array.from(new Set(sets.map((set) => set.niche))), [sets]);
+
+    if (!access.allowed) return <UpgradePrompt decision={access} compact />;
+
+    const attach = async (setId: string | undefined) => {
+        if (!library || !canEdit || audit.benchmarkSetId === setId) return;
+        onChange(await updateAudit(library, audit.id, { benchmarkSetId: setId }));
+    };
+
+    const addCompetitors = async (files: File[]) => {
+        const queue = files.slice(0, room);
+        if (!queue.length) return;
+        // Each competitor is a full audit, so it needs quota like any other
+        const quota = check({ type: 'audit', count: queue.length });
+        if (!quota.allowed) {
+            setError(quota.message ?? 'You are out of audits for this period.');
+            return;
+        }
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(files.length > queue.length ? `Only the first ${queue.length} were added. A set holds up to ${MAX_BENCHMARK_COMPETITORS} competitors.` : null);
+
+        for (const [i, file] of queue.entries()) {
+            try {
+                const competitor = await auditCompetitor(file, {
+                    signal: controller.signal,
+                    onStatus: (text) => setStatus(`${file.name} (${i + 1}/${queue.length}): ${text}`),
+                });
+                // Only completed audits count against the plan
+                recordAudit();
+                setCompetitors((current) => [...current, competitor]);
+            } catch (err) {
+                if (isAuditError(err) && err.code === 'cancelled') break;
+                setError(errorMessage(err));
+            }
+        }
+
+        if (abortRef.current === controller) abortRef.current = null;
+        setStatus(null);
+    };
+
+    const save = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!library) return;
+        try {
+            const input = { name, niche, competitors };
+            const set = activeSetId ? await updateBenchmarkSet(library, activeSetId, input) : await createBenchmarkSet(library, input);
+            setActiveSetId(set.id);
+            setSets(await listBenchmarkSets(library));
+            await attach(set.id);
+            setError(null);
+        } catch (err) {
+            setError(errorMessage(err));
+        }
+    };
+
+    const selectSet = async (id: string) => {
+        const set = sets.find((candidate) => candidate.id === id) ?? null;
+        loadSet(set);
+        await attach(set?.id).catch(() => undefined);
+    };
+
+    const removeSet = async () => {
+        const set = sets.find((candidate) => candidate.id === activeSetId);
+        if (!library || !set || !window.confirm(`Delete the benchmark set "${set.name}"?`)) return;
+        await deleteBenchmarkSet(library, set.id);
+        setSets((current) => current.filter((candidate) => candidate.id !== set.id));
+        loadSet(null);
+        await attach(undefined).catch(() => undefined);
+    };
+
+    return (
+        <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1">Competitor benchmark</div>
+            <p className="text-xs text-gray-500 mb-4">
+                Run the same audit on up to {MAX_BENCHMARK_COMPETITORS} competitor creatives and see where this ad falls behind. Each new competitor uses one audit.
+            </p>
+
+            <div className="flex flex-wrap gap-3 mb-4">
+                <select
+                    value={activeSetId ?? ''}
+                    onChange={(e) => selectSet(e.target.value)}
+                    disabled={running}
+                    className={`${inputClass} flex-1 min-w-[200px]`}
+                    aria-label="Benchmark set"
+                >
+                    <option value="">New benchmark set</option>
+                    {niches.map((group) => (
+                        <optgroup key={group} label={group}>
+                            {sets
+                                .filter((set) => set.niche === group)
+                                .map((set) => (
+                                    <option key={set.id} value={set.id}>
+                                        {set.name} ({set.competitors.length})
+                                    </option>
+                                ))}
+                        </optgroup>
+                    ))}
+                </select>
+                {activeSetId && canEdit && (
+                    <button onClick={removeSet} disabled={running} className="text-xs text-gray-500 hover:text-[#ff2e63] transition-colors disabled:opacity-40">
+                        Delete set
+                    </button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {competitors.map((competitor) => (
+                    <span key={competitor.id} className="flex items-center gap-2 text-xs text-gray-300 bg-white/5 rounded-md pl-1 pr-2 py-1 max-w-[220px]">
+                        {competitor.thumbnail ? (
+                            <img src={competitor.thumbnail} alt="" className="w-8 h-5 object-cover rounded-sm shrink-0" />
+                        ) : (
+                            <i className="fa-solid fa-film text-gray-600 ml-1"></i>
+                        )}
+                        <span className="truncate" title={competitor.creativeName}>{competitor.creativeName}</span>
+                        {canEdit && (
+                            <button
+                                onClick={() => setCompetitors((current) => current.filter((c) => c.id !== competitor.id))}
+                                disabled={running}
+                                className="text-gray-500 hover:text-white shrink-0"
+                                aria-label={`Remove ${competitor.creativeName}`}
+                            >
+                                <i className="fa-solid fa-xmark text-[10px]"></i>
+                            </button>
+                        )}
+                    </span>
+                ))}
+                <input
+                    ref={inputRef}
+                    type="file"
+                    multiple
+                    accept={[...ACCEPTED_VIDEO_EXTENSIONS, 'video/mp4', 'video/quicktime'].join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                        addCompetitors(Array.from(e.target.files ?? []));
+                        e.target.value = '';
+                    }}
+                />
+                {running ? (
+                    <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="px-3 py-1 rounded-md border border-[#ff2e63]/40 text-[#ff2e63] text-xs font-bold hover:bg-[#ff2e63]/10 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                ) : (
+                    canEdit && room > 0 && (
+                        <button
+                            onClick={() => inputRef.current?.click()}
+                            className="px-3 py-1 rounded-md border border-dashed border-white/20 text-xs text-gray-400 hover:text-white hover:border-white/40 transition-colors"
+                        >
+                            <i className="fa-solid fa-plus mr-1.5"></i>Add competitors ({room} left)
+                        </button>
+                    )
+                )}
+            </div>
+
+            {status && <div className="text-xs text-gray-400 font-mono mb-4"><i className="fa-solid fa-spinner fa-spin mr-2"></i>{status}</div>}
+            {error && <div className="text-xs text-[#ff2e63] mb-4">{error}</div>}
+
+            {comparison && (
+                <>
+                    <BenchmarkMatrix comparison={comparison} />
+                    {canEdit && (
+                        <form onSubmit={save} className="flex flex-wrap gap-3 mt-6 pt-5 border-t border-white/5">
+                            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Set name" className={`${inputClass} flex-1 min-w-[140px]`} aria-label="Set name" />
+                            <input
+                                value={niche}
+                                onChange={(e) => setNiche(e.target.value)}
+                                placeholder="Niche, e.g. skincare"
+                                list="benchmark-niches"
+                                className={`${inputClass} flex-1 min-w-[140px]`}
+                                aria-label="Niche"
+                            />
+                            <datalist id="benchmark-niches">
+                                {niches.map((group) => <option key={group} value={group} />)}
+                            </datalist>
+                            <button
+                                type="submit"
+                                disabled={running}
+                                className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all disabled:opacity-50"
+                            >
+                                {activeSetId ? 'Update Set' : 'Save Set'}
+                            </button>
+                        </form>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BenchmarkPanel;
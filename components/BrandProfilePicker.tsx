@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from "react";
+import { BrandProfile } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { Link } from "../context/RouterContext";
+import { ROUTES } from "../constants";
+import { listBrandProfiles, readSelectedBrandProfileId, writeSelectedBrandProfileId } from "../services/brandProfileStore";
+
+// Chooses the brand profile audits in the current library are checked against. The choice is
+// remembered per library, so batches and the extension pick it up as well.
+const BrandProfilePicker = ({ onChange, disabled }: { onChange?: (profile: BrandProfile | null) => void; disabled?: boolean }) => {
+    const { library } = useWorkspace();
+    const [profiles, setProfiles] = useState<BrandProfile[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!library) return;
+        let cancelled = false;
+        listBrandProfiles(library)
+            .then((list) => {
+                if (cancelled) return;
+                const selected = list.find((profile) => profile.id === readSelectedBrandProfileId(library)) ?? null;
+                setProfiles(list);
+                setSelectedId(selected?.id ?? null);
+                onChange?.(selected);
+            })
+            .catch(() => !cancelled && setProfiles([]));
+        return () => {
+            cancelled = true;
+        };
+    }, [library?.userId, library?.workspaceId]);
+
+    const select = (id: string) => {
+        if (!library) return;
+        const profile = profiles.find((candidate) => candidate.id === id) ?? null;
+        writeSelectedBrandProfileId(library, profile?.id ?? null);
+        setSelectedId(profile?.id ?? null);
+        onChange?.(profile);
+    };
+
+    return (
+        <div className="flex items-center gap-3 text-xs">
+            <span className="text-gray-500 whitespace-nowrap">Brand profile</span>
+            <select
+                value={selectedId ?? ''}
+                onChange={(e) => select(e.target.value)}
+                disabled={disabled || !profiles.length}
+                className="flex-1 min-w-0 bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30 disabled:opacity-50"
+                aria-label="Brand profile"
+            >
+                <option value="">{profiles.length ? 'None' : 'No profiles yet'}</option>
+                {profiles.map((profile) => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+            <Link to={ROUTES.brands} className="text-gray-400 hover:text-white transition-colors whitespace-nowrap">
+                Manage
+            </Link>
+        </div>
+    );
+};
+
+export default BrandProfilePicker;
@@ -0,0 +1,126 @@
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuth } from "../context/AuthContext";
+import { SubscriptionEventName, WebhookResult } from "../services/lemonSqueezyWebhooks";
+import { WEBHOOK_FIXTURES, WEBHOOK_SCENARIOS, replayWebhookFixture, replayWebhookScenario } from "../services/localBilling";
+import { getUserPlan } from "../services/entitlements";
+
+// Delivers recorded Lemon Squeezy webhooks for the signed-in account, so plan changes can be
+// exercised without a store or a public URL for the webhook.
+const DevBillingPanel = () => {
+    const { user, refreshUser } = useAuth();
+    const [open, setOpen] = useState(false);
+    const [sending, setSending] = useState<string | null>(null);
+    // A null status means the replay itself failed before the handler answered
+    const [results, setResults] = useState<(Omit<WebhookResult, 'status'> & { status: number | null; id: number; sent: string })[]>([]);
+
+    if (!user) return null;
+
+    const deliver = async (event: SubscriptionEventName, forged = false) => {
+        setSending(forged ? 'forged' : event);
+        const sent = forged ? `${event} (bad signature)` : event;
+        try {
+            const result = await replayWebhookFixture(event, user, forged ? { secret: 'not-the-signing-secret' } : {});
+            setResults((current) => [{ ...result, id: Date.now(), sent }, ...current].slice(0, 5));
+            await refreshUser();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'The webhook could not be replayed.';
+            setResults((current) => [{ status: null, message, id: Date.now(), sent }, ...current].slice(0, 5));
+        } finally {
+            setSending(null);
+        }
+    };
+
+    const deliverScenario = async (name: string) => {
+        setSending(name);
+        try {
+            const steps = await replayWebhookScenario(name, user);
+            const delivered = steps.map(({ event, result }, i) => ({ ...result, id: Date.now() + i, sent: `${name}: ${event}` }));
+            setResults((current) => [...delivered.reverse(), ...current].slice(0, 5));
+            await refreshUser();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'The webhooks could not be replayed.';
+            setResults((current) => [{ status: null, message, id: Date.now(), sent: name }, ...current].slice(0, 5));
+        } finally {
+            setSending(null);
+        }
+    };
+
+    const subscription = user.subscription;
+
+    return (
+        <div className="fixed bottom-4 left-40 z-[300] font-sans">
+            <AnimatePresence>
+                {open && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        className="mb-3 w-[340px] bg-[#111] border border-white/10 rounded-xl shadow-2xl overflow-hidden"
+                    >
+                        <div className="px-4 py-3 border-b border-white/5 flex justify-between items-center">
+                            <span className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Dev Billing Webhooks</span>
+                            <span className="text-[11px] text-gray-400">
+                                {getUserPlan(user)?.name ?? 'No plan'}
+                                {subscription && <span className="text-gray-600"> · {subscription.status}</span>}
+                            </span>
+                        </div>
+                        <div className="p-3 grid gap-1.5">
+                            {(Object.keys(WEBHOOK_FIXTURES) as SubscriptionEventName[]).map((event) => (
+                                <button
+                                    key={event}
+                                    onClick={() => deliver(event)}
+                                    disabled={!!sending}
+                                    className="text-left px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-50 text-xs font-mono text-gray-300 transition-colors flex justify-between"
+                                >
+                                    {event}
+                                    {sending === event && <i className="fa-solid fa-spinner fa-spin text-gray-500"></i>}
+                                </button>
+                            ))}
+                            {Object.keys(WEBHOOK_SCENARIOS).map((name) => (
+                                <button
+                                    key={name}
+                                    onClick={() => deliverScenario(name)}
+                                    disabled={!!sending}
+                                    className="text-left px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-50 text-xs font-mono text-gray-300 transition-colors flex justify-between"
+                                >
+                                    {name} ({WEBHOOK_SCENARIOS[name].length} events)
+                                    {sending === name && <i className="fa-solid fa-spinner fa-spin text-gray-500"></i>}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => deliver('subscription_created', true)}
+                                disabled={!!sending}
+                                className="text-left px-3 py-2 rounded-lg border border-dashed border-white/10 hover:bg-white/5 disabled:opacity-50 text-xs text-gray-500 transition-colors"
+                            >
+                                Send with a bad signature
+                            </button>
+                        </div>
+                        {results.length > 0 && (
+                            <div className="border-t border-white/5 divide-y divide-white/5 max-h-[180px] overflow-y-auto">
+                                {results.map((result) => (
+                                    <div key={result.id} className="px-4 py-2 text-[11px]">
+                                        <div className="flex justify-between gap-2">
+                                            <span className="font-mono text-gray-400 truncate">{result.sent}</span>
+                                            <span className={`font-mono ${result.status === 200 ? 'text-[#08d9d6]' : 'text-[#ff2e63]'}`}>{result.status ?? 'failed'}</span>
+                                        </div>
+                                        <div className="text-gray-500">{result.message}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+            <button
+                onClick={() => setOpen(!open)}
+                className="h-10 px-4 rounded-full bg-[#111] border border-white/10 text-xs text-gray-400 hover:text-white transition-colors flex items-center gap-2 shadow-lg"
+            >
+                <i className="fa-solid fa-credit-card"></i>
+                Billing
+            </button>
+        </div>
+    );
+};
+
+export default DevBillingPanel;
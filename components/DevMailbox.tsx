@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { MailMessage, getMailCapture } from "../services/mailCapture";
+
+// Inbox for the local mail-capture stand-in. Lets reset, verify and magic-link emails be opened
+// without a real mail provider.
+const DevMailbox = () => {
+    const [open, setOpen] = useState(false);
+    const [messages, setMessages] = useState<MailMessage[]>(() => getMailCapture().list());
+
+    useEffect(() => getMailCapture().subscribe(setMessages), []);
+
+    return (
+        <div className="fixed bottom-4 left-4 z-[300] font-sans">
+            <AnimatePresence>
+                {open && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        className="mb-3 w-[360px] max-h-[420px] bg-[#111] border border-white/10 rounded-xl shadow-2xl flex flex-col overflow-hidden"
+                    >
+                        <div className="px-4 py-3 border-b border-white/5 flex justify-between items-center">
+                            <span className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Dev Mailbox</span>
+                            <button
+                                onClick={() => getMailCapture().clear()}
+                                className="text-[11px] text-gray-500 hover:text-white transition-colors"
+                            >
+                                Clear
+                            </button>
+                        </div>
+                        <div className="overflow-y-auto divide-y divide-white/5">
+                            {messages.length === 0 && (
+                                <div className="p-6 text-center text-xs text-gray-600">No emails sent yet.</div>
+                            )}
+                            {messages.map((message) => (
+                                <div key={message.id} className="p-4 text-xs">
+                                    <div className="flex justify-between gap-2 mb-1">
+                                        <span className="text-white font-medium truncate">{message.subject}</span>
+                                        <span className="text-gray-600 font-mono shrink-0">
+                                            {new Date(message.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                        </span>
+                                    </div>
+                                    <div className="text-gray-500 mb-2">To {message.to}</div>
+                                    <p className="text-gray-400 whitespace-pre-line break-words line-clamp-3">{message.text.split('\n\n')[0]}</p>
+                                    {message.link && (
+                                        <a href={message.link} className="inline-block mt-2 text-[#08d9d6] hover:underline">
+                                            Open link <i className="fa-solid fa-arrow-right text-[10px]"></i>
+                                        </a>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+            <button
+                onClick={() => setOpen(!open)}
+                className="h-10 px-4 rounded-full bg-[#111] border border-white/10 text-xs text-gray-400 hover:text-white transition-colors flex items-center gap-2 shadow-lg"
+            >
+                <i className="fa-solid fa-envelope"></i>
+                Mailbox
+                {messages.length > 0 && (
+                    <span className="bg-[#ff2e63] text-white text-[10px] font-bold rounded-full px-1.5">{messages.length}</span>
+                )}
+            </button>
+        </div>
+    );
+};
+
+export default DevMailbox;
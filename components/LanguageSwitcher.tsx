@@ -0,0 +1,21 @@
+import React from "react";
+import { useI18n } from "../context/I18nContext";
+import { LOCALES, LOCALE_LABELS, Locale } from "../services/i18n";
+
+// Picks the UI language. The choice is remembered, and overrides what the browser asks for.
+const LanguageSwitcher = () => {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            className="bg-transparent border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-white/30"
+            aria-label={t.nav.language}
+        >
+            {LOCALES.map((code) => <option key={code} value={code}>{LOCALE_LABELS[code]}</option>)}
+        </select>
+    );
+};
+
+export default LanguageSwitcher;
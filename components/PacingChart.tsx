@@ -0,0 +1,97 @@
+import React from "react";
+import { PacingMetrics } from "../types";
+import { formatTimestamp } from "../services/findings";
+import { deadAirSec } from "../services/pacing";
+
+const WIDTH = 600;
+const HEIGHT = 120;
+const PAD = { top: 10, right: 10, bottom: 22, left: 28 };
+
+// Cut rate over the video, with each cut as a tick along the bottom and dead air shaded.
+// Ticks and shaded ranges seek the video when one is attached.
+const PacingChart = ({
+    pacing,
+    durationSec,
+    onSeek,
+}: {
+    pacing: PacingMetrics;
+    durationSec: number;
+    onSeek?: (startSec: number, findingId: string) => void;
+}) => {
+    const plotWidth = WIDTH - PAD.left - PAD.right;
+    const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+    const span = Math.max(durationSec, 1);
+    // At least one cut per second of headroom so a calm video doesn't look frantic
+    const maxRate = Math.max(1, ...pacing.curve.map((point) => point.cutsPerSec));
+    const x = (sec: number) => PAD.left + (Math.min(sec, span) / span) * plotWidth;
+    const y = (rate: number) => PAD.top + (1 - rate / maxRate) * plotHeight;
+    const baseline = y(0);
+    const line = pacing.curve.map((point) => `${x(point.timeSec)},${y(point.cutsPerSec)}`).join(' ');
+    const seekable = onSeek ? 'cursor-pointer' : undefined;
+
+    return (
+        <div className="mt-3 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2.5">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1">
+                <span>Measured pacing</span>
+                <span className="text-[#08d9d6]">{pacing.cuts.length} cuts</span>
+                <span>Avg shot {pacing.averageShotSec}s</span>
+                <span>{pacing.cutsPerSec} cuts/s</span>
+                {pacing.deadAir.length > 0 && <span className="text-[#ffbd2e]">{deadAirSec(pacing)}s dead air</span>}
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cuts per second over time">
+                {pacing.deadAir.map((range, i) => (
+                    <rect
+                        key={`dead-${i}`}
+                        x={x(range.startSec)}
+                        y={PAD.top}
+                        width={Math.max(x(range.endSec) - x(range.startSec), 1)}
+                        height={plotHeight}
+                        fill="rgba(255,189,46,0.12)"
+                        className={seekable}
+                        onClick={() => onSeek?.(range.startSec, `pacing-dead-${i}`)}
+                    >
+                        <title>{`Dead air ${formatTimestamp(range.startSec)}-${formatTimestamp(range.endSec)}`}</title>
+                    </rect>
+                ))}
+                {[0, maxRate].map((rate) => (
+                    <g key={rate}>
+                        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(rate)} y2={y(rate)} stroke="rgba(255,255,255,0.06)" />
+                        <text x={PAD.left - 6} y={y(rate) + 3} textAnchor="end" className="fill-gray-600 text-[10px] font-mono">
+                            {Number(rate.toFixed(1))}
+                        </text>
+                    </g>
+                ))}
+                {pacing.curve.length > 1 && (
+                    <>
+                        <polygon
+                            points={`${x(pacing.curve[0].timeSec)},${baseline} ${line} ${x(pacing.curve[pacing.curve.length - 1].timeSec)},${baseline}`}
+                            fill="rgba(8,217,214,0.12)"
+                        />
+                        <polyline points={line} fill="none" stroke="#08d9d6" strokeWidth={1.5} strokeLinejoin="round" />
+                    </>
+                )}
+                {pacing.cuts.map((cut, i) => (
+                    <line
+                        key={`cut-${i}`}
+                        x1={x(cut)}
+                        x2={x(cut)}
+                        y1={baseline - 6}
+                        y2={baseline + 4}
+                        stroke="#08d9d6"
+                        strokeWidth={2}
+                        className={seekable}
+                        onClick={() => onSeek?.(cut, `pacing-cut-${i}`)}
+                    >
+                        <title>{`Cut at ${formatTimestamp(cut)}`}</title>
+                    </line>
+                ))}
+                <text x={PAD.left} y={HEIGHT - 6} className="fill-gray-600 text-[10px] font-mono">0:00</text>
+                <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-600 text-[10px] font-mono">
+                    {formatTimestamp(durationSec)}
+                </text>
+            </svg>
+        </div>
+    );
+};
+
+export default PacingChart;
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { PLACEMENTS, PLACEMENT_ORDER, Placement, PlacementId, PlacementWarning } from "../services/placements";
+import { usePlacementWarnings } from "../hooks/usePlacementWarnings";
+
+// The creative as a placement shows it: cropped to the placement's ratio (object-cover crops from the
+// centre, as Meta does) with the platform UI's safe zones marked on top.
+export const PlacementFrame = ({
+    placement,
+    src,
+    showSafeZones = true,
+    className = '',
+}: {
+    placement: Placement;
+    src?: string | null;
+    showSafeZones?: boolean;
+    className?: string;
+}) => (
+    <div className={`relative overflow-hidden bg-black ${className}`} style={{ aspectRatio: placement.ratio }}>
+        {src ? (
+            <video src={src} muted loop autoPlay playsInline className="absolute inset-0 w-full h-full object-cover" />
+        ) : (
+            <div className="absolute inset-0 bg-gradient-to-tr from-gray-900 to-gray-800 flex items-center justify-center">
+                <i className="fa-solid fa-play text-4xl text-white/10"></i>
+            </div>
+        )}
+        {showSafeZones &&
+            placement.safeZones.map((zone) => (
+                <div
+                    key={zone.label}
+                    title={`Covered by ${zone.label}`}
+                    className="absolute border border-dashed border-[#ff2e63]/60 bg-[#ff2e63]/15"
+                    style={{ left: `${zone.x * 100}%`, top: `${zone.y * 100}%`, width: `${zone.width * 100}%`, height: `${zone.height * 100}%` }}
+                />
+            ))}
+    </div>
+);
+
+export const PlacementTabs = ({
+    active,
+    onChange,
+    warnings,
+    className = '',
+}: {
+    active: PlacementId;
+    onChange: (id: PlacementId) => void;
+    warnings?: Record<PlacementId, PlacementWarning[]> | null;
+    className?: string;
+}) => (
+    <div className={`flex justify-center gap-6 text-sm text-gray-400 ${className}`} role="tablist">
+        {PLACEMENT_ORDER.map((id) => {
+            const count = warnings?.[id].filter((warning) => warning.severity === 'warning').length ?? 0;
+            return (
+                <button
+                    key={id}
+                    role="tab"
+                    aria-selected={id === active}
+                    onClick={() => onChange(id)}
+                    className={`pb-1 border-b-2 transition-colors ${id === active ? 'text-[#2d88ff] border-[#2d88ff]' : 'border-transparent hover:text-gray-300'}`}
+                >
+                    {PLACEMENTS[id].label}
+                    {count > 0 && <span className="ml-1.5 text-[10px] font-mono text-[#ffbd2e]">{count}</span>}
+                </button>
+            );
+        })}
+    </div>
+);
+
+export const PlacementWarnings = ({ warnings, checking }: { warnings: PlacementWarning[]; checking?: boolean }) => (
+    <ul className="space-y-1.5 text-xs">
+        {warnings.map((warning, i) => (
+            <li key={i} className={`flex gap-2 ${warning.severity === 'warning' ? 'text-[#ffbd2e]' : 'text-gray-400'}`}>
+                <i className={`fa-solid ${warning.severity === 'warning' ? 'fa-triangle-exclamation' : 'fa-circle-info'} mt-0.5`}></i>
+                <span>{warning.message}</span>
+            </li>
+        ))}
+        {checking && <li className="text-gray-500">Checking safe zones…</li>}
+        {!checking && !warnings.length && (
+            <li className="text-[#08d9d6] flex gap-2">
+                <i className="fa-solid fa-circle-check mt-0.5"></i>
+                <span>Fits this placement, with nothing under the platform UI.</span>
+            </li>
+        )}
+    </ul>
+);
+
+// Tabbed placement previews of an uploaded creative, with its format and safe-zone warnings
+const PlacementPreview = ({ src, width, height }: { src: string; width: number; height: number }) => {
+    const [active, setActive] = useState<PlacementId>('facebook_feed');
+    const { warnings, checkingSafeZones } = usePlacementWarnings(src, width, height);
+    const placement = PLACEMENTS[active];
+
+    return (
+        <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-4">Placements</div>
+            <PlacementTabs active={active} onChange={setActive} warnings={warnings} className="mb-5" />
+            <div className="grid sm:grid-cols-[220px_1fr] gap-5 items-start">
+                <PlacementFrame placement={placement} src={src} className="w-full max-w-[220px] mx-auto rounded-lg border border-white/10" />
+                <div>
+                    <div className="text-xs text-gray-500 mb-3">
+                        {placement.label} · {placement.ratioLabel} · shaded areas are covered by the app's UI
+                    </div>
+                    <PlacementWarnings warnings={warnings?.[active] ?? []} checking={checkingSafeZones} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PlacementPreview;
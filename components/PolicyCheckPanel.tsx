@@ -0,0 +1,210 @@
+import React, { useState, useMemo, useRef } from "react";
+import { SavedAudit } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import UpgradePrompt from "./UpgradePrompt";
+import { updateAudit } from "../services/auditStore";
+import { quotedScriptLines } from "../services/scriptRewrites";
+import { transcriptText } from "../services/transcripts";
+import {
+    POLICY_SEVERITY_ORDER,
+    POLICY_SOURCE_LABELS,
+    PolicyHit,
+    PolicyPackError,
+    PolicySeverity,
+    PolicySourceKind,
+    checkPolicy,
+    countBySeverity,
+    verifyRulePack,
+} from "../services/policyEngine";
+import { BUILT_IN_POLICY_PACKS, DEFAULT_POLICY_PACK, importPolicyPack, listPolicyPacks, loadPolicyPack, packKey, removePolicyPack } from "../services/policyPacks";
+
+const SEVERITY_STYLES: Record<PolicySeverity, string> = {
+    high: 'text-[#ff2e63] bg-[#ff2e63]/10',
+    medium: 'text-[#ffbd2e] bg-[#ffbd2e]/10',
+    low: 'text-gray-400 bg-white/5',
+};
+
+const defaultKey = packKey(BUILT_IN_POLICY_PACKS.find((pack) => pack.id === DEFAULT_POLICY_PACK));
+
+const SOURCE_KINDS = Object.keys(POLICY_SOURCE_LABELS) as PolicySourceKind[];
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const HitRow = ({ hit }: { hit: PolicyHit }) => {
+    const offset = hit.start - hit.context.start;
+    const { text } = hit.context;
+    return (
+        <li className="py-3">
+            <div className="flex flex-wrap items-center gap-2 mb-1.5">
+                <span className={`text-[10px] font-mono uppercase tracking-widest rounded px-2 py-0.5 ${SEVERITY_STYLES[hit.severity]}`}>{hit.severity}</span>
+                <span className="text-sm text-white font-medium">{hit.title}</span>
+                <span className="text-[10px] font-mono text-gray-600 uppercase tracking-widest">{POLICY_SOURCE_LABELS[hit.source]}</span>
+            </div>
+            <p className="text-sm text-gray-400 mb-1.5">
+                “{text.slice(0, offset)}
+                <mark className="bg-[#ff2e63]/20 text-white rounded px-0.5">{text.slice(offset, offset + hit.match.length)}</mark>
+                {text.slice(offset + hit.match.length)}”
+            </p>
+            <p className="text-xs text-gray-500">{hit.explanation}</p>
+        </li>
+    );
+};
+
+// Runs the selected rule pack over the ad's copy, on-screen text and transcript as they're typed.
+// Everything happens locally; the text is saved with the audit.
+const PolicyCheckPanel = ({ audit, onChange }: { audit: SavedAudit; onChange: (audit: SavedAudit) => void }) => {
+    const { user } = useAuth();
+    const { library } = useWorkspace();
+    const { check } = useEntitlements();
+    const [text, setText] = useState<Record<PolicySourceKind, string>>(() => ({
+        copy: audit.adText?.copy ?? '',
+        onscreen: audit.adText?.onscreen ?? '',
+        // The imported transcript, or failing that the lines the audit quotes, until one is pasted here
+        transcript: audit.adText?.transcript ?? (audit.transcript ? transcriptText(audit.transcript) : quotedScriptLines(audit.report)),
+    }));
+    const [packs, setPacks] = useState(() => listPolicyPacks(user));
+    const [selected, setSelected] = useState(defaultKey);
+    const [importError, setImportError] = useState<string[] | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const access = check({ type: 'feature', feature: 'policy_check' });
+
+    const resolved = useMemo(() => {
+        try {
+            return { pack: loadPolicyPack(user, selected), error: null };
+        } catch (err) {
+            return { pack: null, error: err instanceof Error ? err.message : 'This pack could not be loaded.' };
+        }
+    }, [user, selected, packs]);
+
+    const fixtureFailures = useMemo(() => (resolved.pack ? verifyRulePack(resolved.pack) : []), [resolved]);
+
+    const hits = useMemo(
+        () => (resolved.pack ? checkPolicy(resolved.pack, SOURCE_KINDS.map((kind) => ({ kind, text: text[kind] }))) : []),
+        [resolved, text]
+    );
+    const counts = countBySeverity(hits);
+
+    if (!access.allowed) return <UpgradePrompt decision={access} compact />;
+
+    const persist = async () => {
+        if (!library || !check({ type: 'action', action: 'library.edit' }).allowed) return;
+        const changed = SOURCE_KINDS.some((kind) => (audit.adText?.[kind] ?? '') !== text[kind]);
+        if (changed) onChange(await updateAudit(library, audit.id, { adText: text }).catch(() => audit));
+    };
+
+    const importPack = async (file: File) => {
+        if (!user) return;
+        try {
+            const pack = importPolicyPack(user, await file.text());
+            setPacks(listPolicyPacks(user));
+            setSelected(packKey(pack));
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof PolicyPackError ? err.problems : ['The pack could not be imported.']);
+        }
+    };
+
+    const removePack = () => {
+        if (!user || !window.confirm(`Remove the rule pack ${selected}?`)) return;
+        removePolicyPack(user, selected);
+        setPacks(listPolicyPacks(user));
+        setSelected(defaultKey);
+    };
+
+    const isCustom = !BUILT_IN_POLICY_PACKS.some((pack) => packKey(pack) === selected);
+
+    return (
+        <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1">Policy check</div>
+            <p className="text-xs text-gray-500 mb-4">
+                Flags wording ad platforms commonly reject. It's a pattern check, not a guarantee of approval.
+            </p>
+
+            <div className="grid md:grid-cols-3 gap-3 mb-4">
+                {SOURCE_KINDS.map((kind) => (
+                    <label key={kind} className="block">
+                        <span className="block text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1.5">{POLICY_SOURCE_LABELS[kind]}</span>
+                        <textarea
+                            value={text[kind]}
+                            onChange={(e) => setText((current) => ({ ...current, [kind]: e.target.value }))}
+                            onBlur={persist}
+                            rows={5}
+                            className={`${inputClass} w-full leading-relaxed`}
+                        />
+                    </label>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-2">
+                <select value={selected} onChange={(e) => setSelected(e.target.value)} className={inputClass} aria-label="Rule pack">
+                    {packs.map((pack) => (
+                        <option key={packKey(pack)} value={packKey(pack)}>
+                            {pack.name} v{pack.version}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importPack(file);
+                        e.target.value = '';
+                    }}
+                />
+                <button onClick={() => fileRef.current?.click()} className="text-xs text-gray-400 hover:text-white transition-colors">
+                    <i className="fa-solid fa-file-import mr-1.5"></i>Import pack
+                </button>
+                {isCustom && (
+                    <button onClick={removePack} className="text-xs text-gray-500 hover:text-[#ff2e63] transition-colors">
+                        Remove pack
+                    </button>
+                )}
+            </div>
+            {resolved.pack && (
+                <div className="text-[11px] font-mono text-gray-600 mb-4">
+                    {resolved.pack.lineage.join(' → ')} · {resolved.pack.rules.length} rules ·{' '}
+                    {fixtureFailures.length ? (
+                        <span className="text-[#ffbd2e]" title={fixtureFailures.map((f) => `${f.ruleId}: ${f.example}`).join('\n')}>
+                            {fixtureFailures.length} rule {fixtureFailures.length === 1 ? 'example fails' : 'examples fail'}
+                        </span>
+                    ) : (
+                        'all rule examples pass'
+                    )}
+                </div>
+            )}
+            {resolved.error && <div className="text-xs text-[#ff2e63] mb-4">{resolved.error}</div>}
+            {importError && (
+                <ul className="text-xs text-[#ff2e63] mb-4 space-y-1">
+                    {importError.map((problem) => <li key={problem}>{problem}</li>)}
+                </ul>
+            )}
+
+            <div className="border-t border-white/5 pt-4">
+                <div className="flex flex-wrap gap-4 text-xs font-mono mb-1">
+                    {POLICY_SEVERITY_ORDER.map((severity) => (
+                        <span key={severity} className={counts[severity] ? SEVERITY_STYLES[severity].split(' ')[0] : 'text-gray-600'}>
+                            {counts[severity]} {severity}
+                        </span>
+                    ))}
+                </div>
+                {hits.length ? (
+                    <ul className="divide-y divide-white/5">
+                        {hits.map((hit) => <HitRow key={hit.id} hit={hit} />)}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500 py-3">
+                        {SOURCE_KINDS.some((kind) => text[kind].trim()) ? 'No policy issues found.' : 'Paste the ad text above to check it.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PolicyCheckPanel;
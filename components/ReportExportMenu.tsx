@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from "react";
+import { AuditReport } from "../types";
+import { ReportExportFormat, ReportExportMeta, copyReportMarkdown, downloadReport } from "../services/reportExport";
+
+const FORMATS: { format: ReportExportFormat; label: string; icon: string }[] = [
+    { format: 'pdf', label: 'PDF', icon: 'fa-file-pdf' },
+    { format: 'markdown', label: 'Markdown', icon: 'fa-file-lines' },
+    { format: 'csv', label: 'CSV (one row per finding)', icon: 'fa-file-csv' },
+    { format: 'json', label: 'JSON', icon: 'fa-file-code' },
+];
+
+export const useCopyReport = (report: AuditReport | null, meta: ReportExportMeta = {}) => {
+    const [state, setState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    useEffect(() => {
+        if (state === 'idle') return;
+        const timer = setTimeout(() => setState('idle'), 2000);
+        return () => clearTimeout(timer);
+    }, [state]);
+
+    const copy = async () => {
+        if (!report) return;
+        try {
+            await copyReportMarkdown(report, meta);
+            setState('copied');
+        } catch {
+            setState('failed');
+        }
+    };
+
+    return { state, copy };
+};
+
+// Copy-as-Markdown plus a download menu for every export format
+const ReportExportMenu = ({ report, meta }: { report: AuditReport; meta: ReportExportMeta }) => {
+    const [open, setOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const { state, copy } = useCopyReport(report, meta);
+
+    useEffect(() => {
+        if (!open) return;
+        const close = (e: MouseEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', close);
+        return () => document.removeEventListener('mousedown', close);
+    }, [open]);
+
+    return (
+        <div ref={menuRef} className="relative flex items-center gap-1">
+            <button
+                onClick={copy}
+                className="px-2.5 py-1.5 rounded-md text-[11px] text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                title="Copy as Markdown"
+            >
+                <i className={`fa-solid ${state === 'copied' ? 'fa-check text-[#08d9d6]' : 'fa-copy'} mr-1.5`}></i>
+                {state === 'copied' ? 'Copied' : state === 'failed' ? 'Copy failed' : 'Copy'}
+            </button>
+            <button
+                onClick={() => setOpen(!open)}
+                className="px-2.5 py-1.5 rounded-md text-[11px] text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                aria-expanded={open}
+            >
+                <i className="fa-solid fa-download mr-1.5"></i>Export
+            </button>
+            {open && (
+                <div className="absolute right-0 top-full mt-1 w-56 bg-[#181818] border border-white/10 rounded-lg shadow-2xl py-1 z-30">
+                    {FORMATS.map(({ format, label, icon }) => (
+                        <button
+                            key={format}
+                            onClick={() => {
+                                downloadReport(report, meta, format);
+                                setOpen(false);
+                            }}
+                            className="w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-white/5 flex items-center gap-2"
+                        >
+                            <i className={`fa-solid ${icon} w-4 text-gray-500`}></i>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReportExportMenu;
@@ -0,0 +1,28 @@
+import React, { useEffect } from "react";
+import { useAuth } from "../context/AuthContext";
+import { useRouter } from "../context/RouterContext";
+import { ROUTES } from "../constants";
+
+// Wraps signed-in pages. Visitors are sent to /login with the page they wanted as ?next=,
+// and the login route sends them back once they're in.
+const RequireAuth = ({ children }: { children: React.ReactNode }) => {
+    const { user, isLoading } = useAuth();
+    const { location, navigate } = useRouter();
+
+    useEffect(() => {
+        if (isLoading || user) return;
+        const next = `${location.pathname}${location.search}${location.hash}`;
+        navigate(`${ROUTES.login}?next=${encodeURIComponent(next)}`, { replace: true });
+    }, [isLoading, user, location, navigate]);
+
+    if (!user) {
+        return (
+            <div className="min-h-screen flex items-center justify-center text-gray-600 relative z-10">
+                <i className="fa-solid fa-spinner fa-spin"></i>
+            </div>
+        );
+    }
+    return <>{children}</>;
+};
+
+export default RequireAuth;
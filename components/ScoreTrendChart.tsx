@@ -0,0 +1,74 @@
+import React from "react";
+import { SavedAudit } from "../types";
+import { formatScore, scoreColor } from "./AuditReportView";
+import { auditScore } from "../services/auditStore";
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 12, bottom: 24, left: 28 };
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Scores over time, oldest on the left. Points are spaced by date rather than evenly,
+// so a burst of audits in one week doesn't stretch that week across the chart.
+const ScoreTrendChart = ({ audits }: { audits: SavedAudit[] }) => {
+    const points = [...audits].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (points.length < 2) {
+        return <div className="h-[180px] flex items-center justify-center text-xs text-gray-600">Run at least two audits to see a trend.</div>;
+    }
+
+    const first = Date.parse(points[0].createdAt);
+    const span = Math.max(Date.parse(points[points.length - 1].createdAt) - first, 1);
+    const plotWidth = WIDTH - PAD.left - PAD.right;
+    const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+    const x = (audit: SavedAudit) => PAD.left + ((Date.parse(audit.createdAt) - first) / span) * plotWidth;
+    const y = (score: number) => PAD.top + (1 - score / 10) * plotHeight;
+    const average = points.reduce((sum, audit) => sum + auditScore(audit), 0) / points.length;
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Score trend">
+            {[0, 5, 10].map((score) => (
+                <g key={score}>
+                    <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(score)} y2={y(score)} stroke="rgba(255,255,255,0.06)" />
+                    <text x={PAD.left - 8} y={y(score) + 3} textAnchor="end" className="fill-gray-600 text-[10px] font-mono">{score}</text>
+                </g>
+            ))}
+            <line
+                x1={PAD.left}
+                x2={WIDTH - PAD.right}
+                y1={y(average)}
+                y2={y(average)}
+                stroke="rgba(255,255,255,0.25)"
+                strokeDasharray="4 4"
+            >
+                <title>Average {average.toFixed(1)}/10</title>
+            </line>
+            <polyline
+                points={points.map((audit) => `${x(audit)},${y(auditScore(audit))}`).join(' ')}
+                fill="none"
+                stroke="#a78bfa"
+                strokeWidth={2}
+                strokeLinejoin="round"
+            />
+            {points.map((audit) => (
+                <circle
+                    key={audit.id}
+                    cx={x(audit)}
+                    cy={y(auditScore(audit))}
+                    r={4}
+                    fill={scoreColor(auditScore(audit), 10)}
+                    stroke="#111"
+                    strokeWidth={2}
+                >
+                    <title>{`${audit.creativeName}: ${formatScore(auditScore(audit))}/10 on ${formatDay(audit.createdAt)}`}</title>
+                </circle>
+            ))}
+            <text x={PAD.left} y={HEIGHT - 6} className="fill-gray-600 text-[10px] font-mono">{formatDay(points[0].createdAt)}</text>
+            <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-600 text-[10px] font-mono">
+                {formatDay(points[points.length - 1].createdAt)}
+            </text>
+        </svg>
+    );
+};
+
+export default ScoreTrendChart;
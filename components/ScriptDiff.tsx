@@ -0,0 +1,22 @@
+import React from "react";
+import { DiffSegment } from "../services/textDiff";
+
+// Inline word diff: removed words struck through in pink, added words highlighted in teal
+const ScriptDiff = ({ segments }: { segments: DiffSegment[] }) => (
+    <p className="text-sm leading-relaxed text-gray-300">
+        {segments.map((segment, i) => (
+            <React.Fragment key={i}>
+                {i > 0 && ' '}
+                {segment.type === 'same' ? (
+                    segment.text
+                ) : segment.type === 'added' ? (
+                    <ins className="no-underline bg-[#08d9d6]/15 text-[#08d9d6] rounded px-0.5">{segment.text}</ins>
+                ) : (
+                    <del className="bg-[#ff2e63]/10 text-[#ff2e63]/70 rounded px-0.5">{segment.text}</del>
+                )}
+            </React.Fragment>
+        ))}
+    </p>
+);
+
+export default ScriptDiff;
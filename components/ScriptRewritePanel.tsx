@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { SavedAudit, ScriptVariant } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import UpgradePrompt from "./UpgradePrompt";
+import ScriptDiff from "./ScriptDiff";
+import { diffWords, similarity } from "../services/textDiff";
+import { formatTimestamp } from "../services/findings";
+import { downloadFile } from "../services/reportExport";
+import { describeAuditError, isAuditError } from "../services/auditErrors";
+import {
+    DEFAULT_VARIANT_COUNT,
+    draftToText,
+    estimateRuntimeSec,
+    formatBeats,
+    generateScriptVariants,
+    latestVersion,
+    parseBeats,
+    quotedScriptLines,
+    shotListFileName,
+    shotListToCsv,
+    shotListToMarkdown,
+} from "../services/scriptRewrites";
+import { addVariantVersion, deleteVariant, listVariants, saveGeneratedVariants, setVariantStarred, sortVariants } from "../services/rewriteStore";
+import { transcriptText } from "../services/transcripts";
+
+const RUNTIME_OPTIONS: { label: string; sec?: number }[] = [
+    { label: 'Keep the original length' },
+    { label: '15 second cut', sec: 15 },
+    { label: '30 second cut', sec: 30 },
+    { label: '60 second cut', sec: 60 },
+];
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const iconButton = 'w-7 h-7 rounded-md text-gray-500 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-40';
+
+const VariantCard = ({
+    variant,
+    creativeName,
+    onChange,
+    onDelete,
+}: {
+    variant: ScriptVariant;
+    creativeName: string;
+    onChange: (variant: ScriptVariant) => void;
+    onDelete: (id: string) => void;
+}) => {
+    const { user } = useAuth();
+    const [versionIndex, setVersionIndex] = useState(variant.versions.length - 1);
+    const [editing, setEditing] = useState(false);
+    const [hookDraft, setHookDraft] = useState('');
+    const [beatsDraft, setBeatsDraft] = useState('');
+    const [view, setView] = useState<'script' | 'diff'>('script');
+    const [error, setError] = useState<string | null>(null);
+
+    // A new version is always the one to show
+    useEffect(() => setVersionIndex(variant.versions.length - 1), [variant.versions.length]);
+
+    const version = variant.versions[versionIndex] ?? latestVersion(variant);
+    const isLatest = versionIndex === variant.versions.length - 1;
+    const segments = useMemo(
+        () => (variant.original.trim() ? diffWords(variant.original, draftToText(version)) : null),
+        [variant.original, version]
+    );
+
+    const save = async (work: () => Promise<ScriptVariant>) => {
+        try {
+            onChange(await work());
+            setError(null);
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save.');
+            return false;
+        }
+    };
+
+    const startEditing = () => {
+        setHookDraft(version.hook);
+        setBeatsDraft(formatBeats(version.beats));
+        setEditing(true);
+    };
+
+    const saveEdit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        if (await save(() => addVariantVersion(user, variant.id, { hook: hookDraft, beats: parseBeats(beatsDraft) }))) setEditing(false);
+    };
+
+    const exportShotList = (extension: 'md' | 'csv') => {
+        const fileName = shotListFileName(creativeName, variant.tone, versionIndex + 1, extension);
+        if (extension === 'csv') downloadFile(fileName, ['\uFEFF', shotListToCsv(version)], 'text/csv;charset=utf-8');
+        else downloadFile(fileName, [shotListToMarkdown(version, { title: creativeName, tone: variant.tone })], 'text/markdown;charset=utf-8');
+    };
+
+    return (
+        <div className={`rounded-lg border bg-[#111] p-4 ${variant.starred ? 'border-[#ffbd2e]/30' : 'border-white/10'}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="text-[10px] font-mono uppercase tracking-widest text-[#a78bfa] bg-[#a78bfa]/10 rounded px-2 py-1">{variant.tone}</span>
+                <span className="text-xs font-mono text-gray-500" title="Estimated from word count">~{formatTimestamp(estimateRuntimeSec(version))}</span>
+                {segments && (
+                    <span className="text-xs font-mono text-gray-600">{Math.round((1 - similarity(segments)) * 100)}% new</span>
+                )}
+                {variant.versions.length > 1 && (
+                    <select
+                        value={versionIndex}
+                        onChange={(e) => {
+                            setVersionIndex(Number(e.target.value));
+                            setEditing(false);
+                        }}
+                        className="bg-transparent text-xs text-gray-400 border border-white/10 rounded px-1.5 py-0.5 focus:outline-none"
+                        aria-label="Version"
+                    >
+                        {variant.versions.map((v, i) => (
+                            <option key={v.createdAt + i} value={i}>
+                                v{i + 1}{i === 0 ? ' (generated)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <div className="ml-auto flex items-center">
+                    <button
+                        onClick={() => user && save(() => setVariantStarred(user, variant.id, !variant.starred))}
+                        className={iconButton}
+                        title={variant.starred ? 'Unstar' : 'Star'}
+                    >
+                        <i className={`${variant.starred ? 'fa-solid text-[#ffbd2e]' : 'fa-regular'} fa-star`}></i>
+                    </button>
+                    <button onClick={startEditing} disabled={editing} className={iconButton} title="Edit as a new version">
+                        <i className="fa-solid fa-pen"></i>
+                    </button>
+                    <button onClick={() => exportShotList('md')} className={iconButton} title="Export shot list (Markdown)">
+                        <i className="fa-solid fa-file-lines"></i>
+                    </button>
+                    <button onClick={() => exportShotList('csv')} className={iconButton} title="Export shot list (CSV)">
+                        <i className="fa-solid fa-file-csv"></i>
+                    </button>
+                    <button onClick={() => onDelete(variant.id)} className={`${iconButton} hover:text-[#ff2e63]`} title="Delete variant">
+                        <i className="fa-solid fa-trash"></i>
+                    </button>
+                </div>
+            </div>
+
+            {editing ? (
+                <form onSubmit={saveEdit} className="space-y-3">
+                    <input value={hookDraft} onChange={(e) => setHookDraft(e.target.value)} className={`${inputClass} w-full`} aria-label="Hook" placeholder="Hook" />
+                    <textarea
+                        value={beatsDraft}
+                        onChange={(e) => setBeatsDraft(e.target.value)}
+                        rows={Math.max(4, version.beats.length + 1)}
+                        className={`${inputClass} w-full font-mono text-xs leading-relaxed`}
+                        aria-label="Script lines"
+                    />
+                    <div className="text-[11px] text-gray-600">One line per beat, as "voiceover | what's on screen". Saving keeps the previous version.</div>
+                    <div className="flex gap-2">
+                        <button type="submit" className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all">
+                            Save Version
+                        </button>
+                        <button type="button" onClick={() => setEditing(false)} className="px-4 py-2 rounded-lg border border-white/10 text-xs hover:bg-white/5">
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <>
+                    {segments && (
+                        <div className="flex gap-1 mb-3">
+                            {(['script', 'diff'] as const).map((option) => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    className={`text-[11px] px-2 py-1 rounded ${view === option ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white'}`}
+                                >
+                                    {option === 'script' ? 'Script' : 'Changes vs original'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {view === 'diff' && segments ? (
+                        <ScriptDiff segments={segments} />
+                    ) : (
+                        <>
+                            <div className="text-white font-medium mb-3">“{version.hook}”</div>
+                            <ol className="space-y-1.5">
+                                {version.beats.map((beat, i) => (
+                                    <li key={i} className="flex gap-3 text-sm">
+                                        <span className="font-mono text-gray-600 w-4 shrink-0">{i + 1}</span>
+                                        <span>
+                                            <span className="text-gray-300">{beat.voiceover}</span>
+                                            {beat.visual && <span className="block text-xs text-gray-600 mt-0.5">{beat.visual}</span>}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </>
+                    )}
+                    {!isLatest && user && (
+                        <button
+                            onClick={() => save(() => addVariantVersion(user, variant.id, version))}
+                            className="mt-3 text-xs text-gray-400 hover:text-white transition-colors"
+                        >
+                            <i className="fa-solid fa-rotate-left mr-1.5"></i>Restore this version
+                        </button>
+                    )}
+                </>
+            )}
+            {error && <div className="text-xs text-[#ff2e63] mt-3">{error}</div>}
+        </div>
+    );
+};
+
+// Generates alternative hooks and scripts from an audit. Variants are kept per audit and can be
+// starred, edited into new versions and exported as shot lists.
+const ScriptRewritePanel = ({ audit }: { audit: SavedAudit }) => {
+    const { user } = useAuth();
+    const { check } = useEntitlements();
+    const [original, setOriginal] = useState(() => (audit.transcript ? transcriptText(audit.transcript) : quotedScriptLines(audit.report)));
+    const [runtime, setRuntime] = useState(0);
+    const [variants, setVariants] = useState<ScriptVariant[]>([]);
+    const [generating, setGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const access = check({ type: 'feature', feature: 'script_rewrites' });
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    useEffect(() => {
+        if (!user || !access.allowed) return;
+        let cancelled = false;
+        listVariants(user, audit.id)
+            .then((list) => !cancelled && setVariants(list))
+            .catch(() => !cancelled && setError('Could not load saved variants.'));
+        return () => {
+            cancelled = true;
+        };
+    }, [user, audit.id, access.allowed]);
+
+    if (!access.allowed) return <UpgradePrompt decision={access} compact />;
+
+    const generate = async () => {
+        if (!user) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setGenerating(true);
+        setError(null);
+        try {
+            const { variants: generated, providerId } = await generateScriptVariants(
+                {
+                    creativeName: audit.creativeName,
+                    durationSec: audit.durationSec,
+                    originalScript: original,
+                    report: audit.report,
+                    count: DEFAULT_VARIANT_COUNT,
+                    targetSec: RUNTIME_OPTIONS[runtime].sec,
+                },
+                { signal: controller.signal }
+            );
+            const saved = await saveGeneratedVariants(user, audit.id, original.trim(), generated, providerId);
+            setVariants((current) => sortVariants([...saved, ...current]));
+        } catch (err) {
+            if (!(isAuditError(err) && err.code === 'cancelled')) setError(isAuditError(err) ? describeAuditError(err) : 'Could not generate variants.');
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setGenerating(false);
+        }
+    };
+
+    const replace = (variant: ScriptVariant) =>
+        setVariants((current) => sortVariants(current.map((candidate) => (candidate.id === variant.id ? variant : candidate))));
+
+    const remove = async (id: string) => {
+        if (!user || !window.confirm('Delete this variant and all its versions?')) return;
+        await deleteVariant(user, id);
+        setVariants((current) => current.filter((variant) => variant.id !== id));
+    };
+
+    return (
+        <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1">Script rewrites</div>
+            <p className="text-xs text-gray-500 mb-4">
+                Paste the current voiceover so variants can be compared with it. The lines the audit quotes are filled in to start.
+            </p>
+            <textarea
+                value={original}
+                onChange={(e) => setOriginal(e.target.value)}
+                rows={4}
+                placeholder="Original script"
+                className={`${inputClass} w-full mb-3 leading-relaxed`}
+                aria-label="Original script"
+            />
+            <div className="flex flex-wrap gap-3">
+                <select value={runtime} onChange={(e) => setRuntime(Number(e.target.value))} className={inputClass} aria-label="Target runtime" disabled={generating}>
+                    {RUNTIME_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+                </select>
+                {generating ? (
+                    <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="px-4 py-2 rounded-lg border border-[#ff2e63]/40 text-[#ff2e63] text-xs font-bold hover:bg-[#ff2e63]/10 transition-colors"
+                    >
+                        <i className="fa-solid fa-spinner fa-spin mr-2"></i>Cancel
+                    </button>
+                ) : (
+                    <button onClick={generate} className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all">
+                        <i className="fa-solid fa-wand-magic-sparkles mr-1.5"></i>
+                        Generate {DEFAULT_VARIANT_COUNT} Variants
+                    </button>
+                )}
+            </div>
+            {error && <div className="text-xs text-[#ff2e63] mt-3">{error}</div>}
+
+            {variants.length > 0 && (
+                <div className="mt-5 space-y-3">
+                    {variants.map((variant) => (
+                        <VariantCard key={variant.id} variant={variant} creativeName={audit.creativeName} onChange={replace} onDelete={remove} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScriptRewritePanel;
@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { SavedAudit, ShareLink } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import UpgradePrompt from "./UpgradePrompt";
+import { getShareClient, isShareError, shareStatus } from "../services/shareClient";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: { label: string; ms?: number }[] = [
+    { label: 'Never expires' },
+    { label: 'Expires in 24 hours', ms: DAY_MS },
+    { label: 'Expires in 7 days', ms: 7 * DAY_MS },
+    { label: 'Expires in 30 days', ms: 30 * DAY_MS },
+];
+
+const STATUS_STYLES = {
+    active: 'text-[#08d9d6]',
+    expired: 'text-[#ffbd2e]',
+    revoked: 'text-gray-600',
+};
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ShareLinkRow = ({ link, onRevoke }: { link: ShareLink; onRevoke: (token: string) => void }) => {
+    const [copied, setCopied] = useState(false);
+    const status = shareStatus(link);
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(link.url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="py-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+            <div className="flex-1 min-w-[200px]">
+                <div className={`font-mono truncate ${status === 'active' ? 'text-gray-300' : 'text-gray-600 line-through'}`}>{link.url}</div>
+                <div className="text-gray-600 mt-1">
+                    <span className={STATUS_STYLES[status]}>{status}</span>
+                    {` · ${link.views} ${link.views === 1 ? 'view' : 'views'}`}
+                    {link.expiresAt && status !== 'revoked' && ` · ${status === 'expired' ? 'expired' : 'expires'} ${formatDate(link.expiresAt)}`}
+                    {link.hasPassword && <i className="fa-solid fa-lock ml-2" title="Password protected"></i>}
+                </div>
+            </div>
+            {status === 'active' && (
+                <>
+                    <button onClick={copy} className="text-gray-400 hover:text-white transition-colors">
+                        <i className={`fa-solid ${copied ? 'fa-check text-[#08d9d6]' : 'fa-copy'} mr-1`}></i>{copied ? 'Copied' : 'Copy'}
+                    </button>
+                    <button onClick={() => onRevoke(link.token)} className="text-gray-500 hover:text-[#ff2e63] transition-colors">
+                        Revoke
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Creates and manages read-only public links to one audit
+const SharePanel = ({ audit }: { audit: SavedAudit }) => {
+    const { getAccessToken } = useAuth();
+    const { check } = useEntitlements();
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [expiry, setExpiry] = useState(0);
+    const [password, setPassword] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const feature = check({ type: 'feature', feature: 'share_links' });
+    const access = feature.allowed ? check({ type: 'action', action: 'share.manage' }) : feature;
+
+    const run = useCallback(async <T,>(work: (accessToken: string) => Promise<T>) => {
+        const accessToken = getAccessToken();
+        if (!accessToken) return;
+        setError(null);
+        try {
+            return await work(accessToken);
+        } catch (err) {
+            setError(isShareError(err) ? err.message : 'Something went wrong. Try again.');
+        }
+    }, [getAccessToken]);
+
+    useEffect(() => {
+        if (!access.allowed) return;
+        run((token) => getShareClient().listShares(token, audit.id)).then((list) => list && setLinks(list));
+    }, [access.allowed, audit.id, run]);
+
+    if (!access.allowed) return <UpgradePrompt decision={access} compact />;
+
+    const create = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        const link = await run((token) =>
+            getShareClient().createShare(token, audit, {
+                expiresInMs: EXPIRY_OPTIONS[expiry].ms,
+                password: password || undefined,
+            })
+        );
+        if (link) {
+            setLinks((current) => [link, ...current]);
+            setPassword('');
+        }
+        setBusy(false);
+    };
+
+    const revoke = async (shareToken: string) => {
+        const revoked = await run((token) => getShareClient().revokeShare(token, shareToken));
+        if (revoked) setLinks((current) => current.map((link) => (link.token === revoked.token ? revoked : link)));
+    };
+
+    return (
+        <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-1">Share with a client</div>
+            <p className="text-xs text-gray-500 mb-4">Anyone with the link can read this report without an account. They can't see your other audits.</p>
+            <form onSubmit={create} className="flex flex-wrap gap-3">
+                <select value={expiry} onChange={(e) => setExpiry(Number(e.target.value))} className={inputClass} aria-label="Link expiry">
+                    {EXPIRY_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+                </select>
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password (optional)"
+                    autoComplete="new-password"
+                    className={`${inputClass} flex-1 min-w-[160px]`}
+                />
+                <button
+                    type="submit"
+                    disabled={busy}
+                    className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all disabled:opacity-50"
+                >
+                    {busy ? 'Creating…' : 'Create Link'}
+                </button>
+            </form>
+            {error && <div className="text-xs text-[#ff2e63] mt-3">{error}</div>}
+            {links.length > 0 && (
+                <div className="mt-4 border-t border-white/5 divide-y divide-white/5">
+                    {links.map((link) => <ShareLinkRow key={link.token} link={link} onRevoke={revoke} />)}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SharePanel;
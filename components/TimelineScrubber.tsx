@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { ReportFinding, REPORT_SECTION_ORDER } from "../types";
+import { SECTION_TITLES } from "../services/reportParser";
+import { formatTimestamp } from "../services/findings";
+import { SECTION_COLORS } from "./AuditReportView";
+
+interface TimelineScrubberProps {
+    durationSec: number;
+    currentTime: number;
+    findings: ReportFinding[];
+    activeFindingId?: string | null;
+    onSeek: (sec: number, findingId?: string) => void;
+}
+
+const percent = (sec: number, durationSec: number) => `${Math.min(Math.max(sec / durationSec, 0), 1) * 100}%`;
+
+const TimelineScrubber = ({ durationSec, currentTime, findings, activeFindingId, onSeek }: TimelineScrubberProps) => {
+    const [hovered, setHovered] = useState<ReportFinding | null>(null);
+
+    const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(((e.clientX - rect.left) / rect.width) * durationSec);
+    };
+
+    const sectionsPresent = REPORT_SECTION_ORDER.filter((key) => findings.some((f) => f.section === key));
+
+    return (
+        <div className="select-none">
+            <div className="relative h-10">
+                {/* Track */}
+                <div
+                    onClick={handleTrackClick}
+                    className="absolute left-0 right-0 top-1/2 -translate-y-1/2 h-1.5 bg-white/10 rounded-full cursor-pointer"
+                >
+                    <div className="h-full bg-white/30 rounded-full" style={{ width: percent(currentTime, durationSec) }} />
+                </div>
+
+                {/* Range findings render as bars, point findings as pins */}
+                {findings.map((finding) => {
+                    const color = SECTION_COLORS[finding.section];
+                    const active = finding.id === activeFindingId;
+                    const isRange = finding.endSec !== undefined && finding.endSec > finding.startSec;
+                    return (
+                        <button
+                            key={finding.id}
+                            type="button"
+                            onClick={() => onSeek(finding.startSec, finding.id)}
+                            onMouseEnter={() => setHovered(finding)}
+                            onMouseLeave={() => setHovered(null)}
+                            aria-label={`${SECTION_TITLES[finding.section]} ${finding.label}`}
+                            className={`absolute top-1/2 -translate-y-1/2 rounded-full transition-transform hover:scale-125 ${active ? 'ring-2 ring-white' : ''}`}
+                            style={{
+                                left: percent(finding.startSec, durationSec),
+                                width: isRange ? percent((finding.endSec as number) - finding.startSec, durationSec) : 10,
+                                height: isRange ? 6 : 10,
+                                marginLeft: isRange ? 0 : -5,
+                                backgroundColor: color,
+                                opacity: isRange ? 0.75 : 1,
+                            }}
+                        />
+                    );
+                })}
+
+                {/* Playhead */}
+                <div
+                    className="absolute top-1 bottom-1 w-0.5 bg-white pointer-events-none"
+                    style={{ left: percent(currentTime, durationSec) }}
+                />
+
+                {hovered && (
+                    <div
+                        className="absolute bottom-full mb-2 -translate-x-1/2 w-64 bg-[#181818] border border-white/10 rounded-lg p-3 text-[11px] text-gray-300 shadow-xl pointer-events-none z-10"
+                        style={{ left: percent(hovered.startSec, durationSec) }}
+                    >
+                        <div className="font-mono mb-1" style={{ color: SECTION_COLORS[hovered.section] }}>
+                            #{SECTION_TITLES[hovered.section]} · {hovered.label}
+                        </div>
+                        <div className="line-clamp-3">{hovered.text}</div>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex justify-between items-center text-[10px] font-mono text-gray-500">
+                <span>{formatTimestamp(currentTime)} / {formatTimestamp(durationSec)}</span>
+                <div className="flex gap-3">
+                    {sectionsPresent.map((key) => (
+                        <span key={key} className="flex items-center gap-1.5">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SECTION_COLORS[key] }}></span>
+                            {SECTION_TITLES[key]}
+                        </span>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TimelineScrubber;
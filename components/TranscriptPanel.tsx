@@ -0,0 +1,140 @@
+import React, { useState, useRef } from "react";
+import { Transcript } from "../types";
+import { TranscriptCueList } from "./AuditReportView";
+import { TRANSCRIPT_EXTENSIONS, TranscriptError, checkTranscript, parsePastedTranscript, readCaptionFile } from "../services/transcripts";
+
+// Caption file or pasted transcript for the creative in the workspace, with the speech checks that
+// apply before the audit runs. Pasted lines may start with a timestamp ("0:03 Tired of…") to be timed.
+const TranscriptPanel = ({
+    durationSec,
+    transcript,
+    burnedInCaptions,
+    onChange,
+    onBurnedInCaptionsChange,
+    currentTime,
+    onSeek,
+    disabled,
+}: {
+    durationSec: number;
+    transcript?: Transcript;
+    burnedInCaptions: boolean;
+    onChange: (transcript: Transcript | undefined) => void;
+    onBurnedInCaptionsChange: (burnedIn: boolean) => void;
+    currentTime?: number;
+    onSeek?: (sec: number, findingId: string) => void;
+    disabled?: boolean;
+}) => {
+    const [pasting, setPasting] = useState(false);
+    const [pasted, setPasted] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const warnings = checkTranscript(transcript, burnedInCaptions, durationSec);
+
+    const attach = async (file: File) => {
+        try {
+            onChange(await readCaptionFile(file));
+            setPasting(false);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof TranscriptError ? err.message : `Could not read ${file.name}.`);
+        }
+    };
+
+    const applyPasted = () => {
+        onChange(parsePastedTranscript(pasted, durationSec) ?? undefined);
+        setError(null);
+    };
+
+    const remove = () => {
+        onChange(undefined);
+        setPasted('');
+        setPasting(false);
+        setError(null);
+    };
+
+    return (
+        <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Transcript & captions</div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        disabled={disabled}
+                        className="px-3 py-1.5 rounded-lg border border-white/10 text-xs hover:bg-white/5 transition-colors disabled:opacity-40"
+                    >
+                        <i className="fa-solid fa-closed-captioning mr-1.5"></i>Attach SRT / VTT
+                    </button>
+                    <button
+                        onClick={() => setPasting((open) => !open)}
+                        disabled={disabled}
+                        className="px-3 py-1.5 rounded-lg border border-white/10 text-xs hover:bg-white/5 transition-colors disabled:opacity-40"
+                    >
+                        Paste transcript
+                    </button>
+                    {transcript && (
+                        <button onClick={remove} disabled={disabled} className="px-2 py-1.5 text-xs text-gray-500 hover:text-white transition-colors disabled:opacity-40">
+                            Remove
+                        </button>
+                    )}
+                </div>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept={TRANSCRIPT_EXTENSIONS.join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) attach(file);
+                    }}
+                />
+            </div>
+
+            {pasting && (
+                <textarea
+                    value={pasted}
+                    onChange={(e) => setPasted(e.target.value)}
+                    onBlur={applyPasted}
+                    disabled={disabled}
+                    rows={5}
+                    placeholder={'One line per caption. Start lines with a timestamp to time them:\n0:00 After baby comes, sleep is the first thing to go.'}
+                    className="w-full mb-3 bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30"
+                />
+            )}
+
+            <label className="flex items-center gap-2 text-xs text-gray-400 mb-3 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={burnedInCaptions}
+                    onChange={(e) => onBurnedInCaptionsChange(e.target.checked)}
+                    disabled={disabled}
+                    className="accent-[#08d9d6]"
+                />
+                Captions are burned into the video
+            </label>
+
+            {error && <div className="text-xs text-[#ff2e63] mb-3">{error}</div>}
+
+            {warnings.length > 0 && (
+                <ul className="space-y-1.5 text-xs mb-3">
+                    {warnings.map((warning) => (
+                        <li key={warning.kind} className={`flex gap-2 ${warning.severity === 'warning' ? 'text-[#ffbd2e]' : 'text-gray-400'}`}>
+                            <i className={`fa-solid ${warning.severity === 'warning' ? 'fa-triangle-exclamation' : 'fa-circle-info'} mt-0.5`}></i>
+                            <span>{warning.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {transcript ? (
+                <TranscriptCueList transcript={transcript} currentTime={currentTime} onSeek={onSeek} durationSec={durationSec} />
+            ) : (
+                <div className="text-xs text-gray-500">
+                    Add what is said so the script findings quote the exact lines and their timings.
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TranscriptPanel;
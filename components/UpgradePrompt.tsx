@@ -0,0 +1,39 @@
+import React from "react";
+import { AccessDecision } from "../services/entitlements";
+import { Link } from "../context/RouterContext";
+import { ROUTES } from "../constants";
+
+const TITLES: Partial<Record<NonNullable<AccessDecision['reason']>, string>> = {
+    no_plan: 'No active plan',
+    quota: 'Audit limit reached',
+    feature: 'Upgrade required',
+    role: 'View only',
+};
+
+// Shown in place of a gated action. The CTA takes the user to the pricing page; a workspace role
+// limit has none, since only an owner or admin can change it.
+const UpgradePrompt = ({ decision, compact = false }: { decision: AccessDecision; compact?: boolean }) => {
+    if (decision.allowed || decision.reason === 'unverified' || decision.reason === 'signed_out') return null;
+
+    return (
+        <div className={`rounded-xl border border-purple-500/30 bg-gradient-to-br from-pink-500/10 to-purple-600/10 ${compact ? 'p-4' : 'p-5'} flex flex-wrap items-center justify-between gap-4`}>
+            <div className="flex items-start gap-3 text-sm">
+                <i className={`fa-solid ${decision.reason === 'quota' ? 'fa-gauge-high' : decision.reason === 'role' ? 'fa-eye' : 'fa-lock'} text-purple-300 mt-0.5`}></i>
+                <div>
+                    <div className="text-white font-medium">{TITLES[decision.reason ?? 'feature'] ?? 'Upgrade required'}</div>
+                    <div className="text-gray-400 text-xs mt-1">{decision.message}</div>
+                </div>
+            </div>
+            {decision.upgradeTo && (
+                <Link
+                    to={ROUTES.pricing}
+                    className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all whitespace-nowrap"
+                >
+                    Upgrade to {decision.upgradeTo.name}
+                </Link>
+            )}
+        </div>
+    );
+};
+
+export default UpgradePrompt;
@@ -0,0 +1,31 @@
+import React from "react";
+import { useEntitlements } from "../hooks/useEntitlements";
+import { AccessScope } from "../services/entitlements";
+
+const UsageMeter = ({ scope }: { scope?: AccessScope | null }) => {
+    const { plan, usage, period } = useEntitlements(scope);
+    if (!usage || !period) return null;
+    if (!plan) {
+        return <div className="min-w-[220px] text-xs text-gray-400">No active plan. Subscribe to run audits.</div>;
+    }
+
+    const ratio = Math.min(usage.audits / plan.monthlyAudits, 1);
+    const barColor = ratio >= 1 ? '#ff2e63' : ratio >= 0.8 ? '#ffbd2e' : '#08d9d6';
+    const resets = new Date(period.end).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+    return (
+        <div className="min-w-[220px]">
+            <div className="flex justify-between items-baseline text-xs mb-2">
+                <span className="text-gray-400">
+                    <span className="text-white font-bold">{usage.audits}</span> / {plan.monthlyAudits} audits
+                </span>
+                <span className="text-[10px] font-mono text-gray-600 uppercase">{plan.name} · resets {resets}</span>
+            </div>
+            <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+                <div className="h-full rounded-full transition-all" style={{ width: `${ratio * 100}%`, backgroundColor: barColor }} />
+            </div>
+        </div>
+    );
+};
+
+export default UsageMeter;
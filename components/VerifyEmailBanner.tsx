@@ -0,0 +1,40 @@
+import React, { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+
+const VerifyEmailBanner = () => {
+    const { user, resendVerification } = useAuth();
+    const [state, setState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+    if (!user || user.emailVerified) return null;
+
+    const handleResend = async () => {
+        setState('sending');
+        try {
+            await resendVerification();
+            setState('sent');
+        } catch {
+            setState('failed');
+        }
+    };
+
+    return (
+        <div className="mb-6 rounded-xl border border-[#ffbd2e]/30 bg-[#ffbd2e]/5 px-5 py-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+            <div className="flex items-center gap-3 text-gray-300">
+                <i className="fa-solid fa-envelope-circle-check text-[#ffbd2e]"></i>
+                Confirm <span className="text-white font-medium">{user.email}</span> to start running audits.
+            </div>
+            <button
+                onClick={handleResend}
+                disabled={state === 'sending' || state === 'sent'}
+                className="text-xs font-bold text-white hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+                {state === 'sending' && 'Sending…'}
+                {state === 'sent' && 'Email sent'}
+                {state === 'failed' && 'Failed, try again'}
+                {state === 'idle' && 'Resend email'}
+            </button>
+        </div>
+    );
+};
+
+export default VerifyEmailBanner;
@@ -0,0 +1,23 @@
+import React from "react";
+import { useWorkspace } from "../context/WorkspaceContext";
+
+// Picks the library new audits are saved to and history reads from. Hidden until the user belongs
+// to a workspace.
+const WorkspaceSwitcher = () => {
+    const { workspaces, active, switchWorkspace } = useWorkspace();
+    if (!workspaces.length) return null;
+
+    return (
+        <select
+            value={active?.id ?? ''}
+            onChange={(e) => switchWorkspace(e.target.value || null)}
+            className="bg-transparent border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300 max-w-[160px] focus:outline-none focus:border-white/30 hidden sm:block"
+            aria-label="Workspace"
+        >
+            <option value="">Personal</option>
+            {workspaces.map((workspace) => <option key={workspace.id} value={workspace.id}>{workspace.name}</option>)}
+        </select>
+    );
+};
+
+export default WorkspaceSwitcher;
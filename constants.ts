@@ -0,0 +1,46 @@
+// Report shown in the marketing DashboardMockup. Kept in the same tagged format the audit service returns.
+export const SAMPLE_REPORT_TEXT = `#SCORE: 3/10
+
+#HOOK
+**The Problem:** At 0:00, the opening is a slow, generic setup. "After baby comes" is a weak, drawn-out qualifier. The visual of a vaguely stressed man and a woman reading is not a strong visual representation of a "hot house" or "harder sleep." It doesn't grab attention. It assumes the audience knows the problem without showing it. The lighting is warm, but it doesn't convey discomfort or heat.
+
+**The Visual:** Muted lighting lacks impact. It's a typical bedroom scene, not a scroll-stopper. There's no immediate visual tension or unique element to differentiate it from countless other bedroom ads.
+
+**The Fix:** Cut the fat. Start with a direct visual of the problem: show immediate discomfort, sweat, tossing, turning. "Is your sleep stolen by night sweats?" paired with a visual of someone visibly struggling in bed. Or a stark contrast: "HOT nights?" immediately followed by the solution. Get to the point in under 1 second.
+
+#BODY
+**Pacing/Visuals:**
+- At 0:03, the pacing drops hard with the slow-motion reveal of a comforter. "WE GET IT" as a text overlay is useless filler; don't tell me you get it, *show* me you solved it.
+- From 0:05-0:09, the slow-motion shots of bedding and pillows are pretty but don't convey "cool" or "breathable" effectively. They're generic product shots. There's no *demonstration* of the unique benefit. This is a product showcase, not a problem solver.
+- At 0:09, the transition to the sleeping couple is a standard, uninspired "happy ending" shot. It lacks punch and doesn't explicitly connect to *how* the bedding achieved this peaceful sleep beyond the voiceover. The crib is a nice touch for context but doesn't elevate the visual impact.
+
+**The Fix:** Speed up. Drastically. Cut the "WE GET IT" entirely. Show, don't tell. Visually demonstrate the cooling effect: show sweat evaporating, a "cool touch" test, a thermometer dropping, or a stark before/after of uncomfortable vs. serene sleep *directly attributed* to the product's function. The product shots need to highlight the *texture* or *material science* that makes it cool, not just look fluffy.
+
+#AUDIO
+**Copyright claim:** No obvious copyright claim risk from the background sounds. The voiceover is clear. However, bland, forgettable audio *will* affect CPM by reducing engagement and watch time. The audio isn't memorable or impactful enough to drive attention.
+
+#SCRIPT
+**The Problem:** The script is too conversational, too soft, and lacks urgency. It wastes precious seconds establishing a problem that could be shown in a fraction of the time. "After baby comes, the house gets hotter. And sleep gets harder" is vague and slow. "We get it" is completely unnecessary. "Helps stop the night sweats" is weak; "stops" is stronger. The entire script lacks a clear, commanding call to action or a strong unique selling proposition that screams "buy this now." It's...
+`;
+
+// Client-side routes. Patterns use :param segments, see matchRoute in context/RouterContext.tsx.
+export const ROUTES = {
+    home: '/',
+    dashboard: '/dashboard',
+    history: '/history',
+    batch: '/batch',
+    team: '/team',
+    rubric: '/rubric',
+    brands: '/brands',
+    invite: '/invite/:token',
+    audit: '/audits/:id',
+    account: '/account',
+    pricing: '/pricing',
+    login: '/login',
+    share: '/s/:token',
+};
+
+// Chrome Web Store listing once published (EXTENSION_URL); until then, the build instructions
+export const EXTENSION_INSTALL_URL = process.env.EXTENSION_URL || 'https://github.com/rus-rgb/ViralAudit-4.0#chrome-extension';
+
+export const auditPath = (id: string) => `/audits/${encodeURIComponent(id)}`;
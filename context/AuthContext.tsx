@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useContext, createContext, useCallback, useRef } from "react";
+import { Session, User } from "../types";
+import { AuthResponse, SESSION_KEY, getAuthClient, readStoredSession } from "../services/authClient";
+
+// Stored by the pre-auth prototype; it only held an email and can't be trusted
+const LEGACY_USER_KEY = 'viralAuditUser';
+// Refresh this long before the access token actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export type AuthView = 'login' | 'signup' | 'forgot' | 'reset' | 'verify' | 'magic';
+
+// Views that emailed links can open directly via ?auth=<view>&token=<token>
+const LINK_VIEWS: AuthView[] = ['reset', 'verify', 'magic'];
+
+interface AuthContextType {
+    user: User | null;
+    isLoading: boolean;
+    // Both reject with AuthError so the caller can show the message inline
+    login: (email: string, password: string) => Promise<void>;
+    signup: (email: string, password: string) => Promise<void>;
+    logout: () => void;
+    showAuthModal: boolean;
+    setShowAuthModal: (show: boolean) => void;
+    authView: AuthView;
+    setAuthView: (view: AuthView) => void;
+    // Token from an emailed link, consumed by the reset, verify and magic views
+    authToken: string | null;
+    requestPasswordReset: (email: string) => Promise<void>;
+    resetPassword: (newPassword: string) => Promise<void>;
+    verifyEmail: () => Promise<void>;
+    resendVerification: () => Promise<void>;
+    requestMagicLink: (email: string) => Promise<void>;
+    signInWithMagicLink: () => Promise<void>;
+    // Re-reads the account, e.g. after billing changed the plan outside this tab's session
+    refreshUser: () => Promise<void>;
+    // Current access token for calling other APIs as this user; it rotates, so read it per call
+    getAccessToken: () => string | null;
+}
+
+const AuthContext = createContext<AuthContextType>({
+    user: null,
+    isLoading: false,
+    login: async () => {},
+    signup: async () => {},
+    logout: () => {},
+    showAuthModal: false,
+    setShowAuthModal: () => {},
+    authView: 'signup',
+    setAuthView: () => {},
+    authToken: null,
+    requestPasswordReset: async () => {},
+    resetPassword: async () => {},
+    verifyEmail: async () => {},
+    resendVerification: async () => {},
+    requestMagicLink: async () => {},
+    signInWithMagicLink: async () => {},
+    refreshUser: async () => {},
+    getAccessToken: () => null,
+});
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+    const [user, setUser] = useState<User | null>(null);
+    const [session, setSession] = useState<Session | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showAuthModal, setShowAuthModal] = useState(false);
+    const [authView, setAuthViewState] = useState<AuthView>('signup');
+    const [authToken, setAuthToken] = useState<string | null>(null);
+    const sessionRef = useRef<Session | null>(null);
+
+    const applyAuth = useCallback((auth: AuthResponse | null) => {
+        sessionRef.current = auth?.session ?? null;
+        setSession(auth?.session ?? null);
+        setUser(auth?.user ?? null);
+        if (auth) {
+            localStorage.setItem(SESSION_KEY, JSON.stringify(auth.session));
+        } else {
+            localStorage.removeItem(SESSION_KEY);
+        }
+    }, []);
+
+    // Moving to another view abandons whatever emailed link was open
+    const setAuthView = useCallback((view: AuthView) => {
+        setAuthViewState(view);
+        setAuthToken(null);
+    }, []);
+
+    // Open the matching view when the page was reached from an emailed link
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const view = params.get('auth') as AuthView | null;
+        const token = params.get('token');
+        if (!view || !token || !LINK_VIEWS.includes(view)) return;
+
+        setAuthView(view);
+        setAuthToken(token);
+        setShowAuthModal(true);
+        // Keep single-use tokens out of history and screenshots
+        params.delete('auth');
+        params.delete('token');
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    }, [setAuthView]);
+
+    // Validate the stored token on mount, falling back to the refresh token
+    useEffect(() => {
+        localStorage.removeItem(LEGACY_USER_KEY);
+        const stored = readStoredSession();
+        if (!stored) {
+            setIsLoading(false);
+            return;
+        }
+
+        let cancelled = false;
+        const client = getAuthClient();
+        (async () => {
+            try {
+                const currentUser = await client.getUser(stored.accessToken);
+                if (!cancelled) applyAuth({ user: currentUser, session: stored });
+            } catch {
+                try {
+                    const refreshed = await client.refresh(stored.refreshToken);
+                    if (!cancelled) applyAuth(refreshed);
+                } catch {
+                    if (!cancelled) applyAuth(null);
+                }
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [applyAuth]);
+
+    // Rotate tokens shortly before the access token expires
+    useEffect(() => {
+        if (!session) return;
+        const wait = Math.max(session.accessExpiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+        const timer = setTimeout(async () => {
+            try {
+                applyAuth(await getAuthClient().refresh(session.refreshToken));
+            } catch {
+                applyAuth(null);
+            }
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [session, applyAuth]);
+
+    const login = async (email: string, password: string) => {
+        applyAuth(await getAuthClient().login(email, password));
+        setShowAuthModal(false);
+    };
+
+    const signup = async (email: string, password: string) => {
+        applyAuth(await getAuthClient().signup(email, password));
+        setShowAuthModal(false);
+    };
+
+    const requestPasswordReset = (email: string) => getAuthClient().requestPasswordReset(email);
+
+    const resetPassword = async (newPassword: string) => {
+        applyAuth(await getAuthClient().resetPassword(authToken ?? '', newPassword));
+        setAuthToken(null);
+    };
+
+    const verifyEmail = async () => {
+        const verified = await getAuthClient().verifyEmail(authToken ?? '');
+        setAuthToken(null);
+        // The link may have been opened in a browser signed in as someone else
+        setUser((current) => (current && current.id === verified.id ? verified : current));
+    };
+
+    const resendVerification = async () => {
+        if (!sessionRef.current) return;
+        await getAuthClient().sendVerificationEmail(sessionRef.current.accessToken);
+    };
+
+    const requestMagicLink = (email: string) => getAuthClient().requestMagicLink(email);
+
+    const signInWithMagicLink = async () => {
+        applyAuth(await getAuthClient().signInWithMagicLink(authToken ?? ''));
+        setAuthToken(null);
+    };
+
+    const refreshUser = async () => {
+        if (!sessionRef.current) return;
+        setUser(await getAuthClient().getUser(sessionRef.current.accessToken));
+    };
+
+    const getAccessToken = useCallback(() => sessionRef.current?.accessToken ?? null, []);
+
+    const logout = () => {
+        const current = sessionRef.current;
+        applyAuth(null);
+        // Revoking server-side is best effort; the local session is already gone
+        if (current) getAuthClient().logout(current.refreshToken).catch(() => {});
+    };
+
+    return (
+        <AuthContext.Provider value={{
+            user,
+            isLoading,
+            login,
+            signup,
+            logout,
+            showAuthModal,
+            setShowAuthModal,
+            authView,
+            setAuthView,
+            authToken,
+            requestPasswordReset,
+            resetPassword,
+            verifyEmail,
+            resendVerification,
+            requestMagicLink,
+            signInWithMagicLink,
+            refreshUser,
+            getAccessToken
+        }}>
+            {children}
+        </AuthContext.Provider>
+    );
+};
+
+export const useAuth = () => useContext(AuthContext);
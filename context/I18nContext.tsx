@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useContext, createContext, useCallback, useMemo } from "react";
+import {
+    DEFAULT_LOCALE,
+    LOCALE_MESSAGES,
+    Locale,
+    Messages,
+    detectLocale,
+    formatPrice,
+    formattingLocale,
+    interpolate,
+    writeStoredLocale,
+} from "../services/i18n";
+
+// The language the UI is shown in, and the formatting that goes with it
+
+interface I18nContextType {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    // Copy for the current locale, e.g. t.hero.title
+    t: Messages;
+    format: (template: string, values: Record<string, string | number>) => string;
+    formatPrice: (amount: number, currency: string) => string;
+}
+
+const I18nContext = createContext<I18nContextType>({
+    locale: DEFAULT_LOCALE,
+    setLocale: () => {},
+    t: LOCALE_MESSAGES[DEFAULT_LOCALE],
+    format: interpolate,
+    formatPrice: (amount, currency) => formatPrice(amount, currency, DEFAULT_LOCALE),
+});
+
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+    const [locale, setLocaleState] = useState<Locale>(() => detectLocale());
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = useCallback((next: Locale) => {
+        writeStoredLocale(next);
+        setLocaleState(next);
+    }, []);
+
+    const value = useMemo<I18nContextType>(() => {
+        const numberLocale = formattingLocale(locale);
+        return {
+            locale,
+            setLocale,
+            t: LOCALE_MESSAGES[locale],
+            format: interpolate,
+            formatPrice: (amount, currency) => formatPrice(amount, currency, numberLocale),
+        };
+    }, [locale, setLocale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
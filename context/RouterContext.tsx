@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useContext, createContext, useCallback } from "react";
+
+// Minimal History API router. Paths are matched against patterns like /audits/:id; the hash is
+// left to the page so marketing anchors (#features, #pricing) keep working under any route.
+
+export interface RouteLocation {
+    pathname: string;
+    search: string;
+    hash: string;
+}
+
+interface NavigateOptions {
+    replace?: boolean;
+}
+
+interface RouterContextType {
+    location: RouteLocation;
+    navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const readLocation = (): RouteLocation => ({
+    pathname: window.location.pathname,
+    search: window.location.search,
+    hash: window.location.hash,
+});
+
+const RouterContext = createContext<RouterContextType>({
+    location: { pathname: '/', search: '', hash: '' },
+    navigate: () => {},
+});
+
+// Returns the path params when the pattern matches, e.g. { id: 'abc' } for /audits/:id
+export const matchRoute = (pattern: string, pathname: string): Record<string, string> | null => {
+    const patternParts = pattern.split('/').filter(Boolean);
+    const pathParts = pathname.replace(/\/+$/, '').split('/').filter(Boolean);
+    if (patternParts.length !== pathParts.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternParts.length; i++) {
+        if (patternParts[i].startsWith(':')) {
+            try {
+                params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+            } catch {
+                return null;
+            }
+        } else if (patternParts[i] !== pathParts[i]) {
+            return null;
+        }
+    }
+    return params;
+};
+
+// Only same-origin paths may be used as redirect targets, so ?next= can't bounce users off-site
+export const safeRedirectPath = (next: string | null, fallback: string) =>
+    next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : fallback;
+
+const scrollToHash = (hash: string, behavior: ScrollBehavior) => {
+    const element = hash.length > 1 ? document.getElementById(decodeURIComponent(hash.slice(1))) : null;
+    if (element) element.scrollIntoView({ behavior });
+    return !!element;
+};
+
+export const RouterProvider = ({ children }: { children: React.ReactNode }) => {
+    const [location, setLocation] = useState<RouteLocation>(readLocation);
+
+    useEffect(() => {
+        const handlePopState = () => setLocation(readLocation());
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = useCallback((to: string, { replace = false }: NavigateOptions = {}) => {
+        const url = new URL(to, window.location.href);
+        const target = `${url.pathname}${url.search}${url.hash}`;
+        if (target === `${window.location.pathname}${window.location.search}${window.location.hash}`) return;
+        window.history[replace ? 'replaceState' : 'pushState'](null, '', target);
+        setLocation(readLocation());
+    }, []);
+
+    // New pages start at the top, or at the anchor they link to once it has rendered
+    const { pathname, hash } = location;
+    useEffect(() => {
+        if (hash) {
+            const frame = requestAnimationFrame(() => scrollToHash(hash, 'smooth'));
+            return () => cancelAnimationFrame(frame);
+        }
+        window.scrollTo({ top: 0 });
+    }, [pathname, hash]);
+
+    return <RouterContext.Provider value={{ location, navigate }}>{children}</RouterContext.Provider>;
+};
+
+export const useRouter = () => useContext(RouterContext);
+
+type LinkProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & { to: string; replace?: boolean };
+
+// Anchor that navigates in-app but still behaves like a link for new tabs and modified clicks
+export const Link = ({ to, replace, onClick, children, ...rest }: LinkProps) => {
+    const { navigate } = useRouter();
+
+    const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+        onClick?.(e);
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || rest.target === '_blank') return;
+        e.preventDefault();
+        navigate(to, { replace });
+    };
+
+    return (
+        <a href={to} onClick={handleClick} {...rest}>
+            {children}
+        </a>
+    );
+};
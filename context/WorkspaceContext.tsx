@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useContext, createContext, useCallback, useMemo } from "react";
+import { WorkspaceSummary } from "../types";
+import { useAuth } from "./AuthContext";
+import { AccessScope, personalAccessScope } from "../services/entitlements";
+import { getWorkspaceClient } from "../services/workspaceClient";
+import { LibraryScope, personalScope, readActiveWorkspaceId, workspaceScope, writeActiveWorkspaceId } from "../services/workspaces";
+
+// Which library the signed-in user is working in: their own, or one of their workspaces
+
+interface WorkspaceContextType {
+    workspaces: WorkspaceSummary[];
+    // Null while working in the personal library
+    active: WorkspaceSummary | null;
+    // Null when signed out, and while a remembered workspace is still loading
+    library: LibraryScope | null;
+    access: AccessScope | null;
+    switchWorkspace: (workspaceId: string | null) => void;
+    // Re-reads the list, e.g. after creating, joining or leaving a workspace
+    refresh: () => Promise<WorkspaceSummary[]>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType>({
+    workspaces: [],
+    active: null,
+    library: null,
+    access: null,
+    switchWorkspace: () => {},
+    refresh: async () => [],
+});
+
+export const WorkspaceProvider = ({ children }: { children: React.ReactNode }) => {
+    const { user, getAccessToken } = useAuth();
+    const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [loaded, setLoaded] = useState(false);
+
+    const refresh = useCallback(async () => {
+        const accessToken = getAccessToken();
+        if (!user || !accessToken) {
+            setWorkspaces([]);
+            return [];
+        }
+        const list = await getWorkspaceClient().listWorkspaces(accessToken).catch(() => []);
+        setWorkspaces(list);
+        setLoaded(true);
+        return list;
+    }, [user, getAccessToken]);
+
+    useEffect(() => {
+        setActiveId(user ? readActiveWorkspaceId(user.id) : null);
+        setLoaded(false);
+        refresh();
+    }, [user?.id, refresh]);
+
+    const switchWorkspace = useCallback(
+        (workspaceId: string | null) => {
+            if (!user) return;
+            writeActiveWorkspaceId(user.id, workspaceId);
+            setActiveId(workspaceId);
+        },
+        [user]
+    );
+
+    // A workspace the user has left, or been removed from, falls back to the personal library
+    const active = workspaces.find((workspace) => workspace.id === activeId) ?? null;
+
+    // Until then a saved audit could land in the wrong library
+    const ready = !!user && (loaded || !activeId);
+
+    const value = useMemo<WorkspaceContextType>(() => ({
+        workspaces,
+        active,
+        library: ready ? (active ? workspaceScope(user, active) : personalScope(user)) : null,
+        access: ready ? (active ? { account: active.billing, role: active.role } : personalAccessScope(user)) : null,
+        switchWorkspace,
+        refresh,
+    }), [workspaces, active, ready, user, switchWorkspace, refresh]);
+
+    return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
+
+export const useWorkspace = () => useContext(WorkspaceContext);
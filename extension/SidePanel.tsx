@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import type { AuditRequest, AuditResult } from "../types";
+import type { DetectedAd } from "./detection";
+import type { AuditRunResponse, BackgroundMessage, PanelMessage, PanelState } from "./messages";
+import { AuditReportView } from "../components/AuditReportView";
+import { analysePacing } from "../services/pacing";
+import { readVideoMetadata, sampleVideo, validateVideoMetadata } from "../services/videoFile";
+
+// The extension's side panel: the video previews found on the current Ads Manager tab, and the
+// report for whichever one is audited, rendered with the same component as the web app.
+
+const sendToBackground = <T,>(message: BackgroundMessage) => chrome.runtime.sendMessage<BackgroundMessage, T>(message);
+
+type Stage = 'idle' | 'downloading' | 'sampling' | 'auditing' | 'done' | 'error';
+
+const STAGE_TEXT: Partial<Record<Stage, string>> = {
+    downloading: 'Downloading the preview',
+    sampling: 'Sampling frames',
+    auditing: 'Analysing',
+};
+
+// Ads Manager doesn't expose the creative's file name, so the ad name or its placements stand in
+const adLabel = (ad: DetectedAd) => ad.adName ?? (ad.placements.length ? ad.placements.join(', ') : 'Video ad');
+
+const AdRow = ({ ad, onAudit, disabled }: { ad: DetectedAd; onAudit: () => void; disabled: boolean }) => (
+    <li className="flex items-center gap-3 rounded-lg border border-white/10 bg-[#0a0a0a]/80 p-3">
+        <div className="w-12 h-12 rounded bg-black overflow-hidden shrink-0 flex items-center justify-center">
+            {ad.poster ? <img src={ad.poster} alt="" className="w-full h-full object-cover" /> : <i className="fa-solid fa-film text-gray-600"></i>}
+        </div>
+        <div className="min-w-0 flex-1">
+            <div className="text-sm text-white truncate">{adLabel(ad)}</div>
+            <div className="text-[11px] text-gray-500 font-mono">
+                {ad.width && ad.height ? `${ad.width}x${ad.height}` : 'Size unknown'}
+                {ad.adName && ad.placements.length > 0 && ` · ${ad.placements.length} placements`}
+            </div>
+            {!ad.src && <div className="text-[11px] text-[#ffbd2e]">Streamed preview: download the creative and audit it in ViralAudit.</div>}
+        </div>
+        <button
+            onClick={onAudit}
+            disabled={disabled || !ad.src}
+            className="px-3 py-1.5 rounded-lg bg-white text-black text-xs font-bold hover:bg-gray-200 transition-colors disabled:opacity-40"
+        >
+            Audit
+        </button>
+    </li>
+);
+
+const SidePanel = () => {
+    const [state, setState] = useState<PanelState | null>(null);
+    const [stage, setStage] = useState<Stage>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const [audited, setAudited] = useState<{ ad: DetectedAd; url: string; request: AuditRequest; result: AuditResult; auditUrl: string | null } | null>(null);
+    const [activeFindingId, setActiveFindingId] = useState<string | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    const refresh = useCallback(() => {
+        sendToBackground<PanelState>({ type: 'panel/state' }).then(setState).catch(() => undefined);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        const onMessage = (message: PanelMessage) => {
+            if (message.type === 'ads/changed') refresh();
+        };
+        chrome.runtime.onMessage.addListener(onMessage);
+        chrome.tabs.onActivated.addListener(refresh);
+        // Signing in or out happens in the web app, so check again whenever the panel regains focus
+        window.addEventListener('focus', refresh);
+        return () => {
+            chrome.runtime.onMessage.removeListener(onMessage);
+            chrome.tabs.onActivated.removeListener(refresh);
+            window.removeEventListener('focus', refresh);
+        };
+    }, [refresh]);
+
+    const auditedUrl = audited?.url;
+    useEffect(() => () => {
+        if (auditedUrl) URL.revokeObjectURL(auditedUrl);
+    }, [auditedUrl]);
+
+    const audit = async (ad: DetectedAd) => {
+        if (!ad.src) return;
+        setError(null);
+        setAudited(null);
+        setActiveFindingId(null);
+        let url: string | null = null;
+        try {
+            // The extension's host permissions let it download from Meta's CDN, and an object URL
+            // keeps the canvas readable while frames are sampled
+            setStage('downloading');
+            const response = await fetch(ad.src);
+            if (!response.ok) throw new Error(`The preview could not be downloaded (HTTP ${response.status}).`);
+            url = URL.createObjectURL(await response.blob());
+
+            setStage('sampling');
+            const meta = await readVideoMetadata(url);
+            const metaError = validateVideoMetadata(meta);
+            if (metaError) throw new Error(metaError);
+            const { frames, signatures } = await sampleVideo(url, { signatureIntervalSec: 0.5 });
+
+            setStage('auditing');
+            const request: AuditRequest = {
+                creativeName: adLabel(ad),
+                durationSec: meta.durationSec,
+                width: meta.width,
+                height: meta.height,
+                frames,
+                pacing: signatures.length > 1 ? analysePacing(signatures, meta.durationSec) : undefined,
+                brandProfile: state?.account?.brandProfile,
+                language: state?.account?.auditLanguage,
+            };
+            const run = await sendToBackground<AuditRunResponse>({ type: 'audit/run', request });
+            if (run.ok === false) throw new Error(run.message);
+            setAudited({ ad, url, request, result: run.result, auditUrl: run.auditUrl });
+            url = null;
+            setStage('done');
+            refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The audit failed.');
+            setStage('error');
+        } finally {
+            if (url) URL.revokeObjectURL(url);
+        }
+    };
+
+    const seekTo = (sec: number, findingId?: string) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = Math.min(Math.max(sec, 0), video.duration || sec);
+        setActiveFindingId(findingId ?? null);
+    };
+
+    const busy = stage === 'downloading' || stage === 'sampling' || stage === 'auditing';
+    const account = state?.account;
+
+    return (
+        <div className="min-h-screen bg-[#111] text-white p-4 space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="font-bold text-lg tracking-tight">
+                    <span className="text-[#ff2e63]">ViralAudit</span> <span className="text-[#08d9d6]">AI</span>
+                </div>
+                {account?.user && <div className="text-[11px] text-gray-500 truncate max-w-[50%]">{account.user.email}</div>}
+            </div>
+
+            {state && !account?.user && (
+                <div className="rounded-lg border border-[#ffbd2e]/30 bg-[#ffbd2e]/5 p-3 text-xs text-gray-300">
+                    {account ? 'Sign in to ViralAudit to run audits from here.' : 'Open ViralAudit in a tab to share its sign-in with the extension.'}{' '}
+                    <a href={state.appUrl} target="_blank" rel="noreferrer" className="text-white underline">
+                        Open ViralAudit
+                    </a>
+                </div>
+            )}
+            {account?.user && !account.access.allowed && (
+                <div className="rounded-lg border border-[#ff2e63]/30 bg-[#ff2e63]/5 p-3 text-xs text-gray-300">{account.access.message}</div>
+            )}
+
+            <div>
+                <div className="flex justify-between items-baseline gap-3 mb-2">
+                    <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Video ads on this page</div>
+                    {account?.brandProfile && <div className="text-[11px] text-gray-500 truncate">Brand: {account.brandProfile.name}</div>}
+                </div>
+                {state?.ads.length ? (
+                    <ul className="space-y-2">
+                        {state.ads.map((ad) => (
+                            <AdRow key={ad.id} ad={ad} onAudit={() => audit(ad)} disabled={busy || !account?.access.allowed} />
+                        ))}
+                    </ul>
+                ) : (
+                    <div className="text-xs text-gray-500">
+                        No video ad previews found. Open an ad in Ads Manager and its preview will show up here.
+                    </div>
+                )}
+            </div>
+
+            {busy && <div className="text-xs text-gray-400 font-mono">{STAGE_TEXT[stage]}…</div>}
+            {error && (
+                <div className="text-sm text-[#ff2e63] flex items-start gap-2">
+                    <i className="fa-solid fa-circle-exclamation mt-0.5"></i> {error}
+                </div>
+            )}
+
+            {audited && (
+                <div className="space-y-4">
+                    <video ref={videoRef} src={audited.url} controls playsInline className="w-full max-h-64 bg-black rounded-lg" />
+                    {audited.auditUrl && (
+                        <a href={audited.auditUrl} target="_blank" rel="noreferrer" className="block text-xs text-gray-400 hover:text-white transition-colors">
+                            <i className="fa-solid fa-arrow-up-right-from-square mr-1.5"></i>Open in ViralAudit
+                        </a>
+                    )}
+                    <AuditReportView
+                        report={audited.result.report}
+                        pacing={audited.request.pacing}
+                        onSeek={seekTo}
+                        activeFindingId={activeFindingId}
+                        durationSec={audited.request.durationSec}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SidePanel;
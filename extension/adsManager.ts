@@ -0,0 +1,35 @@
+import { detectVideoAds } from "./detection";
+import type { BackgroundMessage } from "./messages";
+
+// Content script for Ads Manager, including the preview iframes. Previews render late and change as
+// the user edits the ad, so detection re-runs whenever the page settles after a change.
+
+const SETTLE_MS = 500;
+
+let lastReport = '';
+let timer: number | undefined;
+
+const report = () => {
+    const ads = detectVideoAds(document, location.href);
+    const serialized = JSON.stringify(ads);
+    if (serialized === lastReport) return;
+    lastReport = serialized;
+    const message: BackgroundMessage = { type: 'ads/detected', ads };
+    // The worker may be restarting; the next change reports again
+    chrome.runtime.sendMessage(message).catch(() => undefined);
+};
+
+const schedule = () => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(report, SETTLE_MS);
+};
+
+new MutationObserver(schedule).observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['src', 'aria-label'],
+});
+// Sizes are only known once a video has loaded its metadata
+document.addEventListener('loadedmetadata', schedule, true);
+schedule();
@@ -0,0 +1,67 @@
+import type { BridgeMessage, AppAccount, RecordResponse } from "./messages";
+import { getAuthClient, readStoredSession } from "../services/authClient";
+import { AccessScope, checkAccess, personalAccessScope } from "../services/entitlements";
+import { recordAuditUsage } from "../services/usage";
+import { saveAudit } from "../services/auditStore";
+import { toBrandRules } from "../services/brandProfiles";
+import { getSelectedBrandProfile } from "../services/brandProfileStore";
+import { readAuditLanguage } from "../services/i18n";
+import { createThumbnail } from "../services/videoFile";
+import { getWorkspaceClient } from "../services/workspaceClient";
+import { LibraryScope, personalScope, readActiveWorkspaceId, workspaceScope } from "../services/workspaces";
+import { User } from "../types";
+
+// Content script for the ViralAudit web app. It runs on the app's origin, so it sees the same
+// session, usage counters and history as the signed-in tab, and the extension acts as that account
+// in whichever workspace the app last had selected.
+
+interface Caller {
+    user: User;
+    library: LibraryScope;
+    access: AccessScope;
+}
+
+// The app keeps the access token fresh while it is open; an expired one means signed out here
+const currentCaller = async (): Promise<Caller | null> => {
+    const session = readStoredSession();
+    if (!session) return null;
+    const user = await getAuthClient().getUser(session.accessToken).catch(() => null);
+    if (!user) return null;
+    const workspaceId = readActiveWorkspaceId(user.id);
+    const workspace = workspaceId
+        ? (await getWorkspaceClient().listWorkspaces(session.accessToken).catch(() => [])).find((candidate) => candidate.id === workspaceId)
+        : undefined;
+    return workspace
+        ? { user, library: workspaceScope(user, workspace), access: { account: workspace.billing, role: workspace.role } }
+        : { user, library: personalScope(user), access: personalAccessScope(user) };
+};
+
+const account = async (): Promise<AppAccount> => {
+    const caller = await currentCaller();
+    const brandProfile = caller ? await getSelectedBrandProfile(caller.library).catch(() => null) : null;
+    return {
+        user: caller?.user ?? null,
+        access: checkAccess(caller?.user ?? null, { type: 'audit' }, undefined, caller?.access),
+        brandProfile: brandProfile ? toBrandRules(brandProfile) : undefined,
+        auditLanguage: readAuditLanguage(),
+    };
+};
+
+const record = async ({ request, result }: Extract<BridgeMessage, { type: 'app/record' }>): Promise<RecordResponse> => {
+    const caller = await currentCaller();
+    if (!caller) return { auditId: null };
+    recordAuditUsage(caller.access.account);
+    // As in the workspace, history is best effort and the opening frame is often black
+    const { frames } = request;
+    const thumbnail = frames.length ? await createThumbnail(frames[Math.min(1, frames.length - 1)]).catch(() => undefined) : undefined;
+    const saved = await saveAudit(caller.library, request, result, { thumbnail, tags: ['extension'] }).catch(() => null);
+    return { auditId: saved?.id ?? null };
+};
+
+chrome.runtime.onMessage.addListener((message: BridgeMessage, _sender, sendResponse) => {
+    if (message.type === 'app/account') account().then(sendResponse);
+    else if (message.type === 'app/record') record(message).then(sendResponse);
+    else return false;
+    // Keeps the channel open for the async response
+    return true;
+});
@@ -0,0 +1,107 @@
+import type { AuditRequest } from "../types";
+import type { DetectedAd } from "./detection";
+import { APP_URL, AppAccount, AuditRunResponse, BackgroundMessage, BridgeMessage, PanelMessage, PanelState, RecordResponse } from "./messages";
+import { getAuditService } from "../services/auditService";
+import { describeAuditError } from "../services/auditErrors";
+import { auditPath } from "../constants";
+
+// Service worker. It keeps what each tab's content scripts detected, runs audits through the same
+// audit service as the web app, and acts as the account signed in to an open ViralAudit tab.
+
+// Ads per frame of each tab; previews in Ads Manager live in their own iframes
+const DETECTIONS_KEY = 'detections';
+type Detections = Record<number, Record<number, DetectedAd[]>>;
+
+// Session storage outlives the worker, which Chrome stops after 30 seconds idle
+const readDetections = async (): Promise<Detections> => ((await chrome.storage.session.get(DETECTIONS_KEY))[DETECTIONS_KEY] as Detections) ?? {};
+
+// Frames report at the same time; queued so one update can't overwrite another
+let updates = Promise.resolve();
+const updateDetections = (update: (detections: Detections) => void) =>
+    (updates = updates.then(async () => {
+        const detections = await readDetections();
+        update(detections);
+        await chrome.storage.session.set({ [DETECTIONS_KEY]: detections });
+    }).catch(() => undefined));
+
+const adsForTab = async (tabId: number | undefined): Promise<DetectedAd[]> => {
+    if (tabId === undefined) return [];
+    const frames = (await readDetections())[tabId] ?? {};
+    // The same creative previewed in several frames is one ad
+    const ads = new Map<string, DetectedAd>();
+    Object.values(frames).flat().forEach((ad) => {
+        const existing = ads.get(ad.id);
+        if (existing) existing.placements = Array.from(new Set([...existing.placements, ...ad.placements]));
+        else ads.set(ad.id, { ...ad, placements: [...ad.placements] });
+    });
+    return Array.from(ads.values());
+};
+
+const activeTabId = async () => (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+
+// --- Web app ---
+
+const appTab = async () => (await chrome.tabs.query({ url: `${new URL(APP_URL).origin}/*` }))[0];
+
+const sendToApp = async <T,>(message: BridgeMessage): Promise<T | null> => {
+    const tab = await appTab();
+    if (tab?.id === undefined) return null;
+    // The bridge isn't there until the tab reloads after the extension is installed
+    return chrome.tabs.sendMessage<BridgeMessage, T>(tab.id, message).catch(() => null);
+};
+
+const runAudit = async (request: AuditRequest): Promise<AuditRunResponse> => {
+    const account = await sendToApp<AppAccount>({ type: 'app/account' });
+    if (!account) return { ok: false, message: 'Open ViralAudit in a tab and sign in so the extension can use your account.' };
+    if (!account.access.allowed) return { ok: false, message: account.access.message ?? 'Your plan does not include another audit.' };
+
+    try {
+        const result = await getAuditService().runAudit(request);
+        // Only completed audits count against the plan, as in the web app
+        const recorded = await sendToApp<RecordResponse>({ type: 'app/record', request, result });
+        return { ok: true, result, auditUrl: recorded?.auditId ? `${APP_URL}${auditPath(recorded.auditId)}` : null };
+    } catch (err) {
+        return { ok: false, message: describeAuditError(err) };
+    }
+};
+
+// --- Messages ---
+
+const handle = async (message: BackgroundMessage, sender: chrome.runtime.MessageSender): Promise<unknown> => {
+    switch (message.type) {
+        case 'ads/detected': {
+            const tabId = sender.tab?.id;
+            if (tabId === undefined) return null;
+            await updateDetections((detections) => {
+                detections[tabId] = { ...detections[tabId], [sender.frameId ?? 0]: message.ads };
+            });
+            const changed: PanelMessage = { type: 'ads/changed', tabId };
+            // Nobody is listening while the side panel is closed
+            chrome.runtime.sendMessage(changed).catch(() => undefined);
+            return null;
+        }
+        case 'panel/state': {
+            const state: PanelState = {
+                ads: await adsForTab(await activeTabId()),
+                account: await sendToApp<AppAccount>({ type: 'app/account' }),
+                appUrl: APP_URL,
+            };
+            return state;
+        }
+        case 'audit/run':
+            return runAudit(message.request);
+    }
+};
+
+chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendResponse) => {
+    handle(message, sender).then(sendResponse);
+    return true;
+});
+
+// A navigation replaces the page, and with it everything its frames detected
+chrome.tabs.onUpdated.addListener((tabId, change) => {
+    if (change.status === 'loading') updateDetections((detections) => void delete detections[tabId]);
+});
+chrome.tabs.onRemoved.addListener((tabId) => updateDetections((detections) => void delete detections[tabId]));
+
+chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true }).catch(() => undefined);
@@ -0,0 +1,118 @@
+// Finds video ad previews on Ads Manager pages. Detection only reads the DOM, so the same function
+// runs in the content script and against the saved pages in fixtures/adsmanager.
+
+export interface DetectedAd {
+    // Stable for the life of the page: the video's URL, or a generated id for streamed previews
+    id: string;
+    // Null when the preview streams through MediaSource and its file can't be downloaded
+    src: string | null;
+    poster?: string;
+    width?: number;
+    height?: number;
+    // Placement headings the video is previewed under, e.g. "Facebook Feed"
+    placements: string[];
+    // From the ad name field when the editor is open
+    adName?: string;
+}
+
+// Containers Ads Manager renders ad previews into. Videos anywhere else (help videos, tutorials,
+// the campaigns table's hover previews) are not the user's ad.
+const PREVIEW_SELECTORS = [
+    '[data-testid*="ad-preview" i]',
+    '[aria-label*="ad preview" i]',
+    '[data-surface*="ad_preview" i]',
+];
+// The iframe Ads Manager embeds for each placement preview holds nothing but the preview
+const PREVIEW_FRAME_PATH = /\/ads\/api\/preview_iframe\.php/;
+const AD_NAME_SELECTORS = ['input[aria-label="Ad name" i]', '[data-testid="ad-name-field"] input'];
+
+const PLACEMENT_NAMES = [
+    'Facebook Feed',
+    'Facebook Stories',
+    'Facebook Reels',
+    'Facebook Marketplace',
+    'Facebook Video Feeds',
+    'Instagram Feed',
+    'Instagram Stories',
+    'Instagram Reels',
+    'Instagram Explore',
+];
+const HEADING_SELECTOR = ':scope > [role="heading"], :scope > h1, :scope > h2, :scope > h3, :scope > h4';
+
+// At this size or smaller it's a thumbnail, not a preview
+const MIN_PREVIEW_SIZE = 120;
+
+const sizeOf = (video: HTMLVideoElement) => {
+    const width = video.videoWidth || Number(video.getAttribute('width')) || 0;
+    const height = video.videoHeight || Number(video.getAttribute('height')) || 0;
+    if (width && height) return { width, height };
+    // Saved pages have no layout, so this is only a fallback for live pages
+    const rect = video.getBoundingClientRect();
+    return rect.width && rect.height ? { width: Math.round(rect.width), height: Math.round(rect.height) } : {};
+};
+
+const sourceOf = (video: HTMLVideoElement) => {
+    const src = video.currentSrc || video.getAttribute('src') || video.querySelector('source[src]')?.getAttribute('src') || '';
+    if (!src) return null;
+    try {
+        const url = new URL(src, video.ownerDocument.baseURI);
+        return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null;
+    } catch {
+        return null;
+    }
+};
+
+const placementOf = (video: HTMLVideoElement, root: Element) => {
+    for (let node: Element | null = video; node && node !== root.parentElement; node = node.parentElement) {
+        const candidates = [node.getAttribute('aria-label') ?? '', ...Array.from(node.querySelectorAll(HEADING_SELECTOR), (heading) => heading.textContent ?? '')];
+        const name = PLACEMENT_NAMES.find((placement) => candidates.some((text) => text.includes(placement)));
+        if (name) return name;
+    }
+    return null;
+};
+
+const adNameOf = (doc: Document) => {
+    for (const selector of AD_NAME_SELECTORS) {
+        const value = doc.querySelector<HTMLInputElement>(selector)?.value.trim();
+        if (value) return value;
+    }
+    return undefined;
+};
+
+let streamedIds = new WeakMap<HTMLVideoElement, string>();
+let nextStreamedId = 1;
+
+const idOf = (video: HTMLVideoElement, src: string | null) => {
+    if (src) return src;
+    if (!streamedIds.has(video)) streamedIds.set(video, `stream-${nextStreamedId++}`);
+    return streamedIds.get(video)!;
+};
+
+// For fixture runs, so ids don't depend on what ran before
+export const resetDetectionIds = () => {
+    streamedIds = new WeakMap();
+    nextStreamedId = 1;
+};
+
+export const detectVideoAds = (doc: Document, pageUrl: string): DetectedAd[] => {
+    const roots = PREVIEW_FRAME_PATH.test(new URL(pageUrl).pathname)
+        ? [doc.body ?? doc.documentElement]
+        : Array.from(doc.querySelectorAll(PREVIEW_SELECTORS.join(',')));
+    const adName = adNameOf(doc);
+    const ads = new Map<string, DetectedAd>();
+
+    // Nested preview containers would otherwise list the same video twice; the Map takes care of that
+    roots.forEach((root) => {
+        root.querySelectorAll('video').forEach((video) => {
+            const size = sizeOf(video);
+            if (size.width && size.height && Math.max(size.width, size.height) <= MIN_PREVIEW_SIZE) return;
+            const src = sourceOf(video);
+            const id = idOf(video, src);
+            const ad = ads.get(id) ?? { id, src, poster: video.getAttribute('poster') || undefined, ...size, placements: [], adName };
+            const placement = placementOf(video, root);
+            if (placement && !ad.placements.includes(placement)) ad.placements.push(placement);
+            ads.set(id, ad);
+        });
+    });
+    return Array.from(ads.values());
+};
@@ -0,0 +1,52 @@
+import expected from "../fixtures/adsmanager/expected.json";
+import { DetectedAd, detectVideoAds, resetDetectionIds } from "./detection";
+
+// Runs detection against the saved Ads Manager pages in fixtures/adsmanager and compares the result
+// with expected.json. Add a page there whenever Ads Manager's markup changes in a way that matters.
+
+const pages = import.meta.glob<string>('../fixtures/adsmanager/*.html', { query: '?raw', import: 'default', eager: true });
+
+interface ExpectedAd {
+    src: string | null;
+    placements: string[];
+    adName?: string;
+}
+
+export interface FixtureResult {
+    name: string;
+    url: string;
+    ads: DetectedAd[];
+    // Empty when the page passed
+    problems: string[];
+}
+
+const describe = (ad: ExpectedAd) => ad.src ?? `streamed video (${ad.placements.join(', ') || 'no placement'})`;
+
+const compare = (actual: DetectedAd[], wanted: ExpectedAd[]) => {
+    const problems: string[] = [];
+    if (actual.length !== wanted.length) problems.push(`Expected ${wanted.length} ads, found ${actual.length}.`);
+    wanted.forEach((want, i) => {
+        const ad = actual[i];
+        if (!ad) return;
+        if (ad.src !== want.src) problems.push(`Ad ${i + 1}: expected ${describe(want)}, found ${ad.src ?? 'a streamed video'}.`);
+        if ([...ad.placements].sort().join() !== [...want.placements].sort().join()) {
+            problems.push(`Ad ${i + 1}: expected placements [${want.placements.join(', ')}], found [${ad.placements.join(', ')}].`);
+        }
+        if (ad.adName !== want.adName) problems.push(`Ad ${i + 1}: expected ad name ${want.adName ?? 'none'}, found ${ad.adName ?? 'none'}.`);
+    });
+    actual.slice(wanted.length).forEach((ad) => problems.push(`Unexpected ad ${ad.src ?? ad.id}.`));
+    return problems;
+};
+
+export const runDetectionFixtures = (): FixtureResult[] => {
+    const cases = expected as Record<string, { url: string; ads: ExpectedAd[] }>;
+    const parser = new DOMParser();
+    return Object.entries(pages).map(([path, html]) => {
+        const name = path.split('/').pop()!;
+        const wanted = cases[name];
+        if (!wanted) return { name, url: '', ads: [], problems: ['No entry in expected.json.'] };
+        resetDetectionIds();
+        const ads = detectVideoAds(parser.parseFromString(html, 'text/html'), wanted.url);
+        return { name, url: wanted.url, ads, problems: compare(ads, wanted.ads) };
+    });
+};
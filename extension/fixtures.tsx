@@ -0,0 +1,38 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import { runDetectionFixtures } from "./detectionFixtures";
+
+// Development page: `npm run dev`, then open /extension/fixtures.html
+const FixtureReport = () => {
+    const results = runDetectionFixtures();
+    const failed = results.filter((result) => result.problems.length).length;
+    return (
+        <div className="max-w-3xl mx-auto p-8 space-y-4">
+            <h1 className="text-2xl font-bold font-heading">Ad detection fixtures</h1>
+            <div className={failed ? 'text-[#ff2e63]' : 'text-[#08d9d6]'}>
+                {failed ? `${failed} of ${results.length} pages failed` : `All ${results.length} pages passed`}
+            </div>
+            {results.map((result) => (
+                <div key={result.name} className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-5">
+                    <div className="flex items-center gap-2 font-mono text-sm">
+                        <i className={`fa-solid ${result.problems.length ? 'fa-circle-xmark text-[#ff2e63]' : 'fa-circle-check text-[#08d9d6]'}`}></i>
+                        {result.name}
+                    </div>
+                    <div className="text-[11px] text-gray-500 font-mono truncate mt-1">{result.url}</div>
+                    <ul className="mt-3 space-y-1 text-xs text-gray-400">
+                        {result.ads.map((ad) => (
+                            <li key={ad.id} className="truncate">
+                                {ad.src ?? 'Streamed video'} {ad.placements.length > 0 && <span className="text-gray-600">· {ad.placements.join(', ')}</span>}
+                            </li>
+                        ))}
+                        {result.problems.map((problem, i) => (
+                            <li key={`problem-${i}`} className="text-[#ff2e63]">{problem}</li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+createRoot(document.getElementById('root')!).render(<FixtureReport />);
@@ -0,0 +1,29 @@
+// Manifest V3 for the extension build. The web app's origin is only known at build time, so the
+// manifest is generated rather than checked in.
+
+const ADS_MANAGER_MATCHES = [
+    'https://adsmanager.facebook.com/*',
+    'https://business.facebook.com/*',
+    // Placement previews are iframes served from here
+    'https://www.facebook.com/ads/api/preview_iframe.php*',
+];
+
+export const buildManifest = (appUrl: string, version: string) => {
+    const appMatch = `${new URL(appUrl).origin}/*`;
+    return {
+        manifest_version: 3,
+        name: 'ViralAudit',
+        description: 'Audit video ads for hooks, pacing and copy while you build them in Meta Ads Manager.',
+        version,
+        action: { default_title: 'Open ViralAudit' },
+        side_panel: { default_path: 'sidepanel.html' },
+        background: { service_worker: 'background.js', type: 'module' },
+        content_scripts: [
+            { matches: ADS_MANAGER_MATCHES, js: ['adsManager.js'], all_frames: true, run_at: 'document_idle' },
+            { matches: [appMatch], js: ['appBridge.js'], run_at: 'document_idle' },
+        ],
+        permissions: ['sidePanel', 'storage', 'tabs'],
+        // Downloading previews from Meta's CDN, and calling the audit provider from the worker
+        host_permissions: [...ADS_MANAGER_MATCHES, 'https://*.fbcdn.net/*', 'https://generativelanguage.googleapis.com/*', appMatch],
+    };
+};
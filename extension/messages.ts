@@ -0,0 +1,55 @@
+import type { AuditRequest, AuditResult, BrandRules, User } from "../types";
+import type { AccessDecision } from "../services/entitlements";
+import type { DetectedAd } from "./detection";
+
+// Messages between the extension's parts. Content scripts and the side panel talk to the background
+// worker; the background worker talks to the bridge running in an open ViralAudit tab.
+
+// --- To the background worker ---
+
+export type BackgroundMessage =
+    // From the Ads Manager content script, whenever the previews on its page change
+    | { type: 'ads/detected'; ads: DetectedAd[] }
+    // From the side panel
+    | { type: 'panel/state' }
+    | { type: 'audit/run'; request: AuditRequest };
+
+// --- To the side panel ---
+
+export type PanelMessage = { type: 'ads/changed'; tabId: number };
+
+// --- To the web app bridge ---
+
+export type BridgeMessage =
+    | { type: 'app/account' }
+    // Charges the audit to the account and saves it to history
+    | { type: 'app/record'; request: AuditRequest; result: AuditResult };
+
+// --- Responses ---
+
+export interface AppAccount {
+    user: User | null;
+    access: AccessDecision;
+    // The brand profile chosen in the app for the current library
+    brandProfile?: BrandRules;
+    // The report language chosen in the app
+    auditLanguage?: string;
+}
+
+export interface PanelState {
+    ads: DetectedAd[];
+    // Null when no ViralAudit tab is open to share its session
+    account: AppAccount | null;
+    appUrl: string;
+}
+
+export type AuditRunResponse =
+    | { ok: true; result: AuditResult; auditUrl: string | null }
+    | { ok: false; message: string };
+
+export interface RecordResponse {
+    auditId: string | null;
+}
+
+// The web app the extension shares a session with, from VIRALAUDIT_APP_URL at build time
+export const APP_URL = process.env.VIRALAUDIT_APP_URL || 'http://localhost:3000';
@@ -0,0 +1,6 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import SidePanel from "./SidePanel";
+import "./sidepanel.css";
+
+createRoot(document.getElementById('root')!).render(<SidePanel />);
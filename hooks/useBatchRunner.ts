@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { BatchAudit, BatchItem } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { getAuditService } from "../services/auditService";
+import { listAudioTracks } from "../services/audioLibrary";
+import { toBrandRules } from "../services/brandProfiles";
+import { getSelectedBrandProfile } from "../services/brandProfileStore";
+import { readAuditLanguage } from "../services/i18n";
+import { checkAccess } from "../services/entitlements";
+import { BatchQueue, createBatchQueue } from "../services/batchQueue";
+import { BatchItemUpdate, listBatchItems, updateBatchItem } from "../services/batchStore";
+import { BatchItemProgress, runBatchItem } from "../services/batchAudits";
+
+// Runs one batch while its page is open. Every status change is written to IndexedDB as it
+// happens; items that were running when the page went away are queued again on load.
+
+export const useBatchRunner = (batch: BatchAudit | null) => {
+    const { user } = useAuth();
+    const { library, access } = useWorkspace();
+    const [items, setItems] = useState<BatchItem[] | null>(null);
+    const [progress, setProgress] = useState<Record<string, BatchItemProgress>>({});
+    const [running, setRunning] = useState(false);
+    const [pausedReason, setPausedReason] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const itemsRef = useRef<BatchItem[]>([]);
+    const queueRef = useRef<BatchQueue | null>(null);
+
+    const patch = useCallback(
+        (id: string, update: BatchItemUpdate) => {
+            const next = itemsRef.current.map((item) => (item.id === id ? { ...item, ...update, updatedAt: new Date().toISOString() } : item));
+            itemsRef.current = next;
+            setItems(next);
+            // The page keeps going on what it has in memory if a write fails
+            if (user) updateBatchItem(user, id, update).catch(() => undefined);
+        },
+        [user]
+    );
+
+    const clearProgress = (id: string) =>
+        setProgress((current) => {
+            const { [id]: _, ...rest } = current;
+            return rest;
+        });
+
+    const stopQueue = () => {
+        queueRef.current?.stop();
+        queueRef.current = null;
+        setRunning(false);
+        setPausedReason(null);
+        setProgress({});
+    };
+
+    useEffect(() => {
+        setItems(null);
+        setLoadError(null);
+        itemsRef.current = [];
+        if (!user || !batch) return;
+        let cancelled = false;
+        listBatchItems(user, batch.id)
+            .then((list) => {
+                if (cancelled) return;
+                itemsRef.current = list;
+                setItems(list);
+                list.filter((item) => item.status === 'running').forEach((item) => patch(item.id, { status: 'queued' }));
+            })
+            .catch((err) => !cancelled && setLoadError(err instanceof Error ? err.message : 'The batch could not be loaded.'));
+        return () => {
+            cancelled = true;
+            stopQueue();
+        };
+    }, [user, batch?.id, patch]);
+
+    const start = useCallback(() => {
+        if (!user || !library || !access || !batch || queueRef.current) return;
+        const service = getAuditService();
+        const tracks = listAudioTracks(user).catch(() => []);
+        const brandProfile = getSelectedBrandProfile(library)
+            .then((profile) => (profile ? toBrandRules(profile) : undefined))
+            .catch(() => undefined);
+        const language = readAuditLanguage();
+
+        const queue = createBatchQueue({
+            concurrency: batch.concurrency,
+            perMinute: batch.perMinute,
+            retries: batch.retries,
+            run: async (id, signal) => {
+                const item = itemsRef.current.find((candidate) => candidate.id === id);
+                if (!item) return;
+                const { result, audit } = await runBatchItem(item, {
+                    library,
+                    account: access.account,
+                    service,
+                    tracks: await tracks,
+                    brandProfile: await brandProfile,
+                    language,
+                    signal,
+                    onProgress: (next) => setProgress((current) => ({ ...current, [id]: next })),
+                });
+                // The stored file isn't needed once the audit is in history
+                patch(id, {
+                    status: 'done',
+                    error: undefined,
+                    auditId: audit?.id,
+                    // Ranked by the library's rubric when the audit was scored with one
+                    score: audit?.scoring?.score ?? result.report.score,
+                    maxScore: audit?.scoring ? 10 : result.report.maxScore,
+                    source: item.source.kind === 'file' ? { kind: 'file', fileName: item.source.fileName } : item.source,
+                });
+            },
+            // Items already running have yet to be charged, so they count against what's left
+            canStart: (active) => {
+                const decision = checkAccess(user, { type: 'audit', count: active + 1 }, undefined, access);
+                return decision.allowed ? null : decision.message ?? 'Your plan does not include another audit.';
+            },
+            onStart: (id, attempt) => patch(id, { status: 'running', attempts: attempt, error: undefined }),
+            onRetry: (id, error, delayMs) => {
+                clearProgress(id);
+                patch(id, { status: 'queued', error: `${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s.` });
+            },
+            onFail: (id, error) => {
+                clearProgress(id);
+                patch(id, { status: 'failed', error: error.message });
+            },
+            onCancel: (id) => {
+                clearProgress(id);
+                patch(id, { status: 'cancelled', error: undefined });
+            },
+            onPause: setPausedReason,
+            onIdle: () => {
+                queueRef.current = null;
+                setRunning(false);
+            },
+        });
+        queueRef.current = queue;
+        setRunning(true);
+        setPausedReason(null);
+        queue.add(itemsRef.current.filter((item) => item.status === 'queued').map(({ id, attempts }) => ({ id, attempts })));
+    }, [user, library, access, batch, patch]);
+
+    const pause = useCallback(() => queueRef.current?.pause(), []);
+    const resume = useCallback(() => queueRef.current?.resume(), []);
+    const cancelItem = useCallback(
+        (id: string) => {
+            if (queueRef.current) queueRef.current.cancel(id);
+            else patch(id, { status: 'cancelled' });
+        },
+        [patch]
+    );
+
+    // Failed and cancelled items get a fresh set of attempts
+    const retry = useCallback(
+        (ids: string[]) => {
+            ids.forEach((id) => patch(id, { status: 'queued', attempts: 0, error: undefined }));
+            if (queueRef.current) queueRef.current.add(ids.map((id) => ({ id })));
+        },
+        [patch]
+    );
+
+    return { items, progress, running, pausedReason, loadError, start, pause, resume, cancelItem, retry };
+};
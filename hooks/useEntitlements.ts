@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { AccessRequest, AccessScope, checkAccess, getUserPlan } from "../services/entitlements";
+import { UsageRecord, billingPeriod, getUsage, recordAuditUsage, subscribeToUsage, usageAnchor } from "../services/usage";
+
+// Plan, quota and role checks for the active workspace, or the user's own account outside one.
+// Pass a scope to check another account, e.g. the user's own on the account page.
+export const useEntitlements = (scope?: AccessScope | null) => {
+    const { user } = useAuth();
+    const workspace = useWorkspace();
+    const access = scope ?? workspace.access;
+    const account = access?.account ?? null;
+    const [usage, setUsage] = useState<UsageRecord | null>(() => (account ? getUsage(account) : null));
+
+    useEffect(() => {
+        const refresh = () => setUsage(account ? getUsage(account) : null);
+        refresh();
+        return subscribeToUsage(refresh);
+    }, [account]);
+
+    const check = useCallback(
+        (request: AccessRequest) => checkAccess(user, request, usage ?? undefined, access ?? undefined),
+        [user, usage, access]
+    );
+
+    const recordAudit = useCallback(() => {
+        if (account) recordAuditUsage(account);
+    }, [account]);
+
+    return {
+        plan: getUserPlan(account),
+        usage,
+        period: account ? billingPeriod(usageAnchor(account)) : null,
+        check,
+        recordAudit,
+    };
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect, useMemo } from "react";
+import { FrameEdges, PLACEMENTS, PLACEMENT_ORDER, PlacementId, PlacementWarning, checkPlacement, sampleFrameEdges } from "../services/placements";
+
+// Format warnings are known from the dimensions alone; safe-zone warnings follow once a few frames
+// have been sampled. A video that can't be sampled just gets the format warnings.
+export const usePlacementWarnings = (src: string | null, width?: number, height?: number) => {
+    const [edges, setEdges] = useState<FrameEdges[] | null>(null);
+
+    useEffect(() => {
+        setEdges(null);
+        if (!src) return;
+        const controller = new AbortController();
+        sampleFrameEdges(src, controller.signal)
+            .catch(() => [])
+            .then((sampled) => {
+                if (!controller.signal.aborted) setEdges(sampled);
+            });
+        return () => controller.abort();
+    }, [src]);
+
+    const warnings = useMemo(() => {
+        if (!width || !height) return null;
+        return Object.fromEntries(
+            PLACEMENT_ORDER.map((id) => [id, checkPlacement(PLACEMENTS[id], width, height, edges ?? [])])
+        ) as Record<PlacementId, PlacementWarning[]>;
+    }, [width, height, edges]);
+
+    return { warnings, checkingSafeZones: !!src && edges === null };
+};
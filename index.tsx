@@ -1,225 +1,60 @@
-import React, { useState, useEffect, useContext, createContext } from "react";
+import React, { useState, useEffect, useRef, lazy, Suspense } from "react";
 import { createRoot } from "react-dom/client";
 import { motion, AnimatePresence } from "framer-motion";
+import { AuditReportView, ReportErrors } from "./components/AuditReportView";
+import { parseAuditReport } from "./services/reportParser";
+import { EXTENSION_INSTALL_URL, ROUTES, SAMPLE_REPORT_TEXT } from "./constants";
+import { AuthProvider, useAuth } from "./context/AuthContext";
+import { WorkspaceProvider } from "./context/WorkspaceContext";
+import { I18nProvider, useI18n } from "./context/I18nContext";
+import { Link, RouterProvider, matchRoute, safeRedirectPath, useRouter } from "./context/RouterContext";
+import RequireAuth from "./components/RequireAuth";
+import DashboardPage from "./pages/DashboardPage";
+import AuditPage from "./pages/AuditPage";
+import AccountPage from "./pages/AccountPage";
+import HistoryPage from "./pages/HistoryPage";
+import BatchPage from "./pages/BatchPage";
+import TeamPage from "./pages/TeamPage";
+import RubricPage from "./pages/RubricPage";
+import BrandsPage from "./pages/BrandsPage";
+import InvitePage from "./pages/InvitePage";
+import SharedReportPage from "./pages/SharedReportPage";
+import AuthModal from "./components/AuthModal";
+import { useCopyReport } from "./components/ReportExportMenu";
+import { PlacementFrame, PlacementTabs, PlacementWarnings } from "./components/PlacementPreview";
+import { usePlacementWarnings } from "./hooks/usePlacementWarnings";
+import { PLACEMENTS, PlacementId } from "./services/placements";
+import { VideoMetadata, readVideoMetadata, validateVideoFile } from "./services/videoFile";
+import WorkspaceSwitcher from "./components/WorkspaceSwitcher";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import { PLANS, PLAN_ORDER, Plan, planFeatureList } from "./services/plans";
+import { checkoutUrl, hasLiveSubscription } from "./services/lemonSqueezy";
+
+// Dev-only tools, loaded on demand so a production build leaves them out along with the webhook
+// fixtures and signing secret they use
+const DevMailbox = import.meta.env.DEV ? lazy(() => import("./components/DevMailbox")) : null;
+const DevBillingPanel = import.meta.env.DEV ? lazy(() => import("./components/DevBillingPanel")) : null;
 
 // --- Utils ---
 
-const scrollToSection = (e: React.MouseEvent, id: string) => {
-  e.preventDefault();
-  const element = document.getElementById(id);
-  if (element) {
-    element.scrollIntoView({ behavior: "smooth" });
-  }
-};
-
-// --- Auth Context ---
-
-type User = {
-    email: string;
-    name?: string;
-};
-
-interface AuthContextType {
-    user: User | null;
-    isLoading: boolean;
-    login: (email: string) => void;
-    signup: (email: string) => void;
-    logout: () => void;
-    showAuthModal: boolean;
-    setShowAuthModal: (show: boolean) => void;
-    authView: 'login' | 'signup';
-    setAuthView: (view: 'login' | 'signup') => void;
-}
-
-const AuthContext = createContext<AuthContextType>({
-    user: null,
-    isLoading: false,
-    login: () => {},
-    signup: () => {},
-    logout: () => {},
-    showAuthModal: false,
-    setShowAuthModal: () => {},
-    authView: 'signup',
-    setAuthView: () => {},
-});
-
-const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-    const [user, setUser] = useState<User | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [showAuthModal, setShowAuthModal] = useState(false);
-    const [authView, setAuthView] = useState<'login' | 'signup'>('signup');
-
-    // Simulate session check on mount
-    useEffect(() => {
-        const storedUser = localStorage.getItem('viralAuditUser');
-        if (storedUser) {
-            setUser(JSON.parse(storedUser));
-        }
-        setIsLoading(false);
-    }, []);
-
-    const login = (email: string) => {
-        const newUser = { email };
-        setUser(newUser);
-        localStorage.setItem('viralAuditUser', JSON.stringify(newUser));
-        setShowAuthModal(false);
-    };
-
-    const signup = (email: string) => {
-        // In a real app, this would create the user in DB
-        const newUser = { email };
-        setUser(newUser);
-        localStorage.setItem('viralAuditUser', JSON.stringify(newUser));
-        setShowAuthModal(false);
-    };
-
-    const logout = () => {
-        setUser(null);
-        localStorage.removeItem('viralAuditUser');
-    };
+// Marketing anchors work from every route: on the home page they scroll, elsewhere they go home first
+const SectionLink = ({ id, className, children }: { id: string; className?: string; children: React.ReactNode }) => {
+  const { location, navigate } = useRouter();
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (location.pathname === ROUTES.home) {
+      document.getElementById(id)?.scrollIntoView({ behavior: "smooth" });
+    } else {
+      navigate(`${ROUTES.home}#${id}`);
+    }
+  };
 
-    return (
-        <AuthContext.Provider value={{ 
-            user, 
-            isLoading, 
-            login, 
-            signup, 
-            logout,
-            showAuthModal,
-            setShowAuthModal,
-            authView,
-            setAuthView
-        }}>
-            {children}
-        </AuthContext.Provider>
-    );
+  return <a href={`${ROUTES.home}#${id}`} onClick={handleClick} className={className}>{children}</a>;
 };
 
-const useAuth = () => useContext(AuthContext);
-
 // --- Components ---
 
-const AuthModal = () => {
-    const { showAuthModal, setShowAuthModal, login, signup, authView, setAuthView } = useAuth();
-    const [email, setEmail] = useState("");
-    const [password, setPassword] = useState("");
-    const [loading, setLoading] = useState(false);
-
-    if (!showAuthModal) return null;
-
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setLoading(true);
-        
-        // Simulate API delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        if (authView === 'login') {
-            login(email);
-        } else {
-            signup(email);
-        }
-        setLoading(false);
-        setEmail("");
-        setPassword("");
-    };
-
-    return (
-        <AnimatePresence>
-            {showAuthModal && (
-                <>
-                    <motion.div
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        exit={{ opacity: 0 }}
-                        onClick={() => setShowAuthModal(false)}
-                        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-[200] cursor-pointer"
-                    />
-                    <div className="fixed inset-0 z-[201] flex items-center justify-center pointer-events-none p-4">
-                        <motion.div
-                            initial={{ scale: 0.95, opacity: 0, y: 20 }}
-                            animate={{ scale: 1, opacity: 1, y: 0 }}
-                            exit={{ scale: 0.95, opacity: 0, y: 20 }}
-                            className="bg-[#111] w-full max-w-md rounded-2xl border border-white/10 shadow-2xl pointer-events-auto overflow-hidden"
-                        >
-                            {/* Header */}
-                            <div className="p-6 border-b border-white/5 flex justify-between items-center bg-[#151515]">
-                                <h3 className="font-heading font-bold text-xl">
-                                    {authView === 'login' ? 'Welcome Back' : 'Create Account'}
-                                </h3>
-                                <button 
-                                    onClick={() => setShowAuthModal(false)}
-                                    className="text-gray-500 hover:text-white transition-colors"
-                                >
-                                    <i className="fa-solid fa-xmark text-lg"></i>
-                                </button>
-                            </div>
-
-                            {/* Body */}
-                            <div className="p-8">
-                                <form onSubmit={handleSubmit} className="space-y-4">
-                                    <div>
-                                        <label className="block text-xs font-mono text-gray-500 uppercase mb-2">Email Address</label>
-                                        <input 
-                                            type="email" 
-                                            required
-                                            value={email}
-                                            onChange={(e) => setEmail(e.target.value)}
-                                            className="w-full bg-[#0a0a0a] border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-white/30 transition-colors"
-                                            placeholder="name@company.com"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-xs font-mono text-gray-500 uppercase mb-2">Password</label>
-                                        <input 
-                                            type="password" 
-                                            required
-                                            value={password}
-                                            onChange={(e) => setPassword(e.target.value)}
-                                            className="w-full bg-[#0a0a0a] border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-white/30 transition-colors"
-                                            placeholder="••••••••"
-                                        />
-                                    </div>
-
-                                    <button 
-                                        type="submit"
-                                        disabled={loading}
-                                        className="w-full bg-white text-black font-bold py-3.5 rounded-lg hover:bg-gray-200 transition-all mt-4 flex items-center justify-center gap-2"
-                                    >
-                                        {loading ? (
-                                            <i className="fa-solid fa-circle-notch fa-spin"></i>
-                                        ) : (
-                                            authView === 'login' ? 'Sign In' : 'Create Free Account'
-                                        )}
-                                    </button>
-                                </form>
-
-                                <div className="mt-6 text-center text-sm text-gray-500">
-                                    {authView === 'login' ? (
-                                        <>
-                                            Don't have an account?{' '}
-                                            <button onClick={() => setAuthView('signup')} className="text-white hover:underline font-medium">
-                                                Sign up
-                                            </button>
-                                        </>
-                                    ) : (
-                                        <>
-                                            Already have an account?{' '}
-                                            <button onClick={() => setAuthView('login')} className="text-white hover:underline font-medium">
-                                                Sign in
-                                            </button>
-                                        </>
-                                    )}
-                                </div>
-                            </div>
-                        </motion.div>
-                    </div>
-                </>
-            )}
-        </AnimatePresence>
-    );
-};
-
 const VideoModal = ({ onClose }: { onClose: () => void }) => {
     useEffect(() => {
         const handleEsc = (e: KeyboardEvent) => {
@@ -271,6 +106,8 @@ const VideoModal = ({ onClose }: { onClose: () => void }) => {
 const Navbar = () => {
   const [scrolled, setScrolled] = useState(false);
   const { user, logout, setShowAuthModal, setAuthView } = useAuth();
+  const { location, navigate } = useRouter();
+  const { t } = useI18n();
 
   useEffect(() => {
     const handleScroll = () => setScrolled(window.scrollY > 20);
@@ -281,8 +118,7 @@ const Navbar = () => {
   const handleInstallClick = (e: React.MouseEvent) => {
       e.preventDefault();
       if (user) {
-          // If logged in, go to install link
-          window.open("https://google.com", "_blank");
+          window.open(EXTENSION_INSTALL_URL, "_blank", "noopener");
       } else {
           // If not, open signup
           setAuthView('signup');
@@ -300,53 +136,59 @@ const Navbar = () => {
     >
       <div className="max-w-7xl mx-auto px-6 flex items-center justify-between h-10">
         {/* Logo */}
-        <a href="#" className="flex items-center gap-2 z-10 group" onClick={(e) => { e.preventDefault(); window.scrollTo({ top: 0, behavior: 'smooth' }); }}>
+        <Link to={ROUTES.home} className="flex items-center gap-2 z-10 group" onClick={(e) => { if (location.pathname === ROUTES.home) { e.preventDefault(); window.scrollTo({ top: 0, behavior: 'smooth' }); } }}>
             <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
                  <i className="fa-solid fa-bolt text-black text-sm"></i>
             </div>
             <span className="font-heading font-bold text-xl tracking-tight text-white group-hover:text-gray-200 transition-colors">ViralAudit</span>
-        </a>
+        </Link>
 
         {/* Centered Links */}
         <div className="hidden md:flex absolute left-1/2 -translate-x-1/2 gap-8 text-sm font-medium text-gray-400">
-          <a href="#features" onClick={(e) => scrollToSection(e, "features")} className="hover:text-white transition-colors">Features</a>
-          <a href="#how-it-works" onClick={(e) => scrollToSection(e, "how-it-works")} className="hover:text-white transition-colors">How it Works</a>
-          <a href="#pricing" onClick={(e) => scrollToSection(e, "pricing")} className="hover:text-white transition-colors">Pricing</a>
+          {user && <Link to={ROUTES.dashboard} className="hover:text-white transition-colors">{t.nav.dashboard}</Link>}
+          {user && <Link to={ROUTES.history} className="hover:text-white transition-colors">{t.nav.history}</Link>}
+          {user && <Link to={ROUTES.batch} className="hover:text-white transition-colors">{t.nav.batch}</Link>}
+          {user && <Link to={ROUTES.team} className="hover:text-white transition-colors">{t.nav.team}</Link>}
+          <SectionLink id="features" className="hover:text-white transition-colors">{t.nav.features}</SectionLink>
+          <SectionLink id="how-it-works" className="hover:text-white transition-colors">{t.nav.howItWorks}</SectionLink>
+          <SectionLink id="pricing" className="hover:text-white transition-colors">{t.nav.pricing}</SectionLink>
         </div>
 
         {/* Right Button / Account */}
         <div className="z-10 flex items-center gap-4">
+          <LanguageSwitcher />
           {user ? (
              <>
-                 <span className="text-xs text-gray-400 hidden sm:block">{user.email}</span>
+                 <WorkspaceSwitcher />
+                 <Link to={ROUTES.account} className="text-xs text-gray-400 hover:text-white transition-colors hidden sm:block">{user.email}</Link>
                  <button 
-                    onClick={logout}
+                    onClick={() => { logout(); navigate(ROUTES.home); }}
                     className="text-sm font-medium text-white hover:text-gray-300 transition-colors"
                  >
-                    Logout
+                    {t.nav.logout}
                  </button>
                  <a
                     href="#"
                     onClick={handleInstallClick}
                     className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all"
                   >
-                    Download
+                    {t.nav.download}
                   </a>
              </>
           ) : (
              <>
-                <button 
-                    onClick={() => { setAuthView('login'); setShowAuthModal(true); }}
+                <Link 
+                    to={ROUTES.login}
                     className="text-sm font-medium text-gray-300 hover:text-white transition-colors hidden sm:block"
                 >
-                    Login
-                </button>
+                    {t.nav.login}
+                </Link>
                 <a
                     href="#"
                     onClick={handleInstallClick}
                     className="bg-white text-black px-6 py-2.5 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all shadow-[0_0_15px_rgba(255,255,255,0.1)] hover:shadow-[0_0_25px_rgba(255,255,255,0.2)]"
                 >
-                    Install Extension
+                    {t.nav.installExtension}
                 </a>
              </>
           )}
@@ -373,7 +215,51 @@ const Background = () => {
     )
 }
 
+const sampleReport = parseAuditReport(SAMPLE_REPORT_TEXT);
+
+// A video picked here only lives in this tab, as an object URL: nothing is uploaded or audited
+const useLocalPreview = () => {
+  const [preview, setPreview] = useState<{ url: string; meta: VideoMetadata } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const previewUrl = preview?.url;
+  useEffect(() => () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const pick = async (file: File) => {
+      abortRef.current?.abort();
+      const fileError = validateVideoFile(file);
+      if (fileError) return setError(fileError);
+      // A later pick or unmounting aborts this read. Its URL never reached the preview, so it is revoked here.
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const url = URL.createObjectURL(file);
+      try {
+          const meta = await readVideoMetadata(url, controller.signal);
+          if (controller.signal.aborted) return URL.revokeObjectURL(url);
+          setPreview({ url, meta });
+          setError(null);
+      } catch {
+          URL.revokeObjectURL(url);
+          if (controller.signal.aborted) return;
+          setError(`Could not read ${file.name}. The file may be corrupt.`);
+      }
+  };
+
+  return { preview, error, pick };
+};
+
 const DashboardMockup = () => {
+  const { state: copyState, copy } = useCopyReport(sampleReport.report);
+  const [placementId, setPlacementId] = useState<PlacementId>('facebook_feed');
+  const { preview, error: previewError, pick } = useLocalPreview();
+  const { warnings, checkingSafeZones } = usePlacementWarnings(preview?.url ?? null, preview?.meta.width, preview?.meta.height);
+  const placement = PLACEMENTS[placementId];
+
   return (
     <div className="relative w-full max-w-6xl mx-auto perspective-1000 mt-12">
         {/* Glow Effect behind mockup */}
@@ -465,61 +351,84 @@ const DashboardMockup = () => {
                     {/* Preview Canvas */}
                     <div className="flex-1 p-8 flex justify-center overflow-hidden relative">
                          {/* Controls Top */}
-                         <div className="absolute top-4 left-0 right-0 flex justify-center gap-6 text-sm text-gray-400">
-                              <span className="text-[#2d88ff] border-b-2 border-[#2d88ff] pb-1 cursor-pointer">Facebook Feed</span>
-                              <span className="cursor-pointer hover:text-gray-300">Instagram Feed</span>
-                              <span className="cursor-pointer hover:text-gray-300">Stories & Reels</span>
-                         </div>
-
-                         {/* The Ad Card */}
-                         <div className="mt-8 w-[500px] bg-[#242526] rounded-lg border border-[#2f3031] p-4 shadow-sm opacity-50 blur-[1px]">
-                              {/* Header */}
-                              <div className="flex items-center gap-3 mb-3">
-                                   <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 to-blue-600"></div>
-                                   <div>
-                                        <div className="h-3 w-32 bg-[#3a3b3c] rounded mb-1"></div>
-                                        <div className="flex items-center gap-1">
-                                             <div className="h-2 w-16 bg-[#3a3b3c] rounded"></div>
-                                             <i className="fa-solid fa-earth-americas text-[10px] text-gray-500"></i>
-                                        </div>
-                                   </div>
-                                   <i className="fa-solid fa-ellipsis text-gray-500 ml-auto"></i>
-                              </div>
-
-                              {/* Primary Text */}
-                              <div className="space-y-2 mb-3">
-                                   <div className="h-2 w-full bg-[#3a3b3c] rounded"></div>
-                                   <div className="h-2 w-[90%] bg-[#3a3b3c] rounded"></div>
-                                   <div className="h-2 w-[60%] bg-[#3a3b3c] rounded"></div>
-                              </div>
-
-                              {/* Media (Video) */}
-                              <div className="aspect-[4/5] w-full bg-black rounded border border-[#2f3031] relative flex items-center justify-center overflow-hidden">
-                                   <div className="absolute inset-0 bg-gradient-to-tr from-gray-900 to-gray-800"></div>
-                                   <i className="fa-solid fa-play text-4xl text-white/10"></i>
-                              </div>
-
-                              {/* CTA Bar */}
-                              <div className="bg-[#2f3031] p-3 flex justify-between items-center mt-[-4px] rounded-b-lg border-x border-b border-[#2f3031]">
-                                   <div>
-                                        <div className="h-2 w-24 bg-[#3a3b3c] rounded mb-1"></div>
-                                        <div className="h-2 w-48 bg-[#3a3b3c] rounded"></div>
-                                   </div>
-                                   <div className="px-4 py-2 bg-[#3a3b3c] rounded text-xs text-gray-400 font-semibold border border-white/5">Learn More</div>
-                              </div>
-
-                              {/* Social Proof */}
-                              <div className="flex justify-between items-center mt-3 px-1">
-                                   <div className="flex items-center gap-1">
-                                        <div className="w-4 h-4 rounded-full bg-blue-500 flex items-center justify-center text-[8px] text-white"><i className="fa-solid fa-thumbs-up"></i></div>
-                                        <div className="h-2 w-8 bg-[#3a3b3c] rounded"></div>
-                                   </div>
-                                   <div className="flex gap-3">
-                                        <div className="h-2 w-12 bg-[#3a3b3c] rounded"></div>
-                                        <div className="h-2 w-12 bg-[#3a3b3c] rounded"></div>
+                         <PlacementTabs active={placementId} onChange={setPlacementId} warnings={warnings} className="absolute top-4 left-0 right-0" />
+
+                         {/* Try it with your own video */}
+                         <div className="absolute top-14 left-4 w-[220px] z-10 space-y-3">
+                              <label className="block px-3 py-2 rounded-md bg-[#2f3031] text-xs text-white text-center cursor-pointer hover:bg-[#3a3b3c] transition-colors">
+                                   <i className="fa-solid fa-film mr-2"></i>
+                                   {preview ? 'Preview another video' : 'Preview your video'}
+                                   <input
+                                        type="file"
+                                        accept="video/mp4,video/quicktime,.mp4,.mov"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) pick(file);
+                                        }}
+                                   />
+                              </label>
+                              {previewError && <div className="text-xs text-[#ff2e63]">{previewError}</div>}
+                              {preview && warnings && (
+                                   <div className="rounded-md bg-[#242526]/95 border border-[#2f3031] p-3">
+                                        <PlacementWarnings warnings={warnings[placementId]} checking={checkingSafeZones} />
                                    </div>
-                              </div>
+                              )}
                          </div>
+
+                         {placementId === 'stories_reels' ? (
+                             <div className={`mt-8 w-[310px] self-start bg-[#242526] rounded-[2rem] border-4 border-[#2f3031] p-1 shadow-sm ${preview ? '' : 'opacity-50 blur-[1px]'}`}>
+                                  <PlacementFrame placement={placement} src={preview?.url} className="w-full rounded-[1.6rem]" />
+                             </div>
+                         ) : (
+                             /* The Ad Card */
+                             <div className={`mt-8 w-[500px] bg-[#242526] rounded-lg border border-[#2f3031] p-4 shadow-sm ${preview ? '' : 'opacity-50 blur-[1px]'}`}>
+                                  {/* Header */}
+                                  <div className="flex items-center gap-3 mb-3">
+                                       <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 to-blue-600"></div>
+                                       <div>
+                                            <div className="h-3 w-32 bg-[#3a3b3c] rounded mb-1"></div>
+                                            <div className="flex items-center gap-1">
+                                                 <div className="h-2 w-16 bg-[#3a3b3c] rounded"></div>
+                                                 <i className="fa-solid fa-earth-americas text-[10px] text-gray-500"></i>
+                                            </div>
+                                       </div>
+                                       <i className="fa-solid fa-ellipsis text-gray-500 ml-auto"></i>
+                                  </div>
+
+                                  {/* Primary Text */}
+                                  <div className="space-y-2 mb-3">
+                                       <div className="h-2 w-full bg-[#3a3b3c] rounded"></div>
+                                       <div className="h-2 w-[90%] bg-[#3a3b3c] rounded"></div>
+                                       <div className="h-2 w-[60%] bg-[#3a3b3c] rounded"></div>
+                                  </div>
+
+                                  {/* Media (Video) */}
+                                  <PlacementFrame placement={placement} src={preview?.url} className="w-full rounded border border-[#2f3031]" />
+
+                                  {/* CTA Bar */}
+                                  <div className="bg-[#2f3031] p-3 flex justify-between items-center mt-[-4px] rounded-b-lg border-x border-b border-[#2f3031]">
+                                       <div>
+                                            <div className="h-2 w-24 bg-[#3a3b3c] rounded mb-1"></div>
+                                            <div className="h-2 w-48 bg-[#3a3b3c] rounded"></div>
+                                       </div>
+                                       <div className="px-4 py-2 bg-[#3a3b3c] rounded text-xs text-gray-400 font-semibold border border-white/5">Learn More</div>
+                                  </div>
+
+                                  {/* Social Proof */}
+                                  <div className="flex justify-between items-center mt-3 px-1">
+                                       <div className="flex items-center gap-1">
+                                            <div className="w-4 h-4 rounded-full bg-blue-500 flex items-center justify-center text-[8px] text-white"><i className="fa-solid fa-thumbs-up"></i></div>
+                                            <div className="h-2 w-8 bg-[#3a3b3c] rounded"></div>
+                                       </div>
+                                       <div className="flex gap-3">
+                                            <div className="h-2 w-12 bg-[#3a3b3c] rounded"></div>
+                                            <div className="h-2 w-12 bg-[#3a3b3c] rounded"></div>
+                                       </div>
+                                  </div>
+                             </div>
+                         )}
                     </div>
                 </div>
 
@@ -539,70 +448,17 @@ const DashboardMockup = () => {
                     {/* Scrollable Content */}
                     <div className="flex-1 overflow-y-auto p-5 scrollbar-thin scrollbar-thumb-gray-800 scrollbar-track-transparent">
                          
-                         {/* Score Box */}
-                         <div className="bg-[#181818] rounded-xl p-5 border border-white/5 flex items-center gap-5 mb-6 relative overflow-hidden">
-                             <div className="relative w-14 h-14 shrink-0 flex items-center justify-center">
-                                  <svg className="w-full h-full -rotate-90" viewBox="0 0 60 60">
-                                       <circle cx="30" cy="30" r="26" stroke="#333" strokeWidth="4" fill="transparent" />
-                                       <circle 
-                                            cx="30" cy="30" r="26" 
-                                            stroke="#ff2e63" strokeWidth="4" 
-                                            fill="transparent" 
-                                            strokeDasharray="163.36" 
-                                            strokeDashoffset="114.35" 
-                                            strokeLinecap="round" 
-                                       />
-                                  </svg>
-                                  <span className="absolute text-white font-bold text-xl">3</span>
-                             </div>
-                             <div>
-                                  <div className="text-white font-bold text-base mb-1">Viral Potential Score</div>
-                                  <div className="text-gray-500 text-[11px] leading-tight">AI Analysis based on hook, pacing & copy.</div>
-                             </div>
-                         </div>
-
-                         {/* Text Content */}
-                         <div className="space-y-6 text-[13px] leading-relaxed text-gray-300">
-                              <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">#SCORE: 3/10</div>
-
-                              {/* HOOK */}
-                              <div>
-                                  <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-2">#HOOK</div>
-                                  <p className="mb-3"><strong className="text-white font-semibold">The Problem:</strong> At 0:00, the opening is a slow, generic setup. "After baby comes" is a weak, drawn-out qualifier. The visual of a vaguely stressed man and a woman reading is not a strong visual representation of a "hot house" or "harder sleep." It doesn't grab attention. It assumes the audience knows the problem without showing it. The lighting is warm, but it doesn't convey discomfort or heat.</p>
-                                  <p className="mb-3"><strong className="text-white font-semibold">The Visual:</strong> Muted lighting lacks impact. It's a typical bedroom scene, not a scroll-stopper. There's no immediate visual tension or unique element to differentiate it from countless other bedroom ads.</p>
-                                  <p><strong className="text-white font-semibold">The Fix:</strong> Cut the fat. Start with a direct visual of the problem: show immediate discomfort, sweat, tossing, turning. "Is your sleep stolen by night sweats?" paired with a visual of someone visibly struggling in bed. Or a stark contrast: "HOT nights?" immediately followed by the solution. Get to the point in under 1 second.</p>
-                              </div>
-
-                              {/* BODY */}
-                              <div>
-                                  <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-2">#BODY</div>
-                                  <p className="mb-2"><strong className="text-white font-semibold">Pacing/Visuals:</strong></p>
-                                  <ul className="space-y-2 mb-3 pl-1">
-                                      <li>- At 0:03, the pacing drops hard with the slow-motion reveal of a comforter. "WE GET IT" as a text overlay is useless filler; don't tell me you get it, *show* me you solved it.</li>
-                                      <li>- From 0:05-0:09, the slow-motion shots of bedding and pillows are pretty but don't convey "cool" or "breathable" effectively. They're generic product shots. There's no *demonstration* of the unique benefit. This is a product showcase, not a problem solver.</li>
-                                      <li>- At 0:09, the transition to the sleeping couple is a standard, uninspired "happy ending" shot. It lacks punch and doesn't explicitly connect to *how* the bedding achieved this peaceful sleep beyond the voiceover. The crib is a nice touch for context but doesn't elevate the visual impact.</li>
-                                  </ul>
-                                  <p><strong className="text-white font-semibold">The Fix:</strong> Speed up. Drastically. Cut the "WE GET IT" entirely. Show, don't tell. Visually demonstrate the cooling effect: show sweat evaporating, a "cool touch" test, a thermometer dropping, or a stark before/after of uncomfortable vs. serene sleep *directly attributed* to the product's function. The product shots need to highlight the *texture* or *material science* that makes it cool, not just look fluffy.</p>
-                              </div>
-
-                               {/* AUDIO */}
-                              <div>
-                                  <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-2">#AUDIO</div>
-                                  <p><strong className="text-white font-semibold">Copyright claim:</strong> No obvious copyright claim risk from the background sounds. The voiceover is clear. However, bland, forgettable audio *will* affect CPM by reducing engagement and watch time. The audio isn't memorable or impactful enough to drive attention.</p>
-                              </div>
-                              
-                              {/* SCRIPT */}
-                              <div>
-                                  <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-2">#SCRIPT</div>
-                                  <p><strong className="text-white font-semibold">The Problem:</strong> The script is too conversational, too soft, and lacks urgency. It wastes precious seconds establishing a problem that could be shown in a fraction of the time. "After baby comes, the house gets hotter. And sleep gets harder" is vague and slow. "We get it" is completely unnecessary. "Helps stop the night sweats" is weak; "stops" is stronger. The entire script lacks a clear, commanding call to action or a strong unique selling proposition that screams "buy this now." It's...</p>
-                              </div>
-                         </div>
+                         {sampleReport.report ? (
+                             <AuditReportView report={sampleReport.report} />
+                         ) : (
+                             <ReportErrors errors={sampleReport.errors} />
+                         )}
                     </div>
 
                     {/* Footer */}
                     <div className="p-5 border-t border-white/5 bg-[#111111] shrink-0">
-                        <button className="w-full bg-white text-black py-3 rounded-lg font-bold text-sm hover:bg-gray-200 transition-colors">
-                            Copy Report
+                        <button onClick={copy} className="w-full bg-white text-black py-3 rounded-lg font-bold text-sm hover:bg-gray-200 transition-colors">
+                            {copyState === 'copied' ? 'Copied as Markdown' : copyState === 'failed' ? 'Copy failed' : 'Copy Report'}
                         </button>
                     </div>
 
@@ -616,12 +472,12 @@ const DashboardMockup = () => {
 const Hero = () => {
   const [videoOpen, setVideoOpen] = useState(false);
   const { user, setShowAuthModal, setAuthView } = useAuth();
+  const { t } = useI18n();
 
   const handleInstallClick = (e: React.MouseEvent) => {
       e.preventDefault();
       if (user) {
-          // If logged in, go to install link
-          window.open("https://google.com", "_blank");
+          window.open(EXTENSION_INSTALL_URL, "_blank", "noopener");
       } else {
           // If not, open signup
           setAuthView('signup');
@@ -638,8 +494,8 @@ const Hero = () => {
             animate={{ opacity: 1, y: 0 }}
             className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full border border-white/10 bg-white/5 text-xs font-medium text-gray-300 mb-8 backdrop-blur-sm cursor-pointer hover:bg-white/10 transition-colors"
         >
-            <span className="bg-gradient-to-r from-pink-500 to-purple-600 text-white text-[10px] font-bold px-2 py-0.5 rounded shadow-lg">NEW</span>
-            <span className="text-gray-300">Competitor Benchmarking Engine</span>
+            <span className="bg-gradient-to-r from-pink-500 to-purple-600 text-white text-[10px] font-bold px-2 py-0.5 rounded shadow-lg">{t.hero.badge}</span>
+            <span className="text-gray-300">{t.hero.announcement}</span>
         </motion.div>
 
         <motion.h1 
@@ -648,8 +504,7 @@ const Hero = () => {
             transition={{ delay: 0.1 }}
             className="text-5xl md:text-7xl font-bold font-heading tracking-tight mb-6 leading-[1.1]"
         >
-          Stop Guessing.
-Audit Your Ads Before You Spend.
+          {t.hero.title}
         </motion.h1>
         
         <motion.p 
@@ -658,7 +513,7 @@ Audit Your Ads Before You Spend.
             transition={{ delay: 0.2 }}
             className="text-lg md:text-xl text-gray-400 max-w-2xl mx-auto mb-10 leading-relaxed"
         >
-          Stop burning budget on weak creatives. The ViralAudit extension analyzes your hooks, pacing, and copy instantly while you browse Facebook Ads Manager.
+          {t.hero.subtitle}
         </motion.p>
         
         <motion.div 
@@ -672,13 +527,13 @@ Audit Your Ads Before You Spend.
                 onClick={handleInstallClick}
                 className="bg-white text-black px-8 py-4 rounded-xl font-bold text-lg hover:scale-105 transition-transform shadow-[0_0_20px_rgba(255,255,255,0.3)]"
             >
-                {user ? 'Download Extension' : 'Install Free Extension'}
+                {user ? t.hero.download : t.hero.installFree}
             </a>
             <button 
                 onClick={() => setVideoOpen(true)}
                 className="px-8 py-4 rounded-xl border border-white/10 hover:bg-white/5 transition-colors font-medium flex items-center justify-center gap-2 group cursor-pointer backdrop-blur-sm bg-black/30"
             >
-                <i className="fa-solid fa-play text-xs group-hover:text-[#08d9d6] transition-colors"></i> Watch Demo
+                <i className="fa-solid fa-play text-xs group-hover:text-[#08d9d6] transition-colors"></i> {t.hero.watchDemo}
             </button>
         </motion.div>
       </div>
@@ -695,7 +550,7 @@ Audit Your Ads Before You Spend.
 
       {/* Trusted By */}
       <div className="mt-24 text-center">
-        <p className="text-xs font-mono text-gray-600 uppercase tracking-widest mb-6">Trusted by media buyers at</p>
+        <p className="text-xs font-mono text-gray-600 uppercase tracking-widest mb-6">{t.hero.trustedBy}</p>
         <div className="flex flex-wrap justify-center gap-12 opacity-40 grayscale hover:grayscale-0 transition-all duration-500">
             {/* Simple Text Logos for Demo */}
             <span className="text-xl font-bold font-heading">AGENCY<span className="font-light">ONE</span></span>
@@ -730,31 +585,33 @@ const FeatureCard = ({ icon, title, desc, delay }) => (
 );
 
 const Features = () => {
+    const { t } = useI18n();
+
     return (
         <section id="features" className="py-24 relative z-10 scroll-mt-24">
             <div className="max-w-6xl mx-auto px-6">
                 <div className="text-center mb-16">
-                    <h2 className="text-3xl md:text-5xl font-bold font-heading mb-6">Audits that feel like magic.</h2>
-                    <p className="text-gray-400 max-w-2xl mx-auto">We don't just tell you "good" or "bad". We analyze every frame, second, and word to tell you exactly how to fix it.</p>
+                    <h2 className="text-3xl md:text-5xl font-bold font-heading mb-6">{t.features.title}</h2>
+                    <p className="text-gray-400 max-w-2xl mx-auto">{t.features.subtitle}</p>
                 </div>
 
                 <div className="grid md:grid-cols-3 gap-6">
                     <FeatureCard 
                         icon="fa-solid fa-list-check"
-                        title="Frame-by-Frame Audit"
-                        desc="Detailed breakdown of your hook, body, and CTA. We pinpoint the exact second you lose the viewer's attention."
+                        title={t.features.frames.title}
+                        desc={t.features.frames.desc}
                         delay={0.1}
                     />
                     <FeatureCard 
                         icon="fa-solid fa-wand-magic-sparkles"
-                        title="Actionable Fixes"
-                        desc="Don't just get a score. Get a 'Fix List'—cut the fat, speed up pacing, or rewrite the hook entirely."
+                        title={t.features.fixes.title}
+                        desc={t.features.fixes.desc}
                         delay={0.2}
                     />
                     <FeatureCard 
                         icon="fa-solid fa-shield-halved"
-                        title="Policy & Audio Check"
-                        desc="Scan for copyright claims on audio tracks and flag potential ad policy violations before you publish."
+                        title={t.features.policy.title}
+                        desc={t.features.policy.desc}
                         delay={0.3}
                     />
                 </div>
@@ -763,16 +620,27 @@ const Features = () => {
     );
 };
 
-const PricingCard = ({ plan, price, description, features, isPro, delay, checkoutUrl }) => {
+const PricingCard = ({ plan, delay }: { plan: Plan; delay: number }) => {
+    const isPro = plan.recommended;
     const { user, setShowAuthModal, setAuthView } = useAuth();
+    const { t, format, formatPrice } = useI18n();
+    const copy = t.pricing.plans[plan.id];
+    const isCurrent = !!user && user.plan === plan.id;
+    // Existing subscribers switch plans in the Lemon Squeezy portal so they aren't billed twice
+    const switchInPortal = hasLiveSubscription(user) && !!user.subscription.portalUrl;
+    const href = !user ? '#pricing' : switchInPortal ? user.subscription.portalUrl : checkoutUrl(plan, user) ?? '#pricing';
     
     const handleCheckout = (e: React.MouseEvent) => {
+        if (isCurrent) {
+            e.preventDefault();
+            return;
+        }
         if (!user) {
             e.preventDefault();
             setAuthView('signup');
             setShowAuthModal(true);
         }
-        // If user is logged in, the <a> tag default behavior works (opens checkoutUrl)
+        // If user is logged in, the <a> tag default behavior works (opens the checkout)
     };
 
     return (
@@ -785,20 +653,23 @@ const PricingCard = ({ plan, price, description, features, isPro, delay, checkou
         >
             {isPro && (
                 <div className="absolute top-0 right-0 bg-white text-black text-[10px] font-bold px-3 py-1 rounded-bl-xl rounded-tr-xl">
-                    RECOMMENDED
+                    {t.pricing.recommended}
                 </div>
             )}
             <div className="mb-8">
-                <h3 className="text-lg font-bold font-heading mb-2">{plan}</h3>
+                <h3 className="text-lg font-bold font-heading mb-2">{plan.name}</h3>
                 <div className="flex items-baseline gap-1 mb-4">
-                    <span className="text-4xl font-bold">{price}</span>
-                    <span className="text-sm text-gray-500">/mo</span>
+                    <span className="text-4xl font-bold">{formatPrice(plan.price, plan.currency)}</span>
+                    <span className="text-sm text-gray-500">{t.pricing.perMonth}</span>
                 </div>
-                <p className="text-sm text-gray-400">{description}</p>
+                <p className="text-sm text-gray-400">{copy.description}</p>
             </div>
             
             <ul className="space-y-4 mb-8 flex-1">
-                {features.map((feature, i) => (
+                {planFeatureList(plan, {
+                    monthlyAudits: (count) => format(t.pricing.monthlyAudits, { count }),
+                    features: t.pricing.features,
+                }).map((feature, i) => (
                     <li key={i} className={`flex items-center gap-3 text-sm ${feature.included ? 'text-gray-200' : 'text-gray-600'}`}>
                         <i className={`fa-solid ${feature.included ? 'fa-check text-emerald-500' : 'fa-xmark text-gray-700'}`}></i>
                         {feature.text}
@@ -807,7 +678,7 @@ const PricingCard = ({ plan, price, description, features, isPro, delay, checkou
             </ul>
 
             <a 
-                href={checkoutUrl}
+                href={href}
                 target="_blank" 
                 rel="noopener noreferrer"
                 onClick={handleCheckout}
@@ -816,60 +687,37 @@ const PricingCard = ({ plan, price, description, features, isPro, delay, checkou
                 ? 'bg-white text-black hover:bg-gray-200 hover:scale-[1.02]' 
                 : 'border border-white/20 text-white hover:bg-white/5'
             }`}>
-                {isPro ? 'Start Pro Trial' : 'Get Started'}
+                {isCurrent ? t.pricing.currentPlan : switchInPortal ? t.pricing.switchPlan : copy.cta}
             </a>
         </motion.div>
     );
 };
 
 const Pricing = () => {
+    const { t } = useI18n();
+
     return (
         <section id="pricing" className="py-24 border-t border-white/5 relative z-10 scroll-mt-24">
             <div className="max-w-5xl mx-auto px-6">
                 <div className="text-center mb-16">
-                    <h2 className="text-3xl md:text-5xl font-bold font-heading mb-6">Pay for performance.</h2>
-                    <p className="text-gray-400">Simple pricing that scales with your ad spend.</p>
+                    <h2 className="text-3xl md:text-5xl font-bold font-heading mb-6">{t.pricing.title}</h2>
+                    <p className="text-gray-400">{t.pricing.subtitle}</p>
                 </div>
 
                 <div className="grid md:grid-cols-2 gap-8 max-w-3xl mx-auto">
-                    <PricingCard 
-                        plan="Starter"
-                        price="£29"
-                        description="For solo media buyers testing waters."
-                        delay={0.1}
-                        isPro={false}
-                        checkoutUrl="https://example.com/checkout-starter"
-                        features={[
-                            { text: "50 Video Audits / Month", included: true },
-                            { text: "Deep Think Analysis", included: true },
-                            { text: "Detailed Fix Reports", included: true },
-                            { text: "Viral Script Rewrites", included: false },
-                            { text: "Policy Violation Check", included: false },
-                            { text: "Competitor Benchmarking", included: false },
-                        ]}
-                    />
-                    <PricingCard 
-                        plan="Professional"
-                        price="£49"
-                        description="For agencies and scaling brands."
-                        delay={0.2}
-                        isPro={true}
-                        checkoutUrl="https://example.com/checkout-pro"
-                        features={[
-                            { text: "500 Video Audits / Month", included: true },
-                            { text: "Deep Think Analysis", included: true },
-                            { text: "Detailed Fix Reports", included: true },
-                            { text: "Viral Script Rewrites", included: true },
-                            { text: "Policy Violation Check", included: true },
-                            { text: "Competitor Benchmarking", included: true },
-                        ]}
-                    />
+                    {PLAN_ORDER.map((id, i) => (
+                        <PricingCard
+                            key={id}
+                            plan={PLANS[id]}
+                            delay={0.1 * (i + 1)}
+                        />
+                    ))}
                 </div>
                 
                 <div className="mt-12 text-center">
                     <p className="text-sm text-gray-500 flex items-center justify-center gap-2">
                         <i className="fa-solid fa-lock text-xs"></i> 
-                        Secure payment processing via Lemon Squeezy. Cancel anytime.
+                        {t.pricing.secure}
                     </p>
                 </div>
             </div>
@@ -877,39 +725,138 @@ const Pricing = () => {
     );
 };
 
-const Footer = () => (
-    <footer className="py-12 border-t border-white/5 bg-[#050505] text-xs text-gray-600 relative z-10">
-        <div className="max-w-6xl mx-auto px-6 flex flex-col md:flex-row justify-between items-center gap-6">
-            <div className="flex items-center gap-2">
-                 <div className="w-6 h-6 bg-white/10 rounded flex items-center justify-center">
-                     <i className="fa-solid fa-bolt text-gray-400 text-[10px]"></i>
-                 </div>
-                 <span className="font-bold text-gray-400">ViralAudit</span>
-            </div>
-            <div className="flex gap-8">
-                <a href="#features" onClick={(e) => scrollToSection(e, "features")} className="hover:text-white transition-colors">Features</a>
-                <a href="#how-it-works" onClick={(e) => scrollToSection(e, "how-it-works")} className="hover:text-white transition-colors">How it Works</a>
-                <a href="#pricing" onClick={(e) => scrollToSection(e, "pricing")} className="hover:text-white transition-colors">Pricing</a>
-                <a href="#" className="hover:text-white transition-colors">Login</a>
+const Footer = () => {
+    const { t } = useI18n();
+
+    return (
+        <footer className="py-12 border-t border-white/5 bg-[#050505] text-xs text-gray-600 relative z-10">
+            <div className="max-w-6xl mx-auto px-6 flex flex-col md:flex-row justify-between items-center gap-6">
+                <div className="flex items-center gap-2">
+                     <div className="w-6 h-6 bg-white/10 rounded flex items-center justify-center">
+                         <i className="fa-solid fa-bolt text-gray-400 text-[10px]"></i>
+                     </div>
+                     <span className="font-bold text-gray-400">ViralAudit</span>
+                </div>
+                <div className="flex gap-8">
+                    <SectionLink id="features" className="hover:text-white transition-colors">{t.nav.features}</SectionLink>
+                    <SectionLink id="how-it-works" className="hover:text-white transition-colors">{t.nav.howItWorks}</SectionLink>
+                    <SectionLink id="pricing" className="hover:text-white transition-colors">{t.nav.pricing}</SectionLink>
+                    <Link to={ROUTES.login} className="hover:text-white transition-colors">{t.nav.login}</Link>
+                </div>
+                <div>&copy; 2025 ViralAudit Inc.</div>
             </div>
-            <div>&copy; 2025 ViralAudit Inc.</div>
-        </div>
-    </footer>
+        </footer>
+    );
+};
+
+const HomePage = () => (
+    <>
+        <Hero />
+        <Features />
+        <Pricing />
+    </>
 );
 
-const App = () => {
-  return (
-    <AuthProvider>
+const PricingPage = () => (
+    <div className="pt-20">
+        <Pricing />
+    </div>
+);
+
+// Opens the login modal over the home page, then continues to ?next= (or the dashboard)
+const LoginPage = () => {
+    const { user, isLoading, showAuthModal, setShowAuthModal, setAuthView } = useAuth();
+    const { location, navigate } = useRouter();
+    const opened = useRef(false);
+    const next = safeRedirectPath(new URLSearchParams(location.search).get('next'), ROUTES.dashboard);
+
+    useEffect(() => {
+        if (isLoading) return;
+        if (user) {
+            navigate(next, { replace: true });
+        } else if (!opened.current) {
+            opened.current = true;
+            setAuthView('login');
+            setShowAuthModal(true);
+        }
+    }, [isLoading, user, next, navigate, setAuthView, setShowAuthModal]);
+
+    // Dismissing the modal abandons the redirect
+    useEffect(() => {
+        if (opened.current && !showAuthModal && !user) navigate(ROUTES.home, { replace: true });
+    }, [showAuthModal, user, navigate]);
+
+    return <HomePage />;
+};
+
+const NotFoundPage = () => (
+    <section className="min-h-[70vh] flex flex-col items-center justify-center text-center px-6 relative z-10">
+        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">404</div>
+        <h1 className="text-3xl font-bold font-heading mb-6">This page doesn't exist.</h1>
+        <Link to={ROUTES.home} className="bg-white text-black px-6 py-2.5 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all">
+            Back to ViralAudit
+        </Link>
+    </section>
+);
+
+const Routes = () => {
+    const { pathname } = useRouter().location;
+    const audit = matchRoute(ROUTES.audit, pathname);
+    const invite = matchRoute(ROUTES.invite, pathname);
+
+    if (matchRoute(ROUTES.home, pathname)) return <HomePage />;
+    if (matchRoute(ROUTES.pricing, pathname)) return <PricingPage />;
+    if (matchRoute(ROUTES.login, pathname)) return <LoginPage />;
+    if (matchRoute(ROUTES.dashboard, pathname)) return <RequireAuth><DashboardPage /></RequireAuth>;
+    if (matchRoute(ROUTES.history, pathname)) return <RequireAuth><HistoryPage /></RequireAuth>;
+    if (matchRoute(ROUTES.batch, pathname)) return <RequireAuth><BatchPage /></RequireAuth>;
+    if (matchRoute(ROUTES.team, pathname)) return <RequireAuth><TeamPage /></RequireAuth>;
+    if (matchRoute(ROUTES.rubric, pathname)) return <RequireAuth><RubricPage /></RequireAuth>;
+    if (matchRoute(ROUTES.brands, pathname)) return <RequireAuth><BrandsPage /></RequireAuth>;
+    if (matchRoute(ROUTES.account, pathname)) return <RequireAuth><AccountPage /></RequireAuth>;
+    if (audit) return <RequireAuth><AuditPage id={audit.id} /></RequireAuth>;
+    if (invite) return <RequireAuth><InvitePage token={invite.token} /></RequireAuth>;
+    return <NotFoundPage />;
+};
+
+const Shell = () => {
+    const { pathname } = useRouter().location;
+    const share = matchRoute(ROUTES.share, pathname);
+
+    // Shared reports go to people without an account, so they get no account chrome
+    if (share) {
+        return (
+            <div className="min-h-screen bg-black text-white selection:bg-pink-500/30 selection:text-white overflow-hidden">
+            <Background />
+            <SharedReportPage token={share.token} />
+            </div>
+        );
+    }
+
+    return (
         <div className="min-h-screen bg-black text-white selection:bg-pink-500/30 selection:text-white overflow-hidden">
         <Background />
         <Navbar />
-        <Hero />
-        <Features />
-        <Pricing />
+        <Routes />
         <Footer />
         <AuthModal />
+        {DevMailbox && <Suspense fallback={null}><DevMailbox /></Suspense>}
+        {DevBillingPanel && <Suspense fallback={null}><DevBillingPanel /></Suspense>}
         </div>
-    </AuthProvider>
+    );
+};
+
+const App = () => {
+  return (
+    <I18nProvider>
+        <RouterProvider>
+            <AuthProvider>
+                <WorkspaceProvider>
+                    <Shell />
+                </WorkspaceProvider>
+            </AuthProvider>
+        </RouterProvider>
+    </I18nProvider>
   );
 };
 
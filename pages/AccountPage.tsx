@@ -0,0 +1,114 @@
+import React, { useMemo } from "react";
+import { useAuth } from "../context/AuthContext";
+import { Link, useRouter } from "../context/RouterContext";
+import VerifyEmailBanner from "../components/VerifyEmailBanner";
+import UsageMeter from "../components/UsageMeter";
+import AudioLibraryPanel from "../components/AudioLibraryPanel";
+import { ROUTES } from "../constants";
+import { useEntitlements } from "../hooks/useEntitlements";
+import { FEATURE_LABELS } from "../services/plans";
+import { personalAccessScope } from "../services/entitlements";
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const Panel = ({ title, children }: { title: string; children: React.ReactNode }) => (
+    <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-6">
+        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-4">{title}</div>
+        {children}
+    </div>
+);
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+    <div className="flex justify-between gap-4 py-2 text-sm">
+        <span className="text-gray-500">{label}</span>
+        <span className="text-white text-right">{children}</span>
+    </div>
+);
+
+const AccountPage = () => {
+    const { user, logout } = useAuth();
+    const { navigate } = useRouter();
+    // The account's own plan, whichever workspace is selected
+    const personal = useMemo(() => (user ? personalAccessScope(user) : null), [user]);
+    const { plan } = useEntitlements(personal);
+    if (!user) return null;
+
+    const subscription = user.subscription;
+
+    const handleLogout = () => {
+        logout();
+        navigate(ROUTES.home);
+    };
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-3xl mx-auto px-6">
+                <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+                    <div>
+                        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Account</div>
+                        <h1 className="text-3xl font-bold font-heading">{user.name ?? user.email}</h1>
+                    </div>
+                    <button
+                        onClick={handleLogout}
+                        className="px-4 py-2 rounded-lg border border-white/10 text-sm hover:bg-white/5 transition-colors"
+                    >
+                        Sign out
+                    </button>
+                </div>
+
+                <VerifyEmailBanner />
+
+                <div className="grid gap-6">
+                    <Panel title="Profile">
+                        <Row label="Email">
+                            {user.email}
+                            {user.emailVerified && <i className="fa-solid fa-circle-check text-[#08d9d6] ml-2" title="Verified"></i>}
+                        </Row>
+                        <Row label="Member since">{formatDate(user.createdAt)}</Row>
+                    </Panel>
+
+                    <Panel title="Plan & usage">
+                        <div className="mb-5">
+                            <UsageMeter scope={personal} />
+                        </div>
+                        <Row label="Plan">{plan?.name ?? 'None'}</Row>
+                        <Row label="Includes">{plan ? plan.features.map((feature) => FEATURE_LABELS[feature]).join(', ') : 'Subscribe to run audits'}</Row>
+                        {subscription && (
+                            <>
+                                <Row label="Subscription">{subscription.status.replace('_', ' ')}</Row>
+                                {subscription.renewsAt && subscription.status !== 'cancelled' && (
+                                    <Row label="Renews">{formatDate(subscription.renewsAt)}</Row>
+                                )}
+                                {subscription.endsAt && <Row label="Ends">{formatDate(subscription.endsAt)}</Row>}
+                            </>
+                        )}
+                        <div className="mt-5 flex flex-wrap gap-3">
+                            <Link
+                                to={ROUTES.pricing}
+                                className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all"
+                            >
+                                {plan ? 'Compare plans' : 'Upgrade'}
+                            </Link>
+                            {subscription?.portalUrl && (
+                                <a
+                                    href={subscription.portalUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-4 py-2 rounded-lg border border-white/10 text-xs font-bold hover:bg-white/5 transition-colors"
+                                >
+                                    Manage billing
+                                </a>
+                            )}
+                        </div>
+                    </Panel>
+
+                    <Panel title="Audio library">
+                        <AudioLibraryPanel />
+                    </Panel>
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default AccountPage;
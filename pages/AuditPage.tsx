@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from "react";
+import { SavedAudit } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import { Link, useRouter } from "../context/RouterContext";
+import { AuditReportView } from "../components/AuditReportView";
+import ReportExportMenu from "../components/ReportExportMenu";
+import SharePanel from "../components/SharePanel";
+import BenchmarkPanel from "../components/BenchmarkPanel";
+import ScriptRewritePanel from "../components/ScriptRewritePanel";
+import PolicyCheckPanel from "../components/PolicyCheckPanel";
+import { ROUTES } from "../constants";
+import { deleteAudit, getAudit, rescoreAudits, updateAudit } from "../services/auditStore";
+import { RubricDefinition, isScoredWith } from "../services/rubric";
+import { getActiveRubric } from "../services/rubricStore";
+
+const formatDuration = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.round(sec % 60)).padStart(2, '0')}`;
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+// Brand and campaign tags are what history filters and trends group by
+const AuditLabels = ({ audit, onChange, canEdit }: { audit: SavedAudit; onChange: (audit: SavedAudit) => void; canEdit: boolean }) => {
+    const { library } = useWorkspace();
+    const [brand, setBrand] = useState(audit.brand ?? '');
+    const [tagDraft, setTagDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (update: Parameters<typeof updateAudit>[2]) => {
+        if (!library) return;
+        try {
+            onChange(await updateAudit(library, audit.id, update));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save.');
+        }
+    };
+
+    const addTag = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!tagDraft.trim()) return;
+        save({ tags: [...audit.tags, ...tagDraft.split(',')] });
+        setTagDraft('');
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+            <input
+                value={brand}
+                onChange={(e) => setBrand(e.target.value)}
+                onBlur={() => canEdit && brand.trim() !== (audit.brand ?? '') && save({ brand })}
+                readOnly={!canEdit}
+                placeholder="Brand"
+                className={`${inputClass} w-40`}
+                aria-label="Brand"
+            />
+            {audit.tags.map((tag) => (
+                <span key={tag} className="text-xs font-mono text-gray-300 bg-white/5 rounded-md pl-2 pr-1 py-1 flex items-center gap-1">
+                    #{tag}
+                    {canEdit && (
+                        <button
+                            onClick={() => save({ tags: audit.tags.filter((t) => t !== tag) })}
+                            className="w-4 h-4 text-gray-500 hover:text-white"
+                            aria-label={`Remove ${tag}`}
+                        >
+                            <i className="fa-solid fa-xmark text-[10px]"></i>
+                        </button>
+                    )}
+                </span>
+            ))}
+            {canEdit && (
+                <form onSubmit={addTag}>
+                    <input
+                        value={tagDraft}
+                        onChange={(e) => setTagDraft(e.target.value)}
+                        placeholder="Add campaign tag"
+                        className={`${inputClass} w-44`}
+                        aria-label="Add campaign tag"
+                    />
+                </form>
+            )}
+            {error && <span className="text-xs text-[#ff2e63]">{error}</span>}
+        </div>
+    );
+};
+
+// Shown when the library's rubric has moved on since this audit was scored. Re-scoring reuses the
+// stored sub-scores, so nothing is sent to the model again.
+const RescoreNotice = ({ audit, onChange, canEdit }: { audit: SavedAudit; onChange: (audit: SavedAudit) => void; canEdit: boolean }) => {
+    const { library } = useWorkspace();
+    const [rubric, setRubric] = useState<RubricDefinition | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!library) return;
+        let cancelled = false;
+        getActiveRubric(library)
+            .then((active) => !cancelled && setRubric(active))
+            .catch(() => !cancelled && setRubric(null));
+        return () => {
+            cancelled = true;
+        };
+    }, [library?.userId, library?.workspaceId]);
+
+    if (!rubric || !audit.report.subscores || isScoredWith(audit.scoring, rubric)) return null;
+
+    const rescore = async () => {
+        if (!library) return;
+        setBusy(true);
+        try {
+            const [updated] = await rescoreAudits(library, rubric, [audit.id]);
+            if (updated) onChange(updated);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not re-score.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="mb-6 rounded-xl border border-[#ffbd2e]/30 bg-[#ffbd2e]/5 px-4 py-3 flex flex-wrap items-center justify-between gap-3 text-xs">
+            <span className="text-gray-300">
+                <i className="fa-solid fa-scale-balanced text-[#ffbd2e] mr-2"></i>
+                {audit.scoring ? `Scored with ${audit.scoring.rubricName} v${audit.scoring.rubricVersion}.` : 'Scored before rubrics.'}
+                {` The library now uses ${rubric.name} v${rubric.version}.`}
+            </span>
+            {canEdit && (
+                <button
+                    onClick={rescore}
+                    disabled={busy}
+                    className="px-3 py-1.5 rounded-lg border border-white/10 text-gray-300 hover:text-white font-bold transition-colors disabled:opacity-50"
+                >
+                    {busy ? 'Re-scoring…' : `Re-score with v${rubric.version}`}
+                </button>
+            )}
+            {error && <span className="w-full text-[#ff2e63]">{error}</span>}
+        </div>
+    );
+};
+
+type Panel = 'share' | 'benchmark' | 'rewrite' | 'policy' | null;
+
+const PanelToggle = ({ active, icon, label, onClick }: { active: boolean; icon: string; label: string; onClick: () => void }) => (
+    <button
+        onClick={onClick}
+        className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-colors whitespace-nowrap ${active ? 'border-white/30 text-white' : 'border-white/10 text-gray-400 hover:text-white'}`}
+    >
+        <i className={`fa-solid ${icon} mr-1.5`}></i>{label}
+    </button>
+);
+
+const AuditPage = ({ id }: { id: string }) => {
+    const { library } = useWorkspace();
+    const { check } = useEntitlements();
+    const { navigate } = useRouter();
+    const [audit, setAudit] = useState<SavedAudit | null | undefined>(undefined);
+    const [panel, setPanel] = useState<Panel>(null);
+    const canEdit = check({ type: 'action', action: 'library.edit' }).allowed;
+
+    useEffect(() => {
+        if (!library) return;
+        let cancelled = false;
+        setAudit(undefined);
+        getAudit(library, id)
+            .then((found) => !cancelled && setAudit(found))
+            .catch(() => !cancelled && setAudit(null));
+        return () => {
+            cancelled = true;
+        };
+    }, [library?.userId, library?.workspaceId, id]);
+
+    const handleDelete = async () => {
+        if (!library || !audit || !window.confirm(`Delete the audit of ${audit.creativeName}?`)) return;
+        await deleteAudit(library, audit.id);
+        navigate(ROUTES.history, { replace: true });
+    };
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-3xl mx-auto px-6">
+                <Link to={ROUTES.history} className="text-xs text-gray-500 hover:text-white transition-colors">
+                    <i className="fa-solid fa-arrow-left mr-2"></i>History
+                </Link>
+
+                {audit === undefined ? (
+                    <div className="py-16 text-center text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                ) : !audit ? (
+                    <div className="mt-8 rounded-xl border border-white/10 bg-[#111] p-10 text-center">
+                        <div className="text-white font-medium mb-2">Audit not found</div>
+                        <p className="text-sm text-gray-500">It may have been deleted, or it belongs to another account or workspace. Check which workspace is selected.</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="mt-6 mb-6 flex gap-5 items-start">
+                            {audit.thumbnail && (
+                                <img src={audit.thumbnail} alt="" className="w-32 aspect-video object-cover rounded-lg border border-white/10 shrink-0" />
+                            )}
+                            <div className="min-w-0 flex-1">
+                                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Audit report</div>
+                                <h1 className="text-2xl md:text-3xl font-bold font-heading break-words">{audit.creativeName}</h1>
+                                <div className="text-xs text-gray-500 font-mono mt-2">
+                                    {new Date(audit.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                                    {` · ${formatDuration(audit.durationSec)}`}
+                                    {audit.width && audit.height && ` · ${audit.width}x${audit.height}`}
+                                    {` · ${audit.providerId}`}
+                                </div>
+                            </div>
+                            <PanelToggle
+                                active={panel === 'rewrite'}
+                                icon="fa-wand-magic-sparkles"
+                                label="Rewrite"
+                                onClick={() => setPanel(panel === 'rewrite' ? null : 'rewrite')}
+                            />
+                            <PanelToggle
+                                active={panel === 'policy'}
+                                icon="fa-shield-halved"
+                                label="Policy"
+                                onClick={() => setPanel(panel === 'policy' ? null : 'policy')}
+                            />
+                            <PanelToggle
+                                active={panel === 'benchmark'}
+                                icon="fa-ranking-star"
+                                label="Benchmark"
+                                onClick={() => setPanel(panel === 'benchmark' ? null : 'benchmark')}
+                            />
+                            <PanelToggle
+                                active={panel === 'share'}
+                                icon="fa-share-nodes"
+                                label="Share"
+                                onClick={() => setPanel(panel === 'share' ? null : 'share')}
+                            />
+                            {canEdit && (
+                                <button
+                                    onClick={handleDelete}
+                                    className="text-xs text-gray-600 hover:text-[#ff2e63] transition-colors"
+                                    title="Delete audit"
+                                >
+                                    <i className="fa-solid fa-trash"></i>
+                                </button>
+                            )}
+                        </div>
+                        <AuditLabels key={audit.id} audit={audit} onChange={setAudit} canEdit={canEdit} />
+                        <RescoreNotice audit={audit} onChange={setAudit} canEdit={canEdit} />
+                        {panel && (
+                            <div className="mb-6">
+                                {panel === 'share' && <SharePanel audit={audit} />}
+                                {panel === 'benchmark' && <BenchmarkPanel audit={audit} onChange={setAudit} />}
+                                {panel === 'rewrite' && <ScriptRewritePanel key={audit.id} audit={audit} />}
+                                {panel === 'policy' && <PolicyCheckPanel key={audit.id} audit={audit} onChange={setAudit} />}
+                            </div>
+                        )}
+                        <div className="bg-[#111] rounded-xl border border-white/10 p-6">
+                            <div className="flex justify-end -mt-2 mb-2">
+                                <ReportExportMenu
+                                    report={audit.report}
+                                    meta={{ creativeName: audit.creativeName, createdAt: audit.createdAt, durationSec: audit.durationSec, scoring: audit.scoring }}
+                                />
+                            </div>
+                            <AuditReportView report={audit.report} scoring={audit.scoring} audio={audit.audio} pacing={audit.pacing} transcript={audit.transcript} durationSec={audit.durationSec} />
+                        </div>
+                    </>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default AuditPage;
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { BatchAudit, BatchItem, BatchSettings } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { Link } from "../context/RouterContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import { useBatchRunner } from "../hooks/useBatchRunner";
+import UsageMeter from "../components/UsageMeter";
+import UpgradePrompt from "../components/UpgradePrompt";
+import VerifyEmailBanner from "../components/VerifyEmailBanner";
+import BatchSummary from "../components/BatchSummary";
+import BrandProfilePicker from "../components/BrandProfilePicker";
+import { auditPath } from "../constants";
+import { ACCEPTED_VIDEO_EXTENSIONS } from "../services/videoFile";
+import { BATCH_STATUS_LABELS, BatchItemProgress } from "../services/batchAudits";
+import {
+    DEFAULT_BATCH_SETTINGS,
+    MAX_BATCH_CONCURRENCY,
+    MAX_BATCH_ITEMS,
+    MAX_BATCH_PER_MINUTE,
+    MAX_BATCH_RETRIES,
+    createBatch,
+    deleteBatch,
+    listBatches,
+    parseBatchUrls,
+    updateBatchSettings,
+} from "../services/batchStore";
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const STATUS_COLORS: Record<BatchItem['status'], string> = {
+    queued: 'text-gray-500',
+    running: 'text-[#08d9d6]',
+    done: 'text-white',
+    failed: 'text-[#ff2e63]',
+    cancelled: 'text-gray-600',
+};
+
+const STAGE_LABELS: Record<BatchItemProgress['stage'], string> = {
+    downloading: 'Loading video',
+    sampling: 'Sampling frames',
+    audio: 'Fingerprinting audio',
+    auditing: 'Analysing',
+    saving: 'Saving',
+};
+
+const SettingsFields = ({ settings, onChange, disabled }: { settings: BatchSettings; onChange: (settings: BatchSettings) => void; disabled?: boolean }) => {
+    const field = (key: keyof BatchSettings, label: string, min: number, max: number) => (
+        <label className="flex flex-col gap-1.5 text-xs text-gray-500">
+            {label}
+            <input
+                type="number"
+                min={min}
+                max={max}
+                value={settings[key]}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+                className={`${inputClass} w-24 disabled:opacity-40`}
+            />
+        </label>
+    );
+    return (
+        <div className="flex flex-wrap gap-4">
+            {field('concurrency', 'At once', 1, MAX_BATCH_CONCURRENCY)}
+            {field('perMinute', 'Starts / minute', 1, MAX_BATCH_PER_MINUTE)}
+            {field('retries', 'Retries', 0, MAX_BATCH_RETRIES)}
+        </div>
+    );
+};
+
+const NewBatchForm = ({ onCreated }: { onCreated: (batch: BatchAudit) => void }) => {
+    const { user } = useAuth();
+    const [name, setName] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+    const [urlText, setUrlText] = useState('');
+    const [settings, setSettings] = useState<BatchSettings>(DEFAULT_BATCH_SETTINGS);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const addFiles = (list: FileList | null) => {
+        if (!list) return;
+        setFiles((current) => {
+            const known = new Set(current.map((file) => `${file.name}:${file.size}`));
+            return [...current, ...Array.from(list).filter((file) => !known.has(`${file.name}:${file.size}`))];
+        });
+    };
+
+    const submit = async () => {
+        if (!user) return;
+        setError(null);
+        setSaving(true);
+        try {
+            const { batch } = await createBatch(user, { name, settings, files, urls: parseBatchUrls(urlText) });
+            onCreated(batch);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The batch could not be created.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5 space-y-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">New batch</div>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Campaign name" className={`${inputClass} w-full`} />
+            <BrandProfilePicker />
+
+            <div
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    addFiles(e.dataTransfer.files);
+                }}
+                onClick={() => inputRef.current?.click()}
+                className="rounded-xl border-2 border-dashed border-white/10 hover:border-white/30 p-6 text-center cursor-pointer transition-colors"
+            >
+                <input
+                    ref={inputRef}
+                    type="file"
+                    multiple
+                    accept={[...ACCEPTED_VIDEO_EXTENSIONS, 'video/mp4', 'video/quicktime'].join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                        addFiles(e.target.files);
+                        e.target.value = '';
+                    }}
+                />
+                <div className="text-sm text-white mb-1">Drop MP4 or MOV creatives</div>
+                <div className="text-xs text-gray-500">Up to {MAX_BATCH_ITEMS} per batch. Files stay in this browser until their audit is saved.</div>
+            </div>
+            {files.length > 0 && (
+                <ul className="text-xs text-gray-400 space-y-1 max-h-40 overflow-y-auto">
+                    {files.map((file) => (
+                        <li key={`${file.name}:${file.size}`} className="flex justify-between gap-3">
+                            <span className="truncate">{file.name}</span>
+                            <button onClick={() => setFiles((current) => current.filter((f) => f !== file))} className="text-gray-600 hover:text-white">
+                                <i className="fa-solid fa-xmark"></i>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <textarea
+                value={urlText}
+                onChange={(e) => setUrlText(e.target.value)}
+                rows={3}
+                placeholder="Or video URLs, one per line"
+                className={`${inputClass} w-full font-mono text-xs`}
+            />
+
+            <SettingsFields settings={settings} onChange={setSettings} />
+
+            {error && <div className="text-sm text-[#ff2e63]">{error}</div>}
+            <button
+                onClick={submit}
+                disabled={saving}
+                className="px-5 py-2.5 rounded-lg bg-white text-black text-sm font-bold hover:bg-gray-200 transition-colors disabled:opacity-40"
+            >
+                Create batch
+            </button>
+        </div>
+    );
+};
+
+const BatchView = ({ batch, onChange, onDeleted }: { batch: BatchAudit; onChange: (batch: BatchAudit) => void; onDeleted: () => void }) => {
+    const { user } = useAuth();
+    const { check } = useEntitlements();
+    const { items, progress, running, pausedReason, loadError, start, pause, resume, cancelItem, retry } = useBatchRunner(batch);
+    const access = check({ type: 'audit' });
+
+    const saveSettings = (settings: BatchSettings) => {
+        onChange({ ...batch, ...settings });
+        if (user) updateBatchSettings(user, batch.id, settings).then(onChange).catch(() => undefined);
+    };
+
+    const remove = async () => {
+        if (!user || !window.confirm(`Delete "${batch.name}"? Audits it finished stay in your history.`)) return;
+        await deleteBatch(user, batch.id).catch(() => undefined);
+        onDeleted();
+    };
+
+    if (loadError) return <div className="text-sm text-[#ff2e63]">{loadError}</div>;
+    if (!items) return <div className="text-sm text-gray-500">Loading…</div>;
+
+    const queued = items.filter((item) => item.status === 'queued').length;
+    const retryable = items.filter((item) => item.status === 'failed' || item.status === 'cancelled').map((item) => item.id);
+
+    return (
+        <div className="space-y-6">
+            <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5 space-y-5">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="min-w-0">
+                        <div className="font-bold text-lg text-white truncate">{batch.name}</div>
+                        <div className="text-xs text-gray-500 font-mono mt-1">
+                            {items.length} creatives · created {new Date(batch.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {retryable.length > 0 && (
+                            <button onClick={() => retry(retryable)} className="px-3 py-2 rounded-lg border border-white/10 text-xs hover:bg-white/5 transition-colors">
+                                Retry {retryable.length} failed
+                            </button>
+                        )}
+                        {!running ? (
+                            <button
+                                onClick={start}
+                                disabled={!queued || !access.allowed}
+                                className="px-4 py-2 rounded-lg bg-white text-black text-xs font-bold hover:bg-gray-200 transition-colors disabled:opacity-40"
+                            >
+                                {items.some((item) => item.attempts > 0) ? 'Resume' : 'Start'} {queued > 0 && `(${queued})`}
+                            </button>
+                        ) : pausedReason ? (
+                            <button onClick={resume} className="px-4 py-2 rounded-lg bg-white text-black text-xs font-bold hover:bg-gray-200 transition-colors">
+                                Resume
+                            </button>
+                        ) : (
+                            <button onClick={pause} className="px-4 py-2 rounded-lg border border-white/10 text-xs hover:bg-white/5 transition-colors">
+                                Pause
+                            </button>
+                        )}
+                        <button onClick={remove} disabled={running} className="px-3 py-2 text-xs text-gray-500 hover:text-[#ff2e63] transition-colors disabled:opacity-40">
+                            Delete
+                        </button>
+                    </div>
+                </div>
+                <SettingsFields settings={batch} onChange={saveSettings} disabled={running} />
+                {running && pausedReason && <div className="text-xs text-[#ffbd2e]">{pausedReason}</div>}
+                {!access.allowed && <UpgradePrompt decision={access} compact />}
+                <div className="text-xs text-gray-600">
+                    Audits run while this page is open. Progress is saved as it goes, so a closed tab picks up where it stopped. Only finished audits count towards your plan.
+                </div>
+            </div>
+
+            <BatchSummary items={items} />
+
+            <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 divide-y divide-white/5">
+                {items.map((item) => {
+                    const step = progress[item.id];
+                    return (
+                        <div key={item.id} className="px-5 py-3 flex items-center gap-4">
+                            <div className="min-w-0 flex-1">
+                                <div className="text-sm text-white truncate">{item.name}</div>
+                                {item.status === 'running' && step && (
+                                    <div className="mt-1.5 flex items-center gap-3">
+                                        <span className="text-[11px] font-mono text-gray-500 whitespace-nowrap">{STAGE_LABELS[step.stage]}</span>
+                                        {step.fraction !== undefined && (
+                                            <div className="h-1 flex-1 bg-white/5 rounded-full overflow-hidden">
+                                                <div className="h-full bg-[#08d9d6] rounded-full transition-all duration-200" style={{ width: `${Math.round(step.fraction * 100)}%` }} />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                                {item.error && <div className={`text-[11px] mt-1 ${item.status === 'failed' ? 'text-[#ff2e63]' : 'text-[#ffbd2e]'}`}>{item.error}</div>}
+                            </div>
+                            <span className={`text-[10px] font-mono uppercase tracking-widest ${STATUS_COLORS[item.status]}`}>
+                                {BATCH_STATUS_LABELS[item.status]}
+                                {item.attempts > 1 && ` · ${item.attempts}`}
+                            </span>
+                            {item.status === 'done' && item.auditId && (
+                                <Link to={auditPath(item.auditId)} className="text-xs text-gray-400 hover:text-white transition-colors" title="Open report">
+                                    <i className="fa-solid fa-arrow-right"></i>
+                                </Link>
+                            )}
+                            {(item.status === 'queued' || item.status === 'running') && (
+                                <button onClick={() => cancelItem(item.id)} className="text-xs text-gray-600 hover:text-[#ff2e63] transition-colors" title="Cancel">
+                                    <i className="fa-solid fa-xmark"></i>
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const BatchPage = () => {
+    const { user } = useAuth();
+    const { check } = useEntitlements();
+    const [batches, setBatches] = useState<BatchAudit[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const access = check({ type: 'feature', feature: 'batch_audits' });
+
+    const refresh = useCallback(() => {
+        if (user) listBatches(user).then(setBatches).catch(() => setBatches([]));
+    }, [user]);
+
+    useEffect(refresh, [refresh]);
+
+    const selected = batches.find((batch) => batch.id === selectedId) ?? null;
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-6xl mx-auto px-6">
+                <div className="mb-8 flex flex-wrap items-end justify-between gap-6">
+                    <div>
+                        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Batch</div>
+                        <h1 className="text-3xl md:text-4xl font-bold font-heading">Audit a whole campaign</h1>
+                    </div>
+                    <UsageMeter />
+                </div>
+
+                <VerifyEmailBanner />
+                {!access.allowed ? (
+                    <UpgradePrompt decision={access} />
+                ) : (
+                    <div className="grid lg:grid-cols-[260px_1fr] gap-6 items-start">
+                        <div className="space-y-2">
+                            <button
+                                onClick={() => setSelectedId(null)}
+                                className={`w-full text-left px-4 py-3 rounded-lg border text-sm transition-colors ${
+                                    selectedId === null ? 'border-white/30 bg-white/5 text-white' : 'border-white/10 text-gray-400 hover:text-white'
+                                }`}
+                            >
+                                <i className="fa-solid fa-plus mr-2 text-xs"></i>New batch
+                            </button>
+                            {batches.map((batch) => (
+                                <button
+                                    key={batch.id}
+                                    onClick={() => setSelectedId(batch.id)}
+                                    className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                                        batch.id === selectedId ? 'border-white/30 bg-white/5' : 'border-white/10 hover:bg-white/5'
+                                    }`}
+                                >
+                                    <div className="text-sm text-white truncate">{batch.name}</div>
+                                    <div className="text-[11px] text-gray-500 font-mono mt-0.5">
+                                        {new Date(batch.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+
+                        {selected ? (
+                            <BatchView
+                                key={selected.id}
+                                batch={selected}
+                                onChange={(updated) => setBatches((current) => current.map((batch) => (batch.id === updated.id ? updated : batch)))}
+                                onDeleted={() => {
+                                    setSelectedId(null);
+                                    refresh();
+                                }}
+                            />
+                        ) : (
+                            <NewBatchForm
+                                onCreated={(batch) => {
+                                    setBatches((current) => [batch, ...current]);
+                                    setSelectedId(batch.id);
+                                }}
+                            />
+                        )}
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default BatchPage;
@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from "react";
+import { BrandProfile, BrandRules } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import UpgradePrompt from "../components/UpgradePrompt";
+import { EMPTY_BRAND_RULES, MAX_LOGO_SEC, PHRASE_FIELD_LABELS, parsePhraseList } from "../services/brandProfiles";
+import {
+    deleteBrandProfile,
+    listBrandProfiles,
+    readSelectedBrandProfileId,
+    saveBrandProfile,
+    writeSelectedBrandProfileId,
+} from "../services/brandProfileStore";
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+type ListField = keyof typeof PHRASE_FIELD_LABELS;
+
+const LIST_HINTS: Record<ListField, string> = {
+    tone: 'e.g. warm, plain-spoken, no slang',
+    bannedPhrases: 'e.g. guaranteed, cheap, miracle',
+    requiredPhrases: 'Said or shown somewhere in the ad',
+    disclaimers: 'Exact wording, spoken or on screen',
+    ctaPhrases: 'Preferred wording, best first',
+};
+
+const LIST_FIELDS = Object.keys(PHRASE_FIELD_LABELS) as ListField[];
+
+interface Draft {
+    name: string;
+    lists: Record<ListField, string>;
+    // Seconds as typed; blank for no expectation
+    logoBySec: string;
+    logoOnEndCard: boolean;
+}
+
+const toDraft = (rules: BrandRules): Draft => ({
+    name: rules.name,
+    lists: Object.fromEntries(LIST_FIELDS.map((field) => [field, rules[field].join('\n')])) as Record<ListField, string>,
+    logoBySec: rules.logoBySec === null ? '' : String(rules.logoBySec),
+    logoOnEndCard: rules.logoOnEndCard,
+});
+
+const fromDraft = (draft: Draft): BrandRules => ({
+    name: draft.name,
+    tone: parsePhraseList(draft.lists.tone),
+    bannedPhrases: parsePhraseList(draft.lists.bannedPhrases),
+    requiredPhrases: parsePhraseList(draft.lists.requiredPhrases),
+    disclaimers: parsePhraseList(draft.lists.disclaimers),
+    logoBySec: draft.logoBySec.trim() === '' ? null : Number(draft.logoBySec),
+    logoOnEndCard: draft.logoOnEndCard,
+    ctaPhrases: parsePhraseList(draft.lists.ctaPhrases),
+});
+
+const ProfileForm = ({
+    profile,
+    canEdit,
+    onSaved,
+    onDeleted,
+}: {
+    profile: BrandProfile | null;
+    canEdit: boolean;
+    onSaved: (profile: BrandProfile) => void;
+    onDeleted: () => void;
+}) => {
+    const { library } = useWorkspace();
+    const [draft, setDraft] = useState<Draft>(toDraft(profile ?? EMPTY_BRAND_RULES));
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!library) return;
+        setBusy(true);
+        setError(null);
+        try {
+            onSaved(await saveBrandProfile(library, fromDraft(draft), profile?.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the profile.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const remove = async () => {
+        if (!library || !profile || !window.confirm(`Delete the ${profile.name} brand profile?`)) return;
+        try {
+            await deleteBrandProfile(library, profile.id);
+            onDeleted();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not delete the profile.');
+        }
+    };
+
+    return (
+        <form onSubmit={save} className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5 space-y-5">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">{profile ? 'Brand profile' : 'New brand profile'}</div>
+            <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                readOnly={!canEdit}
+                placeholder="Brand or client name"
+                className={`${inputClass} w-full`}
+                aria-label="Profile name"
+            />
+            <div className="grid md:grid-cols-2 gap-4">
+                {LIST_FIELDS.map((field) => (
+                    <label key={field} className="block">
+                        <span className="block text-xs text-gray-400 mb-1.5">{PHRASE_FIELD_LABELS[field]}</span>
+                        <textarea
+                            value={draft.lists[field]}
+                            onChange={(e) => setDraft({ ...draft, lists: { ...draft.lists, [field]: e.target.value } })}
+                            readOnly={!canEdit}
+                            rows={4}
+                            placeholder={`One per line. ${LIST_HINTS[field]}`}
+                            className={`${inputClass} w-full resize-y`}
+                        />
+                    </label>
+                ))}
+                <div className="space-y-3">
+                    <span className="block text-xs text-gray-400">Logo on screen</span>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        By
+                        <input
+                            type="number"
+                            min={0}
+                            max={MAX_LOGO_SEC}
+                            step={0.5}
+                            value={draft.logoBySec}
+                            onChange={(e) => setDraft({ ...draft, logoBySec: e.target.value })}
+                            readOnly={!canEdit}
+                            placeholder="—"
+                            className={`${inputClass} w-20`}
+                        />
+                        seconds in
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={draft.logoOnEndCard}
+                            onChange={(e) => setDraft({ ...draft, logoOnEndCard: e.target.checked })}
+                            disabled={!canEdit}
+                            className="accent-[#08d9d6]"
+                        />
+                        On the end card
+                    </label>
+                </div>
+            </div>
+            {canEdit && (
+                <div className="flex items-center justify-between gap-3">
+                    <button
+                        type="submit"
+                        disabled={busy}
+                        className="bg-white text-black px-5 py-2 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all disabled:opacity-50"
+                    >
+                        {busy ? 'Saving…' : profile ? 'Save Changes' : 'Create Profile'}
+                    </button>
+                    {profile && (
+                        <button type="button" onClick={remove} className="text-xs text-gray-600 hover:text-[#ff2e63] transition-colors">
+                            Delete profile
+                        </button>
+                    )}
+                </div>
+            )}
+            {error && <div className="text-xs text-[#ff2e63]">{error}</div>}
+        </form>
+    );
+};
+
+const BrandsPage = () => {
+    const { library, active: workspace } = useWorkspace();
+    const { check } = useEntitlements();
+    const [profiles, setProfiles] = useState<BrandProfile[] | null>(null);
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const edit = check({ type: 'action', action: 'library.edit' });
+
+    const load = async (open?: string | null) => {
+        if (!library) return;
+        try {
+            const list = await listBrandProfiles(library);
+            setProfiles(list);
+            setSelectedId(readSelectedBrandProfileId(library));
+            if (open !== undefined) setOpenId(open);
+        } catch (err) {
+            setLoadError(err instanceof Error ? err.message : 'Brand profiles could not be loaded.');
+        }
+    };
+
+    useEffect(() => {
+        setProfiles(null);
+        load(null);
+    }, [library?.userId, library?.workspaceId]);
+
+    const choose = (id: string | null) => {
+        if (!library) return;
+        writeSelectedBrandProfileId(library, id);
+        setSelectedId(id);
+    };
+
+    const open = profiles?.find((profile) => profile.id === openId) ?? null;
+    const rowClass = (current: boolean) =>
+        `w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${current ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5'}`;
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-6xl mx-auto px-6">
+                <div className="mb-8">
+                    <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">
+                        Brands · {workspace ? workspace.name : 'Personal library'}
+                    </div>
+                    <h1 className="text-3xl md:text-4xl font-bold font-heading">Brand profiles</h1>
+                    <p className="text-sm text-gray-400 mt-3 max-w-2xl">
+                        A profile sets what a brand allows: its tone, banned and required phrases, disclaimers, when the logo shows and
+                        how the call to action is worded. Audits run while a profile is chosen add a #BRAND section listing each
+                        violation and where it happens.
+                    </p>
+                </div>
+
+                {loadError && <div className="text-sm text-[#ff2e63] mb-6">{loadError}</div>}
+
+                {profiles === null && !loadError ? (
+                    <div className="py-16 text-center text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                ) : (
+                    <div className="grid lg:grid-cols-[260px_1fr] gap-6 items-start">
+                        <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-3 space-y-1">
+                            {(profiles ?? []).map((profile) => (
+                                <div key={profile.id} className="flex items-center gap-2">
+                                    <button onClick={() => setOpenId(profile.id)} className={rowClass(profile.id === openId)}>
+                                        {profile.name}
+                                    </button>
+                                    <button
+                                        onClick={() => choose(profile.id === selectedId ? null : profile.id)}
+                                        className={`shrink-0 w-7 h-7 rounded-md text-xs transition-colors ${profile.id === selectedId ? 'text-[#34d399]' : 'text-gray-700 hover:text-gray-400'}`}
+                                        title={profile.id === selectedId ? 'Audits use this profile' : 'Use for new audits'}
+                                        aria-pressed={profile.id === selectedId}
+                                    >
+                                        <i className="fa-solid fa-circle-check"></i>
+                                    </button>
+                                </div>
+                            ))}
+                            {edit.allowed && (
+                                <button onClick={() => setOpenId(null)} className={rowClass(openId === null)}>
+                                    <i className="fa-solid fa-plus mr-2 text-xs"></i>New profile
+                                </button>
+                            )}
+                        </div>
+                        <div className="space-y-4">
+                            {!edit.allowed && <UpgradePrompt decision={edit} compact />}
+                            {(open || edit.allowed) && (
+                                <ProfileForm
+                                    key={open?.id ?? 'new'}
+                                    profile={open}
+                                    canEdit={edit.allowed}
+                                    onSaved={(profile) => load(profile.id)}
+                                    onDeleted={() => load(null)}
+                                />
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default BrandsPage;
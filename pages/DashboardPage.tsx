@@ -0,0 +1,67 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { SavedAudit } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { Link } from "../context/RouterContext";
+import AuditWorkspace from "../components/AuditWorkspace";
+import { formatScore, scoreColor } from "../components/AuditReportView";
+import { ROUTES, auditPath } from "../constants";
+import { auditScore, listAudits } from "../services/auditStore";
+
+const RECENT_LIMIT = 8;
+
+const DashboardPage = () => {
+    const { library } = useWorkspace();
+    const [audits, setAudits] = useState<SavedAudit[]>([]);
+
+    const refresh = useCallback(() => {
+        if (library) listAudits(library).then(setAudits).catch(() => setAudits([]));
+    }, [library?.userId, library?.workspaceId]);
+
+    useEffect(refresh, [refresh]);
+
+    return (
+        <div className="pt-20">
+            <AuditWorkspace onSaved={refresh} />
+
+            <section className="pb-24 relative z-10">
+                <div className="max-w-6xl mx-auto px-6">
+                    <div className="flex justify-between items-baseline mb-4">
+                        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Recent audits</div>
+                        {audits.length > 0 && (
+                            <Link to={ROUTES.history} className="text-xs text-gray-500 hover:text-white transition-colors">
+                                View all <i className="fa-solid fa-arrow-right text-[10px]"></i>
+                            </Link>
+                        )}
+                    </div>
+                    {audits.length === 0 ? (
+                        <div className="rounded-xl border border-white/5 bg-[#0a0a0a]/80 p-8 text-center text-sm text-gray-600">
+                            Audits you run appear here, each with its own link.
+                        </div>
+                    ) : (
+                        <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 divide-y divide-white/5">
+                            {audits.slice(0, RECENT_LIMIT).map((audit) => (
+                                <Link
+                                    key={audit.id}
+                                    to={auditPath(audit.id)}
+                                    className="flex items-center justify-between gap-4 px-5 py-4 hover:bg-white/5 transition-colors"
+                                >
+                                    <div className="min-w-0">
+                                        <div className="text-sm text-white truncate">{audit.creativeName}</div>
+                                        <div className="text-xs text-gray-500 font-mono mt-1">
+                                            {new Date(audit.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                                        </div>
+                                    </div>
+                                    <span className="font-mono font-bold text-sm" style={{ color: scoreColor(auditScore(audit), 10) }}>
+                                        {formatScore(auditScore(audit))}/10
+                                    </span>
+                                </Link>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </section>
+        </div>
+    );
+};
+
+export default DashboardPage;
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { SavedAudit } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { Link } from "../context/RouterContext";
+import { SECTION_COLORS, formatScore, scoreColor } from "../components/AuditReportView";
+import ScoreTrendChart from "../components/ScoreTrendChart";
+import { ROUTES, auditPath } from "../constants";
+import { AuditFilter, auditScore, filterAudits, listAudits } from "../services/auditStore";
+
+const SCORE_OPTIONS = Array.from({ length: 11 }, (_, i) => i);
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const HistoryPage = () => {
+    const { library } = useWorkspace();
+    const [audits, setAudits] = useState<SavedAudit[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [filter, setFilter] = useState<AuditFilter>({});
+
+    useEffect(() => {
+        if (!library) return;
+        let cancelled = false;
+        listAudits(library)
+            .then((list) => !cancelled && setAudits(list))
+            .catch((err) => !cancelled && setLoadError(err instanceof Error ? err.message : 'History could not be loaded.'));
+        return () => {
+            cancelled = true;
+        };
+    }, [library?.userId, library?.workspaceId]);
+
+    const brands = useMemo(() => Array.from(new Set((audits ?? []).map((a) => a.brand).filter(Boolean))).sort(), [audits]);
+    const tags = useMemo(() => Array.from(new Set((audits ?? []).flatMap((a) => a.tags))).sort(), [audits]);
+    const results = useMemo(() => filterAudits(audits ?? [], filter), [audits, filter]);
+
+    const update = (patch: AuditFilter) => setFilter((current) => ({ ...current, ...patch }));
+    const isFiltered = Object.values(filter).some((value) => value !== undefined && value !== '');
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-6xl mx-auto px-6">
+                <div className="mb-8 flex flex-wrap justify-between items-end gap-4">
+                    <div>
+                        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">History</div>
+                        <h1 className="text-3xl md:text-4xl font-bold font-heading">Past audits</h1>
+                    </div>
+                    <div className="flex gap-5">
+                        <Link to={ROUTES.brands} className="text-xs text-gray-400 hover:text-white transition-colors">
+                            <i className="fa-solid fa-copyright mr-2"></i>Brand profiles
+                        </Link>
+                        <Link to={ROUTES.rubric} className="text-xs text-gray-400 hover:text-white transition-colors">
+                            <i className="fa-solid fa-scale-balanced mr-2"></i>Scoring rubric
+                        </Link>
+                    </div>
+                </div>
+
+                {/* Filters */}
+                <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-4 mb-6 flex flex-wrap gap-3 items-center">
+                    <div className="relative flex-1 min-w-[220px]">
+                        <i className="fa-solid fa-magnifying-glass absolute left-3 top-1/2 -translate-y-1/2 text-xs text-gray-600"></i>
+                        <input
+                            type="search"
+                            value={filter.text ?? ''}
+                            onChange={(e) => update({ text: e.target.value })}
+                            placeholder="Search report text, names and tags"
+                            className={`${inputClass} w-full pl-8`}
+                        />
+                    </div>
+                    <select
+                        value={filter.brand ?? ''}
+                        onChange={(e) => update({ brand: e.target.value || undefined })}
+                        className={inputClass}
+                        aria-label="Brand"
+                    >
+                        <option value="">All brands</option>
+                        {brands.map((brand) => <option key={brand} value={brand}>{brand}</option>)}
+                    </select>
+                    <select
+                        value={filter.tag ?? ''}
+                        onChange={(e) => update({ tag: e.target.value || undefined })}
+                        className={inputClass}
+                        aria-label="Campaign tag"
+                    >
+                        <option value="">All tags</option>
+                        {tags.map((tag) => <option key={tag} value={tag}>#{tag}</option>)}
+                    </select>
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                        Score
+                        <select
+                            value={filter.minScore ?? 0}
+                            onChange={(e) => update({ minScore: Number(e.target.value) || undefined })}
+                            className={inputClass}
+                            aria-label="Minimum score"
+                        >
+                            {SCORE_OPTIONS.map((score) => <option key={score} value={score}>{score}</option>)}
+                        </select>
+                        to
+                        <select
+                            value={filter.maxScore ?? 10}
+                            onChange={(e) => update({ maxScore: Number(e.target.value) === 10 ? undefined : Number(e.target.value) })}
+                            className={inputClass}
+                            aria-label="Maximum score"
+                        >
+                            {SCORE_OPTIONS.map((score) => <option key={score} value={score}>{score}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <input
+                            type="date"
+                            value={filter.from ?? ''}
+                            onChange={(e) => update({ from: e.target.value || undefined })}
+                            className={inputClass}
+                            aria-label="From date"
+                        />
+                        –
+                        <input
+                            type="date"
+                            value={filter.to ?? ''}
+                            onChange={(e) => update({ to: e.target.value || undefined })}
+                            className={inputClass}
+                            aria-label="To date"
+                        />
+                    </div>
+                    {isFiltered && (
+                        <button onClick={() => setFilter({})} className="text-xs text-gray-500 hover:text-white transition-colors">
+                            Clear
+                        </button>
+                    )}
+                </div>
+
+                {loadError && <div className="text-sm text-[#ff2e63] mb-6">{loadError}</div>}
+
+                {/* Trend */}
+                <div className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 p-5 mb-6">
+                    <div className="flex justify-between items-baseline mb-3">
+                        <span className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+                            Score trend · {filter.brand ?? 'All brands'}
+                        </span>
+                        <span className="text-xs text-gray-600">{results.length} audits</span>
+                    </div>
+                    <ScoreTrendChart audits={results} />
+                </div>
+
+                {/* Results */}
+                {audits === null && !loadError ? (
+                    <div className="py-16 text-center text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                ) : results.length === 0 ? (
+                    <div className="rounded-xl border border-white/5 bg-[#0a0a0a]/80 p-10 text-center text-sm text-gray-600">
+                        {audits?.length ? 'No audits match these filters.' : 'Audits you run from the dashboard are kept here.'}
+                    </div>
+                ) : (
+                    <div className="grid gap-3">
+                        {results.map((audit) => (
+                            <Link
+                                key={audit.id}
+                                to={auditPath(audit.id)}
+                                className="rounded-xl border border-white/10 bg-[#0a0a0a]/80 hover:bg-white/5 transition-colors p-4 flex gap-4 items-start"
+                            >
+                                <div className="w-28 aspect-video rounded-md bg-black overflow-hidden shrink-0 flex items-center justify-center">
+                                    {audit.thumbnail
+                                        ? <img src={audit.thumbnail} alt="" className="w-full h-full object-cover" />
+                                        : <i className="fa-solid fa-film text-gray-700"></i>}
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <div className="text-sm text-white font-medium truncate">{audit.creativeName}</div>
+                                            <div className="text-xs text-gray-500 font-mono mt-1">
+                                                {new Date(audit.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                                                {audit.brand && ` · ${audit.brand}`}
+                                            </div>
+                                        </div>
+                                        <span className="font-mono font-bold text-sm shrink-0" style={{ color: scoreColor(auditScore(audit), 10) }}>
+                                            {formatScore(auditScore(audit))}/10
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-gray-400 mt-2 line-clamp-2">
+                                        <span className="font-mono font-bold mr-2" style={{ color: SECTION_COLORS.hook }}>HOOK</span>
+                                        {audit.summaries.hook}
+                                    </p>
+                                    {audit.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1.5 mt-2">
+                                            {audit.tags.map((tag) => (
+                                                <span key={tag} className="text-[10px] font-mono text-gray-400 bg-white/5 rounded px-1.5 py-0.5">#{tag}</span>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </Link>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default HistoryPage;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from "react";
+import { WorkspaceInvite } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { Link, useRouter } from "../context/RouterContext";
+import VerifyEmailBanner from "../components/VerifyEmailBanner";
+import { ROUTES } from "../constants";
+import { getWorkspaceClient, isWorkspaceError } from "../services/workspaceClient";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from "../services/workspaces";
+
+// Where invite emails land. The route requires sign-in, so an invitee without an account signs up
+// first and comes back here to accept.
+const InvitePage = ({ token }: { token: string }) => {
+    const { user, getAccessToken } = useAuth();
+    const { refresh, switchWorkspace } = useWorkspace();
+    const { navigate } = useRouter();
+    const [invite, setInvite] = useState<WorkspaceInvite | null | undefined>(undefined);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        const accessToken = getAccessToken();
+        if (!accessToken) return;
+        let cancelled = false;
+        getWorkspaceClient()
+            .getInvite(accessToken, token)
+            .then((found) => !cancelled && setInvite(found))
+            .catch((err) => {
+                if (cancelled) return;
+                setInvite(null);
+                setError(isWorkspaceError(err) ? err.message : 'This invite could not be loaded.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [token, getAccessToken]);
+
+    const accept = async () => {
+        const accessToken = getAccessToken();
+        if (!accessToken) return;
+        setBusy(true);
+        setError(null);
+        try {
+            const workspace = await getWorkspaceClient().acceptInvite(accessToken, token);
+            await refresh();
+            switchWorkspace(workspace.id);
+            navigate(ROUTES.team, { replace: true });
+        } catch (err) {
+            setError(isWorkspaceError(err) ? err.message : 'Something went wrong. Try again.');
+            setBusy(false);
+        }
+    };
+
+    const wrongAccount = !!invite && !!user && invite.email !== user.email;
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-lg mx-auto px-6">
+                <VerifyEmailBanner />
+                <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-8 text-center">
+                    {invite === undefined ? (
+                        <div className="py-6 text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                    ) : !invite ? (
+                        <>
+                            <div className="text-white font-medium mb-2">Invite not found</div>
+                            <p className="text-sm text-gray-500">{error}</p>
+                            <Link to={ROUTES.dashboard} className="inline-block mt-6 text-xs text-gray-400 hover:text-white transition-colors">
+                                Go to your dashboard
+                            </Link>
+                        </>
+                    ) : (
+                        <>
+                            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Workspace invite</div>
+                            <h1 className="text-2xl font-bold font-heading mb-2">{invite.workspaceName}</h1>
+                            <p className="text-sm text-gray-400">
+                                {invite.invitedBy} invited you as {ROLE_LABELS[invite.role].toLowerCase()}. {ROLE_DESCRIPTIONS[invite.role]}
+                            </p>
+                            {wrongAccount && (
+                                <p className="text-xs text-[#ffbd2e] mt-4">
+                                    This invite is for {invite.email}, but you're signed in as {user?.email}.
+                                </p>
+                            )}
+                            <button
+                                onClick={accept}
+                                disabled={busy || wrongAccount}
+                                className="mt-6 bg-white text-black px-6 py-2.5 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all disabled:opacity-50"
+                            >
+                                {busy ? 'Joining…' : 'Join Workspace'}
+                            </button>
+                            {error && <div className="text-xs text-[#ff2e63] mt-4">{error}</div>}
+                        </>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default InvitePage;
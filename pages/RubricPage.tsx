@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from "react";
+import { REPORT_SUBSCORE_ORDER, RubricWeights, SavedAudit, ScoringRubric } from "../types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import { Link } from "../context/RouterContext";
+import UpgradePrompt from "../components/UpgradePrompt";
+import { ROUTES } from "../constants";
+import { listAudits, rescoreAudits } from "../services/auditStore";
+import { DEFAULT_RUBRIC, MAX_RUBRIC_WEIGHT, RUBRIC_PRESETS, RubricDefinition, SUBSCORE_LABELS, isScoredWith, sameWeights, weightShares } from "../services/rubric";
+import { listRubricVersions, saveRubricVersion } from "../services/rubricStore";
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const Panel = ({ title, children }: { title: string; children: React.ReactNode }) => (
+    <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5">
+        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-4">{title}</div>
+        {children}
+    </div>
+);
+
+const shareLabel = (share: number) => `${Math.round(share * 100)}%`;
+
+const RubricEditor = ({
+    active,
+    onSave,
+}: {
+    active: RubricDefinition;
+    onSave: (name: string, weights: RubricWeights) => Promise<void>;
+}) => {
+    const { check } = useEntitlements();
+    const [name, setName] = useState(active.name);
+    const [weights, setWeights] = useState<RubricWeights>(active.weights);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const access = check({ type: 'action', action: 'rubric.manage' });
+    const shares = weightShares(weights);
+    const unchanged = name.trim() === active.name && sameWeights(weights, active.weights);
+
+    const save = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setError(null);
+        try {
+            await onSave(name, weights);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the rubric.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <Panel title={`Weights · v${active.version} in use`}>
+            <form onSubmit={save}>
+                <div className="flex flex-wrap gap-2 mb-5">
+                    {RUBRIC_PRESETS.map((preset) => (
+                        <button
+                            key={preset.name}
+                            type="button"
+                            onClick={() => {
+                                setName(preset.name);
+                                setWeights(preset.weights);
+                            }}
+                            disabled={!access.allowed}
+                            className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-colors disabled:opacity-50 ${sameWeights(weights, preset.weights) ? 'border-white/30 text-white' : 'border-white/10 text-gray-400 hover:text-white'}`}
+                        >
+                            {preset.name}
+                        </button>
+                    ))}
+                </div>
+                <div className="space-y-3">
+                    {REPORT_SUBSCORE_ORDER.map((key) => (
+                        <label key={key} className="flex items-center gap-4 text-sm">
+                            <span className="w-16 text-gray-300">{SUBSCORE_LABELS[key]}</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={MAX_RUBRIC_WEIGHT}
+                                step={0.5}
+                                value={Number.isFinite(weights[key]) ? weights[key] : ''}
+                                onChange={(e) => setWeights((current) => ({ ...current, [key]: e.target.value === '' ? NaN : Number(e.target.value) }))}
+                                readOnly={!access.allowed}
+                                className={`${inputClass} w-20`}
+                            />
+                            <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                                <div className="h-full rounded-full bg-[#a78bfa]" style={{ width: shareLabel(shares[key] || 0) }} />
+                            </div>
+                            <span className="w-10 text-right font-mono text-xs text-gray-500">{shareLabel(shares[key] || 0)}</span>
+                        </label>
+                    ))}
+                </div>
+                {access.allowed ? (
+                    <div className="mt-6 flex flex-wrap items-center gap-3">
+                        <input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Rubric name"
+                            className={`${inputClass} flex-1 min-w-[200px]`}
+                            aria-label="Rubric name"
+                        />
+                        <button
+                            type="submit"
+                            disabled={busy || unchanged}
+                            className="bg-white text-black px-5 py-2 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all disabled:opacity-50"
+                        >
+                            {busy ? 'Saving…' : `Save as v${active.version + 1}`}
+                        </button>
+                    </div>
+                ) : (
+                    <div className="mt-6">
+                        <UpgradePrompt decision={access} compact />
+                    </div>
+                )}
+                {error && <div className="text-xs text-[#ff2e63] mt-3">{error}</div>}
+            </form>
+        </Panel>
+    );
+};
+
+const VersionHistory = ({
+    versions,
+    onRestore,
+    canManage,
+}: {
+    versions: ScoringRubric[];
+    onRestore: (rubric: RubricDefinition) => void;
+    canManage: boolean;
+}) => {
+    const rows: (RubricDefinition & { createdAt?: string })[] = [...versions, DEFAULT_RUBRIC];
+
+    return (
+        <Panel title="Versions">
+            <div className="divide-y divide-white/5">
+                {rows.map((rubric, index) => {
+                    const shares = weightShares(rubric.weights);
+                    return (
+                        <div key={rubric.id} className="py-3 first:pt-0 last:pb-0 flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                                <div className="text-sm text-white">
+                                    v{rubric.version} · {rubric.name}
+                                    {index === 0 && <span className="ml-2 text-[10px] font-mono text-[#08d9d6] uppercase">In use</span>}
+                                </div>
+                                <div className="text-[11px] text-gray-500 font-mono mt-1">
+                                    {REPORT_SUBSCORE_ORDER.map((key) => `${SUBSCORE_LABELS[key]} ${shareLabel(shares[key])}`).join(' · ')}
+                                </div>
+                                <div className="text-[11px] text-gray-600 mt-0.5">{rubric.createdAt ? formatDate(rubric.createdAt) : 'Default'}</div>
+                            </div>
+                            {canManage && index > 0 && (
+                                <button onClick={() => onRestore(rubric)} className="text-xs text-gray-500 hover:text-white transition-colors shrink-0">
+                                    Restore
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </Panel>
+    );
+};
+
+// Re-scoring only reweights the sub-scores already stored with each audit; nothing is re-analysed
+const RescorePanel = ({ active, audits, onRescored }: { active: RubricDefinition; audits: SavedAudit[]; onRescored: () => void }) => {
+    const { library } = useWorkspace();
+    const { check } = useEntitlements();
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const canEdit = check({ type: 'action', action: 'library.edit' }).allowed;
+    const outdated = audits.filter((audit) => audit.report.subscores && !isScoredWith(audit.scoring, active));
+    const unscorable = audits.filter((audit) => !audit.report.subscores).length;
+
+    const rescore = async () => {
+        if (!library) return;
+        setBusy(true);
+        setMessage(null);
+        try {
+            const changed = await rescoreAudits(library, active);
+            setMessage(`Re-scored ${changed.length} ${changed.length === 1 ? 'audit' : 'audits'}.`);
+            onRescored();
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Could not re-score.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <Panel title="Past audits">
+            <p className="text-sm text-gray-400">
+                {outdated.length
+                    ? `${outdated.length} ${outdated.length === 1 ? 'audit was' : 'audits were'} scored with an earlier rubric.`
+                    : `Every audit with sub-scores is scored with v${active.version}.`}
+                {unscorable > 0 && ` ${unscorable} older ${unscorable === 1 ? 'audit has' : 'audits have'} no sub-scores and keep the model's score.`}
+            </p>
+            {canEdit && outdated.length > 0 && (
+                <button
+                    onClick={rescore}
+                    disabled={busy}
+                    className="mt-4 px-4 py-2 rounded-lg border border-white/10 text-xs font-bold text-gray-300 hover:text-white transition-colors disabled:opacity-50"
+                >
+                    {busy ? 'Re-scoring…' : `Re-score with v${active.version}`}
+                </button>
+            )}
+            {message && <div className="text-xs text-gray-500 mt-3">{message}</div>}
+        </Panel>
+    );
+};
+
+const RubricPage = () => {
+    const { library, active: workspace } = useWorkspace();
+    const { check } = useEntitlements();
+    const [versions, setVersions] = useState<ScoringRubric[] | null>(null);
+    const [audits, setAudits] = useState<SavedAudit[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const canManage = check({ type: 'action', action: 'rubric.manage' }).allowed;
+
+    const load = () => {
+        if (!library) return;
+        Promise.all([listRubricVersions(library), listAudits(library)])
+            .then(([rubrics, list]) => {
+                setVersions(rubrics);
+                setAudits(list);
+            })
+            .catch((err) => setLoadError(err instanceof Error ? err.message : 'The rubric could not be loaded.'));
+    };
+
+    useEffect(() => {
+        setVersions(null);
+        load();
+    }, [library?.userId, library?.workspaceId]);
+
+    const active = versions?.[0] ?? DEFAULT_RUBRIC;
+
+    const save = async (name: string, weights: RubricWeights) => {
+        if (!library) return;
+        await saveRubricVersion(library, { name, weights });
+        load();
+    };
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-6xl mx-auto px-6">
+                <Link to={ROUTES.history} className="text-xs text-gray-500 hover:text-white transition-colors">
+                    <i className="fa-solid fa-arrow-left mr-2"></i>History
+                </Link>
+                <div className="mt-6 mb-8">
+                    <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">
+                        Scoring · {workspace ? workspace.name : 'Personal library'}
+                    </div>
+                    <h1 className="text-3xl md:text-4xl font-bold font-heading">Scoring rubric</h1>
+                    <p className="text-sm text-gray-400 mt-3 max-w-2xl">
+                        Each audit scores the hook, pacing, visuals, audio, script and call to action out of 10. The headline score is
+                        their weighted average under this rubric. Every save is a new version, and reports show which version scored them.
+                    </p>
+                </div>
+
+                {loadError && <div className="text-sm text-[#ff2e63] mb-6">{loadError}</div>}
+
+                {versions === null && !loadError ? (
+                    <div className="py-16 text-center text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                ) : (
+                    <div className="grid lg:grid-cols-[1fr_340px] gap-6 items-start">
+                        <RubricEditor key={`${active.id}:${active.version}`} active={active} onSave={save} />
+                        <div className="space-y-6">
+                            <RescorePanel active={active} audits={audits} onRescored={load} />
+                            <VersionHistory
+                                versions={versions ?? []}
+                                canManage={canManage}
+                                onRestore={(rubric) => save(rubric.name, rubric.weights).catch((err) => setLoadError(err.message))}
+                            />
+                        </div>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default RubricPage;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from "react";
+import { SharedReport } from "../types";
+import { AuditReportView } from "../components/AuditReportView";
+import { ShareErrorCode, getShareClient, isShareError } from "../services/shareClient";
+
+const formatDuration = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.round(sec % 60)).padStart(2, '0')}`;
+
+// Public, read-only view of a shared audit. Rendered without the navbar, footer or anything
+// tied to an account, since the reader usually doesn't have one.
+const SharedReportPage = ({ token }: { token: string }) => {
+    const [shared, setShared] = useState<SharedReport | null>(null);
+    const [error, setError] = useState<{ code: ShareErrorCode | 'unknown'; message: string } | null>(null);
+    const [password, setPassword] = useState('');
+    const [loading, setLoading] = useState(true);
+
+    const open = async (withPassword?: string) => {
+        setLoading(true);
+        try {
+            setShared(await getShareClient().openShare(token, withPassword));
+            setError(null);
+        } catch (err) {
+            setError(isShareError(err) ? { code: err.code, message: err.message } : { code: 'unknown', message: 'This report could not be loaded.' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        open();
+        // Opening counts a view, so only do it once per token
+    }, [token]);
+
+    const needsPassword = error?.code === 'password_required' || error?.code === 'wrong_password';
+
+    return (
+        <div className="min-h-screen relative z-10 py-16 px-6">
+            <div className="max-w-3xl mx-auto">
+                <div className="flex items-center gap-2 mb-10">
+                    <div className="w-7 h-7 bg-white rounded-lg flex items-center justify-center">
+                        <i className="fa-solid fa-bolt text-black text-xs"></i>
+                    </div>
+                    <span className="font-heading font-bold text-lg tracking-tight">ViralAudit</span>
+                    <span className="ml-2 text-[10px] font-mono text-gray-500 uppercase tracking-widest">Shared report</span>
+                </div>
+
+                {shared ? (
+                    <>
+                        <div className="mb-8">
+                            <h1 className="text-2xl md:text-3xl font-bold font-heading break-words">{shared.creativeName}</h1>
+                            <div className="text-xs text-gray-500 font-mono mt-2">
+                                Audited {new Date(shared.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                                {` · ${formatDuration(shared.durationSec)}`}
+                                {shared.expiresAt && ` · link expires ${new Date(shared.expiresAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}`}
+                            </div>
+                        </div>
+                        <div className="bg-[#111] rounded-xl border border-white/10 p-6">
+                            <AuditReportView report={shared.report} scoring={shared.scoring} durationSec={shared.durationSec} />
+                        </div>
+                    </>
+                ) : needsPassword ? (
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            open(password);
+                        }}
+                        className="max-w-sm mx-auto mt-16 bg-[#111] rounded-xl border border-white/10 p-6"
+                    >
+                        <div className="text-white font-medium mb-1"><i className="fa-solid fa-lock text-gray-500 mr-2"></i>Password required</div>
+                        <p className="text-xs text-gray-500 mb-4">The sender protected this report. Enter the password they gave you.</p>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            autoFocus
+                            className="w-full bg-[#0a0a0a] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30 mb-3"
+                            aria-label="Password"
+                        />
+                        {error?.code === 'wrong_password' && <div className="text-xs text-[#ff2e63] mb-3">{error.message}</div>}
+                        <button
+                            type="submit"
+                            disabled={loading || !password}
+                            className="w-full bg-white text-black py-2.5 rounded-lg font-bold text-sm hover:bg-gray-200 transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Checking…' : 'View Report'}
+                        </button>
+                    </form>
+                ) : loading ? (
+                    <div className="py-24 text-center text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                ) : (
+                    <div className="mt-16 rounded-xl border border-white/10 bg-[#111] p-10 text-center">
+                        <div className="text-white font-medium mb-2">Report unavailable</div>
+                        <p className="text-sm text-gray-500">{error?.message}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SharedReportPage;
@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { WorkspaceInvite, WorkspaceMember, WorkspaceRole, WorkspaceSummary } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { useEntitlements } from "../hooks/useEntitlements";
+import UpgradePrompt from "../components/UpgradePrompt";
+import UsageMeter from "../components/UsageMeter";
+import { personalAccessScope } from "../services/entitlements";
+import { getWorkspaceClient, isWorkspaceError } from "../services/workspaceClient";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, ROLE_ORDER, manageableRoles, roleAllows } from "../services/workspaces";
+
+const inputClass = 'bg-[#111] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const Panel = ({ title, children }: { title: string; children: React.ReactNode }) => (
+    <div className="rounded-2xl bg-[#0a0a0a]/80 border border-white/10 p-5">
+        <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-4">{title}</div>
+        {children}
+    </div>
+);
+
+// Calls the workspace API with the current token, turning its errors into a message
+const useWorkspaceCall = () => {
+    const { getAccessToken } = useAuth();
+    const [error, setError] = useState<string | null>(null);
+
+    const run = useCallback(async <T,>(work: (accessToken: string) => Promise<T>): Promise<T | undefined> => {
+        const accessToken = getAccessToken();
+        if (!accessToken) return;
+        setError(null);
+        try {
+            return await work(accessToken);
+        } catch (err) {
+            setError(isWorkspaceError(err) ? err.message : 'Something went wrong. Try again.');
+        }
+    }, [getAccessToken]);
+
+    return { run, error };
+};
+
+// --- Workspaces ---
+
+const WorkspaceList = () => {
+    const { user } = useAuth();
+    const { workspaces, active, switchWorkspace, refresh } = useWorkspace();
+    // Workspaces are created on the creator's own plan, whichever library is selected
+    const personal = useMemo(() => (user ? personalAccessScope(user) : null), [user]);
+    const { check } = useEntitlements(personal);
+    const { run, error } = useWorkspaceCall();
+    const [name, setName] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const access = check({ type: 'feature', feature: 'team_workspaces' });
+
+    const create = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        const created = await run((token) => getWorkspaceClient().createWorkspace(token, name));
+        if (created) {
+            setName('');
+            await refresh();
+            switchWorkspace(created.id);
+        }
+        setBusy(false);
+    };
+
+    const rowClass = (selected: boolean) =>
+        `w-full text-left px-4 py-3 rounded-lg border transition-colors ${selected ? 'border-white/30 bg-white/5' : 'border-white/10 hover:bg-white/5'}`;
+
+    return (
+        <div className="space-y-2">
+            <button onClick={() => switchWorkspace(null)} className={rowClass(!active)}>
+                <div className="text-sm text-white">Personal</div>
+                <div className="text-[11px] text-gray-500 font-mono mt-0.5">Only you</div>
+            </button>
+            {workspaces.map((workspace) => (
+                <button key={workspace.id} onClick={() => switchWorkspace(workspace.id)} className={rowClass(workspace.id === active?.id)}>
+                    <div className="text-sm text-white truncate">{workspace.name}</div>
+                    <div className="text-[11px] text-gray-500 font-mono mt-0.5">
+                        {ROLE_LABELS[workspace.role]} · {workspace.memberCount} {workspace.memberCount === 1 ? 'member' : 'members'}
+                    </div>
+                </button>
+            ))}
+
+            <div className="pt-4">
+                {access.allowed ? (
+                    <form onSubmit={create} className="flex gap-2">
+                        <input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="New workspace name"
+                            className={`${inputClass} flex-1 min-w-0`}
+                            aria-label="New workspace name"
+                        />
+                        <button
+                            type="submit"
+                            disabled={busy || !name.trim()}
+                            className="bg-white text-black px-3 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all disabled:opacity-50"
+                        >
+                            Create
+                        </button>
+                    </form>
+                ) : (
+                    <UpgradePrompt decision={access} compact />
+                )}
+                {error && <div className="text-xs text-[#ff2e63] mt-2">{error}</div>}
+            </div>
+        </div>
+    );
+};
+
+// --- Members ---
+
+const MemberRow = ({
+    member,
+    workspace,
+    isSelf,
+    onRoleChange,
+    onRemove,
+}: {
+    member: WorkspaceMember;
+    workspace: WorkspaceSummary;
+    isSelf: boolean;
+    onRoleChange: (role: WorkspaceRole) => void;
+    onRemove: () => void;
+}) => {
+    const assignable = manageableRoles(workspace.role);
+    const canManage = !isSelf && roleAllows(workspace.role, 'members.manage') && assignable.includes(member.role);
+
+    return (
+        <div className="py-3 flex flex-wrap items-center gap-x-4 gap-y-2">
+            <div className="flex-1 min-w-[200px]">
+                <div className="text-sm text-white truncate">
+                    {member.name ?? member.email}
+                    {isSelf && <span className="text-gray-500"> (you)</span>}
+                </div>
+                <div className="text-[11px] text-gray-500 font-mono mt-0.5">
+                    {member.name ? `${member.email} · ` : ''}joined {formatDate(member.joinedAt)}
+                </div>
+            </div>
+            {canManage ? (
+                <select
+                    value={member.role}
+                    onChange={(e) => onRoleChange(e.target.value as WorkspaceRole)}
+                    className={inputClass}
+                    aria-label={`Role for ${member.email}`}
+                >
+                    {assignable.map((role) => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                </select>
+            ) : (
+                <span className="text-xs text-gray-400 font-mono">{ROLE_LABELS[member.role]}</span>
+            )}
+            {canManage && (
+                <button onClick={onRemove} className="text-xs text-gray-500 hover:text-[#ff2e63] transition-colors">
+                    Remove
+                </button>
+            )}
+            {isSelf && member.role !== 'owner' && (
+                <button onClick={onRemove} className="text-xs text-gray-500 hover:text-[#ff2e63] transition-colors">
+                    Leave
+                </button>
+            )}
+        </div>
+    );
+};
+
+const InviteForm = ({ workspace, onInvited }: { workspace: WorkspaceSummary; onInvited: (invite: WorkspaceInvite) => void }) => {
+    const { run, error } = useWorkspaceCall();
+    const roles = manageableRoles(workspace.role);
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<WorkspaceRole>('editor');
+    const [busy, setBusy] = useState(false);
+    const [sentTo, setSentTo] = useState<string | null>(null);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setSentTo(null);
+        const invite = await run((token) => getWorkspaceClient().inviteMember(token, workspace.id, email, role));
+        if (invite) {
+            onInvited(invite);
+            setSentTo(invite.email);
+            setEmail('');
+        }
+        setBusy(false);
+    };
+
+    return (
+        <form onSubmit={submit}>
+            <div className="flex flex-wrap gap-3">
+                <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="teammate@agency.com"
+                    className={`${inputClass} flex-1 min-w-[200px]`}
+                    aria-label="Email to invite"
+                />
+                <select value={role} onChange={(e) => setRole(e.target.value as WorkspaceRole)} className={inputClass} aria-label="Role">
+                    {roles.map((option) => <option key={option} value={option}>{ROLE_LABELS[option]}</option>)}
+                </select>
+                <button
+                    type="submit"
+                    disabled={busy || !email.trim()}
+                    className="bg-white text-black px-4 py-2 rounded-lg font-bold text-xs hover:bg-gray-200 transition-all disabled:opacity-50"
+                >
+                    {busy ? 'Sending…' : 'Send Invite'}
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{ROLE_DESCRIPTIONS[role]}</p>
+            {sentTo && <div className="text-xs text-[#08d9d6] mt-2">Invite sent to {sentTo}. It expires in 7 days.</div>}
+            {error && <div className="text-xs text-[#ff2e63] mt-2">{error}</div>}
+        </form>
+    );
+};
+
+const WorkspaceDetail = ({ workspace }: { workspace: WorkspaceSummary }) => {
+    const { user } = useAuth();
+    const { refresh, switchWorkspace } = useWorkspace();
+    const { run, error } = useWorkspaceCall();
+    const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+    const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+    const [name, setName] = useState(workspace.name);
+
+    useEffect(() => {
+        let cancelled = false;
+        run((token) => getWorkspaceClient().listMembers(token, workspace.id)).then((roster) => {
+            if (cancelled || !roster) return;
+            setMembers(roster.members);
+            setInvites(roster.invites);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [workspace.id, run]);
+
+    const canRename = roleAllows(workspace.role, 'workspace.manage');
+    const canInvite = roleAllows(workspace.role, 'members.invite');
+    // Owner first, then by role and join date
+    const sorted = useMemo(
+        () => [...(members ?? [])].sort((a, b) => ROLE_ORDER.indexOf(b.role) - ROLE_ORDER.indexOf(a.role) || a.joinedAt.localeCompare(b.joinedAt)),
+        [members]
+    );
+
+    const rename = async () => {
+        if (name.trim() === workspace.name) return;
+        if (await run((token) => getWorkspaceClient().renameWorkspace(token, workspace.id, name))) refresh();
+        else setName(workspace.name);
+    };
+
+    const changeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+        const updated = await run((token) => getWorkspaceClient().updateMemberRole(token, workspace.id, member.userId, role));
+        if (updated) setMembers((current) => current?.map((candidate) => (candidate.userId === updated.userId ? updated : candidate)) ?? null);
+    };
+
+    const remove = async (member: WorkspaceMember) => {
+        const isSelf = member.userId === user?.id;
+        const prompt = isSelf ? `Leave ${workspace.name}? You'll lose access to its audits.` : `Remove ${member.email} from ${workspace.name}?`;
+        if (!window.confirm(prompt)) return;
+        // removeMember resolves with nothing, so success is mapped to true to tell it from a failure
+        const removed = await run(async (token) => {
+            await getWorkspaceClient().removeMember(token, workspace.id, member.userId);
+            return true;
+        });
+        if (!removed) return;
+        if (isSelf) switchWorkspace(null);
+        else setMembers((current) => current?.filter((candidate) => candidate.userId !== member.userId) ?? null);
+        refresh();
+    };
+
+    const revoke = async (invite: WorkspaceInvite) => {
+        const revoked = await run(async (token) => {
+            await getWorkspaceClient().revokeInvite(token, workspace.id, invite.token);
+            return true;
+        });
+        if (revoked) setInvites((current) => current.filter((candidate) => candidate.token !== invite.token));
+    };
+
+    return (
+        <div className="space-y-6">
+            <Panel title="Workspace">
+                {canRename ? (
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onBlur={rename}
+                        className={`${inputClass} w-full max-w-sm`}
+                        aria-label="Workspace name"
+                    />
+                ) : (
+                    <div className="text-white font-medium">{workspace.name}</div>
+                )}
+                <p className="text-xs text-gray-500 mt-3">
+                    Your role: <span className="text-white">{ROLE_LABELS[workspace.role]}</span>. {ROLE_DESCRIPTIONS[workspace.role]} Audits run
+                    here come out of the owner's plan, shared with their own audits and any other workspaces they own.
+                </p>
+                <div className="mt-4">
+                    <UsageMeter />
+                </div>
+            </Panel>
+
+            <Panel title="Members">
+                {members === null ? (
+                    <div className="py-6 text-center text-gray-600"><i className="fa-solid fa-spinner fa-spin"></i></div>
+                ) : (
+                    <div className="divide-y divide-white/5 -my-3">
+                        {sorted.map((member) => (
+                            <MemberRow
+                                key={member.userId}
+                                member={member}
+                                workspace={workspace}
+                                isSelf={member.userId === user?.id}
+                                onRoleChange={(role) => changeRole(member, role)}
+                                onRemove={() => remove(member)}
+                            />
+                        ))}
+                    </div>
+                )}
+                {error && <div className="text-xs text-[#ff2e63] mt-4">{error}</div>}
+            </Panel>
+
+            {canInvite && (
+                <Panel title="Invite">
+                    <InviteForm
+                        workspace={workspace}
+                        onInvited={(invite) => setInvites((current) => [invite, ...current.filter((candidate) => candidate.email !== invite.email)])}
+                    />
+                    {invites.length > 0 && (
+                        <div className="mt-5 border-t border-white/5 divide-y divide-white/5">
+                            {invites.map((invite) => (
+                                <div key={invite.token} className="py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                                    <span className="flex-1 min-w-[200px] text-gray-300 truncate">{invite.email}</span>
+                                    <span className="text-gray-500 font-mono">{ROLE_LABELS[invite.role]} · expires {formatDate(invite.expiresAt)}</span>
+                                    <button onClick={() => revoke(invite)} className="text-gray-500 hover:text-[#ff2e63] transition-colors">
+                                        Revoke
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </Panel>
+            )}
+        </div>
+    );
+};
+
+const TeamPage = () => {
+    const { active } = useWorkspace();
+
+    return (
+        <section className="pt-32 pb-24 relative z-10">
+            <div className="max-w-6xl mx-auto px-6">
+                <div className="mb-8">
+                    <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest mb-3">Team</div>
+                    <h1 className="text-3xl md:text-4xl font-bold font-heading">Workspaces</h1>
+                </div>
+
+                <div className="grid lg:grid-cols-[260px_1fr] gap-6 items-start">
+                    <WorkspaceList />
+                    {active ? (
+                        <WorkspaceDetail key={active.id} workspace={active} />
+                    ) : (
+                        <Panel title="Personal library">
+                            <p className="text-sm text-gray-400">
+                                Audits and benchmark sets here are yours alone. Create a workspace to share a library with your team, or
+                                pick one on the left to work in it. Whichever you pick is where new audits are saved.
+                            </p>
+                            <div className="mt-5 grid sm:grid-cols-2 gap-3">
+                                {ROLE_ORDER.slice().reverse().map((role) => (
+                                    <div key={role} className="text-xs">
+                                        <div className="text-white font-medium">{ROLE_LABELS[role]}</div>
+                                        <div className="text-gray-500 mt-0.5">{ROLE_DESCRIPTIONS[role]}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        </Panel>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default TeamPage;
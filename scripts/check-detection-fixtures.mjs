@@ -0,0 +1,39 @@
+import { JSDOM } from "jsdom";
+import { createServer } from "vite";
+
+// Runs the extension's ad detection against the saved Ads Manager pages in fixtures/adsmanager and
+// exits non-zero when any page no longer matches expected.json. The same check renders at
+// /extension/fixtures.html under `npm run dev`.
+
+const { window } = new JSDOM('', { url: 'http://localhost/extension/fixtures.html' });
+globalThis.DOMParser = window.DOMParser;
+
+// Vite loads the module so import.meta.glob and the ?raw page imports resolve as they do in the app
+const server = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true },
+});
+
+try {
+    const { runDetectionFixtures } = await server.ssrLoadModule('/extension/detectionFixtures.ts');
+    const results = runDetectionFixtures();
+    results.forEach((result) => {
+        console.log(`${result.problems.length ? 'FAIL' : 'ok  '} ${result.name}`);
+        result.problems.forEach((problem) => console.log(`     ${problem}`));
+    });
+    const failed = results.filter((result) => result.problems.length).length;
+    if (!results.length) {
+        console.error('No fixture pages found in fixtures/adsmanager.');
+        process.exitCode = 1;
+    } else if (failed) {
+        console.error(`${failed} of ${results.length} fixture pages failed.`);
+        process.exitCode = 1;
+    } else {
+        console.log(`All ${results.length} fixture pages passed.`);
+    }
+} finally {
+    await server.close();
+}
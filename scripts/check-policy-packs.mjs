@@ -0,0 +1,45 @@
+import { createServer } from "vite";
+
+// Validates the built-in policy packs in policy/packs and runs every rule's match / noMatch
+// examples, exiting non-zero when a pack is invalid or a rule no longer behaves as its examples say.
+// Imported packs get the same check when a team adds them.
+
+// Vite loads the modules so the pack JSON imports resolve as they do in the app
+const server = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true },
+});
+
+try {
+    const { BUILT_IN_POLICY_PACKS, packKey } = await server.ssrLoadModule('/services/policyPacks.ts');
+    const { describeFixtureFailure, resolveRulePack, validateRulePack, verifyRulePack } = await server.ssrLoadModule('/services/policyEngine.ts');
+
+    let failed = 0;
+    for (const pack of BUILT_IN_POLICY_PACKS) {
+        let problems;
+        try {
+            validateRulePack(pack);
+            problems = verifyRulePack(resolveRulePack(pack, BUILT_IN_POLICY_PACKS)).map(describeFixtureFailure);
+        } catch (err) {
+            problems = err.problems ?? [err.message];
+        }
+        console.log(`${problems.length ? 'FAIL' : 'ok  '} ${packKey(pack)} (${pack.rules.length} rules)`);
+        problems.forEach((problem) => console.log(`     ${problem}`));
+        if (problems.length) failed++;
+    }
+
+    if (!BUILT_IN_POLICY_PACKS.length) {
+        console.error('No built-in policy packs found.');
+        process.exitCode = 1;
+    } else if (failed) {
+        console.error(`${failed} of ${BUILT_IN_POLICY_PACKS.length} policy packs failed.`);
+        process.exitCode = 1;
+    } else {
+        console.log(`All ${BUILT_IN_POLICY_PACKS.length} policy packs passed.`);
+    }
+} finally {
+    await server.close();
+}
@@ -0,0 +1,16 @@
+import { AuditCancelledError } from "./auditErrors";
+
+// Resolves after `ms`, or rejects with AuditCancelledError as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(new AuditCancelledError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AuditCancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
@@ -0,0 +1,295 @@
+import { AudioEvidence, AudioFingerprintData, AudioMatch, AudioMatchRange, AudioTrack, AudioTrackLicense } from "../types";
+import { AuditCancelledError } from "./auditErrors";
+import { formatTimestamp } from "./findings";
+
+// Landmark fingerprinting: the loudest frequency in each band of each short frame is a peak, and
+// pairs of nearby peaks hash to (frequency, frequency, time gap). Those hashes survive voiceover,
+// compression and volume changes, and a real match shows up as many hashes agreeing on one time offset.
+
+// --- Parameters ---
+
+export const FINGERPRINT_SAMPLE_RATE = 11025;
+const WINDOW_SIZE = 1024;
+const HOP_SIZE = 512;
+export const FINGERPRINT_HOP_SEC = HOP_SIZE / FINGERPRINT_SAMPLE_RATE;
+
+// FFT bin boundaries, roughly one octave each from ~100 Hz to the 5.5 kHz Nyquist limit
+const BANDS = [10, 20, 40, 80, 160, 320, 512];
+// Quieter than this (FFT magnitude of a Hann-windowed frame, full scale ~256) is silence
+const MIN_PEAK_MAGNITUDE = 0.5;
+// Each peak is paired with this many of the peaks that follow it...
+const FAN_OUT = 5;
+// ...within this many frames (~2.9s), which must fit in the hash's 6-bit time field
+const MAX_PAIR_FRAMES = 63;
+
+// Unrelated audio rarely lines up more than a few hashes at any one offset; a match needs this many
+const MIN_ALIGNED_HASHES = 15;
+const MIN_RANGE_HASHES = 6;
+// Aligned hashes further apart than this (~2s) start a new range
+const MAX_RANGE_GAP_FRAMES = 43;
+const MIN_CONFIDENCE = 0.05;
+
+// --- Decoding ---
+
+// Decodes the audio track of an audio or video file, resampled to FINGERPRINT_SAMPLE_RATE and mixed
+// to mono. Resolves null when the file has no audio the browser can decode.
+export const decodeAudio = async (blob: Blob, signal?: AbortSignal): Promise<Float32Array | null> => {
+    const data = await blob.arrayBuffer();
+    if (signal?.aborted) throw new AuditCancelledError();
+    const context = new OfflineAudioContext(1, 1, FINGERPRINT_SAMPLE_RATE);
+    let buffer: AudioBuffer;
+    try {
+        buffer = await context.decodeAudioData(data);
+    } catch {
+        return null;
+    }
+    if (signal?.aborted) throw new AuditCancelledError();
+
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < samples.length; i++) samples[i] += channelData[i] / buffer.numberOfChannels;
+    }
+    return samples;
+};
+
+// --- Spectrum ---
+
+const HANN = Float32Array.from({ length: WINDOW_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (WINDOW_SIZE - 1)));
+
+const BIT_REVERSED = (() => {
+    const bits = Math.log2(WINDOW_SIZE);
+    return Uint16Array.from({ length: WINDOW_SIZE }, (_, i) => {
+        let reversed = 0;
+        for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+        return reversed;
+    });
+})();
+
+// In-place iterative radix-2 FFT over WINDOW_SIZE points
+const fft = (re: Float32Array, im: Float32Array) => {
+    for (let i = 0; i < WINDOW_SIZE; i++) {
+        const j = BIT_REVERSED[i];
+        if (j > i) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= WINDOW_SIZE; size *= 2) {
+        const half = size / 2;
+        const step = (-2 * Math.PI) / size;
+        for (let start = 0; start < WINDOW_SIZE; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = Math.cos(step * k);
+                const sin = Math.sin(step * k);
+                const a = start + k;
+                const b = a + half;
+                const tRe = re[b] * cos - im[b] * sin;
+                const tIm = re[b] * sin + im[b] * cos;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+            }
+        }
+    }
+};
+
+interface Peak {
+    frame: number;
+    bin: number;
+}
+
+// The strongest bin of each band, kept when it is at least as loud as the frame's average band peak.
+// A held note would repeat the same peak frame after frame, so only the frame where it starts counts.
+const findPeaks = (samples: Float32Array): Peak[] => {
+    const peaks: Peak[] = [];
+    const re = new Float32Array(WINDOW_SIZE);
+    const im = new Float32Array(WINDOW_SIZE);
+    const bandBins = new Array<number>(BANDS.length - 1);
+    const bandMagnitudes = new Array<number>(BANDS.length - 1);
+    const previousBins = new Array<number>(BANDS.length - 1).fill(-1);
+
+    for (let frame = 0; frame * HOP_SIZE + WINDOW_SIZE <= samples.length; frame++) {
+        const offset = frame * HOP_SIZE;
+        for (let i = 0; i < WINDOW_SIZE; i++) {
+            re[i] = samples[offset + i] * HANN[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+
+        let total = 0;
+        for (let band = 0; band < BANDS.length - 1; band++) {
+            let best = BANDS[band];
+            let bestMagnitude = 0;
+            for (let bin = BANDS[band]; bin < BANDS[band + 1]; bin++) {
+                const magnitude = Math.hypot(re[bin], im[bin]);
+                if (magnitude > bestMagnitude) {
+                    bestMagnitude = magnitude;
+                    best = bin;
+                }
+            }
+            bandBins[band] = best;
+            bandMagnitudes[band] = bestMagnitude;
+            total += bestMagnitude;
+        }
+
+        const threshold = Math.max(MIN_PEAK_MAGNITUDE, total / bandBins.length);
+        bandBins.forEach((bin, band) => {
+            const isPeak = bandMagnitudes[band] >= threshold;
+            if (isPeak && Math.abs(bin - previousBins[band]) > 1) peaks.push({ frame, bin });
+            previousBins[band] = isPeak ? bin : -1;
+        });
+    }
+    return peaks;
+};
+
+// --- Fingerprints ---
+
+const pairHash = (anchorBin: number, targetBin: number, frameGap: number) => ((anchorBin << 15) | (targetBin << 6) | frameGap) >>> 0;
+
+export const fingerprintSamples = (samples: Float32Array): AudioFingerprintData => {
+    const peaks = findPeaks(samples);
+    const hashes: number[] = [];
+    const frames: number[] = [];
+    peaks.forEach((anchor, i) => {
+        let paired = 0;
+        for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+            const gap = peaks[j].frame - anchor.frame;
+            if (gap === 0) continue;
+            if (gap > MAX_PAIR_FRAMES) break;
+            hashes.push(pairHash(anchor.bin, peaks[j].bin, gap));
+            frames.push(anchor.frame);
+            paired++;
+        }
+    });
+    return { hashes: Uint32Array.from(hashes), frames: Uint32Array.from(frames) };
+};
+
+// --- Matching ---
+
+const frameToSec = (frame: number) => Math.round(frame * FINGERPRINT_HOP_SEC * 10) / 10;
+
+// Groups the creative's aligned frames into ranges, dropping stray runs too short to be music
+const groupRanges = (alignedFrames: number[]) => {
+    const ranges: { start: number; end: number; count: number }[] = [];
+    alignedFrames.forEach((frame) => {
+        const last = ranges[ranges.length - 1];
+        if (last && frame - last.end <= MAX_RANGE_GAP_FRAMES) {
+            last.end = frame;
+            last.count++;
+        } else {
+            ranges.push({ start: frame, end: frame, count: 1 });
+        }
+    });
+    return ranges.filter((range) => range.count >= MIN_RANGE_HASHES);
+};
+
+const matchTrack = (query: AudioFingerprintData, queryIndex: Map<number, number[]>, track: AudioTrack): AudioMatch | null => {
+    const { hashes, frames } = track.fingerprint;
+    const offsets = new Map<number, number>();
+    for (let i = 0; i < hashes.length; i++) {
+        const queryFrames = queryIndex.get(hashes[i]);
+        if (!queryFrames) continue;
+        for (const queryFrame of queryFrames) {
+            const offset = frames[i] - queryFrame;
+            offsets.set(offset, (offsets.get(offset) ?? 0) + 1);
+        }
+    }
+
+    // Neighbouring offsets count together: a creative cut mid-frame lands peaks one frame either side
+    let bestOffset = 0;
+    let bestCount = 0;
+    offsets.forEach((_, offset) => {
+        const count = (offsets.get(offset - 1) ?? 0) + (offsets.get(offset) ?? 0) + (offsets.get(offset + 1) ?? 0);
+        if (count > bestCount) {
+            bestCount = count;
+            bestOffset = offset;
+        }
+    });
+    if (bestCount < MIN_ALIGNED_HASHES) return null;
+
+    const aligned = new Set<number>();
+    for (let i = 0; i < hashes.length; i++) {
+        const queryFrames = queryIndex.get(hashes[i]);
+        queryFrames?.forEach((queryFrame) => {
+            if (Math.abs(frames[i] - queryFrame - bestOffset) <= 1) aligned.add(queryFrame);
+        });
+    }
+    const ranges = groupRanges([...aligned].sort((a, b) => a - b));
+    if (!ranges.length) return null;
+
+    const inRanges = (frame: number) => ranges.some((range) => frame >= range.start && frame <= range.end);
+    const alignedInRanges = [...aligned].filter(inRanges).length;
+    const queryFramesInRanges = new Set([...query.frames].filter(inRanges)).size;
+    const confidence = Math.min(1, alignedInRanges / Math.max(queryFramesInRanges, 1));
+    if (confidence < MIN_CONFIDENCE) return null;
+
+    const matchRanges: AudioMatchRange[] = ranges.map((range) => ({
+        startSec: frameToSec(range.start),
+        endSec: frameToSec(range.end + WINDOW_SIZE / HOP_SIZE),
+        trackStartSec: frameToSec(Math.max(0, range.start + bestOffset)),
+    }));
+    return {
+        trackId: track.id,
+        title: track.title,
+        artist: track.artist,
+        license: track.license,
+        confidence: Math.round(confidence * 100) / 100,
+        ranges: matchRanges,
+    };
+};
+
+// Best match first
+export const matchFingerprint = (query: AudioFingerprintData, tracks: AudioTrack[]): AudioMatch[] => {
+    const queryIndex = new Map<number, number[]>();
+    query.hashes.forEach((hash, i) => {
+        const frames = queryIndex.get(hash);
+        if (frames) frames.push(query.frames[i]);
+        else queryIndex.set(hash, [query.frames[i]]);
+    });
+
+    return tracks
+        .map((track) => matchTrack(query, queryIndex, track))
+        .filter((match): match is AudioMatch => match !== null)
+        .sort((a, b) => b.confidence - a.confidence);
+};
+
+export const confidenceLabel = (confidence: number) => (confidence >= 0.3 ? 'High' : confidence >= 0.12 ? 'Medium' : 'Low');
+
+export const AUDIO_LICENSE_LABELS: Record<AudioTrackLicense, string> = {
+    licensed: 'Licensed',
+    trending: 'Trending sound',
+    other: 'Unlicensed',
+};
+
+export const formatMatchRanges = (match: AudioMatch) =>
+    match.ranges.map((range) => `${formatTimestamp(range.startSec)}-${formatTimestamp(range.endSec)} (track at ${formatTimestamp(range.trackStartSec)})`).join(', ');
+
+export const describeAudioMatch = (match: AudioMatch) =>
+    `"${match.title}"${match.artist ? ` by ${match.artist}` : ''} [${AUDIO_LICENSE_LABELS[match.license]}], ` +
+    `${Math.round(match.confidence * 100)}% confidence: ${formatMatchRanges(match)}`;
+
+// Plain-text evidence for the audit prompt
+export const formatAudioEvidence = (evidence: AudioEvidence) => {
+    if (!evidence.hasAudio) return 'Audio fingerprint check: the creative has no audio track.';
+    if (!evidence.libraryTracks) return 'Audio fingerprint check: not run, the audio library is empty.';
+    if (!evidence.matches.length) return `Audio fingerprint check: no match against ${evidence.libraryTracks} library tracks.`;
+    return [
+        `Audio fingerprint check against ${evidence.libraryTracks} library tracks found:`,
+        ...evidence.matches.map((match) => `- ${describeAudioMatch(match)}`),
+    ].join('\n');
+};
+
+// Decodes a creative's audio and compares it with the library. A creative without decodable audio
+// gets empty evidence rather than an error, so the audit itself still runs.
+export const analyseCreativeAudio = async (file: Blob, tracks: AudioTrack[], signal?: AbortSignal): Promise<AudioEvidence> => {
+    const samples = await decodeAudio(file, signal);
+    if (!samples) return { hasAudio: false, libraryTracks: tracks.length, matches: [] };
+    const query = fingerprintSamples(samples);
+    return {
+        hasAudio: query.hashes.length > 0,
+        libraryTracks: tracks.length,
+        matches: tracks.length ? matchFingerprint(query, tracks) : [],
+    };
+};
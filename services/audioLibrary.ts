@@ -0,0 +1,74 @@
+import { AudioTrack, AudioTrackLicense, User } from "../types";
+import { randomToken } from "./localAuthServer";
+import { requestToPromise, withStore } from "./idb";
+import { FINGERPRINT_SAMPLE_RATE, decodeAudio, fingerprintSamples } from "./audioFingerprint";
+
+// Known tracks to check creatives against, per account, in IndexedDB. Adding a track stores its
+// fingerprint only; the audio file never leaves the browser and isn't kept.
+
+const STORE = 'audioTracks';
+
+export const MAX_TRACK_BYTES = 50 * 1024 * 1024;
+export const MAX_TRACK_DURATION_SEC = 15 * 60;
+
+export interface AudioTrackDetails {
+    title: string;
+    artist?: string;
+    license: AudioTrackLicense;
+}
+
+// "Artist - Title.mp3" is the usual shape of a music folder; anything else is all title
+export const detailsFromFileName = (fileName: string): Pick<AudioTrackDetails, 'title' | 'artist'> => {
+    const base = fileName.replace(/\.[^.]+$/, '').replace(/_/g, ' ').trim();
+    const [artist, ...rest] = base.split(' - ');
+    return rest.length ? { title: rest.join(' - ').trim(), artist: artist.trim() } : { title: base };
+};
+
+export const addAudioTrack = async (user: User, file: File, license: AudioTrackLicense, now = new Date()): Promise<AudioTrack> => {
+    if (file.size > MAX_TRACK_BYTES) throw new Error(`${file.name} is over ${MAX_TRACK_BYTES / (1024 * 1024)} MB.`);
+    const samples = await decodeAudio(file);
+    if (!samples) throw new Error(`${file.name} has no audio this browser can decode.`);
+    const durationSec = samples.length / FINGERPRINT_SAMPLE_RATE;
+    if (durationSec > MAX_TRACK_DURATION_SEC) throw new Error(`${file.name} is longer than ${MAX_TRACK_DURATION_SEC / 60} minutes.`);
+    const fingerprint = fingerprintSamples(samples);
+    if (!fingerprint.hashes.length) throw new Error(`${file.name} is silent.`);
+
+    const track: AudioTrack = {
+        id: `trk_${randomToken(9)}`,
+        userId: user.id,
+        ...detailsFromFileName(file.name),
+        license,
+        fileName: file.name,
+        durationSec: Math.round(durationSec * 10) / 10,
+        fingerprint,
+        createdAt: now.toISOString(),
+    };
+    await withStore(STORE, 'readwrite', (store) => requestToPromise(store.put(track)));
+    return track;
+};
+
+export const updateAudioTrack = async (user: User, id: string, details: Partial<AudioTrackDetails>): Promise<AudioTrack> =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const track = await requestToPromise<AudioTrack | undefined>(store.get(id));
+        if (!track || track.userId !== user.id) throw new Error('Track not found.');
+        const updated: AudioTrack = {
+            ...track,
+            ...(details.title?.trim() && { title: details.title.trim() }),
+            ...(details.artist !== undefined && { artist: details.artist.trim() || undefined }),
+            ...(details.license && { license: details.license }),
+        };
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+
+// By title
+export const listAudioTracks = async (user: User): Promise<AudioTrack[]> => {
+    const tracks = await withStore(STORE, 'readonly', (store) => requestToPromise<AudioTrack[]>(store.index('userId').getAll(user.id)));
+    return tracks.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const deleteAudioTrack = async (user: User, id: string) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const track = await requestToPromise<AudioTrack | undefined>(store.get(id));
+        if (track && track.userId === user.id) await requestToPromise(store.delete(id));
+    });
@@ -0,0 +1,99 @@
+import { ReportValidationError } from "../types";
+import { formatReportErrors } from "./reportParser";
+
+export type AuditErrorCode =
+    | 'quota'
+    | 'auth'
+    | 'safety'
+    | 'timeout'
+    | 'cancelled'
+    | 'network'
+    | 'provider'
+    | 'invalid_report';
+
+export class AuditError extends Error {
+    code: AuditErrorCode;
+    retryable: boolean;
+
+    constructor(code: AuditErrorCode, message: string, retryable = false) {
+        super(message);
+        this.name = 'AuditError';
+        this.code = code;
+        this.retryable = retryable;
+    }
+}
+
+// Rate limits and exhausted quota both surface as HTTP 429; short waits usually clear the former.
+export class AuditQuotaError extends AuditError {
+    retryAfterMs?: number;
+
+    constructor(message = 'The audit provider quota has been exceeded.', retryAfterMs?: number) {
+        super('quota', message, true);
+        this.name = 'AuditQuotaError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class AuditAuthError extends AuditError {
+    constructor(message = 'The audit provider rejected the API key.') {
+        super('auth', message);
+        this.name = 'AuditAuthError';
+    }
+}
+
+export class AuditSafetyError extends AuditError {
+    reason: string;
+
+    constructor(reason: string) {
+        super('safety', `The creative was blocked by the provider's safety filters (${reason}).`);
+        this.name = 'AuditSafetyError';
+        this.reason = reason;
+    }
+}
+
+export class AuditTimeoutError extends AuditError {
+    constructor(timeoutMs: number) {
+        super('timeout', `The audit did not finish within ${Math.round(timeoutMs / 1000)}s.`, true);
+        this.name = 'AuditTimeoutError';
+    }
+}
+
+export class AuditCancelledError extends AuditError {
+    constructor() {
+        super('cancelled', 'The audit was cancelled.');
+        this.name = 'AuditCancelledError';
+    }
+}
+
+export class AuditInvalidReportError extends AuditError {
+    errors: ReportValidationError[];
+
+    constructor(errors: ReportValidationError[]) {
+        super('invalid_report', `The provider returned a malformed report:\n${formatReportErrors(errors)}`, true);
+        this.name = 'AuditInvalidReportError';
+        this.errors = errors;
+    }
+}
+
+export const isAuditError = (error: unknown): error is AuditError => error instanceof AuditError;
+
+// Short message for toasts and inline states
+export const describeAuditError = (error: unknown): string => {
+    if (!isAuditError(error)) return 'Something went wrong while auditing this creative.';
+    switch (error.code) {
+        case 'quota':
+            return 'The AI provider is rate limiting us. Try again in a minute.';
+        case 'auth':
+            return 'The AI provider rejected our API key. Check GEMINI_API_KEY.';
+        case 'safety':
+            return 'This creative was blocked by the AI safety filters.';
+        case 'timeout':
+            return 'The audit timed out. Try a shorter clip or try again.';
+        case 'cancelled':
+            return 'Audit cancelled.';
+        case 'invalid_report':
+            return 'The AI returned an unreadable report. Try again.';
+        default:
+            return error.message;
+    }
+};
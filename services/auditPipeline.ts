@@ -0,0 +1,59 @@
+import { AudioTrack, AuditRequest, BrandRules, Transcript } from "../types";
+import { VideoMetadata, sampleVideo } from "./videoFile";
+import { analyseCreativeAudio } from "./audioFingerprint";
+import { analysePacing } from "./pacing";
+import { isAuditError } from "./auditErrors";
+
+// Everything measured in the browser before a creative goes to the audit provider. The workspace
+// and the batch queue both build their requests here so the two can't drift apart.
+
+export type PrepareStage = 'sampling' | 'audio';
+
+export interface PrepareAuditOptions {
+    // The account's audio library, matched against the creative's soundtrack
+    tracks?: AudioTrack[];
+    transcript?: Transcript;
+    burnedInCaptions?: boolean;
+    brandProfile?: BrandRules;
+    // Report language; see AuditRequest.language
+    language?: string;
+    signal?: AbortSignal;
+    // `done`/`total` count sampled frames; audio fingerprinting reports no count
+    onProgress?: (stage: PrepareStage, done?: number, total?: number) => void;
+}
+
+export const prepareAuditRequest = async (
+    file: File,
+    url: string,
+    meta: VideoMetadata,
+    { tracks = [], transcript, burnedInCaptions, brandProfile, language, signal, onProgress }: PrepareAuditOptions = {}
+): Promise<AuditRequest> => {
+    onProgress?.('sampling', 0, 0);
+    const { frames, signatures } = await sampleVideo(url, {
+        signatureIntervalSec: 0.5,
+        signal,
+        onProgress: (done, total) => onProgress?.('sampling', done, total),
+    });
+
+    // A decoding failure costs the audit its audio evidence, not the audit itself
+    onProgress?.('audio');
+    const audio = await analyseCreativeAudio(file, tracks, signal).catch((err) => {
+        if (isAuditError(err)) throw err;
+        return undefined;
+    });
+
+    return {
+        creativeName: file.name,
+        durationSec: meta.durationSec,
+        width: meta.width,
+        height: meta.height,
+        mimeType: file.type || undefined,
+        frames,
+        audio,
+        pacing: signatures.length > 1 ? analysePacing(signatures, meta.durationSec) : undefined,
+        transcript,
+        burnedInCaptions,
+        brandProfile,
+        language,
+    };
+};
@@ -0,0 +1,128 @@
+import { AuditRequest, AuditResult } from "../types";
+import {
+    AuditCancelledError,
+    AuditError,
+    AuditInvalidReportError,
+    AuditTimeoutError,
+} from "./auditErrors";
+import { normalizeReportText, parseAuditReport } from "./reportParser";
+import { sleep } from "./async";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockAuditProvider } from "./mockAuditProvider";
+
+// --- Provider Interface ---
+
+export interface AuditProvider {
+    id: string;
+    label: string;
+    // Returns the report as tagged text. Implementations must honour `signal` and throw AuditError subclasses.
+    generateReport: (request: AuditRequest, signal: AbortSignal) => Promise<string>;
+}
+
+export interface AuditServiceOptions {
+    provider: AuditProvider;
+    timeoutMs?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+}
+
+export interface RunAuditOptions {
+    signal?: AbortSignal;
+    onAttempt?: (attempt: number, previousError?: AuditError) => void;
+}
+
+export interface AuditService {
+    provider: AuditProvider;
+    runAudit: (request: AuditRequest, options?: RunAuditOptions) => Promise<AuditResult>;
+}
+
+// --- Helpers ---
+
+export const backoffDelay = (attempt: number, baseDelayMs: number) => {
+    const exponential = baseDelayMs * 2 ** attempt;
+    // Up to 25% jitter so parallel audits don't retry in lockstep
+    return exponential + Math.round(Math.random() * exponential * 0.25);
+};
+
+// Runs one provider call with its own timeout, linked to the caller's cancel signal.
+export const runWithTimeout = async <T>(
+    work: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    outerSignal?: AbortSignal
+): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onOuterAbort = () => controller.abort();
+    outerSignal?.addEventListener('abort', onOuterAbort, { once: true });
+
+    try {
+        return await work(controller.signal);
+    } catch (error) {
+        if (timedOut) throw new AuditTimeoutError(timeoutMs);
+        if (outerSignal?.aborted) throw new AuditCancelledError();
+        if (error instanceof AuditError) throw error;
+        throw new AuditError('network', error instanceof Error ? error.message : String(error), true);
+    } finally {
+        clearTimeout(timer);
+        outerSignal?.removeEventListener('abort', onOuterAbort);
+    }
+};
+
+// --- Service ---
+
+export const createAuditService = ({
+    provider,
+    timeoutMs = 90_000,
+    maxRetries = 2,
+    baseDelayMs = 1_000,
+}: AuditServiceOptions): AuditService => {
+    const runAudit = async (request: AuditRequest, { signal, onAttempt }: RunAuditOptions = {}): Promise<AuditResult> => {
+        let lastError: AuditError | undefined;
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (signal?.aborted) throw new AuditCancelledError();
+            onAttempt?.(attempt + 1, lastError);
+
+            try {
+                const rawText = await runWithTimeout((attemptSignal) => provider.generateReport(request, attemptSignal), timeoutMs, signal);
+                const parsed = parseAuditReport(normalizeReportText(rawText));
+                if (!parsed.report) throw new AuditInvalidReportError(parsed.errors);
+                return { report: parsed.report, rawText, providerId: provider.id, attempts: attempt + 1 };
+            } catch (error) {
+                lastError = error instanceof AuditError
+                    ? error
+                    : new AuditError('provider', error instanceof Error ? error.message : String(error));
+                if (!lastError.retryable || attempt === maxRetries) throw lastError;
+
+                const retryAfterMs = (lastError as { retryAfterMs?: number }).retryAfterMs;
+                await sleep(retryAfterMs ?? backoffDelay(attempt, baseDelayMs), signal);
+            }
+        }
+
+        throw lastError;
+    };
+
+    return { provider, runAudit };
+};
+
+// Gemini when a key is configured, otherwise the offline mock. AUDIT_PROVIDER=mock forces the mock.
+export const getDefaultAuditProvider = (): AuditProvider => {
+    const apiKey = process.env.API_KEY;
+    if (process.env.AUDIT_PROVIDER === 'mock' || !apiKey) {
+        return createMockAuditProvider();
+    }
+    return createGeminiProvider({ apiKey });
+};
+
+let defaultService: AuditService | null = null;
+
+export const getAuditService = (): AuditService => {
+    if (!defaultService) {
+        defaultService = createAuditService({ provider: getDefaultAuditProvider() });
+    }
+    return defaultService;
+};
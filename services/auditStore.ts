@@ -0,0 +1,253 @@
+import { AuditReport, AuditRequest, AuditResult, REPORT_SECTION_ORDER, ReportSectionKey, SavedAudit } from "../types";
+import { randomToken } from "./localAuthServer";
+import { serializeAuditReport } from "./reportParser";
+import { requestToPromise, withStore } from "./idb";
+import { LibraryScope, assertScopeAllows, inScope } from "./workspaces";
+import { DEFAULT_RUBRIC, RubricDefinition, isScoredWith, scoreReport } from "./rubric";
+import { getActiveRubric } from "./rubricStore";
+
+// Audit history, per account or team workspace, in IndexedDB. Records are written locally first and
+// carry a sync state so a backend can pick them up later without changing how the app saves them.
+
+const STORE = 'audits';
+// Where audits lived before history moved to IndexedDB; imported once, then removed
+const LEGACY_AUDITS_KEY = 'viralAudit.audits';
+const SUMMARY_MAX_LENGTH = 140;
+
+export interface SaveAuditOptions {
+    thumbnail?: string;
+    brand?: string;
+    tags?: string[];
+}
+
+export type AuditUpdate = Partial<Pick<SavedAudit, 'creativeName' | 'brand' | 'tags' | 'benchmarkSetId' | 'adText'>>;
+
+export interface AuditFilter {
+    // Every word must appear in the name, brand, tags or report text
+    text?: string;
+    // Scores out of 10, inclusive
+    minScore?: number;
+    maxScore?: number;
+    // Local calendar dates (YYYY-MM-DD), inclusive
+    from?: string;
+    to?: string;
+    tag?: string;
+    brand?: string;
+}
+
+// Pushes records to the backend and returns the ids it accepted
+export interface AuditSyncAdapter {
+    push: (audits: SavedAudit[]) => Promise<string[]>;
+}
+
+// --- Derived fields ---
+
+const firstSentence = (text: string) => {
+    const sentence = text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? text;
+    return sentence.length > SUMMARY_MAX_LENGTH ? `${sentence.slice(0, SUMMARY_MAX_LENGTH - 1).trimEnd()}…` : sentence;
+};
+
+export const summarizeReport = (report: AuditReport): Record<ReportSectionKey, string> => {
+    const summaries = {} as Record<ReportSectionKey, string>;
+    for (const key of REPORT_SECTION_ORDER) {
+        const block = report.sections[key]?.blocks[0];
+        const text = !block ? '' : block.type === 'paragraph' ? block.text : block.items[0] ?? '';
+        // Drop emphasis markers so summaries read as plain text
+        summaries[key] = firstSentence(text.replace(/\*/g, '').trim());
+    }
+    return summaries;
+};
+
+export const normalizeTags = (tags: string[]) =>
+    Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const scoreOutOf10 = (report: AuditReport) => (report.maxScore > 0 ? (report.score / report.maxScore) * 10 : 0);
+
+// Out of 10: the rubric score where there is one, otherwise the model's own
+export const auditScore = (audit: Pick<SavedAudit, 'report' | 'scoring'>) => audit.scoring?.score ?? scoreOutOf10(audit.report);
+
+// --- Migration ---
+
+let legacyImport: Promise<void> | null = null;
+
+const importLegacyAudits = () => {
+    if (!legacyImport) {
+        legacyImport = (async () => {
+            let legacy: Record<string, Omit<SavedAudit, 'summaries' | 'tags' | 'updatedAt' | 'syncState'>>;
+            try {
+                legacy = JSON.parse(localStorage.getItem(LEGACY_AUDITS_KEY) ?? '{}');
+            } catch {
+                legacy = {};
+            }
+            const records = Object.values(legacy);
+            if (records.length) {
+                await withStore(STORE, 'readwrite', (store) => {
+                    for (const record of records) {
+                        store.put({
+                            ...record,
+                            summaries: summarizeReport(record.report),
+                            tags: [],
+                            updatedAt: record.createdAt,
+                            syncState: 'pending',
+                        } satisfies SavedAudit);
+                    }
+                });
+            }
+            localStorage.removeItem(LEGACY_AUDITS_KEY);
+        })();
+        legacyImport.catch(() => {
+            legacyImport = null;
+        });
+    }
+    return legacyImport;
+};
+
+// --- Store ---
+
+export const saveAudit = async (
+    scope: LibraryScope,
+    request: AuditRequest,
+    result: AuditResult,
+    { thumbnail, brand, tags = [] }: SaveAuditOptions = {},
+    now = new Date()
+): Promise<SavedAudit> => {
+    assertScopeAllows(scope, 'audit.run');
+    // An unreadable rubric shouldn't lose the audit; it is scored with the default and can be re-scored
+    const rubric = await getActiveRubric(scope).catch(() => DEFAULT_RUBRIC);
+    const audit: SavedAudit = {
+        id: `aud_${randomToken(9)}`,
+        userId: scope.userId,
+        workspaceId: scope.workspaceId ?? undefined,
+        creativeName: request.creativeName,
+        durationSec: request.durationSec,
+        width: request.width,
+        height: request.height,
+        thumbnail,
+        report: result.report,
+        audio: request.audio,
+        pacing: request.pacing,
+        transcript: request.transcript,
+        burnedInCaptions: request.burnedInCaptions,
+        brandProfile: request.brandProfile,
+        language: request.language,
+        summaries: summarizeReport(result.report),
+        brand: brand?.trim() || request.brandProfile?.name || undefined,
+        tags: normalizeTags(tags),
+        scoring: scoreReport(result.report, rubric, now) ?? undefined,
+        providerId: result.providerId,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        syncState: 'pending',
+    };
+    await withStore(STORE, 'readwrite', (store) => requestToPromise(store.put(audit)));
+    return audit;
+};
+
+// An audit from another account or workspace reads as missing rather than forbidden, so ids can't be probed
+export const getAudit = async (scope: LibraryScope, id: string): Promise<SavedAudit | null> => {
+    await importLegacyAudits();
+    const audit = await withStore(STORE, 'readonly', (store) => requestToPromise<SavedAudit | undefined>(store.get(id)));
+    return audit && inScope(scope, audit) ? audit : null;
+};
+
+// Newest first
+export const listAudits = async (scope: LibraryScope): Promise<SavedAudit[]> => {
+    await importLegacyAudits();
+    const audits = await withStore(STORE, 'readonly', (store) =>
+        requestToPromise<SavedAudit[]>(
+            scope.workspaceId ? store.index('workspaceId').getAll(scope.workspaceId) : store.index('userId').getAll(scope.userId)
+        )
+    );
+    return audits.filter((audit) => inScope(scope, audit)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const updateAudit = async (scope: LibraryScope, id: string, update: AuditUpdate, now = new Date()): Promise<SavedAudit> =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const audit = await requestToPromise<SavedAudit | undefined>(store.get(id));
+        if (!audit || !inScope(scope, audit)) throw new Error('Audit not found.');
+        assertScopeAllows(scope, 'library.edit');
+        const updated: SavedAudit = {
+            ...audit,
+            ...update,
+            brand: update.brand !== undefined ? update.brand.trim() || undefined : audit.brand,
+            tags: update.tags ? normalizeTags(update.tags) : audit.tags,
+            updatedAt: now.toISOString(),
+            syncState: 'pending',
+        };
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+
+export const deleteAudit = async (scope: LibraryScope, id: string) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const audit = await requestToPromise<SavedAudit | undefined>(store.get(id));
+        if (!audit || !inScope(scope, audit)) return;
+        assertScopeAllows(scope, 'library.edit');
+        await requestToPromise(store.delete(id));
+    });
+
+// Works the headline score out again from the stored sub-scores under another rubric version, without
+// re-running analysis. Audits already scored with it, and reports without sub-scores, are left as
+// they are. Resolves with the audits that changed.
+export const rescoreAudits = async (scope: LibraryScope, rubric: RubricDefinition, ids?: string[], now = new Date()): Promise<SavedAudit[]> => {
+    assertScopeAllows(scope, 'library.edit');
+    const candidates = (await listAudits(scope)).filter((audit) => (!ids || ids.includes(audit.id)) && !isScoredWith(audit.scoring, rubric));
+    return withStore(STORE, 'readwrite', async (store) => {
+        const changed: SavedAudit[] = [];
+        for (const { id } of candidates) {
+            const audit = await requestToPromise<SavedAudit | undefined>(store.get(id));
+            const scoring = audit && inScope(scope, audit) ? scoreReport(audit.report, rubric, now) : null;
+            if (!scoring) continue;
+            const updated: SavedAudit = { ...audit, scoring, updatedAt: now.toISOString(), syncState: 'pending' };
+            await requestToPromise(store.put(updated));
+            changed.push(updated);
+        }
+        return changed;
+    });
+};
+
+// Sends pending records and marks the accepted ones synced. Records edited while the push was in
+// flight stay pending so the edit goes up on the next run.
+export const syncPendingAudits = async (scope: LibraryScope, adapter: AuditSyncAdapter) => {
+    const pending = (await listAudits(scope)).filter((audit) => audit.syncState === 'pending');
+    if (!pending.length) return 0;
+    const accepted = new Set(await adapter.push(pending));
+    const sent = new Map(pending.map((audit) => [audit.id, audit.updatedAt]));
+    await withStore(STORE, 'readwrite', async (store) => {
+        for (const id of accepted) {
+            const audit = await requestToPromise<SavedAudit | undefined>(store.get(id));
+            if (audit && audit.updatedAt === sent.get(id)) await requestToPromise(store.put({ ...audit, syncState: 'synced' }));
+        }
+    });
+    return accepted.size;
+};
+
+// --- Queries ---
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const searchableText = (audit: SavedAudit) =>
+    [audit.creativeName, audit.brand ?? '', audit.tags.join(' '), serializeAuditReport(audit.report)].join('\n').toLowerCase();
+
+export const filterAudits = (audits: SavedAudit[], filter: AuditFilter) => {
+    const words = (filter.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const from = filter.from ? startOfDay(filter.from) : null;
+    const to = filter.to ? startOfDay(filter.to) + 24 * 60 * 60 * 1000 : null;
+    const tag = filter.tag?.trim().toLowerCase();
+
+    return audits.filter((audit) => {
+        const score = auditScore(audit);
+        if (filter.minScore !== undefined && score < filter.minScore) return false;
+        if (filter.maxScore !== undefined && score > filter.maxScore) return false;
+        const created = Date.parse(audit.createdAt);
+        if (from !== null && created < from) return false;
+        if (to !== null && created >= to) return false;
+        if (tag && !audit.tags.includes(tag)) return false;
+        if (filter.brand && audit.brand !== filter.brand) return false;
+        if (words.length) {
+            const text = searchableText(audit);
+            if (!words.every((word) => text.includes(word))) return false;
+        }
+        return true;
+    });
+};
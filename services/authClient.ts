@@ -0,0 +1,90 @@
+import { Session, User } from "../types";
+import { createLocalAuthServer } from "./localAuthServer";
+
+export type AuthErrorCode =
+    | 'invalid_email'
+    | 'weak_password'
+    | 'email_taken'
+    | 'invalid_credentials'
+    | 'session_expired'
+    | 'invalid_session'
+    | 'invalid_token'
+    | 'network';
+
+export class AuthError extends Error {
+    code: AuthErrorCode;
+    // Form field the error belongs to, so AuthModal can show it inline
+    field?: 'email' | 'password';
+
+    constructor(code: AuthErrorCode, message: string, field?: 'email' | 'password') {
+        super(message);
+        this.name = 'AuthError';
+        this.code = code;
+        this.field = field;
+    }
+}
+
+export const isAuthError = (error: unknown): error is AuthError => error instanceof AuthError;
+
+export interface AuthResponse {
+    user: User;
+    session: Session;
+}
+
+// Contract for the auth backend. The local server implements it in the browser until the API exists.
+export interface AuthClient {
+    signup: (email: string, password: string) => Promise<AuthResponse>;
+    login: (email: string, password: string) => Promise<AuthResponse>;
+    // Resolves the user for a live access token; throws session_expired or invalid_session otherwise
+    getUser: (accessToken: string) => Promise<User>;
+    refresh: (refreshToken: string) => Promise<AuthResponse>;
+    logout: (refreshToken: string) => Promise<void>;
+
+    // Email-driven flows. Request methods resolve even for unknown emails so accounts can't be enumerated.
+    requestPasswordReset: (email: string) => Promise<void>;
+    // Signs the user in and revokes every other session
+    resetPassword: (token: string, newPassword: string) => Promise<AuthResponse>;
+    sendVerificationEmail: (accessToken: string) => Promise<void>;
+    verifyEmail: (token: string) => Promise<User>;
+    requestMagicLink: (email: string) => Promise<void>;
+    // Consuming a magic link also proves ownership of the inbox, so it verifies the email
+    signInWithMagicLink: (token: string) => Promise<AuthResponse>;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const validateEmail = (email: string) => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+        throw new AuthError('invalid_email', 'Enter a valid email address.', 'email');
+    }
+};
+
+export const validatePassword = (password: string) => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError('weak_password', `Use at least ${MIN_PASSWORD_LENGTH} characters.`, 'password');
+    }
+};
+
+export const validateCredentials = (email: string, password: string) => {
+    validateEmail(email);
+    validatePassword(password);
+};
+
+// Where the web app keeps the signed-in session. The extension's bridge reads it from the same origin.
+export const SESSION_KEY = 'viralAuditSession';
+
+export const readStoredSession = (): Session | null => {
+    try {
+        const raw = localStorage.getItem(SESSION_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+};
+
+let defaultClient: AuthClient | null = null;
+
+export const getAuthClient = (): AuthClient => {
+    if (!defaultClient) defaultClient = createLocalAuthServer();
+    return defaultClient;
+};
@@ -0,0 +1,126 @@
+import { AudioTrack, AuditResult, BatchItem, BatchItemStatus, BillingAccount, BrandRules, SavedAudit } from "../types";
+import { AuditService } from "./auditService";
+import { AuditCancelledError, AuditError } from "./auditErrors";
+import { prepareAuditRequest } from "./auditPipeline";
+import { saveAudit } from "./auditStore";
+import { nameFromUrl } from "./batchStore";
+import { recordAuditUsage } from "./usage";
+import { createThumbnail, readVideoMetadata, validateVideoFile, validateVideoMetadata } from "./videoFile";
+import { LibraryScope } from "./workspaces";
+
+// One batch item from source to saved audit, and the summary of a finished batch
+
+export type BatchItemStage = 'downloading' | 'sampling' | 'audio' | 'auditing' | 'saving';
+
+export interface BatchItemProgress {
+    stage: BatchItemStage;
+    // 0-1 where the stage can measure it
+    fraction?: number;
+}
+
+export interface RunBatchItemOptions {
+    // Where the audit is saved, and the account it is charged to
+    library: LibraryScope;
+    account: BillingAccount;
+    service: AuditService;
+    tracks?: AudioTrack[];
+    // The library's chosen brand profile, checked against every item
+    brandProfile?: BrandRules;
+    language?: string;
+    signal: AbortSignal;
+    onProgress?: (progress: BatchItemProgress) => void;
+}
+
+const downloadVideo = async (url: string, signal: AbortSignal): Promise<File> => {
+    let response: Response;
+    try {
+        response = await fetch(url, { signal });
+    } catch (err) {
+        if (signal.aborted) throw new AuditCancelledError();
+        throw err;
+    }
+    if (!response.ok) {
+        // Server errors and rate limits may clear; a missing or forbidden file won't
+        const retryable = response.status >= 500 || response.status === 429;
+        throw new AuditError('network', `${nameFromUrl(url)} could not be downloaded (HTTP ${response.status}).`, retryable);
+    }
+    const blob = await response.blob();
+    return new File([blob], nameFromUrl(url), { type: blob.type });
+};
+
+const sourceFile = async (item: BatchItem, signal: AbortSignal): Promise<File> => {
+    if (item.source.kind === 'url') return downloadVideo(item.source.url, signal);
+    if (!item.source.file) throw new Error(`${item.name} is no longer stored. Add it to a new batch.`);
+    return new File([item.source.file], item.source.fileName, { type: item.source.file.type });
+};
+
+// Charges the audit only once the provider has returned a report. The audit is saved to history
+// tagged "batch"; a storage failure there still returns the result.
+export const runBatchItem = async (
+    item: BatchItem,
+    { library, account, service, tracks, brandProfile, language, signal, onProgress }: RunBatchItemOptions
+): Promise<{ result: AuditResult; audit: SavedAudit | null }> => {
+    onProgress?.({ stage: 'downloading' });
+    const file = await sourceFile(item, signal);
+    const fileError = validateVideoFile(file);
+    if (fileError) throw new Error(fileError);
+
+    const url = URL.createObjectURL(file);
+    try {
+        const meta = await readVideoMetadata(url, signal);
+        const metaError = validateVideoMetadata(meta);
+        if (metaError) throw new Error(metaError);
+
+        const request = await prepareAuditRequest(file, url, meta, {
+            tracks,
+            brandProfile,
+            language,
+            signal,
+            onProgress: (stage, done, total) => onProgress?.({ stage, fraction: total ? done / total : undefined }),
+        });
+        request.creativeName = item.name;
+
+        onProgress?.({ stage: 'auditing' });
+        const result = await service.runAudit(request, { signal });
+        recordAuditUsage(account);
+
+        onProgress?.({ stage: 'saving' });
+        const { frames } = request;
+        const thumbnail = frames.length ? await createThumbnail(frames[Math.min(1, frames.length - 1)]).catch(() => undefined) : undefined;
+        const audit = await saveAudit(library, request, result, { thumbnail, tags: ['batch'] }).catch(() => null);
+        return { result, audit };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// --- Summary ---
+
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+    queued: 'Queued',
+    running: 'Running',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+export interface BatchSummary {
+    counts: Record<BatchItemStatus, number>;
+    // Out of 10, over the finished items
+    averageScore: number | null;
+    // Finished items, best first; ties keep the order they were added in
+    ranked: BatchItem[];
+}
+
+// Out of 10, like scoreOutOf10 for saved audits
+export const batchItemScore = (item: BatchItem) => (item.score !== undefined && item.maxScore ? (item.score / item.maxScore) * 10 : null);
+
+export const summarizeBatch = (items: BatchItem[]): BatchSummary => {
+    const counts: Record<BatchItemStatus, number> = { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+    items.forEach((item) => counts[item.status]++);
+    const ranked = items
+        .filter((item) => item.status === 'done' && batchItemScore(item) !== null)
+        .sort((a, b) => batchItemScore(b)! - batchItemScore(a)! || a.position - b.position);
+    const averageScore = ranked.length ? ranked.reduce((sum, item) => sum + batchItemScore(item)!, 0) / ranked.length : null;
+    return { counts, averageScore, ranked };
+};
@@ -0,0 +1,179 @@
+import { AuditError, isAuditError } from "./auditErrors";
+import { backoffDelay } from "./auditService";
+
+// Runs batch items with a cap on how many run at once and how many start per minute. Items that
+// fail with a retryable error go back to the front of the queue after a backoff; a provider rate
+// limit holds every start, not just the item that hit it.
+
+const MINUTE_MS = 60_000;
+
+export interface QueueTaskError {
+    message: string;
+    retryable: boolean;
+    // Set when the provider asked for a pause before the next request
+    retryAfterMs?: number;
+}
+
+export interface BatchQueueOptions {
+    concurrency: number;
+    perMinute: number;
+    // Further attempts after a retryable failure
+    retries: number;
+    baseDelayMs?: number;
+    // Runs one item. Throwing AuditCancelledError (the signal aborting) leaves the item cancelled.
+    run: (id: string, signal: AbortSignal, attempt: number) => Promise<void>;
+    // Asked before every start with the number of items running; a message pauses the queue
+    canStart?: (running: number) => string | null;
+    onStart?: (id: string, attempt: number) => void;
+    onRetry?: (id: string, error: QueueTaskError, delayMs: number) => void;
+    onDone?: (id: string) => void;
+    onFail?: (id: string, error: QueueTaskError) => void;
+    onCancel?: (id: string) => void;
+    // Paused with the canStart message, or null once running again
+    onPause?: (reason: string | null) => void;
+    // Nothing running and nothing left to start
+    onIdle?: () => void;
+}
+
+export interface BatchQueue {
+    // Queues items after the ones already waiting. `attempts` carries over from earlier runs.
+    add: (items: { id: string; attempts?: number }[]) => void;
+    // Aborts a running item or drops a waiting one
+    cancel: (id: string) => void;
+    // Lets running items finish but starts nothing new
+    pause: () => void;
+    resume: () => void;
+    // Aborts everything; the queue can't be used afterwards
+    stop: () => void;
+    running: () => number;
+    waiting: () => number;
+}
+
+export const toQueueError = (error: unknown): QueueTaskError => {
+    if (isAuditError(error)) {
+        return {
+            message: error.message,
+            retryable: error.retryable,
+            retryAfterMs: (error as AuditError & { retryAfterMs?: number }).retryAfterMs,
+        };
+    }
+    // fetch() rejects with a TypeError when the network or CORS fails; worth another try
+    if (error instanceof TypeError) return { message: 'The video could not be downloaded.', retryable: true };
+    return { message: error instanceof Error ? error.message : String(error), retryable: false };
+};
+
+export const createBatchQueue = ({
+    concurrency,
+    perMinute,
+    retries,
+    baseDelayMs = 2_000,
+    run,
+    canStart,
+    onStart,
+    onRetry,
+    onDone,
+    onFail,
+    onCancel,
+    onPause,
+    onIdle,
+}: BatchQueueOptions): BatchQueue => {
+    const waiting: { id: string; attempts: number; notBefore: number }[] = [];
+    const active = new Map<string, AbortController>();
+    // Start times within the last minute, oldest first
+    const starts: number[] = [];
+    let holdUntil = 0;
+    let paused = false;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const wakeAt = (at: number) => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = null;
+            pump();
+        }, Math.max(0, at - Date.now()));
+    };
+
+    const setPaused = (reason: string | null) => {
+        paused = reason !== null;
+        onPause?.(reason);
+    };
+
+    const pump = () => {
+        if (stopped || paused) return;
+        const now = Date.now();
+        while (starts.length && starts[0] <= now - MINUTE_MS) starts.shift();
+
+        while (active.size < concurrency && waiting.length) {
+            const next = waiting.findIndex((item) => item.notBefore <= now);
+            if (next === -1) return wakeAt(Math.min(...waiting.map((item) => item.notBefore)));
+            if (now < holdUntil) return wakeAt(holdUntil);
+            if (starts.length >= perMinute) return wakeAt(starts[0] + MINUTE_MS);
+            const blocked = canStart?.(active.size);
+            if (blocked) return setPaused(blocked);
+
+            const [item] = waiting.splice(next, 1);
+            starts.push(now);
+            start(item.id, item.attempts + 1);
+        }
+        if (!active.size && !waiting.length) onIdle?.();
+    };
+
+    const start = (id: string, attempt: number) => {
+        const controller = new AbortController();
+        active.set(id, controller);
+        onStart?.(id, attempt);
+
+        run(id, controller.signal, attempt)
+            .then(() => {
+                if (!stopped) onDone?.(id);
+            })
+            .catch((err) => {
+                if (stopped) return;
+                if (controller.signal.aborted) return onCancel?.(id);
+                const error = toQueueError(err);
+                if (!error.retryable || attempt > retries) return onFail?.(id, error);
+
+                const delayMs = error.retryAfterMs ?? backoffDelay(attempt - 1, baseDelayMs);
+                if (error.retryAfterMs) holdUntil = Math.max(holdUntil, Date.now() + error.retryAfterMs);
+                waiting.unshift({ id, attempts: attempt, notBefore: Date.now() + delayMs });
+                onRetry?.(id, error, delayMs);
+            })
+            .finally(() => {
+                active.delete(id);
+                pump();
+            });
+    };
+
+    return {
+        add: (items) => {
+            const known = new Set([...active.keys(), ...waiting.map((item) => item.id)]);
+            items.forEach(({ id, attempts = 0 }) => {
+                if (!known.has(id)) waiting.push({ id, attempts, notBefore: 0 });
+            });
+            pump();
+        },
+        cancel: (id) => {
+            const controller = active.get(id);
+            if (controller) return controller.abort();
+            const index = waiting.findIndex((item) => item.id === id);
+            if (index === -1) return;
+            waiting.splice(index, 1);
+            onCancel?.(id);
+            pump();
+        },
+        pause: () => setPaused('Paused. Audits already running will finish.'),
+        resume: () => {
+            setPaused(null);
+            pump();
+        },
+        stop: () => {
+            stopped = true;
+            if (timer) clearTimeout(timer);
+            waiting.length = 0;
+            active.forEach((controller) => controller.abort());
+        },
+        running: () => active.size,
+        waiting: () => waiting.length,
+    };
+};
@@ -0,0 +1,130 @@
+import { BatchAudit, BatchItem, BatchItemSource, BatchSettings, User } from "../types";
+import { randomToken } from "./localAuthServer";
+import { requestToPromise, withStore } from "./idb";
+
+// Batches and their items, per account, in IndexedDB. Items are written on every status change so
+// a reload shows where the batch got to and can carry on from there.
+
+const BATCHES = 'batches';
+const ITEMS = 'batchItems';
+
+export const MAX_BATCH_ITEMS = 200;
+export const MAX_BATCH_CONCURRENCY = 4;
+export const MAX_BATCH_PER_MINUTE = 30;
+export const MAX_BATCH_RETRIES = 3;
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = { concurrency: 2, perMinute: 10, retries: 2 };
+
+export type BatchItemUpdate = Partial<Pick<BatchItem, 'status' | 'attempts' | 'error' | 'auditId' | 'score' | 'maxScore' | 'source'>>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(Math.round(value) || min, min), max);
+
+export const normalizeBatchSettings = ({ concurrency, perMinute, retries }: BatchSettings): BatchSettings => ({
+    concurrency: clamp(concurrency, 1, MAX_BATCH_CONCURRENCY),
+    perMinute: clamp(perMinute, 1, MAX_BATCH_PER_MINUTE),
+    retries: Math.min(Math.max(Math.round(retries) || 0, 0), MAX_BATCH_RETRIES),
+});
+
+// One URL per line; blank lines and duplicates are dropped. Throws on anything that isn't http(s).
+export const parseBatchUrls = (text: string): string[] => {
+    const urls = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    const invalid = urls.filter((line) => {
+        try {
+            const url = new URL(line);
+            return url.protocol !== 'https:' && url.protocol !== 'http:';
+        } catch {
+            return true;
+        }
+    });
+    if (invalid.length) throw new Error(`Not a video URL: ${invalid[0]}`);
+    return Array.from(new Set(urls));
+};
+
+// Last path segment, which for most CDNs is the file name
+export const nameFromUrl = (url: string) => {
+    const { pathname, hostname } = new URL(url);
+    return decodeURIComponent(pathname.split('/').filter(Boolean).pop() ?? '') || hostname;
+};
+
+export const createBatch = async (
+    user: User,
+    input: { name: string; settings: BatchSettings; files: File[]; urls: string[] },
+    now = new Date()
+): Promise<{ batch: BatchAudit; items: BatchItem[] }> => {
+    const sources: { name: string; source: BatchItemSource }[] = [
+        ...input.files.map((file) => ({ name: file.name, source: { kind: 'file' as const, fileName: file.name, file } })),
+        ...input.urls.map((url) => ({ name: nameFromUrl(url), source: { kind: 'url' as const, url } })),
+    ];
+    if (!sources.length) throw new Error('Add at least one video file or URL.');
+    if (sources.length > MAX_BATCH_ITEMS) throw new Error(`A batch holds up to ${MAX_BATCH_ITEMS} creatives.`);
+
+    const batch: BatchAudit = {
+        id: `bat_${randomToken(9)}`,
+        userId: user.id,
+        name: input.name.trim() || `Batch of ${sources.length}`,
+        ...normalizeBatchSettings(input.settings),
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+    };
+    const items: BatchItem[] = sources.map(({ name, source }, position) => ({
+        id: `bit_${randomToken(9)}`,
+        batchId: batch.id,
+        userId: user.id,
+        position,
+        name,
+        source,
+        status: 'queued',
+        attempts: 0,
+        updatedAt: now.toISOString(),
+    }));
+
+    await withStore(BATCHES, 'readwrite', (store) => requestToPromise(store.put(batch)));
+    await withStore(ITEMS, 'readwrite', (store) => {
+        items.forEach((item) => store.put(item));
+    });
+    return { batch, items };
+};
+
+// Newest first
+export const listBatches = async (user: User): Promise<BatchAudit[]> => {
+    const batches = await withStore(BATCHES, 'readonly', (store) =>
+        requestToPromise<BatchAudit[]>(store.index('userId').getAll(user.id))
+    );
+    return batches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const updateBatchSettings = async (user: User, id: string, settings: BatchSettings, now = new Date()): Promise<BatchAudit> =>
+    withStore(BATCHES, 'readwrite', async (store) => {
+        const batch = await requestToPromise<BatchAudit | undefined>(store.get(id));
+        if (!batch || batch.userId !== user.id) throw new Error('Batch not found.');
+        const updated: BatchAudit = { ...batch, ...normalizeBatchSettings(settings), updatedAt: now.toISOString() };
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+
+// In the order they were added
+export const listBatchItems = async (user: User, batchId: string): Promise<BatchItem[]> => {
+    const items = await withStore(ITEMS, 'readonly', (store) =>
+        requestToPromise<BatchItem[]>(store.index('batchId').getAll(batchId))
+    );
+    return items.filter((item) => item.userId === user.id).sort((a, b) => a.position - b.position);
+};
+
+export const updateBatchItem = async (user: User, id: string, update: BatchItemUpdate, now = new Date()): Promise<BatchItem> =>
+    withStore(ITEMS, 'readwrite', async (store) => {
+        const item = await requestToPromise<BatchItem | undefined>(store.get(id));
+        if (!item || item.userId !== user.id) throw new Error('Batch item not found.');
+        const updated: BatchItem = { ...item, ...update, updatedAt: now.toISOString() };
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+
+// Saved audits stay in history; only the queue and its stored files go
+export const deleteBatch = async (user: User, id: string) => {
+    const batch = await withStore(BATCHES, 'readonly', (store) => requestToPromise<BatchAudit | undefined>(store.get(id)));
+    if (!batch || batch.userId !== user.id) return;
+    const items = await listBatchItems(user, id);
+    await withStore(ITEMS, 'readwrite', (store) => {
+        items.forEach((item) => store.delete(item.id));
+    });
+    await withStore(BATCHES, 'readwrite', (store) => requestToPromise(store.delete(id)));
+};
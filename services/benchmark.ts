@@ -0,0 +1,168 @@
+import { AuditReport, AuditRequest, BenchmarkCompetitor, ReportSubscoreKey, REPORT_SUBSCORE_ORDER } from "../types";
+import { randomToken } from "./localAuthServer";
+import { scoreOutOf10 } from "./auditStore";
+import { getAuditService } from "./auditService";
+import { createThumbnail, readVideoMetadata, sampleFrames, validateVideoFile, validateVideoMetadata } from "./videoFile";
+
+// Competitor benchmarking: the same audit run on competitor creatives, compared dimension by
+// dimension against one of ours.
+
+export const MAX_BENCHMARK_COMPETITORS = 5;
+
+export type BenchmarkDimension = 'overall' | ReportSubscoreKey;
+
+export const BENCHMARK_DIMENSIONS: BenchmarkDimension[] = ['overall', ...REPORT_SUBSCORE_ORDER];
+
+export const BENCHMARK_DIMENSION_LABELS: Record<BenchmarkDimension, string> = {
+    overall: 'Overall',
+    hook: 'Hook',
+    pacing: 'Pacing',
+    visuals: 'Visuals',
+    audio: 'Audio',
+    script: 'Script',
+    cta: 'CTA',
+};
+
+export interface BenchmarkEntry {
+    id: string;
+    name: string;
+    ours: boolean;
+    // Out of 10; null where the report has no score for that dimension
+    scores: Record<BenchmarkDimension, number | null>;
+}
+
+// A dimension where at least one competitor scores higher than our creative
+export interface BenchmarkLoss {
+    dimension: BenchmarkDimension;
+    ours: number;
+    best: number;
+    gap: number;
+    leader: string;
+    // How many competitors with a score for this dimension beat ours, out of how many
+    beatenBy: number;
+    compared: number;
+}
+
+export interface BenchmarkComparison {
+    // Our creative first, then competitors in the order given
+    entries: BenchmarkEntry[];
+    // Highest score per dimension, for highlighting the matrix
+    best: Record<BenchmarkDimension, number | null>;
+    // Largest gap first
+    losses: BenchmarkLoss[];
+}
+
+// --- Comparison ---
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const dimensionScore = (report: AuditReport, dimension: BenchmarkDimension): number | null => {
+    if (dimension === 'overall') return round1(scoreOutOf10(report));
+    return report.subscores?.[dimension] ?? null;
+};
+
+const toEntry = (id: string, name: string, report: AuditReport, ours: boolean): BenchmarkEntry => ({
+    id,
+    name,
+    ours,
+    scores: Object.fromEntries(BENCHMARK_DIMENSIONS.map((dimension) => [dimension, dimensionScore(report, dimension)])) as Record<
+        BenchmarkDimension,
+        number | null
+    >,
+});
+
+export const compareBenchmark = (
+    ours: { id: string; name: string; report: AuditReport },
+    competitors: BenchmarkCompetitor[]
+): BenchmarkComparison => {
+    const entries = [
+        toEntry(ours.id, ours.name, ours.report, true),
+        ...competitors.map((competitor) => toEntry(competitor.id, competitor.creativeName, competitor.report, false)),
+    ];
+
+    const best = {} as Record<BenchmarkDimension, number | null>;
+    const losses: BenchmarkLoss[] = [];
+
+    BENCHMARK_DIMENSIONS.forEach((dimension) => {
+        const scored = entries.filter((entry) => entry.scores[dimension] !== null);
+        best[dimension] = scored.length ? Math.max(...scored.map((entry) => entry.scores[dimension])) : null;
+
+        const ourScore = entries[0].scores[dimension];
+        if (ourScore === null) return;
+        const rivals = scored.filter((entry) => !entry.ours);
+        const ahead = rivals.filter((entry) => entry.scores[dimension] > ourScore);
+        if (!ahead.length) return;
+        // Ties for the lead go to whichever competitor was added first
+        const leader = ahead.reduce((top, entry) => (entry.scores[dimension] > top.scores[dimension] ? entry : top));
+        losses.push({
+            dimension,
+            ours: ourScore,
+            best: leader.scores[dimension],
+            gap: round1(leader.scores[dimension] - ourScore),
+            leader: leader.name,
+            beatenBy: ahead.length,
+            compared: rivals.length,
+        });
+    });
+
+    losses.sort(
+        (a, b) =>
+            b.gap - a.gap ||
+            b.beatenBy / b.compared - a.beatenBy / a.compared ||
+            BENCHMARK_DIMENSIONS.indexOf(a.dimension) - BENCHMARK_DIMENSIONS.indexOf(b.dimension)
+    );
+
+    return { entries, best, losses };
+};
+
+// --- Competitor audits ---
+
+export interface CompetitorAuditOptions {
+    signal?: AbortSignal;
+    onStatus?: (status: string) => void;
+}
+
+// Runs the standard audit on a competitor's video file. Throws the validation message as an
+// Error, or an AuditError from the audit itself.
+export const auditCompetitor = async (file: File, { signal, onStatus }: CompetitorAuditOptions = {}): Promise<BenchmarkCompetitor> => {
+    const fileError = validateVideoFile(file);
+    if (fileError) throw new Error(fileError);
+
+    const url = URL.createObjectURL(file);
+    try {
+        onStatus?.('Reading video');
+        const meta = await readVideoMetadata(url, signal);
+        const metaError = validateVideoMetadata(meta);
+        if (metaError) throw new Error(`${file.name}: ${metaError}`);
+
+        const frames = await sampleFrames(url, {
+            signal,
+            onProgress: (done, total) => onStatus?.(`Sampling frames ${done}/${total}`),
+        });
+
+        const service = getAuditService();
+        onStatus?.(`Analysing with ${service.provider.label}`);
+        const request: AuditRequest = {
+            creativeName: file.name,
+            durationSec: meta.durationSec,
+            width: meta.width,
+            height: meta.height,
+            mimeType: file.type || undefined,
+            frames,
+        };
+        const result = await service.runAudit(request, { signal });
+        const thumbnail = frames.length ? await createThumbnail(frames[Math.min(1, frames.length - 1)]).catch(() => undefined) : undefined;
+
+        return {
+            id: `cmp_${randomToken(9)}`,
+            creativeName: file.name,
+            durationSec: meta.durationSec,
+            thumbnail,
+            report: result.report,
+            providerId: result.providerId,
+            auditedAt: new Date().toISOString(),
+        };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
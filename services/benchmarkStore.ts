@@ -0,0 +1,82 @@
+import { BenchmarkCompetitor, BenchmarkSet } from "../types";
+import { randomToken } from "./localAuthServer";
+import { requestToPromise, withStore } from "./idb";
+import { MAX_BENCHMARK_COMPETITORS } from "./benchmark";
+import { LibraryScope, assertScopeAllows, inScope } from "./workspaces";
+
+// Saved competitor sets, per account or team workspace, in IndexedDB alongside audit history
+
+const STORE = 'benchmarks';
+
+export interface BenchmarkSetInput {
+    name: string;
+    niche: string;
+    competitors: BenchmarkCompetitor[];
+}
+
+const validateSet = ({ name, niche, competitors }: BenchmarkSetInput) => {
+    if (!name.trim()) throw new Error('Give the benchmark set a name.');
+    if (!niche.trim()) throw new Error('Choose a niche so the set can be found again.');
+    if (!competitors.length) throw new Error('Add at least one competitor creative first.');
+    if (competitors.length > MAX_BENCHMARK_COMPETITORS) {
+        throw new Error(`A benchmark set holds up to ${MAX_BENCHMARK_COMPETITORS} competitors.`);
+    }
+};
+
+export const createBenchmarkSet = async (scope: LibraryScope, input: BenchmarkSetInput, now = new Date()): Promise<BenchmarkSet> => {
+    assertScopeAllows(scope, 'library.edit');
+    validateSet(input);
+    const set: BenchmarkSet = {
+        id: `bms_${randomToken(9)}`,
+        userId: scope.userId,
+        workspaceId: scope.workspaceId ?? undefined,
+        name: input.name.trim(),
+        niche: input.niche.trim(),
+        competitors: input.competitors,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+    };
+    await withStore(STORE, 'readwrite', (store) => requestToPromise(store.put(set)));
+    return set;
+};
+
+export const updateBenchmarkSet = async (scope: LibraryScope, id: string, input: BenchmarkSetInput, now = new Date()): Promise<BenchmarkSet> => {
+    assertScopeAllows(scope, 'library.edit');
+    validateSet(input);
+    return withStore(STORE, 'readwrite', async (store) => {
+        const set = await requestToPromise<BenchmarkSet | undefined>(store.get(id));
+        if (!set || !inScope(scope, set)) throw new Error('Benchmark set not found.');
+        const updated: BenchmarkSet = {
+            ...set,
+            name: input.name.trim(),
+            niche: input.niche.trim(),
+            competitors: input.competitors,
+            updatedAt: now.toISOString(),
+        };
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+};
+
+export const getBenchmarkSet = async (scope: LibraryScope, id: string): Promise<BenchmarkSet | null> => {
+    const set = await withStore(STORE, 'readonly', (store) => requestToPromise<BenchmarkSet | undefined>(store.get(id)));
+    return set && inScope(scope, set) ? set : null;
+};
+
+// Grouped by niche, then by name
+export const listBenchmarkSets = async (scope: LibraryScope): Promise<BenchmarkSet[]> => {
+    const sets = await withStore(STORE, 'readonly', (store) =>
+        requestToPromise<BenchmarkSet[]>(
+            scope.workspaceId ? store.index('workspaceId').getAll(scope.workspaceId) : store.index('userId').getAll(scope.userId)
+        )
+    );
+    return sets.filter((set) => inScope(scope, set)).sort((a, b) => a.niche.localeCompare(b.niche) || a.name.localeCompare(b.name));
+};
+
+export const deleteBenchmarkSet = async (scope: LibraryScope, id: string) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const set = await requestToPromise<BenchmarkSet | undefined>(store.get(id));
+        if (!set || !inScope(scope, set)) return;
+        assertScopeAllows(scope, 'library.edit');
+        await requestToPromise(store.delete(id));
+    });
@@ -0,0 +1,83 @@
+import { BrandProfile, BrandRules } from "../types";
+import { randomToken } from "./localAuthServer";
+import { requestToPromise, withStore } from "./idb";
+import { normalizeBrandRules, validateBrandRules } from "./brandProfiles";
+import { LibraryScope, assertScopeAllows, inScope } from "./workspaces";
+
+// Brand profiles, per account or team workspace, in IndexedDB. Which one is chosen is remembered per
+// library in localStorage, so the workspace, batches and the extension all audit against the same one.
+
+const STORE = 'brandProfiles';
+const SELECTED_KEY = 'viralAudit.brandProfile';
+
+export const listBrandProfiles = async (scope: LibraryScope): Promise<BrandProfile[]> => {
+    const profiles = await withStore(STORE, 'readonly', (store) =>
+        requestToPromise<BrandProfile[]>(
+            scope.workspaceId ? store.index('workspaceId').getAll(scope.workspaceId) : store.index('userId').getAll(scope.userId)
+        )
+    );
+    return profiles.filter((profile) => inScope(scope, profile)).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getBrandProfile = async (scope: LibraryScope, id: string): Promise<BrandProfile | null> => {
+    const profile = await withStore(STORE, 'readonly', (store) => requestToPromise<BrandProfile | undefined>(store.get(id)));
+    return profile && inScope(scope, profile) ? profile : null;
+};
+
+// Creates a profile, or replaces the rules of an existing one when `id` is given
+export const saveBrandProfile = async (scope: LibraryScope, rules: BrandRules, id?: string, now = new Date()): Promise<BrandProfile> => {
+    assertScopeAllows(scope, 'library.edit');
+    const clean = normalizeBrandRules(rules);
+    validateBrandRules(clean);
+    return withStore(STORE, 'readwrite', async (store) => {
+        const existing = id ? await requestToPromise<BrandProfile | undefined>(store.get(id)) : undefined;
+        if (id && (!existing || !inScope(scope, existing))) throw new Error('Brand profile not found.');
+        const profile: BrandProfile = {
+            ...clean,
+            id: existing?.id ?? `brp_${randomToken(9)}`,
+            userId: existing?.userId ?? scope.userId,
+            workspaceId: existing ? existing.workspaceId : scope.workspaceId ?? undefined,
+            createdAt: existing?.createdAt ?? now.toISOString(),
+            updatedAt: now.toISOString(),
+        };
+        await requestToPromise(store.put(profile));
+        return profile;
+    });
+};
+
+export const deleteBrandProfile = async (scope: LibraryScope, id: string) => {
+    await withStore(STORE, 'readwrite', async (store) => {
+        const profile = await requestToPromise<BrandProfile | undefined>(store.get(id));
+        if (!profile || !inScope(scope, profile)) return;
+        assertScopeAllows(scope, 'library.edit');
+        await requestToPromise(store.delete(id));
+    });
+    if (readSelectedBrandProfileId(scope) === id) writeSelectedBrandProfileId(scope, null);
+};
+
+// --- Selection ---
+
+const selectionKey = (scope: LibraryScope) => `${scope.userId}:${scope.workspaceId ?? 'personal'}`;
+
+const readSelectedIds = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(SELECTED_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const readSelectedBrandProfileId = (scope: LibraryScope): string | null => readSelectedIds()[selectionKey(scope)] ?? null;
+
+export const writeSelectedBrandProfileId = (scope: LibraryScope, id: string | null) => {
+    const ids = readSelectedIds();
+    if (id) ids[selectionKey(scope)] = id;
+    else delete ids[selectionKey(scope)];
+    localStorage.setItem(SELECTED_KEY, JSON.stringify(ids));
+};
+
+// The profile new audits in this library are checked against; null when none is chosen or it is gone
+export const getSelectedBrandProfile = async (scope: LibraryScope): Promise<BrandProfile | null> => {
+    const id = readSelectedBrandProfileId(scope);
+    return id ? getBrandProfile(scope, id) : null;
+};
@@ -0,0 +1,156 @@
+import { BrandProfile, BrandRules, Transcript } from "../types";
+import { formatTimestamp } from "./findings";
+
+// Brand profiles: what a client's brand allows, checked against every audit run while the profile
+// is chosen. The transcript is matched here, in the browser; the model checks the frames and tone.
+
+const MAX_NAME_LENGTH = 60;
+const MAX_PHRASE_LENGTH = 300;
+const MAX_PHRASES = 40;
+// Logo timing expectations past this are about the end card, not the opening
+export const MAX_LOGO_SEC = 30;
+
+export const EMPTY_BRAND_RULES: BrandRules = {
+    name: '',
+    tone: [],
+    bannedPhrases: [],
+    requiredPhrases: [],
+    disclaimers: [],
+    logoBySec: null,
+    logoOnEndCard: false,
+    ctaPhrases: [],
+};
+
+type PhraseField = 'tone' | 'bannedPhrases' | 'requiredPhrases' | 'disclaimers' | 'ctaPhrases';
+
+export const PHRASE_FIELD_LABELS: Record<PhraseField, string> = {
+    tone: 'Tone',
+    bannedPhrases: 'Banned phrases',
+    requiredPhrases: 'Required phrases',
+    disclaimers: 'Disclaimers',
+    ctaPhrases: 'CTA wording',
+};
+
+const PHRASE_FIELDS = Object.keys(PHRASE_FIELD_LABELS) as PhraseField[];
+
+// Trimmed, without blanks, and without repeats that differ only in case
+const cleanList = (items: string[]) => {
+    const seen = new Set<string>();
+    return items
+        .map((item) => item.replace(/\s+/g, ' ').trim())
+        .filter((item) => {
+            const key = item.toLowerCase();
+            if (!item || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+};
+
+// Disclaimers contain commas, so lists are entered one per line
+export const parsePhraseList = (text: string) => cleanList(text.split('\n'));
+
+export const normalizeBrandRules = (rules: BrandRules): BrandRules => ({
+    name: rules.name.trim(),
+    tone: cleanList(rules.tone),
+    bannedPhrases: cleanList(rules.bannedPhrases),
+    requiredPhrases: cleanList(rules.requiredPhrases),
+    disclaimers: cleanList(rules.disclaimers),
+    logoBySec: rules.logoBySec === null || rules.logoBySec === undefined || Number.isNaN(rules.logoBySec) ? null : rules.logoBySec,
+    logoOnEndCard: !!rules.logoOnEndCard,
+    ctaPhrases: cleanList(rules.ctaPhrases),
+});
+
+export const validateBrandRules = (rules: BrandRules) => {
+    if (!rules.name) throw new Error('Give the profile a name.');
+    if (rules.name.length > MAX_NAME_LENGTH) throw new Error(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+    for (const field of PHRASE_FIELDS) {
+        if (rules[field].length > MAX_PHRASES) throw new Error(`${PHRASE_FIELD_LABELS[field]} can list up to ${MAX_PHRASES} entries.`);
+        if (rules[field].some((phrase) => phrase.length > MAX_PHRASE_LENGTH)) {
+            throw new Error(`Each entry in ${PHRASE_FIELD_LABELS[field].toLowerCase()} needs to be under ${MAX_PHRASE_LENGTH} characters.`);
+        }
+    }
+    if (rules.logoBySec !== null && (!Number.isFinite(rules.logoBySec) || rules.logoBySec < 0 || rules.logoBySec > MAX_LOGO_SEC)) {
+        throw new Error(`Logo timing needs to be from 0 to ${MAX_LOGO_SEC} seconds.`);
+    }
+};
+
+// The rules as sent with an audit, without the record's ids and timestamps
+export const toBrandRules = ({ name, tone, bannedPhrases, requiredPhrases, disclaimers, logoBySec, logoOnEndCard, ctaPhrases }: BrandProfile): BrandRules => ({
+    name,
+    tone,
+    bannedPhrases,
+    requiredPhrases,
+    disclaimers,
+    logoBySec,
+    logoOnEndCard,
+    ctaPhrases,
+});
+
+// --- Transcript check ---
+
+export interface BrandPhraseHit {
+    phrase: string;
+    // Undefined for untimed transcripts, or when the phrase runs across two cues
+    startSec?: number;
+}
+
+export interface BrandTranscriptCheck {
+    banned: BrandPhraseHit[];
+    missingRequired: string[];
+    // Not spoken; they may still be on screen, which only the frames show
+    missingDisclaimers: string[];
+    // The first preferred CTA that is spoken, if any
+    ctaHeard: BrandPhraseHit | null;
+}
+
+// Case, punctuation and spacing don't matter: "Shop now!" matches "shop now"
+const comparable = (text: string) => ` ${text.toLowerCase().replace(/[^\p{L}\p{N}%$€£]+/gu, ' ').trim()} `;
+
+const findPhrase = (transcript: Transcript, phrase: string): BrandPhraseHit | null => {
+    const needle = comparable(phrase);
+    if (needle.trim() === '') return null;
+    const cue = transcript.cues.find((candidate) => comparable(candidate.text).includes(needle));
+    if (cue) return { phrase, startSec: cue.startSec };
+    const whole = comparable(transcript.cues.map((candidate) => candidate.text).join(' '));
+    return whole.includes(needle) ? { phrase } : null;
+};
+
+export const checkBrandTranscript = (rules: BrandRules, transcript: Transcript): BrandTranscriptCheck => ({
+    banned: rules.bannedPhrases.map((phrase) => findPhrase(transcript, phrase)).filter(Boolean),
+    missingRequired: rules.requiredPhrases.filter((phrase) => !findPhrase(transcript, phrase)),
+    missingDisclaimers: rules.disclaimers.filter((phrase) => !findPhrase(transcript, phrase)),
+    ctaHeard: rules.ctaPhrases.map((phrase) => findPhrase(transcript, phrase)).find(Boolean) ?? null,
+});
+
+// --- Prompt ---
+
+const quoteList = (phrases: string[]) => phrases.map((phrase) => `"${phrase}"`).join(', ');
+
+const hitLabel = ({ phrase, startSec }: BrandPhraseHit) => (startSec === undefined ? `"${phrase}"` : `"${phrase}" at ${formatTimestamp(startSec)}`);
+
+// Plain-text brand rules, and what the transcript shows against them, for the audit prompt
+export const formatBrandProfile = (rules: BrandRules, transcript?: Transcript) => {
+    const lines = [`Brand profile: ${rules.name}`];
+    if (rules.tone.length) lines.push(`- Tone: ${rules.tone.join(', ')}`);
+    if (rules.bannedPhrases.length) lines.push(`- Banned phrases: ${quoteList(rules.bannedPhrases)}`);
+    if (rules.requiredPhrases.length) lines.push(`- Required phrases: ${quoteList(rules.requiredPhrases)}`);
+    if (rules.disclaimers.length) lines.push(`- Required disclaimers, spoken or on screen word for word: ${quoteList(rules.disclaimers)}`);
+    if (rules.logoBySec !== null) lines.push(`- Logo on screen by ${formatTimestamp(rules.logoBySec)}`);
+    if (rules.logoOnEndCard) lines.push('- Logo on the end card');
+    if (rules.ctaPhrases.length) lines.push(`- Preferred CTA wording, best first: ${quoteList(rules.ctaPhrases)}`);
+    if (!transcript) {
+        lines.push('No transcript was supplied, so phrases can only be checked against on-screen text.');
+        return lines.join('\n');
+    }
+
+    const check = checkBrandTranscript(rules, transcript);
+    lines.push('Transcript check:');
+    if (check.banned.length) lines.push(`- Banned phrases spoken: ${check.banned.map(hitLabel).join(', ')}`);
+    if (check.missingRequired.length) lines.push(`- Required phrases not spoken: ${quoteList(check.missingRequired)}`);
+    if (check.missingDisclaimers.length) lines.push(`- Disclaimers not spoken (check the on-screen text): ${quoteList(check.missingDisclaimers)}`);
+    if (rules.ctaPhrases.length) {
+        lines.push(check.ctaHeard ? `- Preferred CTA spoken: ${hitLabel(check.ctaHeard)}` : '- No preferred CTA wording is spoken');
+    }
+    if (lines[lines.length - 1] === 'Transcript check:') lines.push('- Nothing in the transcript breaks the profile');
+    return lines.join('\n');
+};
@@ -0,0 +1,111 @@
+import { BillingAccount, User, WorkspaceRole } from "../types";
+import { FEATURE_LABELS, FeatureId, PLANS, PLAN_ORDER, Plan, cheapestPlanWith } from "./plans";
+import { UsageRecord, billingPeriod, getUsage, usageAnchor } from "./usage";
+import { WorkspaceAction, roleAllows, roleDeniedMessage } from "./workspaces";
+
+// Every plan and permission gate goes through checkAccess so limits are enforced the same way everywhere.
+
+export type AccessRequest =
+    | { type: 'audit'; count?: number }
+    | { type: 'feature'; feature: FeatureId }
+    | { type: 'action'; action: WorkspaceAction };
+
+// The account plans and quota come from, and the user's role there. In a workspace that's the
+// owner's account; otherwise the user's own, where they are owner.
+export interface AccessScope {
+    account: BillingAccount;
+    role: WorkspaceRole;
+}
+
+export interface AccessDecision {
+    allowed: boolean;
+    // Present when denied
+    reason?: 'no_plan' | 'quota' | 'feature' | 'unverified' | 'signed_out' | 'role';
+    message?: string;
+    upgradeTo?: Plan | null;
+}
+
+export class EntitlementError extends Error {
+    decision: AccessDecision;
+
+    constructor(decision: AccessDecision) {
+        super(decision.message ?? 'This action is not included in your plan.');
+        this.name = 'EntitlementError';
+        this.decision = decision;
+    }
+}
+
+// Null until the account has an entitled subscription: no audits and no plan features
+export const getUserPlan = (account: Pick<BillingAccount, 'plan'> | null): Plan | null => PLANS[account?.plan] ?? null;
+
+export const hasFeature = (account: Pick<BillingAccount, 'plan'> | null, feature: FeatureId) => !!getUserPlan(account)?.features.includes(feature);
+
+export const personalAccessScope = (user: User): AccessScope => ({ account: user, role: 'owner' });
+
+const nextPlanUp = (plan: Plan): Plan | null =>
+    Object.values(PLANS).find((candidate) => candidate.monthlyAudits > plan.monthlyAudits) ?? null;
+
+export const checkAccess = (user: User | null, request: AccessRequest, usage?: UsageRecord, scope?: AccessScope): AccessDecision => {
+    if (!user) {
+        return { allowed: false, reason: 'signed_out', message: 'Sign in to continue.' };
+    }
+    const { account, role } = scope ?? personalAccessScope(user);
+    const plan = getUserPlan(account);
+    // A workspace runs on its owner's plan, so only the owner can upgrade it
+    const pooled = account.id !== user.id;
+    const canUpgrade = !pooled || role === 'owner';
+
+    const action: WorkspaceAction | null = request.type === 'action' ? request.action : request.type === 'audit' ? 'audit.run' : null;
+    if (action && !roleAllows(role, action)) {
+        return { allowed: false, reason: 'role', message: roleDeniedMessage(role, action) };
+    }
+    if (request.type === 'action') return { allowed: true };
+
+    if (request.type === 'feature') {
+        if (plan?.features.includes(request.feature)) return { allowed: true };
+        const upgradeTo = cheapestPlanWith(request.feature);
+        return {
+            allowed: false,
+            reason: 'feature',
+            message: pooled
+                ? `${FEATURE_LABELS[request.feature]} is included with ${upgradeTo?.name ?? 'a paid plan'}. Ask the workspace owner to upgrade.`
+                : `${FEATURE_LABELS[request.feature]} is included with ${upgradeTo?.name ?? 'a paid plan'}.`,
+            upgradeTo: canUpgrade ? upgradeTo : null,
+        };
+    }
+
+    if (!user.emailVerified) {
+        return { allowed: false, reason: 'unverified', message: 'Confirm your email to run audits.' };
+    }
+
+    if (!plan) {
+        return {
+            allowed: false,
+            reason: 'no_plan',
+            message: pooled
+                ? 'The workspace has no active plan. Ask the workspace owner to subscribe.'
+                : 'Choose a plan to start running audits.',
+            upgradeTo: canUpgrade ? PLANS[PLAN_ORDER[0]] : null,
+        };
+    }
+
+    const { audits } = usage ?? getUsage(account);
+    const count = request.count ?? 1;
+    if (audits + count > plan.monthlyAudits) {
+        const resets = new Date(billingPeriod(usageAnchor(account)).end).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+        return {
+            allowed: false,
+            reason: 'quota',
+            message: pooled
+                ? `The workspace has used all ${plan.monthlyAudits} audits in its ${plan.name} plan this period. It resets ${resets}.`
+                : `You've used all ${plan.monthlyAudits} audits in your ${plan.name} plan this period. It resets ${resets}.`,
+            upgradeTo: canUpgrade ? nextPlanUp(plan) : null,
+        };
+    }
+    return { allowed: true };
+};
+
+export const assertAccess = (user: User | null, request: AccessRequest, usage?: UsageRecord, scope?: AccessScope) => {
+    const decision = checkAccess(user, request, usage, scope);
+    if (!decision.allowed) throw new EntitlementError(decision);
+};
@@ -0,0 +1,93 @@
+import { AuditReport, ReportFinding, ReportSectionKey } from "../types";
+import { reportSectionKeys } from "./reportParser";
+
+// m:ss or h:mm:ss with optional fractional seconds, optionally followed by a range end.
+// The lookarounds stop a match starting or ending inside a longer number like "1:2:3" or "12:345".
+const TIMESTAMP = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:\.\d+)?`;
+const TIMESTAMP_PATTERN = new RegExp(
+    String.raw`(?<![\d:.])(${TIMESTAMP})(?:\s*(?:-|–|—|to)\s*(${TIMESTAMP}))?(?![\d:])`,
+    'g'
+);
+
+// Aspect ratios that also read as m:ss. Reports cite 9:16 placements, so these only count as times
+// when written as "At 9:16", "From 9:16" or as part of a range.
+const ASPECT_RATIOS = new Set(['9:16', '10:16', '16:10']);
+const TIME_CONTEXT = /\b(?:at|from)\s+$/i;
+
+export type TimestampToken = { label: string; startSec: number; endSec?: number; index: number };
+
+export const parseTimestamp = (value: string): number => {
+    const parts = value.split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const formatTimestamp = (sec: number) => {
+    const whole = Math.max(0, Math.floor(sec));
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Splits text into plain strings and timestamp tokens, in order. `index` counts timestamps only.
+export const tokenizeTimestamps = (text: string): Array<string | TimestampToken> => {
+    const out: Array<string | TimestampToken> = [];
+    let cursor = 0;
+    let index = 0;
+    for (const match of text.matchAll(TIMESTAMP_PATTERN)) {
+        const start = match.index ?? 0;
+        const startSec = parseTimestamp(match[1]);
+        const endSec = match[2] ? parseTimestamp(match[2]) : undefined;
+        // "0:61" and reversed ranges are not timestamps
+        if (match[1].split(':').slice(1).some((p) => Number(p.split('.')[0]) > 59) || (endSec !== undefined && endSec < startSec)) {
+            continue;
+        }
+        if (!match[2] && ASPECT_RATIOS.has(match[1]) && !TIME_CONTEXT.test(text.slice(0, start))) continue;
+        if (start > cursor) out.push(text.slice(cursor, start));
+        out.push({ label: match[0], startSec, endSec, index: index++ });
+        cursor = start + match[0].length;
+    }
+    if (cursor < text.length) out.push(text.slice(cursor));
+    return out;
+};
+
+export const findingId = (section: ReportSectionKey, blockIndex: number, itemIndex: number | undefined, tokenIndex: number) =>
+    `${section}-${blockIndex}-${itemIndex ?? 'p'}-${tokenIndex}`;
+
+// Narrows a paragraph down to the sentence that contains the timestamp
+const sentenceAround = (text: string, label: string) => {
+    const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [text];
+    return (sentences.find((s) => s.includes(label)) ?? text).trim();
+};
+
+// Pulls every timestamp cited in the report into findings, ordered by section then position.
+// Timestamps past `durationSec` are dropped because they cannot be seeked to.
+export const extractFindings = (report: AuditReport, durationSec?: number): ReportFinding[] => {
+    const findings: ReportFinding[] = [];
+
+    const collect = (section: ReportSectionKey, blockIndex: number, itemIndex: number | undefined, text: string) => {
+        tokenizeTimestamps(text).forEach((token) => {
+            if (typeof token === 'string') return;
+            if (durationSec !== undefined && token.startSec > durationSec + 0.5) return;
+            findings.push({
+                id: findingId(section, blockIndex, itemIndex, token.index),
+                section,
+                startSec: token.startSec,
+                endSec: token.endSec !== undefined && durationSec !== undefined ? Math.min(token.endSec, durationSec) : token.endSec,
+                label: token.label,
+                text: itemIndex === undefined ? sentenceAround(text, token.label) : text,
+                blockIndex,
+                itemIndex,
+            });
+        });
+    };
+
+    reportSectionKeys(report).forEach((section) => {
+        report.sections[section].blocks.forEach((block, blockIndex) => {
+            if (block.type === 'list') {
+                block.items.forEach((item, itemIndex) => collect(section, blockIndex, itemIndex, item));
+            } else {
+                collect(section, blockIndex, undefined, block.text);
+            }
+        });
+    });
+
+    return findings;
+};
@@ -0,0 +1,229 @@
+import type { AuditRequest } from "../types";
+import type { AuditProvider } from "./auditService";
+import type { RewriteProvider, RewriteRequest } from "./scriptRewrites";
+import {
+    AuditAuthError,
+    AuditError,
+    AuditQuotaError,
+    AuditSafetyError,
+} from "./auditErrors";
+import { serializeAuditReport } from "./reportParser";
+import { formatAudioEvidence } from "./audioFingerprint";
+import { formatPacing } from "./pacing";
+import { formatTranscript } from "./transcripts";
+import { formatBrandProfile } from "./brandProfiles";
+import { formatAuditLanguage } from "./i18n";
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export const AUDIT_SYSTEM_PROMPT = `You are ViralAudit, a brutally honest direct-response video ad auditor for Meta placements.
+Audit the creative from the sampled frames and metadata you are given.
+
+Reply with plain text in exactly this format and nothing else:
+
+#SCORE: <integer 0-10>/10
+
+#SUBSCORES
+HOOK: <integer 0-10>/10
+PACING: <integer 0-10>/10
+VISUALS: <integer 0-10>/10
+AUDIO: <integer 0-10>/10
+SCRIPT: <integer 0-10>/10
+CTA: <integer 0-10>/10
+
+#HOOK
+**The Problem:** <what fails in the first 3 seconds, citing timestamps like 0:02>
+**The Visual:** <what the opening frames show and why they do or don't stop the scroll>
+**The Fix:** <concrete replacement hook>
+
+#BODY
+**Pacing/Visuals:**
+- <one finding per line, each starting with a timestamp "At 0:03" or range "From 0:05-0:09">
+**The Fix:** <how to restructure the middle>
+
+#AUDIO
+**Copyright claim:** <music/copyright risk and how the audio affects CPM>
+
+#SCRIPT
+**The Problem:** <quote weak lines from the voiceover or on-screen text and explain why>
+**The Fix:** <stronger wording and a clear call to action>
+
+When measured pacing is included, ground the Pacing/Visuals findings in its cuts, shot lengths and dead air
+rather than estimating them from the frames.
+
+When an audio fingerprint check is included, base the copyright claim on it: name matched tracks and where they
+play in the creative (not the track's own timestamps), treat Licensed tracks as cleared and anything else as a claim risk, and never claim a match it didn't find.
+
+When a transcript is included, quote script lines exactly as they appear in it and cite the start time of
+each quoted cue, like At 0:04 "...". Use its words per second and time to first word rather than guessing.
+If no captions were supplied, say in #SCRIPT that most feed viewing is muted and the creative needs captions.
+
+When a brand profile is included, add this section after #SCRIPT:
+
+#BRAND
+- <one violation per line, starting with a timestamp "At 0:03" or range "From 0:05-0:09": the rule broken and what is said or shown>
+**The Fix:** <how to bring the creative in line with the profile>
+
+Check the tone, banned and required phrases, disclaimers, logo timing and CTA wording against the frames and the
+transcript, and rely on the transcript check for what is spoken. A rule broken by something missing cites the time it
+should have appeared. If nothing breaks the profile, write one list item saying so.
+
+Write the report in English unless a report language is given. In any language, keep the # tags and sub-score names
+exactly as shown above; translate the bold labels and everything you write yourself, but quote the creative's own words
+as they are.
+
+Timestamps use m:ss. Do not add other sections, markdown headings or code fences.`;
+
+export const REWRITE_SYSTEM_PROMPT = `You are ViralAudit's script doctor for direct-response video ads on Meta placements.
+Rewrite the ad's script using the audit you are given. Each variant needs a scroll-stopping hook and a
+tighter script that fixes what the audit criticised and ends on one clear call to action.
+
+Reply with plain text in exactly this format and nothing else, one block per variant:
+
+#VARIANT
+TONE: <one or two words, e.g. Urgent, Playful, Authority, Story-led>
+HOOK: <the first line spoken, under 12 words>
+- <voiceover line> | <what is on screen while it plays>
+- <voiceover line> | <what is on screen while it plays>
+
+Give every variant a different tone. Do not add markdown headings, numbering or code fences.`;
+
+const formatTime = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.floor(sec % 60)).padStart(2, '0')}`;
+
+export const buildAuditPrompt = (request: AuditRequest) => {
+    const lines = [
+        `Creative: ${request.creativeName}`,
+        `Duration: ${request.durationSec.toFixed(1)}s`,
+    ];
+    if (request.width && request.height) lines.push(`Resolution: ${request.width}x${request.height}`);
+    if (request.pacing) lines.push(formatPacing(request.pacing));
+    if (request.audio) lines.push(formatAudioEvidence(request.audio));
+    // Only audits from the workspace say anything about captions; benchmarked competitors don't
+    if (request.transcript || request.burnedInCaptions !== undefined) {
+        lines.push(formatTranscript(request.transcript, !!request.burnedInCaptions, request.durationSec));
+    }
+    if (request.brandProfile) lines.push(formatBrandProfile(request.brandProfile, request.transcript));
+    if (request.language) lines.push(formatAuditLanguage(request.language));
+    lines.push(`Sampled frames: ${request.frames.length}, labelled with their timestamp below.`);
+    return lines.join('\n');
+};
+
+const buildParts = (request: AuditRequest) => {
+    const parts: unknown[] = [{ text: buildAuditPrompt(request) }];
+    request.frames.forEach((frame) => {
+        const [header, data] = frame.dataUrl.split(',', 2);
+        const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/jpeg';
+        parts.push({ text: `Frame at ${formatTime(frame.timeSec)}` });
+        parts.push({ inline_data: { mime_type: mimeType, data } });
+    });
+    return parts;
+};
+
+const parseRetryAfter = (response: Response): number | undefined => {
+    const header = response.headers.get('retry-after');
+    if (!header) return undefined;
+    const seconds = Number(header);
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+const toProviderError = async (response: Response): Promise<AuditError> => {
+    let message = `Gemini request failed with HTTP ${response.status}`;
+    try {
+        const body = await response.json();
+        if (body?.error?.message) message = body.error.message;
+    } catch {
+        // Non-JSON error bodies keep the status message
+    }
+
+    if (response.status === 429) return new AuditQuotaError(message, parseRetryAfter(response));
+    if (response.status === 401 || response.status === 403 || /api key/i.test(message)) return new AuditAuthError(message);
+    // 5xx and 408 are transient on Gemini; other 4xx mean the request itself is wrong
+    const retryable = response.status >= 500 || response.status === 408;
+    return new AuditError('provider', message, retryable);
+};
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model?: string;
+    fetchImpl?: typeof fetch;
+}
+
+// One generateContent call, returning the candidate's text
+const generateText = async (
+    { apiKey, model = DEFAULT_MODEL, fetchImpl = fetch }: GeminiProviderOptions,
+    systemPrompt: string,
+    parts: unknown[],
+    temperature: number,
+    signal: AbortSignal
+): Promise<string> => {
+    const response = await fetchImpl(`${API_BASE}/${model}:generateContent`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+            system_instruction: { parts: [{ text: systemPrompt }] },
+            contents: [{ role: 'user', parts }],
+            generationConfig: { temperature },
+        }),
+        signal,
+    });
+
+    if (!response.ok) throw await toProviderError(response);
+
+    const body = await response.json();
+    const blockReason = body?.promptFeedback?.blockReason;
+    if (blockReason) throw new AuditSafetyError(blockReason);
+
+    const candidate = body?.candidates?.[0];
+    if (!candidate) throw new AuditError('provider', 'Gemini returned no candidates.', true);
+    if (BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) throw new AuditSafetyError(candidate.finishReason);
+
+    const text = (candidate.content?.parts ?? [])
+        .map((part: { text?: string }) => part.text ?? '')
+        .join('');
+    if (!text.trim()) throw new AuditError('provider', 'Gemini returned an empty response.', true);
+    return text;
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions): AuditProvider => {
+    const model = options.model ?? DEFAULT_MODEL;
+    return {
+        id: `gemini:${model}`,
+        label: `Gemini (${model})`,
+        generateReport: (request, signal) => generateText(options, AUDIT_SYSTEM_PROMPT, buildParts(request), 0.4, signal),
+    };
+};
+
+// The audit report stands in for the video: rewrites don't need the frames again
+export const buildRewritePrompt = (request: RewriteRequest) => {
+    const lines = [
+        `Creative: ${request.creativeName}`,
+        `Duration: ${request.durationSec.toFixed(1)}s`,
+        `Variants wanted: ${request.count}`,
+        request.targetSec
+            ? `Target runtime: ${request.targetSec}s of spoken voiceover`
+            : 'Target runtime: close to the original',
+        '',
+        'Original script:',
+        request.originalScript.trim() || '(not provided; work from the audit)',
+        '',
+        'Audit:',
+        serializeAuditReport(request.report),
+    ];
+    return lines.join('\n');
+};
+
+export const createGeminiRewriteProvider = (options: GeminiProviderOptions): RewriteProvider => {
+    const model = options.model ?? DEFAULT_MODEL;
+    return {
+        id: `gemini:${model}`,
+        label: `Gemini (${model})`,
+        // Warmer than audits: variants should differ from each other
+        generateRewrites: (request, signal) => generateText(options, REWRITE_SYSTEM_PROMPT, [{ text: buildRewritePrompt(request) }], 0.9, signal),
+    };
+};
@@ -0,0 +1,109 @@
+import en from "../locales/en.json";
+import es from "../locales/es.json";
+import fr from "../locales/fr.json";
+import de from "../locales/de.json";
+
+// UI copy lives in locales/<code>.json. en.json is the reference: every other file has to carry
+// the same keys, which the Record below makes the type-checker enforce.
+
+export type Locale = 'en' | 'es' | 'fr' | 'de';
+
+export type Messages = typeof en;
+
+export const LOCALES: Locale[] = ['en', 'es', 'fr', 'de'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_MESSAGES: Record<Locale, Messages> = { en, es, fr, de };
+
+// Each language names itself, so the switcher is readable whatever is currently selected
+export const LOCALE_LABELS: Record<Locale, string> = {
+    en: 'English',
+    es: 'Español',
+    fr: 'Français',
+    de: 'Deutsch',
+};
+
+const LOCALE_KEY = 'viralAudit.locale';
+const AUDIT_LANGUAGE_KEY = 'viralAudit.auditLanguage';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+const browserLanguages = (): readonly string[] =>
+    typeof navigator === 'undefined' ? [] : navigator.languages?.length ? navigator.languages : [navigator.language];
+
+export const readStoredLocale = (): Locale | null => {
+    try {
+        const stored = localStorage.getItem(LOCALE_KEY);
+        return isLocale(stored) ? stored : null;
+    } catch {
+        return null;
+    }
+};
+
+export const writeStoredLocale = (locale: Locale) => localStorage.setItem(LOCALE_KEY, locale);
+
+// A choice made in the switcher wins; otherwise the first browser language we have copy for
+export const detectLocale = (languages: readonly string[] = browserLanguages()): Locale => {
+    const stored = readStoredLocale();
+    if (stored) return stored;
+    for (const tag of languages) {
+        const primary = tag.toLowerCase().split('-')[0];
+        if (isLocale(primary)) return primary;
+    }
+    return DEFAULT_LOCALE;
+};
+
+// Fills {name} placeholders; unknown names are left as written so a missing value is visible
+export const interpolate = (template: string, values: Record<string, string | number>) =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+
+// Numbers follow the browser's region when it speaks the chosen language (en-GB rather than en)
+export const formattingLocale = (locale: Locale, languages: readonly string[] = browserLanguages()): string =>
+    languages.find((tag) => tag.toLowerCase().split('-')[0] === locale) ?? locale;
+
+export const formatPrice = (amount: number, currency: string, locale: string) =>
+    new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        // "£" rather than "£GB" in locales that qualify foreign currencies
+        currencyDisplay: 'narrowSymbol',
+        minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+        maximumFractionDigits: 2,
+    }).format(amount);
+
+// --- Audit language ---
+
+// Reports can be written in any language the model handles well; 'auto' follows the creative itself
+export const AUDIT_LANGUAGE_AUTO = 'auto';
+
+export const AUDIT_LANGUAGES = ['en', 'es', 'fr', 'de', 'pt', 'it', 'nl', 'pl', 'tr', 'ar', 'hi', 'ja', 'ko', 'zh'];
+
+export const isAuditLanguage = (value: unknown): value is string =>
+    value === AUDIT_LANGUAGE_AUTO || AUDIT_LANGUAGES.includes(value as string);
+
+// Name of a report language as written in `displayLocale`, falling back to the code itself
+export const auditLanguageName = (code: string, displayLocale: string = DEFAULT_LOCALE) => {
+    try {
+        return new Intl.DisplayNames([displayLocale], { type: 'language' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+};
+
+export const readAuditLanguage = (): string => {
+    try {
+        const stored = localStorage.getItem(AUDIT_LANGUAGE_KEY);
+        return isAuditLanguage(stored) ? stored : AUDIT_LANGUAGE_AUTO;
+    } catch {
+        return AUDIT_LANGUAGE_AUTO;
+    }
+};
+
+export const writeAuditLanguage = (language: string) => localStorage.setItem(AUDIT_LANGUAGE_KEY, language);
+
+// The line the audit prompt carries; named in English, which the model reads most reliably
+export const formatAuditLanguage = (language: string) =>
+    language === AUDIT_LANGUAGE_AUTO
+        ? 'Report language: the creative\'s own. Write in the language spoken or shown on screen, or English if it has no words.'
+        : `Report language: ${auditLanguageName(language, 'en')}.`;
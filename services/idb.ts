@@ -0,0 +1,105 @@
+// Shared IndexedDB database for data too large or too structured for localStorage.
+// Each entry in MIGRATIONS upgrades the schema by one version; append, never edit.
+
+const DB_NAME = 'viralAudit';
+
+// Migrations that change existing stores reach them through the upgrade transaction.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    // v1: audit history
+    (db) => {
+        const audits = db.createObjectStore('audits', { keyPath: 'id' });
+        audits.createIndex('userId', 'userId');
+    },
+    // v2: competitor benchmark sets
+    (db) => {
+        const benchmarks = db.createObjectStore('benchmarks', { keyPath: 'id' });
+        benchmarks.createIndex('userId', 'userId');
+    },
+    // v3: script rewrite variants
+    (db) => {
+        const rewrites = db.createObjectStore('rewrites', { keyPath: 'id' });
+        rewrites.createIndex('auditId', 'auditId');
+    },
+    // v4: audio fingerprint library
+    (db) => {
+        const tracks = db.createObjectStore('audioTracks', { keyPath: 'id' });
+        tracks.createIndex('userId', 'userId');
+    },
+    // v5: batch audit queue
+    (db) => {
+        const batches = db.createObjectStore('batches', { keyPath: 'id' });
+        batches.createIndex('userId', 'userId');
+        const items = db.createObjectStore('batchItems', { keyPath: 'id' });
+        items.createIndex('batchId', 'batchId');
+    },
+    // v6: team workspace libraries
+    (db, tx) => {
+        tx.objectStore('audits').createIndex('workspaceId', 'workspaceId');
+        tx.objectStore('benchmarks').createIndex('workspaceId', 'workspaceId');
+    },
+    // v7: scoring rubric versions
+    (db) => {
+        const rubrics = db.createObjectStore('rubrics', { keyPath: 'id' });
+        rubrics.createIndex('userId', 'userId');
+        rubrics.createIndex('workspaceId', 'workspaceId');
+    },
+    // v8: brand profiles
+    (db) => {
+        const profiles = db.createObjectStore('brandProfiles', { keyPath: 'id' });
+        profiles.createIndex('userId', 'userId');
+        profiles.createIndex('workspaceId', 'workspaceId');
+    },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const openAppDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+            request.onupgradeneeded = (event) => {
+                for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+                    MIGRATIONS[version](request.result, request.transaction!);
+                }
+            };
+            request.onsuccess = () => {
+                // Another tab upgrading the schema needs this connection out of the way
+                request.result.onversionchange = () => {
+                    request.result.close();
+                    dbPromise = null;
+                };
+                resolve(request.result);
+            };
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Close other ViralAudit tabs to finish updating local storage.'));
+        });
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+    const db = await openAppDb();
+    const tx = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+    const result = await work(tx.objectStore(storeName));
+    await done;
+    return result;
+};
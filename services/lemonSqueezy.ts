@@ -0,0 +1,42 @@
+import { User } from "../types";
+import { PLANS, Plan, PlanId } from "./plans";
+
+// Lemon Squeezy hosted checkout. Each paid plan is one product variant in the store; the
+// variant ids come from the environment so test and live stores can differ.
+
+export interface LemonSqueezyConfig {
+    // Store subdomain, as in https://<store>.lemonsqueezy.com
+    store: string;
+    variants: Partial<Record<PlanId, string>>;
+}
+
+// The defaults match the recorded webhook fixtures so the local stand-in works without a store
+export const LEMON_SQUEEZY_CONFIG: LemonSqueezyConfig = {
+    store: process.env.LEMON_SQUEEZY_STORE || 'viralaudit',
+    variants: {
+        starter: process.env.LEMON_SQUEEZY_STARTER_VARIANT || '214731',
+        pro: process.env.LEMON_SQUEEZY_PRO_VARIANT || '214732',
+    },
+};
+
+export const planForVariant = (variantId: string | number, config = LEMON_SQUEEZY_CONFIG): Plan | null => {
+    const entry = Object.entries(config.variants).find(([, id]) => id === String(variantId));
+    return entry ? PLANS[entry[0] as PlanId] : null;
+};
+
+// The user id travels as custom checkout data and comes back on every subscription webhook,
+// which is how a payment is matched to an account even if the buyer edits the email.
+export const checkoutUrl = (plan: Plan, user: User, config = LEMON_SQUEEZY_CONFIG): string | null => {
+    const variantId = config.variants[plan.id];
+    if (!variantId) return null;
+    const params = new URLSearchParams({
+        'checkout[email]': user.email,
+        'checkout[custom][user_id]': user.id,
+    });
+    if (user.name) params.set('checkout[name]', user.name);
+    return `https://${config.store}.lemonsqueezy.com/buy/${variantId}?${params.toString()}`;
+};
+
+// Subscribers change plans from the customer portal; a second checkout would start a second subscription
+export const hasLiveSubscription = (user: User | null) =>
+    !!user?.subscription && user.subscription.status !== 'expired';
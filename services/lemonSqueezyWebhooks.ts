@@ -0,0 +1,223 @@
+import { Subscription, SubscriptionStatus, User } from "../types";
+import { PlanId } from "./plans";
+import { LEMON_SQUEEZY_CONFIG, LemonSqueezyConfig, planForVariant } from "./lemonSqueezy";
+
+// Handles Lemon Squeezy subscription webhooks. Written against a plain request shape so the
+// same handler runs in a server route and in the local stand-in that replays recorded payloads.
+
+export type SubscriptionEventName =
+    | 'subscription_created'
+    | 'subscription_updated'
+    | 'subscription_cancelled'
+    | 'subscription_expired'
+    | 'subscription_payment_failed';
+
+const HANDLED_EVENTS: SubscriptionEventName[] = [
+    'subscription_created',
+    'subscription_updated',
+    'subscription_cancelled',
+    'subscription_expired',
+    'subscription_payment_failed',
+];
+
+// Statuses where the customer keeps what they paid for. Cancelled subscriptions run until ends_at,
+// after which Lemon Squeezy sends subscription_expired.
+const ENTITLED_STATUSES: SubscriptionStatus[] = ['on_trial', 'active', 'past_due', 'cancelled'];
+
+export type BillingUpdate = Pick<User, 'plan' | 'billingAnchor' | 'subscription'>;
+
+// The part of the user store the webhook needs
+export interface AccountStore {
+    findUser: (id: string) => Promise<User | null>;
+    findUserByEmail: (email: string) => Promise<User | null>;
+    updateBilling: (id: string, billing: BillingUpdate) => Promise<User>;
+}
+
+export interface WebhookRequest {
+    // Exactly as received: the signature covers the raw bytes, not re-serialised JSON
+    body: string;
+    headers: Record<string, string | undefined>;
+}
+
+export interface WebhookResult {
+    // HTTP status to answer with. Lemon Squeezy retries anything that isn't 2xx, so payloads
+    // that will never apply are acknowledged with 200 rather than rejected.
+    status: number;
+    message: string;
+    event?: string;
+    user?: User;
+}
+
+// The fields read from the payload; everything else Lemon Squeezy sends is ignored
+interface WebhookPayload {
+    meta?: {
+        event_name?: string;
+        custom_data?: { user_id?: string };
+    };
+    data?: {
+        type?: string;
+        id?: string;
+        attributes?: {
+            // subscriptions
+            customer_id?: number | string;
+            variant_id?: number | string;
+            user_email?: string;
+            status?: SubscriptionStatus;
+            renews_at?: string | null;
+            ends_at?: string | null;
+            created_at?: string;
+            updated_at?: string;
+            urls?: { customer_portal?: string };
+            // subscription-invoices
+            subscription_id?: number | string;
+        };
+    };
+}
+
+// --- Signature ---
+
+const hexToBytes = (hex: string) => {
+    if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return bytes;
+};
+
+const hmacKey = (secret: string, usage: KeyUsage) =>
+    crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+
+// X-Signature is the hex HMAC-SHA256 of the raw body keyed with the webhook signing secret
+export const signWebhookBody = async (body: string, secret: string) => {
+    const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret, 'sign'), new TextEncoder().encode(body));
+    return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// subtle.verify compares in constant time
+export const verifyWebhookSignature = async (body: string, signature: string | undefined, secret: string) => {
+    const bytes = signature ? hexToBytes(signature.trim()) : null;
+    if (!bytes || !secret) return false;
+    return crypto.subtle.verify('HMAC', await hmacKey(secret, 'verify'), bytes, new TextEncoder().encode(body));
+};
+
+// --- Handler ---
+
+const header = (headers: WebhookRequest['headers'], name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
+export interface WebhookHandlerOptions {
+    secret: string;
+    accounts: AccountStore;
+    config?: LemonSqueezyConfig;
+}
+
+export const createLemonSqueezyWebhookHandler = ({ secret, accounts, config = LEMON_SQUEEZY_CONFIG }: WebhookHandlerOptions) => {
+    const findAccount = async (payload: WebhookPayload) => {
+        const userId = payload.meta?.custom_data?.user_id;
+        const byId = userId ? await accounts.findUser(userId) : null;
+        if (byId) return byId;
+        // Subscriptions created outside our checkout link carry no user id
+        const email = payload.data?.attributes?.user_email;
+        return email ? accounts.findUserByEmail(email) : null;
+    };
+
+    const applySubscription = async (user: User, payload: WebhookPayload, event: SubscriptionEventName): Promise<WebhookResult> => {
+        const attributes = payload.data?.attributes ?? {};
+        const id = String(payload.data?.id ?? '');
+        const updatedAt = attributes.updated_at ?? new Date().toISOString();
+        const current = user.subscription;
+
+        if (current && current.id !== id) {
+            // Another subscription on the same account, usually an old one that was replaced. The
+            // account keeps following the current one while it's entitled, unless this is a new
+            // purchase made after the current one stopped renewing.
+            const replacing = event === 'subscription_created' && !['active', 'on_trial'].includes(current.status);
+            if (ENTITLED_STATUSES.includes(current.status) && !replacing) {
+                return { status: 200, event, user, message: `Ignored: the account is on subscription ${current.id}, which is still ${current.status}.` };
+            }
+        }
+        if (current && current.updatedAt > updatedAt) {
+            return { status: 200, event, user, message: 'Ignored: an update newer than this one was already applied.' };
+        }
+
+        const status = attributes.status ?? (event === 'subscription_expired' ? 'expired' : 'active');
+        const variantPlan = planForVariant(attributes.variant_id ?? '', config);
+        if (!variantPlan && ENTITLED_STATUSES.includes(status)) {
+            return { status: 200, event, user, message: `Ignored: variant ${attributes.variant_id} isn't mapped to a plan.` };
+        }
+
+        const subscription: Subscription = {
+            id,
+            customerId: String(attributes.customer_id ?? ''),
+            variantId: String(attributes.variant_id ?? ''),
+            status,
+            renewsAt: attributes.renews_at ?? null,
+            endsAt: attributes.ends_at ?? null,
+            portalUrl: attributes.urls?.customer_portal ?? current?.portalUrl,
+            updatedAt,
+        };
+        // Without an entitled subscription the account has no plan, and no audits until it subscribes again
+        const plan: PlanId | undefined = ENTITLED_STATUSES.includes(status) ? variantPlan.id : undefined;
+        // A plan change starts a fresh usage period; status-only updates keep the current one
+        const planChanged = plan !== user.plan;
+        const billingAnchor = planChanged
+            ? (event === 'subscription_created' ? attributes.created_at : null) ?? attributes.ends_at ?? updatedAt
+            : user.billingAnchor;
+
+        const updated = await accounts.updateBilling(user.id, { plan, billingAnchor, subscription });
+        return {
+            status: 200,
+            event,
+            user: updated,
+            message: planChanged
+                ? plan ? `Moved to the ${plan} plan (${status}).` : `Plan removed (${status}).`
+                : `Subscription is ${status}.`,
+        };
+    };
+
+    // Payment failures arrive as an invoice. The subscription itself moves to past_due in a
+    // separate subscription_updated, but the invoice can arrive first.
+    const applyPaymentFailed = async (user: User, payload: WebhookPayload): Promise<WebhookResult> => {
+        const event: SubscriptionEventName = 'subscription_payment_failed';
+        const current = user.subscription;
+        const subscriptionId = String(payload.data?.attributes?.subscription_id ?? '');
+        if (!current || current.id !== subscriptionId) {
+            return { status: 200, event, user, message: 'Ignored: no matching subscription on this account.' };
+        }
+        if (!['active', 'on_trial'].includes(current.status)) {
+            return { status: 200, event, user, message: `Subscription is already ${current.status}.` };
+        }
+        const updated = await accounts.updateBilling(user.id, {
+            plan: user.plan,
+            billingAnchor: user.billingAnchor,
+            subscription: { ...current, status: 'past_due' },
+        });
+        return { status: 200, event, user: updated, message: 'Payment failed; subscription marked past due.' };
+    };
+
+    return async (request: WebhookRequest): Promise<WebhookResult> => {
+        if (!(await verifyWebhookSignature(request.body, header(request.headers, 'x-signature'), secret))) {
+            return { status: 401, message: 'Invalid signature.' };
+        }
+
+        let payload: WebhookPayload;
+        try {
+            payload = JSON.parse(request.body);
+        } catch {
+            return { status: 400, message: 'Body is not valid JSON.' };
+        }
+
+        const event = (payload.meta?.event_name ?? header(request.headers, 'x-event-name')) as SubscriptionEventName;
+        if (!HANDLED_EVENTS.includes(event)) {
+            return { status: 200, event, message: `Ignored: ${event ?? 'unnamed'} events aren't handled.` };
+        }
+
+        const user = await findAccount(payload);
+        if (!user) {
+            return { status: 200, event, message: 'Ignored: no account matches this subscription.' };
+        }
+
+        return event === 'subscription_payment_failed'
+            ? applyPaymentFailed(user, payload)
+            : applySubscription(user, payload, event);
+    };
+};
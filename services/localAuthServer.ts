@@ -0,0 +1,382 @@
+import { Session, User } from "../types";
+import { AuthClient, AuthError, AuthResponse, validateCredentials, validateEmail, validatePassword } from "./authClient";
+import { Mailer, getMailCapture } from "./mailCapture";
+import type { AccountStore } from "./lemonSqueezyWebhooks";
+
+// In-browser stand-in for the auth API, persisted to localStorage. It behaves like the real
+// service would: salted PBKDF2 password hashes, short-lived access tokens and rotating refresh tokens.
+
+const DB_KEY = 'viralAudit.devAuthDb';
+const PBKDF2_ITERATIONS = 100_000;
+
+export interface StoredUser extends User {
+    passwordHash: string;
+    salt: string;
+}
+
+interface StoredToken {
+    userId: string;
+    // Pairs an access token with the refresh token issued alongside it
+    sessionId: string;
+    expiresAt: number;
+}
+
+export type ActionTokenType = 'reset' | 'verify' | 'magic';
+
+interface StoredActionToken {
+    type: ActionTokenType;
+    userId: string;
+    expiresAt: number;
+}
+
+export interface DevAuthDb {
+    users: Record<string, StoredUser>;
+    accessTokens: Record<string, StoredToken>;
+    refreshTokens: Record<string, StoredToken>;
+    // Single-use tokens delivered by email
+    actionTokens: Record<string, StoredActionToken>;
+}
+
+const ACTION_TOKEN_TTL_MS: Record<ActionTokenType, number> = {
+    reset: 60 * 60 * 1000,
+    verify: 24 * 60 * 60 * 1000,
+    magic: 15 * 60 * 1000,
+};
+
+export interface LocalAuthServerOptions {
+    storage?: Storage;
+    accessTtlMs?: number;
+    refreshTtlMs?: number;
+    latencyMs?: number;
+    now?: () => number;
+    mailer?: Mailer;
+    // Origin the emailed links point at
+    linkBase?: string;
+}
+
+// --- Crypto helpers ---
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const randomToken = (byteLength = 32) => toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const hashPassword = async (password: string, salt: string) => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+        key,
+        256
+    );
+    return toBase64Url(new Uint8Array(bits));
+};
+
+// Constant-time comparison so a wrong password can't be timed character by character
+export const safeEqual = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+};
+
+const publicUser = ({ passwordHash, salt, ...user }: StoredUser): User => user;
+
+// --- Storage ---
+
+// Accounts created before email verification existed have no flag. They signed up without being
+// asked to confirm, so they count as verified rather than being locked out of audits.
+const backfillUsers = (db: DevAuthDb): DevAuthDb => {
+    Object.values(db.users).forEach((user) => {
+        if (user.emailVerified === undefined) user.emailVerified = true;
+    });
+    return db;
+};
+
+const loadDevAuthDb = (storage: Storage): DevAuthDb => {
+    const empty: DevAuthDb = { users: {}, accessTokens: {}, refreshTokens: {}, actionTokens: {} };
+    try {
+        const raw = storage.getItem(DB_KEY);
+        // Spread over the empty shape so databases written before a table existed still load
+        if (raw) return backfillUsers({ ...empty, ...JSON.parse(raw) });
+    } catch {
+        // A corrupt dev database is discarded rather than blocking sign-in
+    }
+    return empty;
+};
+
+const saveDevAuthDb = (storage: Storage, db: DevAuthDb) => storage.setItem(DB_KEY, JSON.stringify(db));
+
+// --- Server ---
+
+export const createLocalAuthServer = ({
+    storage = localStorage,
+    accessTtlMs = 15 * 60 * 1000,
+    refreshTtlMs = 30 * 24 * 60 * 60 * 1000,
+    latencyMs = 250,
+    now = Date.now,
+    mailer = getMailCapture(),
+    linkBase = window.location.origin,
+}: LocalAuthServerOptions = {}) => {
+    const load = () => loadDevAuthDb(storage);
+    const save = (db: DevAuthDb) => saveDevAuthDb(storage, db);
+
+    const delay = () => new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+    const findByEmail = (db: DevAuthDb, email: string) =>
+        Object.values(db.users).find((u) => u.email === email.trim().toLowerCase());
+
+    const pruneExpired = (db: DevAuthDb) => {
+        const t = now();
+        for (const table of [db.accessTokens, db.refreshTokens, db.actionTokens]) {
+            for (const [token, record] of Object.entries(table)) {
+                if (record.expiresAt <= t) delete table[token];
+            }
+        }
+    };
+
+    const issueSession = (db: DevAuthDb, userId: string): Session => {
+        const t = now();
+        const sessionId = randomToken(9);
+        const session: Session = {
+            accessToken: randomToken(),
+            refreshToken: randomToken(),
+            accessExpiresAt: t + accessTtlMs,
+            refreshExpiresAt: t + refreshTtlMs,
+        };
+        db.accessTokens[session.accessToken] = { userId, sessionId, expiresAt: session.accessExpiresAt };
+        db.refreshTokens[session.refreshToken] = { userId, sessionId, expiresAt: session.refreshExpiresAt };
+        return session;
+    };
+
+    const revokeSessions = (db: DevAuthDb, userId: string) => {
+        for (const table of [db.accessTokens, db.refreshTokens]) {
+            for (const [token, record] of Object.entries(table)) {
+                if (record.userId === userId) delete table[token];
+            }
+        }
+    };
+
+    const issueActionToken = (db: DevAuthDb, type: ActionTokenType, userId: string) => {
+        // A new link supersedes any earlier one of the same type
+        for (const [token, record] of Object.entries(db.actionTokens)) {
+            if (record.type === type && record.userId === userId) delete db.actionTokens[token];
+        }
+        const token = randomToken();
+        db.actionTokens[token] = { type, userId, expiresAt: now() + ACTION_TOKEN_TTL_MS[type] };
+        return token;
+    };
+
+    const consumeActionToken = (db: DevAuthDb, type: ActionTokenType, token: string): StoredUser => {
+        const record = db.actionTokens[token];
+        if (!record || record.type !== type) {
+            throw new AuthError('invalid_token', 'This link is invalid or has already been used.');
+        }
+        delete db.actionTokens[token];
+        if (record.expiresAt <= now() || !db.users[record.userId]) {
+            save(db);
+            throw new AuthError('invalid_token', 'This link has expired. Request a new one.');
+        }
+        return db.users[record.userId];
+    };
+
+    const authLink = (view: ActionTokenType, token: string) =>
+        `${linkBase}/?auth=${view}&token=${encodeURIComponent(token)}`;
+
+    const sendVerification = (db: DevAuthDb, user: StoredUser) => {
+        const link = authLink('verify', issueActionToken(db, 'verify', user.id));
+        return mailer.send({
+            to: user.email,
+            subject: 'Confirm your ViralAudit email',
+            text: `Confirm your email to start running audits. This link expires in 24 hours.\n\n${link}`,
+            link,
+        });
+    };
+
+    const respond = (db: DevAuthDb, user: StoredUser): AuthResponse => {
+        pruneExpired(db);
+        const session = issueSession(db, user.id);
+        save(db);
+        return { user: publicUser(user), session };
+    };
+
+    const client: AuthClient = {
+        signup: async (email, password) => {
+            await delay();
+            validateCredentials(email, password);
+            const db = load();
+            if (findByEmail(db, email)) {
+                throw new AuthError('email_taken', 'An account with this email already exists. Sign in instead.', 'email');
+            }
+            const salt = randomToken(16);
+            const createdAt = new Date(now()).toISOString();
+            const user: StoredUser = {
+                id: `usr_${randomToken(9)}`,
+                email: email.trim().toLowerCase(),
+                emailVerified: false,
+                billingAnchor: createdAt,
+                createdAt,
+                salt,
+                passwordHash: await hashPassword(password, salt),
+            };
+            db.users[user.id] = user;
+            const response = respond(db, user);
+            await sendVerification(db, user);
+            save(db);
+            return response;
+        },
+
+        login: async (email, password) => {
+            await delay();
+            const db = load();
+            const user = findByEmail(db, email);
+            // Hash even for unknown emails so both failures take the same time
+            const hash = await hashPassword(password, user?.salt ?? 'unknown-user');
+            if (!user || !safeEqual(hash, user.passwordHash)) {
+                throw new AuthError('invalid_credentials', 'Incorrect email or password.', 'password');
+            }
+            return respond(db, user);
+        },
+
+        getUser: async (accessToken) => {
+            await delay();
+            const db = load();
+            const record = db.accessTokens[accessToken];
+            if (!record || !db.users[record.userId]) {
+                throw new AuthError('invalid_session', 'Your session is no longer valid. Sign in again.');
+            }
+            if (record.expiresAt <= now()) {
+                throw new AuthError('session_expired', 'Your session has expired.');
+            }
+            return publicUser(db.users[record.userId]);
+        },
+
+        refresh: async (refreshToken) => {
+            await delay();
+            const db = load();
+            const record = db.refreshTokens[refreshToken];
+            // Refresh tokens are single use: the old one is revoked whether or not it was still valid
+            delete db.refreshTokens[refreshToken];
+            if (!record || record.expiresAt <= now() || !db.users[record.userId]) {
+                save(db);
+                throw new AuthError('session_expired', 'Your session has expired. Sign in again.');
+            }
+            for (const [token, access] of Object.entries(db.accessTokens)) {
+                if (access.sessionId === record.sessionId) delete db.accessTokens[token];
+            }
+            return respond(db, db.users[record.userId]);
+        },
+
+        logout: async (refreshToken) => {
+            await delay();
+            const db = load();
+            const record = db.refreshTokens[refreshToken];
+            if (record) {
+                delete db.refreshTokens[refreshToken];
+                for (const [token, access] of Object.entries(db.accessTokens)) {
+                    if (access.sessionId === record.sessionId) delete db.accessTokens[token];
+                }
+            }
+            save(db);
+        },
+
+        requestPasswordReset: async (email) => {
+            await delay();
+            validateEmail(email);
+            const db = load();
+            const user = findByEmail(db, email);
+            if (!user) return;
+            const link = authLink('reset', issueActionToken(db, 'reset', user.id));
+            save(db);
+            await mailer.send({
+                to: user.email,
+                subject: 'Reset your ViralAudit password',
+                text: `Someone asked to reset the password for this account. If that was you, choose a new one within the hour. Otherwise ignore this email.\n\n${link}`,
+                link,
+            });
+        },
+
+        resetPassword: async (token, newPassword) => {
+            await delay();
+            validatePassword(newPassword);
+            const db = load();
+            const user = consumeActionToken(db, 'reset', token);
+            user.salt = randomToken(16);
+            user.passwordHash = await hashPassword(newPassword, user.salt);
+            // The reset email proves inbox ownership too
+            user.emailVerified = true;
+            revokeSessions(db, user.id);
+            return respond(db, user);
+        },
+
+        sendVerificationEmail: async (accessToken) => {
+            await delay();
+            const db = load();
+            const record = db.accessTokens[accessToken];
+            const user = record && record.expiresAt > now() ? db.users[record.userId] : undefined;
+            if (!user) throw new AuthError('invalid_session', 'Sign in again to resend the confirmation email.');
+            if (user.emailVerified) return;
+            await sendVerification(db, user);
+            save(db);
+        },
+
+        verifyEmail: async (token) => {
+            await delay();
+            const db = load();
+            const user = consumeActionToken(db, 'verify', token);
+            user.emailVerified = true;
+            save(db);
+            return publicUser(user);
+        },
+
+        requestMagicLink: async (email) => {
+            await delay();
+            validateEmail(email);
+            const db = load();
+            const user = findByEmail(db, email);
+            if (!user) return;
+            const link = authLink('magic', issueActionToken(db, 'magic', user.id));
+            save(db);
+            await mailer.send({
+                to: user.email,
+                subject: 'Your ViralAudit sign-in link',
+                text: `Use this link to sign in. It works once and expires in 15 minutes.\n\n${link}`,
+                link,
+            });
+        },
+
+        signInWithMagicLink: async (token) => {
+            await delay();
+            const db = load();
+            const user = consumeActionToken(db, 'magic', token);
+            user.emailVerified = true;
+            return respond(db, user);
+        },
+    };
+
+    return client;
+};
+
+// --- Accounts ---
+
+// Server-side view of the same database for the billing webhook, which acts on users directly
+// rather than through a session.
+export const createLocalAccountStore = (storage: Storage = localStorage): AccountStore => ({
+    findUser: async (id) => {
+        const user = loadDevAuthDb(storage).users[id];
+        return user ? publicUser(user) : null;
+    },
+
+    findUserByEmail: async (email) => {
+        const user = Object.values(loadDevAuthDb(storage).users).find((u) => u.email === email.trim().toLowerCase());
+        return user ? publicUser(user) : null;
+    },
+
+    updateBilling: async (id, billing) => {
+        const db = loadDevAuthDb(storage);
+        const user = db.users[id];
+        if (!user) throw new Error(`No account with id ${id}`);
+        Object.assign(user, billing);
+        saveDevAuthDb(storage, db);
+        return publicUser(user);
+    },
+});
@@ -0,0 +1,98 @@
+import { User } from "../types";
+import { createLocalAccountStore } from "./localAuthServer";
+import { SubscriptionEventName, WebhookResult, createLemonSqueezyWebhookHandler, signWebhookBody } from "./lemonSqueezyWebhooks";
+import subscriptionCreated from "../fixtures/lemonsqueezy/subscription_created.json";
+import subscriptionUpdated from "../fixtures/lemonsqueezy/subscription_updated.json";
+import subscriptionCancelled from "../fixtures/lemonsqueezy/subscription_cancelled.json";
+import subscriptionExpired from "../fixtures/lemonsqueezy/subscription_expired.json";
+import subscriptionPaymentFailed from "../fixtures/lemonsqueezy/subscription_payment_failed.json";
+import resubscribedCreated from "../fixtures/lemonsqueezy/resubscribed/subscription_created.json";
+import resubscribedExpired from "../fixtures/lemonsqueezy/resubscribed/subscription_expired.json";
+
+// Stand-in for Lemon Squeezy during development: replays recorded webhook payloads, signed the
+// way the real service signs them, through the same handler a deployed server would run.
+
+// Only ever used locally. The deployed handler reads its secret from the server environment.
+export const DEV_WEBHOOK_SECRET = 'viralaudit-dev-webhook-secret';
+
+// Recorded from a test-mode store, in the order a subscription's life produces them
+export const WEBHOOK_FIXTURES: Record<SubscriptionEventName, unknown> = {
+    subscription_created: subscriptionCreated,
+    subscription_updated: subscriptionUpdated,
+    subscription_payment_failed: subscriptionPaymentFailed,
+    subscription_cancelled: subscriptionCancelled,
+    subscription_expired: subscriptionExpired,
+};
+
+// Deliveries that only make sense together, replayed in order. In `resubscribed` the buyer cancels
+// and takes out a new Professional subscription before the old one runs out; the old one's
+// subscription_expired then arrives and must not take the plan away.
+export const WEBHOOK_SCENARIOS: Record<string, { event: SubscriptionEventName; payload: unknown }[]> = {
+    resubscribed: [
+        { event: 'subscription_created', payload: resubscribedCreated },
+        { event: 'subscription_expired', payload: resubscribedExpired },
+    ],
+};
+
+type Fixture = { data: { attributes: { updated_at: string } } };
+
+const FIXTURE_USER_ID = 'usr_fixture';
+const FIXTURE_EMAIL = 'buyer@example.com';
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+// Rewrites a fixture for the signed-in account, moving every timestamp so the event happened just
+// now. Without the shift, replaying an older fixture after a newer one would be dropped as stale.
+const retarget = (value: unknown, user: User, offsetMs: number): unknown => {
+    if (Array.isArray(value)) return value.map((item) => retarget(item, user, offsetMs));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, retarget(item, user, offsetMs)]));
+    }
+    if (value === FIXTURE_USER_ID) return user.id;
+    if (value === FIXTURE_EMAIL) return user.email;
+    if (typeof value === 'string' && ISO_DATE.test(value)) return new Date(Date.parse(value) + offsetMs).toISOString();
+    return value;
+};
+
+const deliverFixture = async (
+    event: SubscriptionEventName,
+    payload: unknown,
+    user: User,
+    offsetMs: number,
+    { secret = DEV_WEBHOOK_SECRET, storage = localStorage }: { secret?: string; storage?: Storage }
+): Promise<WebhookResult> => {
+    const body = JSON.stringify(retarget(payload, user, offsetMs));
+    const handle = createLemonSqueezyWebhookHandler({ secret: DEV_WEBHOOK_SECRET, accounts: createLocalAccountStore(storage) });
+    return handle({
+        body,
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Event-Name': event,
+            'X-Signature': await signWebhookBody(body, secret),
+        },
+    });
+};
+
+// `secret` only changes how the payload is signed, so a wrong one shows what a forged delivery gets back
+export const replayWebhookFixture = async (
+    event: SubscriptionEventName,
+    user: User,
+    options: { secret?: string; storage?: Storage } = {}
+): Promise<WebhookResult> => {
+    const fixture = WEBHOOK_FIXTURES[event] as Fixture;
+    return deliverFixture(event, fixture, user, Date.now() - Date.parse(fixture.data.attributes.updated_at), options);
+};
+
+// Every step shares one shift, so the first happens now and the rest keep their recorded spacing
+export const replayWebhookScenario = async (
+    name: string,
+    user: User,
+    { storage = localStorage }: { storage?: Storage } = {}
+): Promise<{ event: SubscriptionEventName; result: WebhookResult }[]> => {
+    const steps = WEBHOOK_SCENARIOS[name];
+    const offsetMs = Date.now() - Date.parse((steps[0].payload as Fixture).data.attributes.updated_at);
+    const results = [];
+    for (const { event, payload } of steps) {
+        results.push({ event, result: await deliverFixture(event, payload, user, offsetMs, { storage }) });
+    }
+    return results;
+};
@@ -0,0 +1,178 @@
+import { SavedAudit, ShareLink } from "../types";
+import { getAuthClient } from "./authClient";
+import { AccessScope, checkAccess, personalAccessScope } from "./entitlements";
+import { hashPassword, randomToken, safeEqual } from "./localAuthServer";
+import { ShareClient, ShareError } from "./shareClient";
+import { getWorkspaceClient } from "./workspaceClient";
+import { roleAllows } from "./workspaces";
+
+// In-browser stand-in for the sharing API, persisted to localStorage. Links only resolve in the
+// browser that created them; the real service serves them to anyone.
+
+const SHARES_KEY = 'viralAudit.devShares';
+
+interface StoredShare {
+    token: string;
+    ownerId: string;
+    // Links to workspace audits are managed by any member who may manage shares
+    workspaceId?: string;
+    auditId: string;
+    // Snapshot of the audit at share time, so the link keeps working if local history is cleared
+    snapshot: Pick<SavedAudit, 'creativeName' | 'createdAt' | 'durationSec' | 'report' | 'scoring'>;
+    createdAt: string;
+    expiresAt: string | null;
+    passwordHash: string | null;
+    salt: string | null;
+    views: number;
+    revokedAt: string | null;
+}
+
+export interface LocalShareServerOptions {
+    storage?: Storage;
+    latencyMs?: number;
+    now?: () => number;
+    // Origin the share URLs point at
+    linkBase?: string;
+}
+
+export const createLocalShareServer = ({
+    storage = localStorage,
+    latencyMs = 200,
+    now = Date.now,
+    linkBase = window.location.origin,
+}: LocalShareServerOptions = {}): ShareClient => {
+    const load = (): Record<string, StoredShare> => {
+        try {
+            return JSON.parse(storage.getItem(SHARES_KEY) ?? '{}');
+        } catch {
+            return {};
+        }
+    };
+
+    const save = (shares: Record<string, StoredShare>) => storage.setItem(SHARES_KEY, JSON.stringify(shares));
+
+    const delay = () => new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+    const toLink = ({ token, auditId, createdAt, expiresAt, passwordHash, views, revokedAt }: StoredShare): ShareLink => ({
+        token,
+        auditId,
+        url: `${linkBase}/s/${token}`,
+        createdAt,
+        expiresAt,
+        hasPassword: !!passwordHash,
+        views,
+        revokedAt,
+    });
+
+    const ownerOf = async (accessToken: string) => {
+        try {
+            return await getAuthClient().getUser(accessToken);
+        } catch {
+            throw new ShareError('invalid_session', 'Sign in again to manage share links.');
+        }
+    };
+
+    // Workspaces the caller may manage links in, by id
+    const shareableWorkspaces = async (accessToken: string) => {
+        const workspaces = await getWorkspaceClient().listWorkspaces(accessToken).catch(() => []);
+        return new Map(workspaces.filter((workspace) => roleAllows(workspace.role, 'share.manage')).map((workspace) => [workspace.id, workspace]));
+    };
+
+    const canManage = (share: StoredShare, ownerId: string, workspaceIds: Set<string>) =>
+        share.workspaceId ? workspaceIds.has(share.workspaceId) : share.ownerId === ownerId;
+
+    const findOwned = async (shares: Record<string, StoredShare>, accessToken: string, ownerId: string, token: string) => {
+        const share = shares[token];
+        const workspaceIds = share?.workspaceId ? new Set((await shareableWorkspaces(accessToken)).keys()) : new Set<string>();
+        // Someone else's link reads as missing, as with audits
+        if (!share || !canManage(share, ownerId, workspaceIds)) throw new ShareError('not_found', 'This share link no longer exists.');
+        return share;
+    };
+
+    return {
+        createShare: async (accessToken, audit, { expiresInMs, password } = {}) => {
+            const owner = await ownerOf(accessToken);
+            // A workspace audit is shared under the workspace's plan, by members allowed to share
+            let scope: AccessScope | null = null;
+            if (audit.workspaceId) {
+                const workspace = (await shareableWorkspaces(accessToken)).get(audit.workspaceId);
+                if (workspace) scope = { account: workspace.billing, role: workspace.role };
+            } else if (audit.userId === owner.id) {
+                scope = personalAccessScope(owner);
+            }
+            if (!scope) throw new ShareError('not_found', 'Audit not found.');
+            const decision = checkAccess(owner, { type: 'feature', feature: 'share_links' }, undefined, scope);
+            if (!decision.allowed) throw new ShareError('not_allowed', decision.message ?? 'Sharing is not included in your plan.');
+
+            const salt = password ? randomToken(16) : null;
+            const share: StoredShare = {
+                token: randomToken(24),
+                ownerId: owner.id,
+                workspaceId: audit.workspaceId,
+                auditId: audit.id,
+                snapshot: {
+                    creativeName: audit.creativeName,
+                    createdAt: audit.createdAt,
+                    durationSec: audit.durationSec,
+                    report: audit.report,
+                    scoring: audit.scoring,
+                },
+                createdAt: new Date(now()).toISOString(),
+                expiresAt: expiresInMs ? new Date(now() + expiresInMs).toISOString() : null,
+                passwordHash: password ? await hashPassword(password, salt) : null,
+                salt,
+                views: 0,
+                revokedAt: null,
+            };
+            await delay();
+            const shares = load();
+            shares[share.token] = share;
+            save(shares);
+            return toLink(share);
+        },
+
+        listShares: async (accessToken, auditId) => {
+            const owner = await ownerOf(accessToken);
+            const workspaceIds = new Set((await shareableWorkspaces(accessToken)).keys());
+            await delay();
+            return Object.values(load())
+                .filter((share) => share.auditId === auditId && canManage(share, owner.id, workspaceIds))
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+                .map(toLink);
+        },
+
+        revokeShare: async (accessToken, token) => {
+            const owner = await ownerOf(accessToken);
+            await delay();
+            const shares = load();
+            const share = await findOwned(shares, accessToken, owner.id, token);
+            share.revokedAt ??= new Date(now()).toISOString();
+            save(shares);
+            return toLink(share);
+        },
+
+        openShare: async (token, password) => {
+            await delay();
+            const share = load()[token];
+            if (!share) throw new ShareError('not_found', 'This link is not valid. Check that it was copied in full.');
+            if (share.revokedAt) throw new ShareError('revoked', 'The owner has turned this link off.');
+            if (share.expiresAt && Date.parse(share.expiresAt) <= now()) {
+                throw new ShareError('expired', 'This link has expired. Ask the sender for a new one.');
+            }
+            if (share.passwordHash) {
+                if (!password) throw new ShareError('password_required', 'This report is password protected.');
+                const hash = await hashPassword(password, share.salt ?? '');
+                if (!safeEqual(hash, share.passwordHash)) throw new ShareError('wrong_password', 'That password is not correct.');
+            }
+
+            // Re-read before counting: hashing takes long enough for another view to land
+            const shares = load();
+            const current = shares[token];
+            if (current) {
+                current.views += 1;
+                save(shares);
+            }
+            return { ...share.snapshot, expiresAt: share.expiresAt };
+        },
+    };
+};
@@ -0,0 +1,312 @@
+import { User, Workspace, WorkspaceInvite, WorkspaceMember, WorkspaceRole, WorkspaceSummary } from "../types";
+import { AuthError, getAuthClient, validateEmail } from "./authClient";
+import { checkAccess } from "./entitlements";
+import { createLocalAccountStore, randomToken } from "./localAuthServer";
+import { Mailer, getMailCapture } from "./mailCapture";
+import { WorkspaceClient, WorkspaceError } from "./workspaceClient";
+import { WorkspaceAction, manageableRoles, roleAllows, roleDeniedMessage } from "./workspaces";
+
+// In-browser stand-in for the workspace API, persisted to localStorage next to the dev auth
+// database. Members are looked up there, so invites can only be accepted by accounts created in
+// this browser; the real service shares workspaces across devices.
+
+const DB_KEY = 'viralAudit.devWorkspaces';
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 60;
+
+interface StoredMembership {
+    role: WorkspaceRole;
+    joinedAt: string;
+}
+
+interface StoredWorkspace extends Workspace {
+    members: Record<string, StoredMembership>;
+}
+
+interface StoredInvite {
+    token: string;
+    workspaceId: string;
+    email: string;
+    role: WorkspaceRole;
+    invitedBy: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+interface DevWorkspaceDb {
+    workspaces: Record<string, StoredWorkspace>;
+    invites: Record<string, StoredInvite>;
+}
+
+export interface LocalWorkspaceServerOptions {
+    storage?: Storage;
+    latencyMs?: number;
+    now?: () => number;
+    mailer?: Mailer;
+    // Origin the invite links point at
+    linkBase?: string;
+}
+
+export const createLocalWorkspaceServer = ({
+    storage = localStorage,
+    latencyMs = 200,
+    now = Date.now,
+    mailer = getMailCapture(),
+    linkBase = window.location.origin,
+}: LocalWorkspaceServerOptions = {}): WorkspaceClient => {
+    const accounts = createLocalAccountStore(storage);
+
+    const load = (): DevWorkspaceDb => {
+        const empty: DevWorkspaceDb = { workspaces: {}, invites: {} };
+        try {
+            const raw = storage.getItem(DB_KEY);
+            if (raw) return { ...empty, ...JSON.parse(raw) };
+        } catch {
+            // A corrupt dev database is discarded, as with the auth one
+        }
+        return empty;
+    };
+
+    const save = (db: DevWorkspaceDb) => storage.setItem(DB_KEY, JSON.stringify(db));
+
+    const delay = () => new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+    const callerOf = async (accessToken: string): Promise<User> => {
+        try {
+            return await getAuthClient().getUser(accessToken);
+        } catch {
+            throw new WorkspaceError('invalid_session', 'Sign in again to manage workspaces.');
+        }
+    };
+
+    const pruneInvites = (db: DevWorkspaceDb) => {
+        for (const [token, invite] of Object.entries(db.invites)) {
+            if (Date.parse(invite.expiresAt) <= now() || !db.workspaces[invite.workspaceId]) delete db.invites[token];
+        }
+    };
+
+    // A workspace the caller isn't in reads as missing, so ids can't be probed
+    const membership = (db: DevWorkspaceDb, workspaceId: string, userId: string) => {
+        const workspace = db.workspaces[workspaceId];
+        const member = workspace?.members[userId];
+        if (!workspace || !member) throw new WorkspaceError('not_found', 'Workspace not found.');
+        return { workspace, role: member.role };
+    };
+
+    const requireAction = (role: WorkspaceRole, action: WorkspaceAction) => {
+        if (!roleAllows(role, action)) throw new WorkspaceError('forbidden', roleDeniedMessage(role, action));
+    };
+
+    const requireManageable = (callerRole: WorkspaceRole, role: WorkspaceRole) => {
+        if (manageableRoles(callerRole).includes(role)) return;
+        throw new WorkspaceError('forbidden', role === 'owner' ? "The owner's role can't be given or changed." : `Only the owner can give or change the ${role} role.`);
+    };
+
+    const validateName = (name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) throw new WorkspaceError('invalid_input', 'Give the workspace a name.');
+        if (trimmed.length > MAX_NAME_LENGTH) throw new WorkspaceError('invalid_input', `Keep the name under ${MAX_NAME_LENGTH} characters.`);
+        return trimmed;
+    };
+
+    const toSummary = async (workspace: StoredWorkspace, userId: string): Promise<WorkspaceSummary> => {
+        const owner = await accounts.findUser(workspace.ownerId);
+        const { members, ...rest } = workspace;
+        return {
+            ...rest,
+            role: members[userId].role,
+            memberCount: Object.keys(members).length,
+            // The owner's own account, so audits in every workspace they own and in their personal library
+            // share one counter. Keying usage by workspace would give each new workspace a fresh quota.
+            billing: {
+                id: workspace.ownerId,
+                plan: owner?.plan,
+                billingAnchor: owner?.billingAnchor,
+                createdAt: owner?.createdAt ?? workspace.createdAt,
+            },
+        };
+    };
+
+    const toInvite = (db: DevWorkspaceDb, invite: StoredInvite): WorkspaceInvite => ({
+        ...invite,
+        workspaceName: db.workspaces[invite.workspaceId]?.name ?? '',
+    });
+
+    const findInvite = (db: DevWorkspaceDb, token: string) => {
+        pruneInvites(db);
+        const invite = db.invites[token];
+        if (!invite) throw new WorkspaceError('invalid_invite', 'This invite has expired or was already used. Ask for a new one.');
+        return invite;
+    };
+
+    return {
+        listWorkspaces: async (accessToken) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const workspaces = Object.values(load().workspaces)
+                .filter((workspace) => workspace.members[caller.id])
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+            return Promise.all(workspaces.map((workspace) => toSummary(workspace, caller.id)));
+        },
+
+        createWorkspace: async (accessToken, name) => {
+            const caller = await callerOf(accessToken);
+            const decision = checkAccess(caller, { type: 'feature', feature: 'team_workspaces' });
+            if (!decision.allowed) throw new WorkspaceError('forbidden', decision.message ?? 'Workspaces are not included in your plan.');
+            await delay();
+            const db = load();
+            const createdAt = new Date(now()).toISOString();
+            const workspace: StoredWorkspace = {
+                id: `wsp_${randomToken(9)}`,
+                name: validateName(name),
+                ownerId: caller.id,
+                createdAt,
+                members: { [caller.id]: { role: 'owner', joinedAt: createdAt } },
+            };
+            db.workspaces[workspace.id] = workspace;
+            save(db);
+            return toSummary(workspace, caller.id);
+        },
+
+        renameWorkspace: async (accessToken, workspaceId, name) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const db = load();
+            const { workspace, role } = membership(db, workspaceId, caller.id);
+            requireAction(role, 'workspace.manage');
+            workspace.name = validateName(name);
+            save(db);
+            return toSummary(workspace, caller.id);
+        },
+
+        listMembers: async (accessToken, workspaceId) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const db = load();
+            const { workspace, role } = membership(db, workspaceId, caller.id);
+            pruneInvites(db);
+            const members = await Promise.all(
+                Object.entries(workspace.members).map(async ([userId, { role: memberRole, joinedAt }]): Promise<WorkspaceMember> => {
+                    const user = await accounts.findUser(userId);
+                    return { userId, email: user?.email ?? 'Deleted account', name: user?.name, role: memberRole, joinedAt };
+                })
+            );
+            const invites = roleAllows(role, 'members.invite')
+                ? Object.values(db.invites).filter((invite) => invite.workspaceId === workspaceId).map((invite) => toInvite(db, invite))
+                : [];
+            return { members, invites };
+        },
+
+        inviteMember: async (accessToken, workspaceId, email, role) => {
+            const caller = await callerOf(accessToken);
+            try {
+                validateEmail(email);
+            } catch (err) {
+                throw new WorkspaceError('invalid_input', err instanceof AuthError ? err.message : 'Enter a valid email address.');
+            }
+            await delay();
+            const db = load();
+            const { workspace, role: callerRole } = membership(db, workspaceId, caller.id);
+            requireAction(callerRole, 'members.invite');
+            requireManageable(callerRole, role);
+
+            const address = email.trim().toLowerCase();
+            const existing = await accounts.findUserByEmail(address);
+            if (existing && workspace.members[existing.id]) {
+                throw new WorkspaceError('already_member', `${address} is already in ${workspace.name}.`);
+            }
+            for (const [token, invite] of Object.entries(db.invites)) {
+                if (invite.workspaceId === workspaceId && invite.email === address) delete db.invites[token];
+            }
+            const invite: StoredInvite = {
+                token: randomToken(),
+                workspaceId,
+                email: address,
+                role,
+                invitedBy: caller.email,
+                createdAt: new Date(now()).toISOString(),
+                expiresAt: new Date(now() + INVITE_TTL_MS).toISOString(),
+            };
+            db.invites[invite.token] = invite;
+            save(db);
+
+            const link = `${linkBase}/invite/${encodeURIComponent(invite.token)}`;
+            await mailer.send({
+                to: address,
+                subject: `${caller.email} invited you to ${workspace.name} on ViralAudit`,
+                text: `You've been invited to join ${workspace.name} as ${role === 'admin' ? 'an' : 'a'} ${role}. Sign in or create an account with this email to accept. The invite expires in 7 days.\n\n${link}`,
+                link,
+            });
+            return toInvite(db, invite);
+        },
+
+        revokeInvite: async (accessToken, workspaceId, inviteToken) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const db = load();
+            const { role } = membership(db, workspaceId, caller.id);
+            requireAction(role, 'members.invite');
+            if (db.invites[inviteToken]?.workspaceId === workspaceId) delete db.invites[inviteToken];
+            save(db);
+        },
+
+        getInvite: async (accessToken, inviteToken) => {
+            await callerOf(accessToken);
+            await delay();
+            const db = load();
+            return toInvite(db, findInvite(db, inviteToken));
+        },
+
+        acceptInvite: async (accessToken, inviteToken) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const db = load();
+            const invite = findInvite(db, inviteToken);
+            if (invite.email !== caller.email) {
+                throw new WorkspaceError('forbidden', `This invite was sent to ${invite.email}. Sign in with that email to accept it.`);
+            }
+            // Anyone can sign up with an address; only a confirmed one proves the invite reached them
+            if (!caller.emailVerified) throw new WorkspaceError('forbidden', 'Confirm your email, then open the invite again.');
+
+            const workspace = db.workspaces[invite.workspaceId];
+            workspace.members[caller.id] ??= { role: invite.role, joinedAt: new Date(now()).toISOString() };
+            delete db.invites[inviteToken];
+            save(db);
+            return toSummary(workspace, caller.id);
+        },
+
+        updateMemberRole: async (accessToken, workspaceId, userId, role) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const db = load();
+            const { workspace, role: callerRole } = membership(db, workspaceId, caller.id);
+            requireAction(callerRole, 'members.manage');
+            const member = workspace.members[userId];
+            if (!member) throw new WorkspaceError('not_found', 'That person is no longer in the workspace.');
+            if (userId === caller.id) throw new WorkspaceError('forbidden', 'Ask another admin or the owner to change your role.');
+            requireManageable(callerRole, member.role);
+            requireManageable(callerRole, role);
+            member.role = role;
+            save(db);
+            const user = await accounts.findUser(userId);
+            return { userId, email: user?.email ?? 'Deleted account', name: user?.name, role, joinedAt: member.joinedAt };
+        },
+
+        removeMember: async (accessToken, workspaceId, userId) => {
+            const caller = await callerOf(accessToken);
+            await delay();
+            const db = load();
+            const { workspace, role: callerRole } = membership(db, workspaceId, caller.id);
+            const member = workspace.members[userId];
+            if (!member) return;
+            if (userId === caller.id) {
+                if (callerRole === 'owner') throw new WorkspaceError('forbidden', "The owner can't leave the workspace.");
+            } else {
+                requireAction(callerRole, 'members.manage');
+                requireManageable(callerRole, member.role);
+            }
+            delete workspace.members[userId];
+            save(db);
+        },
+    };
+};
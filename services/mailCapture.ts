@@ -0,0 +1,70 @@
+// Outgoing mail for the local stand-in servers. Nothing leaves the browser: messages are recorded
+// to localStorage and shown in the dev mailbox so reset, verify and magic-link flows can be followed end to end.
+
+const MAILBOX_KEY = 'viralAudit.devMailbox';
+const MAX_MESSAGES = 50;
+
+export interface MailMessage {
+    id: string;
+    to: string;
+    subject: string;
+    text: string;
+    // Primary call-to-action link in the message, if any
+    link?: string;
+    sentAt: string;
+}
+
+export interface Mailer {
+    send: (message: Omit<MailMessage, 'id' | 'sentAt'>) => Promise<void>;
+}
+
+type Listener = (messages: MailMessage[]) => void;
+
+export interface MailCapture extends Mailer {
+    list: () => MailMessage[];
+    clear: () => void;
+    subscribe: (listener: Listener) => () => void;
+}
+
+export const createMailCapture = (storage: Storage = localStorage): MailCapture => {
+    const listeners = new Set<Listener>();
+
+    const list = (): MailMessage[] => {
+        try {
+            return JSON.parse(storage.getItem(MAILBOX_KEY) ?? '[]');
+        } catch {
+            return [];
+        }
+    };
+
+    const write = (messages: MailMessage[]) => {
+        storage.setItem(MAILBOX_KEY, JSON.stringify(messages));
+        listeners.forEach((listener) => listener(messages));
+    };
+
+    return {
+        list,
+        send: async (message) => {
+            const entry: MailMessage = {
+                ...message,
+                id: `msg_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+                sentAt: new Date().toISOString(),
+            };
+            write([entry, ...list()].slice(0, MAX_MESSAGES));
+        },
+        clear: () => write([]),
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
+
+let defaultCapture: MailCapture | null = null;
+
+export const getMailCapture = (): MailCapture => {
+    if (!defaultCapture) defaultCapture = createMailCapture();
+    return defaultCapture;
+};
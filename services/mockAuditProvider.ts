@@ -0,0 +1,290 @@
+import type { AuditRequest } from "../types";
+import type { AuditProvider } from "./auditService";
+import type { RewriteProvider, RewriteRequest } from "./scriptRewrites";
+import { sleep } from "./async";
+import { hasCaptionFile, isTimed, measureSpeech } from "./transcripts";
+import { checkBrandTranscript } from "./brandProfiles";
+
+// Offline provider for development and demos. The same request always yields the same report,
+// so UI states can be reproduced without a network or an API key.
+
+const hashString = (value: string) => {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+    // mulberry32
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const pick = <T,>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+// Fisher-Yates on a copy
+const shuffle = <T,>(random: () => number, items: T[]): T[] => {
+    const out = [...items];
+    for (let i = out.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+};
+
+const formatTime = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.floor(sec % 60)).padStart(2, '0')}`;
+
+const HOOK_PROBLEMS = [
+    'the opening frame is a static logo card. Nothing moves, nobody speaks, and the viewer has no reason to stop scrolling.',
+    'the first line is a soft qualifier instead of a claim. The problem is described, never shown.',
+    'the hook leads with the brand name. Nobody cares about the brand until they care about the problem.',
+    'the first shot is a wide establishing shot with no clear subject. The eye has nowhere to land.',
+];
+
+const HOOK_FIXES = [
+    'Open on the most extreme moment of the problem, mid-action, with a bold on-screen question in the first 0.5 seconds.',
+    'Lead with the result: show the after state first, then rewind to the before.',
+    'Put a face in frame immediately and have it say the pain point in five words or fewer.',
+];
+
+const BODY_FINDINGS = [
+    'the shot holds for too long with no new information. Viewers drop here.',
+    'the text overlay repeats what the voiceover already said. It is filler.',
+    'the product appears but its key benefit is never demonstrated.',
+    'a slow transition kills momentum right when the story should accelerate.',
+    'the b-roll is generic stock footage that could belong to any brand.',
+];
+
+const BODY_FIXES = [
+    'Cut every shot to under 1.5 seconds and add a pattern interrupt every 3 seconds.',
+    'Replace the lifestyle b-roll with a close-up demonstration of the product doing its one job.',
+    'Drop the middle act entirely and move the social proof up front.',
+];
+
+const AUDIO_NOTES = [
+    'No obvious copyright claim risk from the background bed. The voiceover is clear, but the music has no energy and will not lift watch time.',
+    'The backing track sounds like a known commercial release. Treat it as a copyright claim risk until you confirm the licence.',
+    'Voiceover and music fight for the same frequencies, which makes the key line hard to hear with sound on.',
+];
+
+// The measured finding that most hurts watch time: dead air first, then slow or frantic cutting
+const pacingFinding = ({ pacing }: AuditRequest) => {
+    if (!pacing) return null;
+    const [deadAir] = pacing.deadAir;
+    if (deadAir) {
+        const length = Math.round(deadAir.endSec - deadAir.startSec);
+        return `From ${formatTime(deadAir.startSec)}-${formatTime(deadAir.endSec)}, nothing changes on screen for ${length} seconds. Dead air like this is where viewers swipe away.`;
+    }
+    if (!pacing.cuts.length) return 'At 0:00, the whole video is a single shot. Without a cut the eye has nothing new to follow.';
+    if (pacing.averageShotSec > 2.5) {
+        return `At ${formatTime(pacing.cuts[0])}, the first cut arrives, and shots average ${pacing.averageShotSec}s after it. That is slow for a feed ad; aim for under 2s.`;
+    }
+    const peak = pacing.curve.reduce((best, point) => (point.cutsPerSec > best.cutsPerSec ? point : best));
+    return `At ${formatTime(peak.timeSec)}, cutting peaks at ${peak.cutsPerSec} cuts per second. Shots average ${pacing.averageShotSec}s, so give the key frame room to land.`;
+};
+
+// Grounded in the fingerprint check when the request has one
+const audioNote = ({ audio }: AuditRequest, random: () => number) => {
+    if (!audio) return pick(random, AUDIO_NOTES);
+    if (!audio.hasAudio) return 'The creative has no audio track. Most placements autoplay with sound on, and a silent ad gives up the voiceover\'s hook.';
+    const risky = audio.matches.find((match) => match.license !== 'licensed');
+    if (risky) {
+        const { startSec, endSec } = risky.ranges[0];
+        return `From ${formatTime(startSec)}-${formatTime(endSec)}, the audio matches "${risky.title}" with ${Math.round(risky.confidence * 100)}% confidence. ` +
+            'It is not marked as licensed, so expect a copyright claim or muted audio unless you clear it.';
+    }
+    if (audio.matches.length) return `The music matches "${audio.matches[0].title}", which is licensed in your library, so there is no claim risk from it.`;
+    return `No match against the ${audio.libraryTracks} tracks in your audio library. ${pick(random, [AUDIO_NOTES[0], AUDIO_NOTES[2]])}`;
+};
+
+const SCRIPT_PROBLEMS = [
+    'The script is polite where it should be urgent. It explains instead of provoking.',
+    'The call to action is buried in the last second and reads like an afterthought.',
+    'Every line hedges ("might", "could help"). Claims this soft do not convert.',
+];
+
+const SCRIPT_FIXES = [
+    'Rewrite the first line as a direct challenge to the viewer and end on a single, commanding CTA.',
+    'Cut the script by a third and replace adjectives with specific numbers.',
+];
+
+// Quotes the transcript's opening cue when there is one, and flags missing captions the way the real prompt asks
+const scriptProblem = ({ transcript, burnedInCaptions, durationSec }: AuditRequest, random: () => number) => {
+    const notes: string[] = [];
+    if (transcript && isTimed(transcript)) {
+        const [first] = transcript.cues;
+        const speech = measureSpeech(transcript, durationSec);
+        notes.push(`At ${formatTime(first.startSec!)}, "${first.text}" opens the script, and the voiceover runs at ${speech.wordsPerSecond} words per second. ${pick(random, SCRIPT_PROBLEMS)}`);
+    } else if (transcript) {
+        notes.push(`"${transcript.cues[0].text}" opens the script. ${pick(random, SCRIPT_PROBLEMS)}`);
+    } else {
+        notes.push(pick(random, SCRIPT_PROBLEMS));
+    }
+    if (burnedInCaptions === false && !hasCaptionFile(transcript)) {
+        notes.push('There are no captions, and most feed viewing is muted, so the script goes unheard.');
+    }
+    return notes.join(' ');
+};
+
+const BRAND_FIXES = [
+    'Re-record the flagged lines with the approved wording and add the disclaimer as on-screen text over the end card.',
+    'Cut the off-brand lines, hold the logo from the first second, and close on the preferred call to action.',
+];
+
+// Transcript phrase checks are real; logo and tone findings are made up, since the mock can't see the frames
+const brandItems = ({ brandProfile: rules, transcript, durationSec }: AuditRequest, random: () => number) => {
+    const items: string[] = [];
+    const end = formatTime(durationSec);
+    if (transcript) {
+        const check = checkBrandTranscript(rules, transcript);
+        check.banned.forEach(({ phrase, startSec }) => {
+            items.push(`${startSec === undefined ? '' : `At ${formatTime(startSec)}, `}"${phrase}" is spoken, and the profile bans it.`);
+        });
+        check.missingRequired.forEach((phrase) => items.push(`At ${end}, the script ends without "${phrase}", which the profile requires.`));
+        check.missingDisclaimers.forEach((phrase) => items.push(`At ${end}, the disclaimer "${phrase}" is neither spoken nor shown.`));
+        if (rules.ctaPhrases.length && !check.ctaHeard) {
+            items.push(`At ${end}, the call to action doesn't use the preferred wording "${rules.ctaPhrases[0]}".`);
+        }
+    }
+    if (rules.logoBySec !== null && random() < 0.5) {
+        items.push(`At ${formatTime(rules.logoBySec)}, the logo is not on screen yet, and the profile expects it by then.`);
+    }
+    if (rules.logoOnEndCard && random() < 0.5) items.push(`At ${end}, the end card has no logo.`);
+    if (rules.tone.length && random() < 0.5) {
+        items.push(`At ${formatTime(Math.min(2, durationSec))}, the delivery is ${pick(random, ['flat', 'pushy', 'jokey'])}, which doesn't fit a ${rules.tone[0].toLowerCase()} tone.`);
+    }
+    return items.length ? items : ['Nothing in the creative breaks the profile.'];
+};
+
+export const buildMockReport = (request: AuditRequest): string => {
+    const seed = hashString(`${request.creativeName}|${request.durationSec.toFixed(1)}|${request.frames.length}`);
+    const random = createRandom(seed);
+    const duration = Math.max(request.durationSec, 3);
+    const score = 2 + Math.floor(random() * 8);
+    // Sub-scores stay within two points of the overall score
+    const subscore = () => Math.min(10, Math.max(0, score - 2 + Math.floor(random() * 5)));
+
+    // Three ascending timestamps across the middle of the creative
+    const bodyTimes = [0.25, 0.5, 0.75].map((fraction) => Math.max(1, Math.round(duration * fraction)));
+    const rangeEnd = Math.min(Math.round(duration), bodyTimes[1] + 3);
+
+    return [
+        `#SCORE: ${score}/10`,
+        '',
+        '#SUBSCORES',
+        `HOOK: ${subscore()}/10`,
+        `PACING: ${subscore()}/10`,
+        `VISUALS: ${subscore()}/10`,
+        `AUDIO: ${subscore()}/10`,
+        `SCRIPT: ${subscore()}/10`,
+        `CTA: ${subscore()}/10`,
+        '',
+        '#HOOK',
+        `**The Problem:** At 0:00, ${pick(random, HOOK_PROBLEMS)}`,
+        '',
+        `**The Visual:** The first frames of "${request.creativeName}" do not create visual tension or contrast with the feed around them.`,
+        '',
+        `**The Fix:** ${pick(random, HOOK_FIXES)}`,
+        '',
+        '#BODY',
+        '**Pacing/Visuals:**',
+        `- ${pacingFinding(request) ?? `At ${formatTime(bodyTimes[0])}, ${pick(random, BODY_FINDINGS)}`}`,
+        `- From ${formatTime(bodyTimes[1])}-${formatTime(rangeEnd)}, ${pick(random, BODY_FINDINGS)}`,
+        `- At ${formatTime(bodyTimes[2])}, ${pick(random, BODY_FINDINGS)}`,
+        '',
+        `**The Fix:** ${pick(random, BODY_FIXES)}`,
+        '',
+        '#AUDIO',
+        `**Copyright claim:** ${audioNote(request, random)}`,
+        '',
+        '#SCRIPT',
+        `**The Problem:** ${scriptProblem(request, random)}`,
+        '',
+        `**The Fix:** ${pick(random, SCRIPT_FIXES)}`,
+        '',
+        ...(request.brandProfile
+            ? ['#BRAND', ...brandItems(request, random).map((item) => `- ${item}`), '', `**The Fix:** ${pick(random, BRAND_FIXES)}`, '']
+            : []),
+    ].join('\n');
+};
+
+// --- Script rewrites ---
+
+const REWRITE_TONES = ['Urgent', 'Playful', 'Authority', 'Story-led', 'Contrarian'];
+
+const REWRITE_HOOKS = [
+    'You are doing this wrong, and it is costing you every single day.',
+    'Nobody tells you this until it is too late.',
+    'I tried everything else first. This is what finally worked.',
+    'Stop scrolling if this has ever happened to you.',
+    'Three seconds. That is all it takes to see the difference.',
+];
+
+const REWRITE_BEATS: [voiceover: string, visual: string][] = [
+    ['Here is the problem nobody talks about.', 'Close-up of the frustration, handheld'],
+    ['Most people try the same three fixes and give up.', 'Quick montage of failed attempts'],
+    ['So we built something that just works.', 'Product enters frame, hard cut'],
+    ['Watch what happens in the first ten seconds.', 'Real-time demo, no cuts'],
+    ['No setup, no learning curve, no excuses.', 'Three fast text overlays'],
+    ['Over ten thousand customers switched last month.', 'Review screenshots scrolling'],
+    ['And it costs less than what you are wasting now.', 'Side-by-side price comparison'],
+    ['This is the part everyone asks about.', 'Zoom on the key feature'],
+];
+
+const REWRITE_CTAS = [
+    'Tap the link and try it free today.',
+    'Get yours before this week ends.',
+    'Click below and see it for yourself.',
+];
+
+export const buildMockRewrites = (request: RewriteRequest): string => {
+    const random = createRandom(hashString(`${request.creativeName}|${request.originalScript}|${request.count}|${request.targetSec ?? ''}`));
+    const target = request.targetSec ?? Math.min(Math.max(request.durationSec, 10), 60);
+    // Roughly eight spoken words per beat at 2.5 words a second, leaving room for the hook and CTA
+    const beatCount = Math.max(1, Math.round((target * 2.5) / 8) - 2);
+    const tones = shuffle(random, REWRITE_TONES);
+
+    const blocks = Array.from({ length: request.count }, (_, i) => {
+        const beats = shuffle(random, REWRITE_BEATS).slice(0, beatCount);
+        return [
+            '#VARIANT',
+            `TONE: ${tones[i % tones.length]}`,
+            `HOOK: ${pick(random, REWRITE_HOOKS)}`,
+            ...beats.map(([voiceover, visual]) => `- ${voiceover} | ${visual}`),
+            `- ${pick(random, REWRITE_CTAS)} | End card with the offer and logo`,
+        ].join('\n');
+    });
+    return blocks.join('\n\n') + '\n';
+};
+
+export const createMockRewriteProvider = ({ latencyMs = 900 }: MockProviderOptions = {}): RewriteProvider => ({
+    id: 'mock',
+    label: 'Local mock',
+    generateRewrites: async (request, signal) => {
+        await sleep(latencyMs, signal);
+        return buildMockRewrites(request);
+    },
+});
+
+export interface MockProviderOptions {
+    // Simulated network latency; 0 resolves on the next tick
+    latencyMs?: number;
+}
+
+export const createMockAuditProvider = ({ latencyMs = 1200 }: MockProviderOptions = {}): AuditProvider => ({
+    id: 'mock',
+    label: 'Local mock',
+    generateReport: async (request, signal) => {
+        await sleep(latencyMs, signal);
+        return buildMockReport(request);
+    },
+});
@@ -0,0 +1,139 @@
+import { PacingMetrics } from "../types";
+import { formatTimestamp } from "./findings";
+
+// Shot-boundary detection over sampled frames. Each frame is reduced to a colour histogram and a
+// coarse brightness grid: a hard cut changes the histogram, while a cut between similar-looking shots
+// still rearranges most of the grid. The grid is compared after evening out overall brightness, so
+// fades and exposure changes don't read as cuts. Frames where nothing changes are dead air.
+
+// --- Signatures ---
+
+// Frames are drawn this small before measuring, which also smooths out compression noise
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 18;
+// 4 levels per RGB channel
+const HISTOGRAM_BINS = 64;
+
+export interface FrameSignature {
+    timeSec: number;
+    // Share of pixels in each RGB bin, summing to 1
+    histogram: Float32Array;
+    // Brightness of each pixel, 0-255
+    luma: Uint8Array;
+}
+
+// `data` is RGBA, as in ImageData
+export const frameSignature = (timeSec: number, data: Uint8ClampedArray): FrameSignature => {
+    const pixels = data.length / 4;
+    const histogram = new Float32Array(HISTOGRAM_BINS);
+    const luma = new Uint8Array(pixels);
+    for (let i = 0; i < pixels; i++) {
+        const r = data[i * 4];
+        const g = data[i * 4 + 1];
+        const b = data[i * 4 + 2];
+        histogram[((r >> 6) << 4) | ((g >> 6) << 2) | (b >> 6)] += 1 / pixels;
+        luma[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+    }
+    return { timeSec, histogram, luma };
+};
+
+// --- Analysis ---
+
+// Histogram distance (0-1) at or above which two frames are different shots...
+const CUT_HISTOGRAM = 0.35;
+// ...as long as the picture's layout changed too, which rules out fades
+const CUT_MIN_LAYOUT = 0.05;
+// Same palette but most of the picture rearranged: also a cut
+const CUT_LAYOUT = 0.2;
+const CUT_LAYOUT_MIN_HISTOGRAM = 0.12;
+// Below both of these, nothing on screen changed between the two frames
+const STATIC_HISTOGRAM = 0.04;
+const STATIC_LAYOUT = 0.02;
+export const DEAD_AIR_MIN_SEC = 2.5;
+const CURVE_WINDOW_SEC = 3;
+
+const histogramDistance = (a: FrameSignature, b: FrameSignature) => {
+    let sum = 0;
+    for (let i = 0; i < a.histogram.length; i++) sum += Math.abs(a.histogram[i] - b.histogram[i]);
+    return sum / 2;
+};
+
+// Mean brightness difference per pixel (0-1), ignoring the change in overall brightness
+const layoutDistance = (a: FrameSignature, b: FrameSignature) => {
+    let shift = 0;
+    for (let i = 0; i < a.luma.length; i++) shift += a.luma[i] - b.luma[i];
+    shift /= a.luma.length;
+    let sum = 0;
+    for (let i = 0; i < a.luma.length; i++) sum += Math.abs(a.luma[i] - b.luma[i] - shift);
+    return sum / (a.luma.length * 255);
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const analysePacing = (signatures: FrameSignature[], durationSec: number): PacingMetrics => {
+    const frames = [...signatures].sort((a, b) => a.timeSec - b.timeSec);
+    const cuts: number[] = [];
+    const deadAir: PacingMetrics['deadAir'] = [];
+    let staticFrom: number | null = null;
+
+    const closeStatic = (endSec: number) => {
+        if (staticFrom !== null && endSec - staticFrom >= DEAD_AIR_MIN_SEC) deadAir.push({ startSec: round1(staticFrom), endSec: round1(endSec) });
+        staticFrom = null;
+    };
+
+    for (let i = 1; i < frames.length; i++) {
+        const previous = frames[i - 1];
+        const current = frames[i];
+        const histogram = histogramDistance(previous, current);
+        const layout = layoutDistance(previous, current);
+
+        // The cut happened somewhere between the two samples; the midpoint is the best guess
+        if ((histogram >= CUT_HISTOGRAM && layout >= CUT_MIN_LAYOUT) || (layout >= CUT_LAYOUT && histogram >= CUT_LAYOUT_MIN_HISTOGRAM)) {
+            cuts.push(round1((previous.timeSec + current.timeSec) / 2));
+        }
+
+        if (histogram < STATIC_HISTOGRAM && layout < STATIC_LAYOUT) {
+            if (staticFrom === null) staticFrom = previous.timeSec;
+        } else {
+            closeStatic(previous.timeSec);
+        }
+    }
+    // A frozen final shot runs to the end of the video
+    if (frames.length) closeStatic(Math.max(durationSec, frames[frames.length - 1].timeSec));
+
+    const intervals = frames.slice(1).map((frame, i) => frame.timeSec - frames[i].timeSec);
+    const curve: PacingMetrics['curve'] = [];
+    for (let t = 0; t <= Math.floor(durationSec); t++) {
+        const from = Math.max(0, t - CURVE_WINDOW_SEC / 2);
+        const to = Math.min(durationSec, t + CURVE_WINDOW_SEC / 2);
+        const count = cuts.filter((cut) => cut >= from && cut < to).length;
+        curve.push({ timeSec: t, cutsPerSec: to > from ? round2(count / (to - from)) : 0 });
+    }
+
+    return {
+        sampleIntervalSec: round2(intervals.length ? Math.max(...intervals) : durationSec),
+        cuts,
+        averageShotSec: round1(durationSec / (cuts.length + 1)),
+        cutsPerSec: durationSec > 0 ? round2(cuts.length / durationSec) : 0,
+        curve,
+        deadAir,
+    };
+};
+
+export const deadAirSec = (pacing: PacingMetrics) => round1(pacing.deadAir.reduce((sum, range) => sum + range.endSec - range.startSec, 0));
+
+// Plain-text metrics for the audit prompt
+export const formatPacing = (pacing: PacingMetrics) => {
+    const lines = [
+        `Measured pacing (frames compared every ${pacing.sampleIntervalSec}s):`,
+        pacing.cuts.length
+            ? `- ${pacing.cuts.length} cuts, at ${pacing.cuts.map(formatTimestamp).join(', ')}`
+            : '- No cuts: the video is a single shot',
+        `- Average shot length ${pacing.averageShotSec}s (${pacing.cutsPerSec} cuts per second)`,
+    ];
+    if (pacing.deadAir.length) {
+        lines.push(`- Dead air (picture barely changes): ${pacing.deadAir.map((range) => `${formatTimestamp(range.startSec)}-${formatTimestamp(range.endSec)}`).join(', ')}`);
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,177 @@
+// Minimal PDF 1.4 writer for text documents. Uses the standard Helvetica fonts so nothing has to
+// be embedded, and writes no timestamps or ids, so the same input always produces the same bytes.
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfText {
+    x: number;
+    // From the bottom of the page, as PDF measures it
+    y: number;
+    text: string;
+    font: PdfFont;
+    size: number;
+    // Hex colour, e.g. '#ff2e63'
+    color?: string;
+}
+
+export interface PdfRule {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    color?: string;
+}
+
+export interface PdfPage {
+    texts: PdfText[];
+    rules?: PdfRule[];
+}
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+// --- Metrics ---
+
+// Advance widths (per 1000 em) for ASCII 32-126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+    556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+    611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside ASCII that WinAnsiEncoding can still show, with their byte and widths
+const WIN_ANSI_EXTRAS: Record<string, [byte: number, regular: number, bold: number]> = {
+    '€': [0x80, 556, 556],
+    '‚': [0x82, 222, 278],
+    '„': [0x84, 333, 500],
+    '…': [0x85, 1000, 1000],
+    '‘': [0x91, 222, 278],
+    '’': [0x92, 222, 278],
+    '“': [0x93, 333, 500],
+    '”': [0x94, 333, 500],
+    '•': [0x95, 350, 350],
+    '–': [0x96, 556, 556],
+    '—': [0x97, 1000, 1000],
+    '™': [0x99, 1000, 1000],
+};
+
+// Latin-1 letters share their byte with WinAnsi; everything else prints as '?'
+const toWinAnsi = (char: string): number => {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return code;
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char][0];
+    if (code >= 0xa0 && code <= 0xff) return code;
+    return 63;
+};
+
+const charWidth = (char: string, font: PdfFont) => {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+    const extra = WIN_ANSI_EXTRAS[char];
+    if (extra) return font === 'bold' ? extra[2] : extra[1];
+    return 556;
+};
+
+export const measureText = (text: string, font: PdfFont, size: number) =>
+    (Array.from(text).reduce((sum, char) => sum + charWidth(char, font), 0) * size) / 1000;
+
+// Greedy word wrap. Words longer than the line are broken by character.
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (measureText(candidate, font, size) <= maxWidth) {
+            line = candidate;
+            continue;
+        }
+        if (line) lines.push(line);
+        line = '';
+        let rest = word;
+        while (measureText(rest, font, size) > maxWidth) {
+            let cut = rest.length - 1;
+            while (cut > 1 && measureText(rest.slice(0, cut), font, size) > maxWidth) cut--;
+            lines.push(rest.slice(0, cut));
+            rest = rest.slice(cut);
+        }
+        line = rest;
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+// --- Serialisation ---
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const rgb = (hex = '#000000') => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((c) => num(c / 255)).join(' ');
+};
+
+// Literal string with every non-ASCII byte octal-escaped, so the file stays 7-bit clean
+const pdfString = (text: string) =>
+    `(${Array.from(text)
+        .map((char) => {
+            const byte = toWinAnsi(char);
+            if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+            return byte < 128 ? String.fromCharCode(byte) : `\\${byte.toString(8).padStart(3, '0')}`;
+        })
+        .join('')})`;
+
+const contentStream = (page: PdfPage) => {
+    const ops: string[] = [];
+    for (const rule of page.rules ?? []) {
+        ops.push(`${rgb(rule.color)} RG 0.5 w ${num(rule.x1)} ${num(rule.y1)} m ${num(rule.x2)} ${num(rule.y2)} l S`);
+    }
+    for (const text of page.texts) {
+        ops.push(`BT /${FONT_RESOURCES[text.font]} ${num(text.size)} Tf ${rgb(text.color)} rg ${num(text.x)} ${num(text.y)} Td ${pdfString(text.text)} Tj ET`);
+    }
+    return ops.join('\n');
+};
+
+export const buildPdf = (pages: PdfPage[], { title }: { title?: string } = {}): Uint8Array => {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    const pageIds = pages.map((_, i) => 5 + i * 2);
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    pages.forEach((page, i) => {
+        const stream = contentStream(page);
+        add(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+        );
+        add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+    const infoId = objects.length + 1;
+    add(`<< /Producer (ViralAudit)${title ? ` /Title ${pdfString(title)}` : ''} >>`);
+
+    let out = '%PDF-1.4\n';
+    const offsets = objects.map((body, i) => {
+        const offset = out.length;
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+    const xrefOffset = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Everything above is 7-bit ASCII, so string offsets are byte offsets
+    return new TextEncoder().encode(out);
+};
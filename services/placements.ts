@@ -0,0 +1,273 @@
+import { formatTimestamp } from "./findings";
+import { sampleFrames } from "./videoFile";
+
+// Meta placement specs and the checks run against them. Safe zones are the parts of the frame that
+// the platform covers with its own UI; anything important placed there is hidden or unreadable.
+
+// --- Placements ---
+
+export type PlacementId = 'facebook_feed' | 'instagram_feed' | 'stories_reels';
+
+// Fractions of the placement's frame, from the top left
+export interface SafeZone {
+    label: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Placement {
+    id: PlacementId;
+    label: string;
+    ratioLabel: string;
+    // Width / height the placement displays at; other ratios are cropped to it
+    ratio: number;
+    // Width, in source pixels after cropping, below which Meta rejects or visibly upscales
+    minWidth: number;
+    recommendedWidth: number;
+    safeZones: SafeZone[];
+}
+
+export const PLACEMENTS: Record<PlacementId, Placement> = {
+    facebook_feed: {
+        id: 'facebook_feed',
+        label: 'Facebook Feed',
+        ratioLabel: '4:5',
+        ratio: 4 / 5,
+        minWidth: 600,
+        recommendedWidth: 1080,
+        safeZones: [{ label: 'the sound and captions buttons', x: 0.8, y: 0.88, width: 0.2, height: 0.12 }],
+    },
+    instagram_feed: {
+        id: 'instagram_feed',
+        label: 'Instagram Feed',
+        ratioLabel: '4:5',
+        ratio: 4 / 5,
+        minWidth: 600,
+        recommendedWidth: 1080,
+        safeZones: [
+            { label: 'the tags button', x: 0, y: 0.9, width: 0.14, height: 0.1 },
+            { label: 'the mute button', x: 0.86, y: 0.9, width: 0.14, height: 0.1 },
+        ],
+    },
+    stories_reels: {
+        id: 'stories_reels',
+        label: 'Stories & Reels',
+        ratioLabel: '9:16',
+        ratio: 9 / 16,
+        minWidth: 500,
+        recommendedWidth: 1080,
+        // Meta asks for the top 14% and bottom 35% to be kept free of text, logos and CTAs
+        safeZones: [
+            { label: 'the profile header', x: 0, y: 0, width: 1, height: 0.14 },
+            { label: 'the caption and CTA button', x: 0, y: 0.65, width: 1, height: 0.35 },
+            { label: 'the Reels like and share buttons', x: 0.86, y: 0.4, width: 0.14, height: 0.25 },
+        ],
+    },
+};
+
+export const PLACEMENT_ORDER: PlacementId[] = ['facebook_feed', 'instagram_feed', 'stories_reels'];
+
+// --- Format checks ---
+
+export interface PlacementWarning {
+    kind: 'ratio' | 'resolution' | 'safe_zone';
+    severity: 'warning' | 'info';
+    message: string;
+    // Frames the problem was seen in, for safe-zone warnings
+    times?: number[];
+}
+
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// The centred part of the source the placement shows when it fills its frame
+export const cropToPlacement = (sourceWidth: number, sourceHeight: number, ratio: number): CropRect => {
+    if (sourceWidth / sourceHeight > ratio) {
+        const width = sourceHeight * ratio;
+        return { x: (sourceWidth - width) / 2, y: 0, width, height: sourceHeight };
+    }
+    const height = sourceWidth / ratio;
+    return { x: 0, y: (sourceHeight - height) / 2, width: sourceWidth, height };
+};
+
+// Up to this share of the picture can be cropped away before it's worth a warning
+const MAX_SILENT_CROP = 0.1;
+const MAX_ACCEPTABLE_CROP = 0.3;
+
+export const checkFormat = (placement: Placement, sourceWidth: number, sourceHeight: number): PlacementWarning[] => {
+    const warnings: PlacementWarning[] = [];
+    const crop = cropToPlacement(sourceWidth, sourceHeight, placement.ratio);
+    const cropped = 1 - (crop.width * crop.height) / (sourceWidth * sourceHeight);
+    if (cropped > MAX_SILENT_CROP) {
+        const side = crop.width < sourceWidth ? 'sides' : 'top and bottom';
+        warnings.push({
+            kind: 'ratio',
+            severity: cropped > MAX_ACCEPTABLE_CROP ? 'warning' : 'info',
+            message: `${placement.label} shows ${placement.ratioLabel}, so ${Math.round(cropped * 100)}% of this ${sourceWidth}x${sourceHeight} video is cropped off the ${side}. Export a ${placement.ratioLabel} version.`,
+        });
+    }
+    const width = Math.round(crop.width);
+    if (width < placement.minWidth) {
+        warnings.push({
+            kind: 'resolution',
+            severity: 'warning',
+            message: `After cropping, ${placement.label} gets only ${width}px of width; it needs at least ${placement.minWidth}px and looks best at ${placement.recommendedWidth}px.`,
+        });
+    } else if (width < placement.recommendedWidth) {
+        warnings.push({
+            kind: 'resolution',
+            severity: 'info',
+            message: `After cropping, ${placement.label} gets ${width}px of width. ${placement.recommendedWidth}px is recommended for a sharp result.`,
+        });
+    }
+    return warnings;
+};
+
+// --- Safe zones ---
+
+// Captions, logos and CTAs are dense with sharp edges; most footage isn't. Each sampled frame is reduced
+// to the share of edge pixels in each cell of a grid over the full source frame.
+
+export const EDGE_GRID_COLS = 16;
+export const EDGE_GRID_ROWS = 16;
+// Sobel magnitude (|gx| + |gy|, up to 2040) above which a pixel is an edge
+const EDGE_THRESHOLD = 160;
+// A zone this dense, and well above the frame's typical density, has something drawn in it
+const BUSY_DENSITY = 0.16;
+const BUSY_RELATIVE = 1.6;
+const MAX_LISTED_TIMES = 4;
+
+export interface FrameEdges {
+    timeSec: number;
+    // Row-major, EDGE_GRID_COLS x EDGE_GRID_ROWS, each 0-1
+    density: Float32Array;
+}
+
+// `data` is RGBA, as in ImageData
+export const edgeDensityGrid = (timeSec: number, data: Uint8ClampedArray, width: number, height: number): FrameEdges => {
+    const gray = new Float32Array(width * height);
+    for (let i = 0; i < gray.length; i++) gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+
+    const edges = new Float32Array(EDGE_GRID_COLS * EDGE_GRID_ROWS);
+    const totals = new Float32Array(EDGE_GRID_COLS * EDGE_GRID_ROWS);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const at = (dx: number, dy: number) => gray[(y + dy) * width + x + dx];
+            const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+            const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+            const cell = Math.floor((y / height) * EDGE_GRID_ROWS) * EDGE_GRID_COLS + Math.floor((x / width) * EDGE_GRID_COLS);
+            totals[cell]++;
+            if (Math.abs(gx) + Math.abs(gy) > EDGE_THRESHOLD) edges[cell]++;
+        }
+    }
+    return { timeSec, density: edges.map((count, i) => (totals[i] ? count / totals[i] : 0)) };
+};
+
+// Grid cells whose centre falls inside a rectangle given as fractions of the source frame
+const cellsWithin = (x: number, y: number, width: number, height: number) => {
+    const cells: number[] = [];
+    for (let row = 0; row < EDGE_GRID_ROWS; row++) {
+        const cy = (row + 0.5) / EDGE_GRID_ROWS;
+        if (cy < y || cy > y + height) continue;
+        for (let col = 0; col < EDGE_GRID_COLS; col++) {
+            const cx = (col + 0.5) / EDGE_GRID_COLS;
+            if (cx >= x && cx <= x + width) cells.push(row * EDGE_GRID_COLS + col);
+        }
+    }
+    return cells;
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+// Frames in which `cells` are dense with edges compared with the rest of the picture
+const busyTimes = (frames: FrameEdges[], cells: number[], referenceCells: number[]) =>
+    frames
+        .filter(({ density }) => {
+            const zoneDensity = cells.reduce((sum, cell) => sum + density[cell], 0) / cells.length;
+            const typical = median(referenceCells.map((cell) => density[cell]));
+            return zoneDensity >= BUSY_DENSITY && zoneDensity >= typical * BUSY_RELATIVE;
+        })
+        .map((frame) => frame.timeSec);
+
+const listTimes = (times: number[]) => {
+    const listed = times.slice(0, MAX_LISTED_TIMES).map(formatTimestamp).join(', ');
+    return times.length > MAX_LISTED_TIMES ? `${listed} and ${times.length - MAX_LISTED_TIMES} more` : listed;
+};
+
+// Flags graphics under the placement's UI, and graphics in the parts its crop cuts off
+export const checkSafeZones = (placement: Placement, sourceWidth: number, sourceHeight: number, frames: FrameEdges[]): PlacementWarning[] => {
+    const crop = cropToPlacement(sourceWidth, sourceHeight, placement.ratio);
+    const toSource = (zone: Omit<SafeZone, 'label'>) =>
+        cellsWithin(
+            (crop.x + zone.x * crop.width) / sourceWidth,
+            (crop.y + zone.y * crop.height) / sourceHeight,
+            (zone.width * crop.width) / sourceWidth,
+            (zone.height * crop.height) / sourceHeight
+        );
+    const visibleCells = toSource({ x: 0, y: 0, width: 1, height: 1 });
+    const warnings: PlacementWarning[] = [];
+
+    placement.safeZones.forEach((zone) => {
+        const cells = toSource(zone);
+        const times = cells.length ? busyTimes(frames, cells, visibleCells) : [];
+        if (times.length) {
+            warnings.push({ kind: 'safe_zone', severity: 'warning', message: `Text, a logo or a CTA sits under ${zone.label} at ${listTimes(times)}.`, times });
+        }
+    });
+
+    // The two strips the crop removes: left and right, or top and bottom
+    const horizontal = crop.width < sourceWidth;
+    const strip = horizontal ? crop.x / sourceWidth : crop.y / sourceHeight;
+    const strips = horizontal
+        ? [cellsWithin(0, 0, strip, 1), cellsWithin(1 - strip, 0, strip, 1)]
+        : [cellsWithin(0, 0, 1, strip), cellsWithin(0, 1 - strip, 1, strip)];
+    strips.forEach((cells, i) => {
+        const times = cells.length ? busyTimes(frames, cells, visibleCells) : [];
+        if (times.length) {
+            const side = horizontal ? (i ? 'right' : 'left') : i ? 'bottom' : 'top';
+            warnings.push({
+                kind: 'safe_zone',
+                severity: 'warning',
+                message: `Text, a logo or a CTA at the ${side} edge is cropped out of ${placement.label} at ${listTimes(times)}.`,
+                times,
+            });
+        }
+    });
+    return warnings;
+};
+
+export const checkPlacement = (placement: Placement, sourceWidth: number, sourceHeight: number, frames: FrameEdges[]) => [
+    ...checkFormat(placement, sourceWidth, sourceHeight),
+    ...checkSafeZones(placement, sourceWidth, sourceHeight, frames),
+];
+
+// --- Sampling ---
+
+// A handful of frames is enough: on-screen text and logos usually stay up for seconds
+export const sampleFrameEdges = async (src: string, signal?: AbortSignal): Promise<FrameEdges[]> => {
+    const frames = await sampleFrames(src, { intervalSec: 1, maxFrames: 12, maxWidth: 256, quality: 0.9, signal });
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D is not available in this browser.');
+
+    const edges: FrameEdges[] = [];
+    for (const frame of frames) {
+        const image = new Image();
+        image.src = frame.dataUrl;
+        await image.decode();
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        ctx.drawImage(image, 0, 0);
+        edges.push(edgeDensityGrid(frame.timeSec, ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height));
+    }
+    return edges;
+};
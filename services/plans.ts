@@ -0,0 +1,83 @@
+// Single source for what each plan includes. PricingCard renders from this and
+// entitlements.ts enforces from it, so the page and the product can't disagree.
+// Descriptions and button copy are in the locale files, keyed by plan id.
+
+export type PlanId = 'starter' | 'pro';
+
+export type FeatureId =
+    | 'deep_think'
+    | 'fix_reports'
+    | 'script_rewrites'
+    | 'policy_check'
+    | 'competitor_benchmarking'
+    | 'share_links'
+    | 'batch_audits'
+    | 'team_workspaces';
+
+export interface Plan {
+    id: PlanId;
+    name: string;
+    // Monthly, in major units of `currency`; formatted for the reader's locale when shown
+    price: number;
+    currency: string;
+    monthlyAudits: number;
+    features: FeatureId[];
+    recommended: boolean;
+}
+
+// Display order on the pricing page
+export const FEATURE_LABELS: Record<FeatureId, string> = {
+    deep_think: 'Deep Think Analysis',
+    fix_reports: 'Detailed Fix Reports',
+    script_rewrites: 'Viral Script Rewrites',
+    policy_check: 'Policy Violation Check',
+    competitor_benchmarking: 'Competitor Benchmarking',
+    share_links: 'Shareable Client Reports',
+    batch_audits: 'Batch Audits',
+    team_workspaces: 'Team Workspaces',
+};
+
+export const PLANS: Record<PlanId, Plan> = {
+    starter: {
+        id: 'starter',
+        name: 'Starter',
+        price: 29,
+        currency: 'GBP',
+        monthlyAudits: 50,
+        features: ['deep_think', 'fix_reports'],
+        recommended: false,
+    },
+    pro: {
+        id: 'pro',
+        name: 'Professional',
+        price: 49,
+        currency: 'GBP',
+        monthlyAudits: 500,
+        features: ['deep_think', 'fix_reports', 'script_rewrites', 'policy_check', 'competitor_benchmarking', 'share_links', 'batch_audits', 'team_workspaces'],
+        recommended: true,
+    },
+};
+
+export const PLAN_ORDER: PlanId[] = ['starter', 'pro'];
+
+export interface PlanFeatureCopy {
+    monthlyAudits: (count: number) => string;
+    features: Record<FeatureId, string>;
+}
+
+const ENGLISH_FEATURE_COPY: PlanFeatureCopy = {
+    monthlyAudits: (count) => `${count} Video Audits / Month`,
+    features: FEATURE_LABELS,
+};
+
+export const planFeatureList = (plan: Plan, copy: PlanFeatureCopy = ENGLISH_FEATURE_COPY) => [
+    { text: copy.monthlyAudits(plan.monthlyAudits), included: true },
+    ...(Object.keys(FEATURE_LABELS) as FeatureId[]).map((feature) => ({
+        text: copy.features[feature],
+        included: plan.features.includes(feature),
+    })),
+];
+
+// Cheapest plan that unlocks a feature, for upgrade prompts
+export const cheapestPlanWith = (feature: FeatureId): Plan | null =>
+    PLAN_ORDER.map((id) => PLANS[id]).find((plan) => plan.features.includes(feature)) ?? null;
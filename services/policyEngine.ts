@@ -0,0 +1,321 @@
+// Deterministic ad policy checks. Rule packs are versioned JSON: each rule is a set of regular
+// expressions plus optional exceptions, and carries example texts it must and must not flag.
+// A pack can extend another, replacing rules by id, adjusting them with overrides or disabling them.
+
+export type PolicySeverity = 'low' | 'medium' | 'high';
+
+export const POLICY_SEVERITY_ORDER: PolicySeverity[] = ['high', 'medium', 'low'];
+
+export type PolicySourceKind = 'copy' | 'onscreen' | 'transcript';
+
+export const POLICY_SOURCE_LABELS: Record<PolicySourceKind, string> = {
+    copy: 'Ad copy',
+    onscreen: 'On-screen text',
+    transcript: 'Transcript',
+};
+
+export interface PolicyRule {
+    id: string;
+    category: string;
+    severity: PolicySeverity;
+    title: string;
+    explanation: string;
+    // Regular expression sources, matched case-insensitively
+    patterns: string[];
+    // A match is dropped when its sentence also matches one of these
+    exceptions?: string[];
+    // Which inputs the rule reads; all of them when omitted
+    sources?: PolicySourceKind[];
+    examples: { match: string[]; noMatch?: string[] };
+}
+
+export interface PolicyRuleOverride {
+    severity?: PolicySeverity;
+    disabled?: boolean;
+    // Added to the base rule's exceptions
+    exceptions?: string[];
+}
+
+export interface PolicyRulePack {
+    id: string;
+    version: string;
+    name: string;
+    description?: string;
+    // "<pack id>" or "<pack id>@<version>"
+    extends?: string;
+    rules: PolicyRule[];
+    overrides?: Record<string, PolicyRuleOverride>;
+}
+
+export interface ResolvedPolicyRule extends PolicyRule {
+    // The pack the rule was defined in
+    packId: string;
+}
+
+export interface ResolvedPolicyPack {
+    id: string;
+    version: string;
+    name: string;
+    rules: ResolvedPolicyRule[];
+    // Base pack first, e.g. ['meta-ads@1.0.0', 'acme@2.1.0']
+    lineage: string[];
+}
+
+export interface PolicySource {
+    kind: PolicySourceKind;
+    text: string;
+}
+
+export interface PolicyHit {
+    // Stable for the same input: rule, source and offset
+    id: string;
+    ruleId: string;
+    packId: string;
+    category: string;
+    severity: PolicySeverity;
+    title: string;
+    explanation: string;
+    source: PolicySourceKind;
+    // Offsets into the source text, end exclusive
+    start: number;
+    end: number;
+    match: string;
+    // The sentence around the match
+    context: { text: string; start: number };
+}
+
+export interface PolicyFixtureFailure {
+    ruleId: string;
+    example: string;
+    expected: 'match' | 'noMatch';
+}
+
+export class PolicyPackError extends Error {
+    problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid rule pack:\n${problems.join('\n')}`);
+        this.name = 'PolicyPackError';
+        this.problems = problems;
+    }
+}
+
+// --- Validation ---
+
+const SEVERITIES: PolicySeverity[] = ['low', 'medium', 'high'];
+const SOURCE_KINDS = Object.keys(POLICY_SOURCE_LABELS) as PolicySourceKind[];
+const SEMVER = /^\d+\.\d+\.\d+$/;
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+// Global for scanning; exceptions only test a sentence, and a global regex would carry lastIndex between tests
+const compile = (pattern: string, flags = 'giu') => new RegExp(pattern, flags);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const patternProblems = (label: string, patterns: unknown) => {
+    if (!isStringArray(patterns)) return [`${label} must be a list of strings.`];
+    return patterns.flatMap((pattern) => {
+        try {
+            compile(pattern);
+            return [];
+        } catch (err) {
+            return [`${label}: ${err instanceof Error ? err.message : `invalid pattern ${pattern}`}`];
+        }
+    });
+};
+
+// Checks the shape of untrusted JSON and returns it typed. Every rule must have at least one
+// example it flags, so a pack can't ship rules nobody has exercised.
+export const validateRulePack = (value: unknown): PolicyRulePack => {
+    const problems: string[] = [];
+    const pack = value as PolicyRulePack;
+    if (!pack || typeof pack !== 'object') throw new PolicyPackError(['The pack must be a JSON object.']);
+
+    if (typeof pack.id !== 'string' || !SLUG.test(pack.id)) problems.push('"id" must be lower-case letters, digits and dashes.');
+    if (typeof pack.version !== 'string' || !SEMVER.test(pack.version)) problems.push('"version" must look like 1.0.0.');
+    if (typeof pack.name !== 'string' || !pack.name.trim()) problems.push('"name" is required.');
+    if (pack.extends !== undefined && typeof pack.extends !== 'string') problems.push('"extends" must be a pack id.');
+    if (!Array.isArray(pack.rules)) problems.push('"rules" must be a list.');
+
+    const seen = new Set<string>();
+    (Array.isArray(pack.rules) ? pack.rules : []).forEach((rule, i) => {
+        const label = `Rule ${typeof rule?.id === 'string' ? `"${rule.id}"` : i + 1}`;
+        if (!rule || typeof rule !== 'object') {
+            problems.push(`${label} must be an object.`);
+            return;
+        }
+        if (typeof rule.id !== 'string' || !SLUG.test(rule.id)) problems.push(`${label}: "id" must be lower-case letters, digits and dashes.`);
+        else if (seen.has(rule.id)) problems.push(`${label} is defined twice.`);
+        else seen.add(rule.id);
+        if (!SEVERITIES.includes(rule.severity)) problems.push(`${label}: "severity" must be low, medium or high.`);
+        for (const field of ['category', 'title', 'explanation'] as const) {
+            if (typeof rule[field] !== 'string' || !rule[field].trim()) problems.push(`${label}: "${field}" is required.`);
+        }
+        if (!isStringArray(rule.patterns) || !rule.patterns.length) problems.push(`${label}: "patterns" needs at least one pattern.`);
+        else problems.push(...patternProblems(`${label} pattern`, rule.patterns));
+        if (rule.exceptions !== undefined) problems.push(...patternProblems(`${label} exception`, rule.exceptions));
+        if (rule.sources !== undefined && !(isStringArray(rule.sources) && rule.sources.every((s) => SOURCE_KINDS.includes(s as PolicySourceKind)))) {
+            problems.push(`${label}: "sources" may only contain ${SOURCE_KINDS.join(', ')}.`);
+        }
+        if (!rule.examples || !isStringArray(rule.examples.match) || !rule.examples.match.length) {
+            problems.push(`${label}: "examples.match" needs at least one text the rule flags.`);
+        } else if (rule.examples.noMatch !== undefined && !isStringArray(rule.examples.noMatch)) {
+            problems.push(`${label}: "examples.noMatch" must be a list of strings.`);
+        }
+    });
+
+    Object.entries(pack.overrides ?? {}).forEach(([ruleId, override]) => {
+        if (!override || typeof override !== 'object') {
+            problems.push(`Override "${ruleId}" must be an object.`);
+            return;
+        }
+        if (override.severity !== undefined && !SEVERITIES.includes(override.severity)) {
+            problems.push(`Override "${ruleId}": "severity" must be low, medium or high.`);
+        }
+        if (override.exceptions !== undefined) problems.push(...patternProblems(`Override "${ruleId}" exception`, override.exceptions));
+    });
+
+    if (problems.length) throw new PolicyPackError(problems);
+    return pack;
+};
+
+// --- Resolution ---
+
+const findPack = (reference: string, available: PolicyRulePack[]) => {
+    const [id, version] = reference.split('@');
+    const candidates = available.filter((pack) => pack.id === id && (!version || pack.version === version));
+    // Without a version, the newest wins
+    return candidates.sort((a, b) => b.version.localeCompare(a.version, undefined, { numeric: true }))[0];
+};
+
+export const resolveRulePack = (pack: PolicyRulePack, available: PolicyRulePack[], seen: string[] = []): ResolvedPolicyPack => {
+    const key = `${pack.id}@${pack.version}`;
+    if (seen.includes(pack.id)) throw new PolicyPackError([`"${pack.id}" extends itself through ${seen.join(' → ')}.`]);
+
+    let rules: ResolvedPolicyRule[] = [];
+    let lineage: string[] = [];
+    if (pack.extends) {
+        const base = findPack(pack.extends, available);
+        if (!base) throw new PolicyPackError([`"${pack.id}" extends "${pack.extends}", which isn't installed.`]);
+        const resolvedBase = resolveRulePack(base, available, [...seen, pack.id]);
+        rules = resolvedBase.rules;
+        lineage = resolvedBase.lineage;
+    }
+
+    // Own rules replace inherited rules with the same id, in place; new ones go last
+    for (const rule of pack.rules) {
+        const own = { ...rule, packId: pack.id };
+        const index = rules.findIndex((existing) => existing.id === rule.id);
+        if (index >= 0) rules[index] = own;
+        else rules.push(own);
+    }
+
+    rules = rules.flatMap((rule) => {
+        const override = pack.overrides?.[rule.id];
+        if (!override) return [rule];
+        if (override.disabled) return [];
+        return [
+            {
+                ...rule,
+                severity: override.severity ?? rule.severity,
+                exceptions: [...(rule.exceptions ?? []), ...(override.exceptions ?? [])],
+            },
+        ];
+    });
+
+    return { id: pack.id, version: pack.version, name: pack.name, rules, lineage: [...lineage, key] };
+};
+
+// --- Matching ---
+
+// Sentence boundaries: terminal punctuation or a line break
+const sentenceAround = (text: string, start: number, end: number) => {
+    let from = start;
+    while (from > 0 && !/[.!?\n]/.test(text[from - 1])) from--;
+    let to = end;
+    while (to < text.length && !/[.!?\n]/.test(text[to])) to++;
+    if (to < text.length && text[to] !== '\n') to++;
+    const raw = text.slice(from, to);
+    const leading = raw.length - raw.trimStart().length;
+    return { text: raw.trim(), start: from + leading };
+};
+
+const SEVERITY_RANK: Record<PolicySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const matchRule = (rule: ResolvedPolicyRule, source: PolicySource): PolicyHit[] => {
+    const exceptions = (rule.exceptions ?? []).map((exception) => compile(exception, 'iu'));
+    const spans: { start: number; end: number }[] = [];
+    for (const pattern of rule.patterns) {
+        for (const match of source.text.matchAll(compile(pattern))) {
+            if (!match[0]) continue;
+            spans.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+        }
+    }
+    // Overlapping matches from different patterns are one finding; keep the earliest, longest span
+    spans.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const hits: PolicyHit[] = [];
+    let lastEnd = -1;
+    for (const span of spans) {
+        if (span.start < lastEnd) continue;
+        const context = sentenceAround(source.text, span.start, span.end);
+        if (exceptions.some((exception) => exception.test(context.text))) continue;
+        lastEnd = span.end;
+        hits.push({
+            id: `${rule.id}:${source.kind}:${span.start}`,
+            ruleId: rule.id,
+            packId: rule.packId,
+            category: rule.category,
+            severity: rule.severity,
+            title: rule.title,
+            explanation: rule.explanation,
+            source: source.kind,
+            start: span.start,
+            end: span.end,
+            match: source.text.slice(span.start, span.end),
+            context,
+        });
+    }
+    return hits;
+};
+
+// Highest severity first, then in the order the inputs and text were given
+export const checkPolicy = (pack: ResolvedPolicyPack, sources: PolicySource[]): PolicyHit[] => {
+    const hits = sources.flatMap((source, sourceIndex) =>
+        pack.rules
+            .filter((rule) => !rule.sources || rule.sources.includes(source.kind))
+            .flatMap((rule) => matchRule(rule, source).map((hit) => ({ hit, sourceIndex })))
+    );
+    return hits
+        .sort(
+            (a, b) =>
+                SEVERITY_RANK[a.hit.severity] - SEVERITY_RANK[b.hit.severity] ||
+                a.sourceIndex - b.sourceIndex ||
+                a.hit.start - b.hit.start ||
+                a.hit.ruleId.localeCompare(b.hit.ruleId)
+        )
+        .map(({ hit }) => hit);
+};
+
+// Runs each rule's examples through it. Rules adjusted by an override are checked as adjusted,
+// so an exception that swallows a base example shows up here.
+export const verifyRulePack = (pack: ResolvedPolicyPack, ruleIds?: string[]): PolicyFixtureFailure[] =>
+    pack.rules
+        .filter((rule) => !ruleIds || ruleIds.includes(rule.id))
+        .flatMap((rule) => {
+            const single: ResolvedPolicyPack = { ...pack, rules: [{ ...rule, sources: undefined }] };
+            const flags = (example: string) => checkPolicy(single, [{ kind: 'copy', text: example }]).length > 0;
+            return [
+                ...rule.examples.match.filter((example) => !flags(example)).map((example) => ({ ruleId: rule.id, example, expected: 'match' as const })),
+                ...(rule.examples.noMatch ?? []).filter(flags).map((example) => ({ ruleId: rule.id, example, expected: 'noMatch' as const })),
+            ];
+        });
+
+export const describeFixtureFailure = ({ ruleId, example, expected }: PolicyFixtureFailure) =>
+    expected === 'match' ? `Rule "${ruleId}" doesn't flag its example "${example}".` : `Rule "${ruleId}" flags "${example}", which it shouldn't.`;
+
+export const countBySeverity = (hits: PolicyHit[]) =>
+    Object.fromEntries(POLICY_SEVERITY_ORDER.map((severity) => [severity, hits.filter((hit) => hit.severity === severity).length])) as Record<
+        PolicySeverity,
+        number
+    >;
@@ -0,0 +1,75 @@
+import { User } from "../types";
+import metaAdsPack from "../policy/packs/meta-ads.json";
+import {
+    PolicyPackError,
+    PolicyRulePack,
+    ResolvedPolicyPack,
+    describeFixtureFailure,
+    resolveRulePack,
+    validateRulePack,
+    verifyRulePack,
+} from "./policyEngine";
+
+// Built-in packs ship with the app. Teams add their own by importing a JSON pack, usually one that
+// extends a built-in pack; imported packs are kept per account in localStorage.
+
+const CUSTOM_PACKS_KEY = 'viralAudit.policyPacks';
+
+export const BUILT_IN_POLICY_PACKS: PolicyRulePack[] = [metaAdsPack as PolicyRulePack];
+
+export const DEFAULT_POLICY_PACK = 'meta-ads';
+
+const readAll = (): Record<string, PolicyRulePack[]> => {
+    try {
+        return JSON.parse(localStorage.getItem(CUSTOM_PACKS_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeAll = (all: Record<string, PolicyRulePack[]>) => localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify(all));
+
+export const listCustomPacks = (user: User): PolicyRulePack[] => readAll()[user.id] ?? [];
+
+export const listPolicyPacks = (user: User | null): PolicyRulePack[] => [...BUILT_IN_POLICY_PACKS, ...(user ? listCustomPacks(user) : [])];
+
+export const packKey = (pack: { id: string; version: string }) => `${pack.id}@${pack.version}`;
+
+export const loadPolicyPack = (user: User | null, key: string): ResolvedPolicyPack => {
+    const available = listPolicyPacks(user);
+    const pack = available.find((candidate) => packKey(candidate) === key) ?? available.find((candidate) => candidate.id === DEFAULT_POLICY_PACK);
+    return resolveRulePack(pack, available);
+};
+
+// Validates the JSON, resolves what it extends and runs its own rules' examples. A pack that
+// fails any of those isn't saved. Re-importing the same id and version replaces it.
+export const importPolicyPack = (user: User, json: string): PolicyRulePack => {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new PolicyPackError(['The file is not valid JSON.']);
+    }
+    const pack = validateRulePack(value);
+    if (BUILT_IN_POLICY_PACKS.some((builtIn) => builtIn.id === pack.id)) {
+        throw new PolicyPackError([`"${pack.id}" is a built-in pack. Give your pack its own id and extend it instead.`]);
+    }
+
+    const others = listCustomPacks(user).filter((existing) => packKey(existing) !== packKey(pack));
+    const resolved = resolveRulePack(pack, [...BUILT_IN_POLICY_PACKS, ...others]);
+    const failures = verifyRulePack(resolved, [...pack.rules.map((rule) => rule.id), ...Object.keys(pack.overrides ?? {})]);
+    if (failures.length) {
+        throw new PolicyPackError(failures.map(describeFixtureFailure));
+    }
+
+    const all = readAll();
+    all[user.id] = [...others, pack];
+    writeAll(all);
+    return pack;
+};
+
+export const removePolicyPack = (user: User, key: string) => {
+    const all = readAll();
+    all[user.id] = listCustomPacks(user).filter((pack) => packKey(pack) !== key);
+    writeAll(all);
+};
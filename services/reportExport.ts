@@ -0,0 +1,272 @@
+import { AuditReport, AuditScoring, ReportBlock, ReportSectionKey, REPORT_SUBSCORE_ORDER } from "../types";
+import { extractFindings, formatTimestamp } from "./findings";
+import { reportSectionKeys } from "./reportParser";
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfFont, PdfPage, buildPdf, measureText, wrapText } from "./pdf";
+
+// Report exports. Every format is a pure function of the report and the metadata passed in:
+// no clocks, locales or random ids, so the output can be compared byte for byte.
+
+export interface ReportExportMeta {
+    creativeName?: string;
+    // ISO timestamp; exports show the UTC date only
+    createdAt?: string;
+    durationSec?: number;
+    // Rubric score of a saved audit; the headline score when present
+    scoring?: AuditScoring;
+}
+
+export type ReportExportFormat = 'markdown' | 'pdf' | 'json' | 'csv';
+
+const SECTION_HEADINGS: Record<ReportSectionKey, string> = {
+    hook: 'Hook',
+    body: 'Body',
+    audio: 'Audio',
+    script: 'Script',
+    brand: 'Brand',
+};
+
+// Same palette as the on-screen report
+const SECTION_HEX: Record<ReportSectionKey, string> = {
+    hook: '#ff2e63',
+    body: '#08d9d6',
+    audio: '#ffbd2e',
+    script: '#a78bfa',
+    brand: '#34d399',
+};
+
+// Reports use *word* for emphasis; formats without markup drop the asterisks
+const stripEmphasis = (text: string) => text.replace(/\*([^*\n]+)\*/g, '$1');
+
+const metaLine = (meta: ReportExportMeta) =>
+    [
+        meta.createdAt ? `Audited ${meta.createdAt.slice(0, 10)}` : null,
+        meta.durationSec !== undefined ? `Duration ${formatTimestamp(meta.durationSec)}` : null,
+    ]
+        .filter(Boolean)
+        .join(' · ');
+
+const scoreLine = (report: AuditReport, meta: ReportExportMeta) =>
+    meta.scoring
+        ? `Score: ${meta.scoring.score}/10 (${meta.scoring.rubricName} rubric v${meta.scoring.rubricVersion})`
+        : `Score: ${report.score}/${report.maxScore}`;
+
+// --- Markdown ---
+
+const blockToMarkdown = (block: ReportBlock) => {
+    if (block.type === 'list') {
+        const items = block.items.map((item) => `- ${item}`).join('\n');
+        return block.label ? `**${block.label}:**\n\n${items}` : items;
+    }
+    return block.label ? `**${block.label}:** ${block.text}`.trimEnd() : block.text;
+};
+
+export const reportToMarkdown = (report: AuditReport, meta: ReportExportMeta = {}) => {
+    const parts = [meta.creativeName ? `# ViralAudit Report: ${meta.creativeName}` : '# ViralAudit Report'];
+    const details = metaLine(meta);
+    if (details) parts.push(`_${details}_`);
+    parts.push(`**${scoreLine(report, meta)}**`);
+    reportSectionKeys(report).forEach((key) => {
+        parts.push(`## ${SECTION_HEADINGS[key]}`);
+        report.sections[key].blocks.forEach((block) => parts.push(blockToMarkdown(block)));
+    });
+    return parts.join('\n\n') + '\n';
+};
+
+// --- JSON ---
+
+// Rebuilt field by field so key order is fixed, whatever order the report object was assembled in
+export const reportToJson = (report: AuditReport) => {
+    const sections = Object.fromEntries(
+        reportSectionKeys(report).map((key) => [
+            key,
+            {
+                key,
+                blocks: report.sections[key].blocks.map((block) =>
+                    block.type === 'list'
+                        ? { type: block.type, ...(block.label !== undefined && { label: block.label }), items: [...block.items] }
+                        : { type: block.type, ...(block.label !== undefined && { label: block.label }), text: block.text }
+                ),
+            },
+        ])
+    );
+    const subscores = report.subscores && Object.fromEntries(
+        REPORT_SUBSCORE_ORDER.filter((key) => report.subscores[key] !== undefined).map((key) => [key, report.subscores[key]])
+    );
+    return JSON.stringify({ score: report.score, maxScore: report.maxScore, ...(subscores && { subscores }), sections }, null, 2) + '\n';
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = ['section', 'timestamp', 'start_sec', 'end_sec', 'heading', 'finding'];
+
+// Quoted per RFC 4180. Cells that a spreadsheet would run as a formula get a leading apostrophe.
+export const csvCell = (value: string | number | undefined) => {
+    let text = value === undefined ? '' : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per timestamped finding, in report order
+export const reportToCsv = (report: AuditReport, durationSec?: number) => {
+    const rows = extractFindings(report, durationSec).map((finding) => [
+        SECTION_HEADINGS[finding.section],
+        finding.label,
+        finding.startSec,
+        finding.endSec,
+        report.sections[finding.section].blocks[finding.blockIndex]?.label,
+        stripEmphasis(finding.text),
+    ]);
+    return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- PDF ---
+
+const MARGIN = 56;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 14;
+const BULLET_INDENT = 14;
+const TEXT_COLOR = '#1a1a1a';
+const MUTED_COLOR = '#6b6b6b';
+
+// Lays text out top to bottom, starting a new page whenever the next line won't fit
+const createPdfLayout = () => {
+    const pages: PdfPage[] = [];
+    let page: PdfPage;
+    let y = 0;
+
+    const newPage = () => {
+        page = { texts: [], rules: [] };
+        pages.push(page);
+        y = PDF_PAGE_HEIGHT - MARGIN;
+    };
+    newPage();
+
+    const ensure = (height: number) => {
+        if (y - height < MARGIN + LINE_HEIGHT) newPage();
+    };
+
+    const write = (text: string, { font = 'regular' as PdfFont, size = BODY_SIZE, color = TEXT_COLOR, indent = 0, lineHeight = LINE_HEIGHT } = {}) => {
+        wrapText(text, font, size, CONTENT_WIDTH - indent).forEach((line) => {
+            ensure(lineHeight);
+            y -= lineHeight;
+            page.texts.push({ x: MARGIN + indent, y, text: line, font, size, color });
+        });
+    };
+
+    const bullet = (text: string) => {
+        ensure(LINE_HEIGHT);
+        page.texts.push({ x: MARGIN + 2, y: y - LINE_HEIGHT, text: '•', font: 'regular', size: BODY_SIZE, color: MUTED_COLOR });
+        write(text, { indent: BULLET_INDENT });
+    };
+
+    const gap = (height: number) => {
+        y -= height;
+    };
+
+    const rule = (color = '#dddddd') => {
+        ensure(8);
+        y -= 6;
+        page.rules.push({ x1: MARGIN, y1: y, x2: PDF_PAGE_WIDTH - MARGIN, y2: y, color });
+    };
+
+    // Footers are added last so they can say how many pages there are
+    const finish = () => {
+        pages.forEach((p, i) => {
+            const label = `Page ${i + 1} of ${pages.length}`;
+            p.texts.push({ x: MARGIN, y: MARGIN / 2, text: 'ViralAudit', font: 'bold', size: 8, color: MUTED_COLOR });
+            p.texts.push({
+                x: PDF_PAGE_WIDTH - MARGIN - measureText(label, 'regular', 8),
+                y: MARGIN / 2,
+                text: label,
+                font: 'regular',
+                size: 8,
+                color: MUTED_COLOR,
+            });
+        });
+        return pages;
+    };
+
+    return { write, bullet, gap, rule, ensure, finish };
+};
+
+export const reportToPdf = (report: AuditReport, meta: ReportExportMeta = {}): Uint8Array => {
+    const layout = createPdfLayout();
+    const title = meta.creativeName ? `ViralAudit Report: ${meta.creativeName}` : 'ViralAudit Report';
+
+    layout.write(title, { font: 'bold', size: 18, lineHeight: 24 });
+    const details = metaLine(meta);
+    if (details) layout.write(details, { size: 9, color: MUTED_COLOR });
+    layout.gap(6);
+    layout.write(scoreLine(report, meta), { font: 'bold', size: 14, lineHeight: 20 });
+    layout.rule();
+
+    reportSectionKeys(report).forEach((key) => {
+        layout.gap(10);
+        // Keep a heading on the same page as at least its first two lines
+        layout.ensure(LINE_HEIGHT * 4);
+        layout.write(SECTION_HEADINGS[key].toUpperCase(), { font: 'bold', size: 12, color: SECTION_HEX[key], lineHeight: 18 });
+        report.sections[key].blocks.forEach((block) => {
+            if (block.label) layout.write(block.label, { font: 'bold' });
+            if (block.type === 'list') {
+                block.items.forEach((item) => layout.bullet(stripEmphasis(item)));
+            } else if (block.text) {
+                layout.write(stripEmphasis(block.text));
+            }
+            layout.gap(6);
+        });
+    });
+
+    return buildPdf(layout.finish(), { title });
+};
+
+// --- Files ---
+
+const MIME_TYPES: Record<ReportExportFormat, string> = {
+    markdown: 'text/markdown;charset=utf-8',
+    pdf: 'application/pdf',
+    json: 'application/json;charset=utf-8',
+    csv: 'text/csv;charset=utf-8',
+};
+
+const EXTENSIONS: Record<ReportExportFormat, string> = { markdown: 'md', pdf: 'pdf', json: 'json', csv: 'csv' };
+
+export const exportFileName = (meta: ReportExportMeta, format: ReportExportFormat) => {
+    const base = (meta.creativeName ?? 'report')
+        .replace(/\.[a-z0-9]+$/i, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return `${base || 'report'}-audit.${EXTENSIONS[format]}`;
+};
+
+export const exportReport = (report: AuditReport, meta: ReportExportMeta, format: ReportExportFormat): string | Uint8Array => {
+    switch (format) {
+        case 'markdown':
+            return reportToMarkdown(report, meta);
+        case 'pdf':
+            return reportToPdf(report, meta);
+        case 'json':
+            return reportToJson(report);
+        case 'csv':
+            return reportToCsv(report, meta.durationSec);
+    }
+};
+
+export const downloadFile = (fileName: string, parts: BlobPart[], mimeType: string) => {
+    const url = URL.createObjectURL(new Blob(parts, { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadReport = (report: AuditReport, meta: ReportExportMeta, format: ReportExportFormat) => {
+    const content = exportReport(report, meta, format);
+    // The byte order mark tells Excel the CSV is UTF-8; it isn't part of the deterministic export
+    downloadFile(exportFileName(meta, format), format === 'csv' ? ['\uFEFF', content] : [content], MIME_TYPES[format]);
+};
+
+export const copyReportMarkdown = (report: AuditReport, meta: ReportExportMeta = {}) =>
+    navigator.clipboard.writeText(reportToMarkdown(report, meta));
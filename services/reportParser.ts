@@ -0,0 +1,275 @@
+import {
+    AuditReport,
+    ReportBlock,
+    ReportParseResult,
+    ReportSection,
+    ReportSectionKey,
+    ReportSubscoreKey,
+    ReportValidationError,
+    REPORT_SECTION_ORDER,
+    REPORT_SUBSCORE_ORDER,
+    REQUIRED_REPORT_SECTIONS,
+} from "../types";
+
+// Reports are plain text tagged with #SCORE / #HOOK / #BODY / #AUDIO / #SCRIPT headings.
+// Inside a section, "**Label:** text" starts a labelled paragraph and "- item" lines form a list.
+// An optional #SUBSCORES block holds one "HOOK: 7/10" line per scored dimension, and audits run
+// against a brand profile add a #BRAND section.
+
+const SECTION_TAGS: Record<string, ReportSectionKey> = {
+    HOOK: 'hook',
+    BODY: 'body',
+    AUDIO: 'audio',
+    SCRIPT: 'script',
+    BRAND: 'brand',
+};
+
+export const SECTION_TITLES: Record<ReportSectionKey, string> = {
+    hook: 'HOOK',
+    body: 'BODY',
+    audio: 'AUDIO',
+    script: 'SCRIPT',
+    brand: 'BRAND',
+};
+
+// The report's sections in display order, skipping optional ones it doesn't have
+export const reportSectionKeys = (report: AuditReport): ReportSectionKey[] => REPORT_SECTION_ORDER.filter((key) => report.sections[key]);
+
+const SUBSCORE_TAGS: Record<string, ReportSubscoreKey> = {
+    HOOK: 'hook',
+    PACING: 'pacing',
+    VISUALS: 'visuals',
+    AUDIO: 'audio',
+    SCRIPT: 'script',
+    CTA: 'cta',
+    'CALL TO ACTION': 'cta',
+};
+
+export const SUBSCORE_TITLES: Record<ReportSubscoreKey, string> = {
+    hook: 'HOOK',
+    pacing: 'PACING',
+    visuals: 'VISUALS',
+    audio: 'AUDIO',
+    script: 'SCRIPT',
+    cta: 'CTA',
+};
+
+const SCORE_LINE = /^#SCORE\s*:?\s*(-?\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?))?\s*$/i;
+const HEADING_LINE = /^#([A-Z][A-Z _-]*)\s*$/i;
+const LABEL_LINE = /^\*\*(.+?):\*\*\s*(.*)$/;
+const LIST_LINE = /^(?:[-*•])\s+(.*)$/;
+const SUBSCORE_LINE = /^(?:[-*•]\s+)?([A-Z][A-Z _-]*?)\s*:\s*(-?\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?))?$/i;
+
+const emptySection = (key: ReportSectionKey): ReportSection => ({ key, blocks: [] });
+
+export const parseAuditReport = (text: string): ReportParseResult => {
+    const errors: ReportValidationError[] = [];
+    const sections = {} as Record<ReportSectionKey, ReportSection>;
+    let score: number | null = null;
+    let maxScore = 10;
+    let current: ReportSection | null = null;
+    let subscores: Partial<Record<ReportSubscoreKey, number>> | null = null;
+    let inSubscores = false;
+    // Paragraph being accumulated across wrapped lines; reset on blank lines and block boundaries
+    let openParagraph: Extract<ReportBlock, { type: 'paragraph' }> | null = null;
+
+    const lines = (text ?? '').replace(/\r\n?/g, '\n').split('\n');
+
+    lines.forEach((rawLine, index) => {
+        const lineNo = index + 1;
+        const line = rawLine.trim();
+
+        if (!line) {
+            openParagraph = null;
+            return;
+        }
+
+        const scoreMatch = line.match(SCORE_LINE);
+        if (scoreMatch) {
+            if (score !== null) {
+                errors.push({ section: 'score', line: lineNo, message: 'Duplicate #SCORE line.' });
+                return;
+            }
+            score = parseFloat(scoreMatch[1]);
+            if (scoreMatch[2]) maxScore = parseFloat(scoreMatch[2]);
+            if (maxScore <= 0) {
+                errors.push({ section: 'score', line: lineNo, message: `Score maximum must be positive, got ${maxScore}.` });
+                maxScore = 10;
+            }
+            if (score < 0 || score > maxScore) {
+                errors.push({ section: 'score', line: lineNo, message: `Score ${score} is outside 0-${maxScore}.` });
+            }
+            current = null;
+            openParagraph = null;
+            inSubscores = false;
+            return;
+        }
+
+        if (/^#SCORE\b/i.test(line)) {
+            errors.push({ section: 'score', line: lineNo, message: `Malformed score line "${line}". Expected "#SCORE: <n>/10".` });
+            return;
+        }
+
+        const headingMatch = line.match(HEADING_LINE);
+        if (headingMatch) {
+            const tag = headingMatch[1].trim().toUpperCase();
+            const key = SECTION_TAGS[tag];
+            openParagraph = null;
+            inSubscores = false;
+            if (tag === 'SUBSCORES') {
+                current = null;
+                if (subscores) {
+                    errors.push({ section: 'subscores', line: lineNo, message: 'Duplicate #SUBSCORES block.' });
+                    return;
+                }
+                subscores = {};
+                inSubscores = true;
+                return;
+            }
+            if (!key) {
+                errors.push({ line: lineNo, message: `Unknown section "#${tag}".` });
+                current = null;
+                return;
+            }
+            if (sections[key]) {
+                errors.push({ section: key, line: lineNo, message: `Duplicate #${tag} section.` });
+                current = null;
+                return;
+            }
+            current = emptySection(key);
+            sections[key] = current;
+            return;
+        }
+
+        if (inSubscores) {
+            const subscoreMatch = line.match(SUBSCORE_LINE);
+            const subscoreKey = subscoreMatch && SUBSCORE_TAGS[subscoreMatch[1].trim().toUpperCase()];
+            if (!subscoreMatch) {
+                errors.push({ section: 'subscores', line: lineNo, message: `Malformed sub-score "${line}". Expected "HOOK: <n>/10".` });
+                return;
+            }
+            if (!subscoreKey) {
+                errors.push({ section: 'subscores', line: lineNo, message: `Unknown sub-score "${subscoreMatch[1].trim()}".` });
+                return;
+            }
+            if (subscores[subscoreKey] !== undefined) {
+                errors.push({ section: 'subscores', line: lineNo, message: `Duplicate ${SUBSCORE_TITLES[subscoreKey]} sub-score.` });
+                return;
+            }
+            const value = parseFloat(subscoreMatch[2]);
+            const max = subscoreMatch[3] ? parseFloat(subscoreMatch[3]) : 10;
+            if (max <= 0 || value < 0 || value > max) {
+                errors.push({ section: 'subscores', line: lineNo, message: `Sub-score ${value} is outside 0-${max}.` });
+                return;
+            }
+            // Stored out of 10, to one decimal, whatever scale the model used
+            subscores[subscoreKey] = Math.round((value / max) * 100) / 10;
+            return;
+        }
+
+        if (!current) {
+            errors.push({ line: lineNo, message: 'Text found outside of a section heading.' });
+            return;
+        }
+
+        const listMatch = line.match(LIST_LINE);
+        if (listMatch) {
+            openParagraph = null;
+            const last = current.blocks[current.blocks.length - 1];
+            if (last?.type === 'list') {
+                last.items.push(listMatch[1]);
+            } else if (last?.type === 'paragraph' && last.label && !last.text) {
+                // "**Pacing/Visuals:**" on its own line introduces the list that follows
+                current.blocks[current.blocks.length - 1] = { type: 'list', label: last.label, items: [listMatch[1]] };
+            } else {
+                current.blocks.push({ type: 'list', items: [listMatch[1]] });
+            }
+            return;
+        }
+
+        const labelMatch = line.match(LABEL_LINE);
+        if (labelMatch) {
+            openParagraph = { type: 'paragraph', label: labelMatch[1].trim(), text: labelMatch[2].trim() };
+            current.blocks.push(openParagraph);
+            return;
+        }
+
+        if (openParagraph) {
+            openParagraph.text = openParagraph.text ? `${openParagraph.text} ${line}` : line;
+            return;
+        }
+
+        openParagraph = { type: 'paragraph', text: line };
+        current.blocks.push(openParagraph);
+    });
+
+    if (score === null) {
+        errors.push({ section: 'score', message: 'Missing "#SCORE: <n>/10" line.' });
+    }
+
+    REPORT_SECTION_ORDER.forEach((key) => {
+        const section = sections[key];
+        if (!section) {
+            if (!REQUIRED_REPORT_SECTIONS.includes(key)) return;
+            errors.push({ section: key, message: `Missing #${SECTION_TITLES[key]} section.` });
+        } else if (!section.blocks.some((b) => (b.type === 'list' ? b.items.length > 0 : b.text.length > 0))) {
+            errors.push({ section: key, message: `#${SECTION_TITLES[key]} section is empty.` });
+        }
+    });
+
+    if (errors.length > 0) {
+        return { report: null, errors };
+    }
+
+    const report: AuditReport = { score: score as number, maxScore, sections };
+    if (subscores && Object.keys(subscores).length > 0) report.subscores = subscores;
+    return { report, errors: [] };
+};
+
+// Inverse of parseAuditReport; parsing the output yields an equal report.
+export const serializeAuditReport = (report: AuditReport): string => {
+    const out: string[] = [`#SCORE: ${report.score}/${report.maxScore}`];
+    const subscoreKeys = REPORT_SUBSCORE_ORDER.filter((key) => report.subscores?.[key] !== undefined);
+    if (subscoreKeys.length) {
+        out.push('', '#SUBSCORES', ...subscoreKeys.map((key) => `${SUBSCORE_TITLES[key]}: ${report.subscores[key]}/10`));
+    }
+    reportSectionKeys(report).forEach((key) => {
+        out.push('', `#${SECTION_TITLES[key]}`);
+        report.sections[key].blocks.forEach((block) => {
+            if (block.type === 'list') {
+                if (block.label) out.push(`**${block.label}:**`);
+                block.items.forEach((item) => out.push(`- ${item}`));
+            } else {
+                out.push(block.label ? `**${block.label}:** ${block.text}`.trimEnd() : block.text);
+            }
+            out.push('');
+        });
+        if (out[out.length - 1] === '') out.pop();
+    });
+    return out.join('\n') + '\n';
+};
+
+export const formatReportErrors = (errors: ReportValidationError[]): string =>
+    errors.map((e) => (e.line ? `Line ${e.line}: ${e.message}` : e.message)).join('\n');
+
+// Models drift from the tagged format in predictable ways: code fences, markdown headings
+// ("## Hook"), bold tags ("**#HOOK**") and unprefixed score lines. Fold those back before parsing.
+export const normalizeReportText = (raw: string): string => {
+    let text = (raw ?? '').replace(/\r\n?/g, '\n').trim();
+
+    const fenced = text.match(/^```[a-z]*\n([\s\S]*?)\n```$/i);
+    if (fenced) text = fenced[1];
+
+    return text
+        .split('\n')
+        .map((line) => {
+            const trimmed = line.trim();
+            const heading = trimmed.match(/^(?:#{1,6}\s*|\*\*#?)?#?(HOOK|BODY|AUDIO|SCRIPT|BRAND|SUBSCORES)\s*:?(?:\*\*)?\s*$/i);
+            if (heading) return `#${heading[1].toUpperCase()}`;
+            const score = trimmed.match(/^(?:#{1,6}\s*|\*\*)?#?SCORE\s*:?\s*(?:\*\*)?\s*(-?\d+(?:\.\d+)?)\s*(?:\/|out of)\s*(\d+)\s*(?:\*\*)?$/i);
+            if (score) return `#SCORE: ${score[1]}/${score[2]}`;
+            return line;
+        })
+        .join('\n')
+        .trim() + '\n';
+};
@@ -0,0 +1,86 @@
+import { ScriptDraft, ScriptVariant, User } from "../types";
+import { randomToken } from "./localAuthServer";
+import { requestToPromise, withStore } from "./idb";
+import { GeneratedVariant, latestVersion } from "./scriptRewrites";
+
+// Script variants, per audit, in IndexedDB. Variants belong to the account that generated them.
+
+const STORE = 'rewrites';
+
+const cleanDraft = (draft: ScriptDraft): ScriptDraft => ({
+    hook: draft.hook.trim(),
+    beats: draft.beats
+        .map((beat) => (beat.visual?.trim() ? { voiceover: beat.voiceover.trim(), visual: beat.visual.trim() } : { voiceover: beat.voiceover.trim() }))
+        .filter((beat) => beat.voiceover),
+});
+
+export const saveGeneratedVariants = async (
+    user: User,
+    auditId: string,
+    original: string,
+    generated: GeneratedVariant[],
+    providerId: string,
+    now = new Date()
+): Promise<ScriptVariant[]> => {
+    const variants = generated.map(
+        ({ tone, ...draft }): ScriptVariant => ({
+            id: `scr_${randomToken(9)}`,
+            userId: user.id,
+            auditId,
+            tone,
+            original,
+            versions: [{ ...cleanDraft(draft), createdAt: now.toISOString() }],
+            starred: false,
+            providerId,
+            createdAt: now.toISOString(),
+            updatedAt: now.toISOString(),
+        })
+    );
+    await withStore(STORE, 'readwrite', async (store) => {
+        for (const variant of variants) await requestToPromise(store.put(variant));
+    });
+    return variants;
+};
+
+// Starred first, then newest
+export const sortVariants = (variants: ScriptVariant[]) =>
+    [...variants].sort((a, b) => Number(b.starred) - Number(a.starred) || b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id));
+
+export const listVariants = async (user: User, auditId: string): Promise<ScriptVariant[]> => {
+    const variants = await withStore(STORE, 'readonly', (store) =>
+        requestToPromise<ScriptVariant[]>(store.index('auditId').getAll(auditId))
+    );
+    return sortVariants(variants.filter((variant) => variant.userId === user.id));
+};
+
+const modifyVariant = (user: User, id: string, change: (variant: ScriptVariant) => ScriptVariant) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const variant = await requestToPromise<ScriptVariant | undefined>(store.get(id));
+        if (!variant || variant.userId !== user.id) throw new Error('Script variant not found.');
+        const updated = change(variant);
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+
+export const setVariantStarred = (user: User, id: string, starred: boolean) =>
+    modifyVariant(user, id, (variant) => ({ ...variant, starred }));
+
+// Saves an edit as a new version. Saving something identical to the latest version is a no-op.
+export const addVariantVersion = (user: User, id: string, draft: ScriptDraft, now = new Date()) =>
+    modifyVariant(user, id, (variant) => {
+        const next = cleanDraft(draft);
+        if (!next.hook || !next.beats.length) throw new Error('A script needs a hook and at least one line.');
+        const { createdAt: _createdAt, ...current } = latestVersion(variant);
+        if (JSON.stringify(current) === JSON.stringify(next)) return variant;
+        return {
+            ...variant,
+            versions: [...variant.versions, { ...next, createdAt: now.toISOString() }],
+            updatedAt: now.toISOString(),
+        };
+    });
+
+export const deleteVariant = async (user: User, id: string) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const variant = await requestToPromise<ScriptVariant | undefined>(store.get(id));
+        if (variant && variant.userId === user.id) await requestToPromise(store.delete(id));
+    });
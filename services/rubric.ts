@@ -0,0 +1,96 @@
+import { AuditReport, AuditScoring, REPORT_SUBSCORE_ORDER, ReportSubscoreKey, RubricWeights, ScoringRubric } from "../types";
+
+// Weighted scoring: the headline score is the weighted mean of a report's sub-scores under a rubric.
+// Sub-scores the report doesn't have drop out and the remaining weights are rescaled, so a report
+// from before visuals and CTA were scored still gets a score out of 10.
+
+export const MAX_RUBRIC_WEIGHT = 10;
+const MAX_NAME_LENGTH = 60;
+
+export type RubricDefinition = Pick<ScoringRubric, 'id' | 'version' | 'name' | 'weights'>;
+
+export const SUBSCORE_LABELS: Record<ReportSubscoreKey, string> = {
+    hook: 'Hook',
+    pacing: 'Pacing',
+    visuals: 'Visuals',
+    audio: 'Audio',
+    script: 'Script',
+    cta: 'CTA',
+};
+
+// Until a library saves a rubric, every sub-score counts the same
+export const DEFAULT_RUBRIC: RubricDefinition = {
+    id: 'default',
+    version: 0,
+    name: 'Balanced',
+    weights: { hook: 1, pacing: 1, visuals: 1, audio: 1, script: 1, cta: 1 },
+};
+
+export const RUBRIC_PRESETS: { name: string; weights: RubricWeights }[] = [
+    { name: 'Balanced', weights: DEFAULT_RUBRIC.weights },
+    // Short-form feeds are decided in the first second or two
+    { name: 'Hook-first (TikTok, Reels)', weights: { hook: 4, pacing: 2, visuals: 1.5, audio: 1, script: 1, cta: 0.5 } },
+    { name: 'Direct response', weights: { hook: 2, pacing: 1, visuals: 1, audio: 0.5, script: 2, cta: 3 } },
+];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const validateRubric = (name: string, weights: RubricWeights) => {
+    if (!name.trim()) throw new Error('Give the rubric a name.');
+    if (name.trim().length > MAX_NAME_LENGTH) throw new Error(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+    for (const key of REPORT_SUBSCORE_ORDER) {
+        const weight = weights[key];
+        if (!Number.isFinite(weight) || weight < 0 || weight > MAX_RUBRIC_WEIGHT) {
+            throw new Error(`${SUBSCORE_LABELS[key]} needs a weight from 0 to ${MAX_RUBRIC_WEIGHT}.`);
+        }
+    }
+    if (REPORT_SUBSCORE_ORDER.every((key) => weights[key] === 0)) throw new Error('Give at least one sub-score a weight.');
+};
+
+export const sameWeights = (a: RubricWeights, b: RubricWeights) => REPORT_SUBSCORE_ORDER.every((key) => a[key] === b[key]);
+
+// Each weight as a share of the total, 0-1
+export const weightShares = (weights: RubricWeights): RubricWeights => {
+    const total = REPORT_SUBSCORE_ORDER.reduce((sum, key) => sum + weights[key], 0);
+    const shares = {} as RubricWeights;
+    for (const key of REPORT_SUBSCORE_ORDER) shares[key] = total > 0 ? weights[key] / total : 0;
+    return shares;
+};
+
+export interface ScoreBreakdownRow {
+    key: ReportSubscoreKey;
+    // Null when the report has no score for it
+    subscore: number | null;
+    weight: number;
+    // Share of the headline score this row carries, 0-1, among the sub-scores present
+    share: number;
+    // Points this row adds to the headline score
+    points: number;
+}
+
+export const scoreBreakdown = (report: AuditReport, weights: RubricWeights): ScoreBreakdownRow[] => {
+    const present = REPORT_SUBSCORE_ORDER.filter((key) => report.subscores?.[key] !== undefined);
+    const total = present.reduce((sum, key) => sum + weights[key], 0);
+    return REPORT_SUBSCORE_ORDER.map((key) => {
+        const subscore = report.subscores?.[key] ?? null;
+        const share = subscore !== null && total > 0 ? weights[key] / total : 0;
+        return { key, subscore, weight: weights[key], share, points: subscore !== null ? subscore * share : 0 };
+    });
+};
+
+// Null when none of the weighted sub-scores are in the report; the model's own score stands then
+export const scoreReport = (report: AuditReport, rubric: RubricDefinition, now = new Date()): AuditScoring | null => {
+    const rows = scoreBreakdown(report, rubric.weights);
+    if (!rows.some((row) => row.share > 0)) return null;
+    return {
+        rubricId: rubric.id,
+        rubricVersion: rubric.version,
+        rubricName: rubric.name,
+        weights: { ...rubric.weights },
+        score: round1(rows.reduce((sum, row) => sum + row.points, 0)),
+        scoredAt: now.toISOString(),
+    };
+};
+
+export const isScoredWith = (scoring: AuditScoring | undefined, rubric: RubricDefinition) =>
+    !!scoring && scoring.rubricId === rubric.id && scoring.rubricVersion === rubric.version;
@@ -0,0 +1,45 @@
+import { RubricWeights, ScoringRubric } from "../types";
+import { randomToken } from "./localAuthServer";
+import { requestToPromise, withStore } from "./idb";
+import { DEFAULT_RUBRIC, RubricDefinition, validateRubric } from "./rubric";
+import { LibraryScope, assertScopeAllows, inScope } from "./workspaces";
+
+// Scoring rubric versions, per account or team workspace, in IndexedDB. The newest version is the
+// one new audits are scored with.
+
+const STORE = 'rubrics';
+
+export interface RubricInput {
+    name: string;
+    weights: RubricWeights;
+}
+
+// Newest first
+export const listRubricVersions = async (scope: LibraryScope): Promise<ScoringRubric[]> => {
+    const rubrics = await withStore(STORE, 'readonly', (store) =>
+        requestToPromise<ScoringRubric[]>(
+            scope.workspaceId ? store.index('workspaceId').getAll(scope.workspaceId) : store.index('userId').getAll(scope.userId)
+        )
+    );
+    return rubrics.filter((rubric) => inScope(scope, rubric)).sort((a, b) => b.version - a.version);
+};
+
+export const getActiveRubric = async (scope: LibraryScope): Promise<RubricDefinition> =>
+    (await listRubricVersions(scope))[0] ?? DEFAULT_RUBRIC;
+
+export const saveRubricVersion = async (scope: LibraryScope, { name, weights }: RubricInput, now = new Date()): Promise<ScoringRubric> => {
+    assertScopeAllows(scope, 'rubric.manage');
+    validateRubric(name, weights);
+    const latest = (await listRubricVersions(scope))[0];
+    const rubric: ScoringRubric = {
+        id: `rbc_${randomToken(9)}`,
+        userId: scope.userId,
+        workspaceId: scope.workspaceId ?? undefined,
+        version: (latest?.version ?? DEFAULT_RUBRIC.version) + 1,
+        name: name.trim(),
+        weights: { ...weights },
+        createdAt: now.toISOString(),
+    };
+    await withStore(STORE, 'readwrite', (store) => requestToPromise(store.put(rubric)));
+    return rubric;
+};
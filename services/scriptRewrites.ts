@@ -0,0 +1,218 @@
+import { AuditReport, ScriptBeat, ScriptDraft, ScriptVariant } from "../types";
+import { AuditError } from "./auditErrors";
+import { runWithTimeout } from "./auditService";
+import { formatTimestamp } from "./findings";
+import { csvCell } from "./reportExport";
+import { createGeminiRewriteProvider } from "./geminiProvider";
+import { createMockRewriteProvider } from "./mockAuditProvider";
+
+// Script rewrites: alternative hooks and scripts generated from an audit, in a tagged text format
+// like the report itself:
+//
+//   #VARIANT
+//   TONE: Urgent
+//   HOOK: Your skincare routine is the reason you still break out.
+//   - Voiceover line | What's on screen
+//
+// Runtimes are estimated here from word counts rather than trusted from the model.
+
+export const WORDS_PER_SECOND = 2.5;
+export const DEFAULT_VARIANT_COUNT = 3;
+
+export interface RewriteRequest {
+    creativeName: string;
+    durationSec: number;
+    // The script being rewritten; may be empty, in which case the report is all the model has
+    originalScript: string;
+    report: AuditReport;
+    count: number;
+    // Runtime to write for; undefined keeps close to the original
+    targetSec?: number;
+}
+
+export interface RewriteProvider {
+    id: string;
+    label: string;
+    // Returns variants as tagged text. Implementations must honour `signal` and throw AuditError subclasses.
+    generateRewrites: (request: RewriteRequest, signal: AbortSignal) => Promise<string>;
+}
+
+export interface GeneratedVariant extends ScriptDraft {
+    tone: string;
+}
+
+// --- Parsing ---
+
+const VARIANT_HEADING = /^(?:#{1,6}\s*|\*\*)?#?VARIANT\b.*$/i;
+const FIELD_LINE = /^(?:\*\*)?(TONE|HOOK)\s*:?(?:\*\*)?\s*:?\s*(.+)$/i;
+const BEAT_LINE = /^(?:[-*•]|\d+[.)])\s+(.*)$/;
+
+export const parseBeat = (line: string): ScriptBeat => {
+    const [voiceover, ...visual] = line.split('|');
+    const direction = visual.join('|').trim();
+    return direction ? { voiceover: voiceover.trim(), visual: direction } : { voiceover: voiceover.trim() };
+};
+
+// Variants missing a hook or any beats are dropped; the rest are usable even if one is malformed
+export const parseScriptVariants = (raw: string): GeneratedVariant[] => {
+    let text = (raw ?? '').replace(/\r\n?/g, '\n').trim();
+    const fenced = text.match(/^```[a-z]*\n([\s\S]*?)\n```$/i);
+    if (fenced) text = fenced[1];
+
+    const variants: GeneratedVariant[] = [];
+    let current: GeneratedVariant | null = null;
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        if (VARIANT_HEADING.test(line)) {
+            current = { tone: '', hook: '', beats: [] };
+            variants.push(current);
+            continue;
+        }
+        if (!current) continue;
+        const field = line.match(FIELD_LINE);
+        if (field) {
+            const value = field[2].trim().replace(/^["“]|["”]$/g, '');
+            if (field[1].toUpperCase() === 'TONE') current.tone = value;
+            else current.hook = value;
+            continue;
+        }
+        const beat = line.match(BEAT_LINE);
+        if (beat) {
+            const parsed = parseBeat(beat[1]);
+            if (parsed.voiceover) current.beats.push(parsed);
+        }
+    }
+
+    return variants
+        .filter((variant) => variant.hook && variant.beats.length)
+        .map((variant) => ({ ...variant, tone: variant.tone || 'Direct' }));
+};
+
+// --- Drafts ---
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const estimateRuntimeSec = (draft: ScriptDraft) =>
+    Math.max(1, Math.round(countWords(draftToText(draft)) / WORDS_PER_SECOND));
+
+// The spoken script as one block, hook first
+export const draftToText = (draft: ScriptDraft) => [draft.hook, ...draft.beats.map((beat) => beat.voiceover)].join('\n');
+
+// One beat per line as "voiceover | visual", the format the editor uses
+export const formatBeats = (beats: ScriptBeat[]) =>
+    beats.map((beat) => (beat.visual ? `${beat.voiceover} | ${beat.visual}` : beat.voiceover)).join('\n');
+
+export const parseBeats = (text: string): ScriptBeat[] =>
+    text
+        .split('\n')
+        .map((line) => parseBeat(line.replace(BEAT_LINE, '$1')))
+        .filter((beat) => beat.voiceover);
+
+export const latestVersion = (variant: ScriptVariant) => variant.versions[variant.versions.length - 1];
+
+// Lines the #SCRIPT section quotes from the creative, as a starting point for the original script
+export const quotedScriptLines = (report: AuditReport): string => {
+    const text = report.sections.script.blocks
+        .map((block) => (block.type === 'list' ? block.items.join('\n') : block.text))
+        .join('\n');
+    // Quote marks pair up in order, so every odd piece between them is quoted text.
+    // Single words ("stops") are usually word choices, not script lines.
+    const quotes = text
+        .split(/["“”]/)
+        .filter((_, i) => i % 2 === 1)
+        .map((quote) => quote.trim())
+        .filter((quote) => quote.split(/\s+/).length > 2);
+    return Array.from(new Set(quotes)).join('\n');
+};
+
+// --- Shot lists ---
+
+export interface Shot {
+    number: number;
+    startSec: number;
+    endSec: number;
+    voiceover: string;
+    visual: string;
+}
+
+// Each beat becomes a shot lasting as long as its line takes to say; the hook is shot 1
+export const buildShotList = (draft: ScriptDraft): Shot[] => {
+    const beats: ScriptBeat[] = [{ voiceover: draft.hook }, ...draft.beats];
+    let cursor = 0;
+    return beats.map((beat, i) => {
+        const length = Math.max(1, countWords(beat.voiceover) / WORDS_PER_SECOND);
+        const shot = {
+            number: i + 1,
+            startSec: Math.round(cursor * 10) / 10,
+            endSec: Math.round((cursor + length) * 10) / 10,
+            voiceover: beat.voiceover,
+            visual: beat.visual ?? '',
+        };
+        cursor += length;
+        return shot;
+    });
+};
+
+export const shotListToCsv = (draft: ScriptDraft) => {
+    const rows = buildShotList(draft).map((shot) => [shot.number, formatTimestamp(shot.startSec), formatTimestamp(shot.endSec), shot.voiceover, shot.visual]);
+    return [['shot', 'start', 'end', 'voiceover', 'visual'], ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+export const shotListFileName = (creativeName: string, tone: string, versionNumber: number, extension: 'md' | 'csv') => {
+    const slug = (text: string) => text.replace(/\.[a-z0-9]+$/i, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug(creativeName) || 'script'}-${slug(tone) || 'variant'}-v${versionNumber}-shot-list.${extension}`;
+};
+
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|');
+
+export const shotListToMarkdown = (draft: ScriptDraft, { title, tone }: { title?: string; tone?: string } = {}) => {
+    const shots = buildShotList(draft);
+    const lines = [
+        `# Shot list${title ? `: ${title}` : ''}`,
+        '',
+        `_${[tone, `~${formatTimestamp(estimateRuntimeSec(draft))}`].filter(Boolean).join(' · ')}_`,
+        '',
+        '| # | Time | Voiceover | Visual |',
+        '| --- | --- | --- | --- |',
+        ...shots.map(
+            (shot) =>
+                `| ${shot.number} | ${formatTimestamp(shot.startSec)}-${formatTimestamp(shot.endSec)} | ${markdownCell(shot.voiceover)} | ${markdownCell(shot.visual)} |`
+        ),
+    ];
+    return lines.join('\n') + '\n';
+};
+
+// --- Generation ---
+
+export const getDefaultRewriteProvider = (): RewriteProvider => {
+    const apiKey = process.env.API_KEY;
+    if (process.env.AUDIT_PROVIDER === 'mock' || !apiKey) {
+        return createMockRewriteProvider();
+    }
+    return createGeminiRewriteProvider({ apiKey });
+};
+
+let defaultProvider: RewriteProvider | null = null;
+
+export const getRewriteProvider = (): RewriteProvider => {
+    if (!defaultProvider) defaultProvider = getDefaultRewriteProvider();
+    return defaultProvider;
+};
+
+export interface GenerateVariantsOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    provider?: RewriteProvider;
+}
+
+export const generateScriptVariants = async (
+    request: RewriteRequest,
+    { signal, timeoutMs = 60_000, provider = getRewriteProvider() }: GenerateVariantsOptions = {}
+): Promise<{ variants: GeneratedVariant[]; providerId: string }> => {
+    const raw = await runWithTimeout((attemptSignal) => provider.generateRewrites(request, attemptSignal), timeoutMs, signal);
+    const variants = parseScriptVariants(raw);
+    if (!variants.length) throw new AuditError('invalid_report', 'The AI returned no usable script variants.', true);
+    return { variants: variants.slice(0, request.count), providerId: provider.id };
+};
@@ -0,0 +1,53 @@
+import { SavedAudit, ShareLink, SharedReport } from "../types";
+import { createLocalShareServer } from "./localShareServer";
+
+export type ShareErrorCode =
+    | 'not_found'
+    | 'expired'
+    | 'revoked'
+    | 'password_required'
+    | 'wrong_password'
+    | 'not_allowed'
+    | 'invalid_session';
+
+export class ShareError extends Error {
+    code: ShareErrorCode;
+
+    constructor(code: ShareErrorCode, message: string) {
+        super(message);
+        this.name = 'ShareError';
+        this.code = code;
+    }
+}
+
+export const isShareError = (error: unknown): error is ShareError => error instanceof ShareError;
+
+export interface CreateShareOptions {
+    // Omit for a link that works until revoked
+    expiresInMs?: number;
+    password?: string;
+}
+
+// Contract for the sharing backend. Owner methods take the caller's access token; opening a
+// link takes none, since the people it's sent to have no account.
+export interface ShareClient {
+    // Requires a plan with share_links; throws not_allowed otherwise
+    createShare: (accessToken: string, audit: SavedAudit, options?: CreateShareOptions) => Promise<ShareLink>;
+    listShares: (accessToken: string, auditId: string) => Promise<ShareLink[]>;
+    revokeShare: (accessToken: string, token: string) => Promise<ShareLink>;
+    // Counts a view on success. Throws password_required until the right password is given.
+    openShare: (token: string, password?: string) => Promise<SharedReport>;
+}
+
+export const shareStatus = (link: ShareLink, now = Date.now()): 'active' | 'expired' | 'revoked' => {
+    if (link.revokedAt) return 'revoked';
+    if (link.expiresAt && Date.parse(link.expiresAt) <= now) return 'expired';
+    return 'active';
+};
+
+let defaultClient: ShareClient | null = null;
+
+export const getShareClient = (): ShareClient => {
+    if (!defaultClient) defaultClient = createLocalShareServer();
+    return defaultClient;
+};
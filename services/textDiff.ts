@@ -0,0 +1,58 @@
+// Word-level diff via longest common subsequence. Whitespace is not compared; segments are
+// rejoined with single spaces.
+
+export type DiffSegment = { type: 'same' | 'added' | 'removed'; text: string };
+
+const tokenize = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Words compare without case or surrounding punctuation, so "Stop." and "stop" count as unchanged
+const comparable = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '') || word;
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const ka = a.map(comparable);
+    const kb = b.map(comparable);
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = ka[i] === kb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], word: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) last.text += ` ${word}`;
+        else segments.push({ type, text: word });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (ka[i] === kb[j]) {
+            // Keep the new wording when only case or punctuation changed
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+};
+
+// Share of the new text's words that were kept from the old, 0-1
+export const similarity = (segments: DiffSegment[]) => {
+    const count = (type: DiffSegment['type']) =>
+        segments.filter((segment) => segment.type === type).reduce((sum, segment) => sum + tokenize(segment.text).length, 0);
+    const kept = count('same');
+    const total = kept + count('added');
+    return total ? kept / total : 1;
+};
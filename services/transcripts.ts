@@ -0,0 +1,217 @@
+import { Transcript, TranscriptCue } from "../types";
+import { formatTimestamp, parseTimestamp } from "./findings";
+
+// SRT and WebVTT caption files, and pasted transcripts, reduced to timed cues and the speech
+// measurements the script analysis rests on.
+
+export const TRANSCRIPT_EXTENSIONS = ['.srt', '.vtt'];
+// Caption files for a three-minute ad are a few kilobytes
+export const MAX_TRANSCRIPT_BYTES = 512 * 1024;
+
+export class TranscriptError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranscriptError';
+    }
+}
+
+// --- Parsing ---
+
+// "00:01:02,500" in SRT, "01:02.500" or "00:01:02.500" in WebVTT
+const CUE_TIME = String.raw`(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})`;
+const TIMING_LINE = new RegExp(String.raw`^\s*${CUE_TIME}\s*-->\s*${CUE_TIME}`);
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string, fraction: string) =>
+    Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+
+// Drops styling: <i>, <b>, <c.yellow>, <v Speaker>, karaoke timestamps and SSA overrides like {\an8}
+const cleanCueText = (lines: string[]) =>
+    lines
+        .join(' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity])
+        .replace(/\s+/g, ' ')
+        .trim();
+
+// SRT and WebVTT share the cue shape: an optional identifier, a timing line, then text up to a
+// blank line. WebVTT headers, NOTE, STYLE and REGION blocks have no timing line and are skipped.
+const parseCues = (text: string, fileName: string): TranscriptCue[] => {
+    const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+    const cues: TranscriptCue[] = [];
+    blocks.forEach((block) => {
+        const lines = block.split('\n').filter((line) => line.trim());
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex === -1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+        const match = lines[timingIndex].match(TIMING_LINE);
+        if (!match) throw new TranscriptError(`${fileName} has a cue timing that can't be read: "${lines[timingIndex].trim()}".`);
+        const startSec = toSeconds(match[1], match[2], match[3], match[4]);
+        const endSec = toSeconds(match[5], match[6], match[7], match[8]);
+        const cueText = cleanCueText(lines.slice(timingIndex + 1));
+        if (cueText) cues.push({ startSec, endSec: Math.max(endSec, startSec), text: cueText });
+    });
+    if (!cues.length) throw new TranscriptError(`${fileName} has no caption cues.`);
+    return cues.sort((a, b) => a.startSec - b.startSec);
+};
+
+export const parseCaptionFile = (fileName: string, text: string): Transcript => {
+    const isVtt = fileName.toLowerCase().endsWith('.vtt') || /^\uFEFF?WEBVTT/.test(text);
+    return { source: isVtt ? 'vtt' : 'srt', fileName, cues: parseCues(text, fileName) };
+};
+
+export const readCaptionFile = async (file: File): Promise<Transcript> => {
+    if (!TRANSCRIPT_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext))) {
+        throw new TranscriptError(`${file.name} is not an SRT or WebVTT file.`);
+    }
+    if (file.size > MAX_TRANSCRIPT_BYTES) throw new TranscriptError(`${file.name} is too large to be a caption file.`);
+    return parseCaptionFile(file.name, await file.text());
+};
+
+// "0:03 text", "[0:03] text" or "0:03 - text" at the start of a pasted line
+const PASTED_TIMESTAMP = /^\s*\[?((?:\d{1,2}:)?\d{1,2}:\d{2}(?:\.\d+)?)\]?\s*[-–—:]?\s*/;
+
+// Pasted lines become cues. If every line starts with a timestamp they are timed, each running to
+// the next line or the end of the video; otherwise the transcript is kept untimed. Null when no
+// line has any text beyond its timestamp.
+export const parsePastedTranscript = (text: string, durationSec: number): Transcript | null => {
+    const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+    if (!lines.length) return null;
+    const stamped = lines.map((line) => line.match(PASTED_TIMESTAMP));
+    if (!stamped.every(Boolean)) return { source: 'pasted', cues: lines.map((line) => ({ text: line })) };
+
+    const cues = lines
+        .map((line, i) => ({ startSec: parseTimestamp(stamped[i]![1]), text: line.slice(stamped[i]![0].length).trim() }))
+        .filter((cue) => cue.text)
+        .sort((a, b) => a.startSec - b.startSec);
+    if (!cues.length) return null;
+    return {
+        source: 'pasted',
+        cues: cues.map((cue, i) => ({ ...cue, endSec: Math.max(cues[i + 1]?.startSec ?? durationSec, cue.startSec) })),
+    };
+};
+
+export const isTimed = (transcript: Transcript) => transcript.cues.every((cue) => cue.startSec !== undefined);
+
+export const hasCaptionFile = (transcript?: Transcript) => transcript?.source === 'srt' || transcript?.source === 'vtt';
+
+// The transcript as plain lines, e.g. for the policy check
+export const transcriptText = (transcript: Transcript) => transcript.cues.map((cue) => cue.text).join('\n');
+
+// --- Measurements ---
+
+export interface SpeechMetrics {
+    wordCount: number;
+    // Over the time cues are on screen when timed, over the whole video otherwise
+    wordsPerSecond: number;
+    // Null when the transcript is untimed or has no cues
+    firstWordSec: number | null;
+    spokenSec: number | null;
+}
+
+// Comfortable reading and listening speed for captioned feed video is about 2-3 words a second
+export const MAX_WORDS_PER_SECOND = 3.3;
+// Viewers decide within the first couple of seconds; a hook that hasn't started speaking by then is silent
+export const MAX_FIRST_WORD_SEC = 1.5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const countWords = (text: string) => text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+
+// Sum of cue durations with overlapping cues merged
+const spokenSeconds = (cues: TranscriptCue[]) => {
+    let total = 0;
+    let coveredTo = -Infinity;
+    cues.forEach(({ startSec, endSec }) => {
+        const from = Math.max(startSec!, coveredTo);
+        if (endSec! > from) total += endSec! - from;
+        coveredTo = Math.max(coveredTo, endSec!);
+    });
+    return total;
+};
+
+export const measureSpeech = (transcript: Transcript, durationSec: number): SpeechMetrics => {
+    const wordCount = transcript.cues.reduce((sum, cue) => sum + countWords(cue.text), 0);
+    if (!transcript.cues.length || !isTimed(transcript)) {
+        return { wordCount, wordsPerSecond: durationSec > 0 ? round1(wordCount / durationSec) : 0, firstWordSec: null, spokenSec: null };
+    }
+    const spokenSec = spokenSeconds(transcript.cues);
+    return {
+        wordCount,
+        wordsPerSecond: spokenSec > 0 ? round1(wordCount / spokenSec) : 0,
+        firstWordSec: round1(transcript.cues[0].startSec!),
+        spokenSec: round1(spokenSec),
+    };
+};
+
+// --- Warnings ---
+
+export interface TranscriptWarning {
+    kind: 'captions' | 'speed' | 'first_word' | 'timing';
+    severity: 'warning' | 'info';
+    message: string;
+}
+
+export const checkTranscript = (transcript: Transcript | undefined, burnedInCaptions: boolean, durationSec: number): TranscriptWarning[] => {
+    const warnings: TranscriptWarning[] = [];
+    if (!burnedInCaptions && !hasCaptionFile(transcript)) {
+        warnings.push({
+            kind: 'captions',
+            severity: 'warning',
+            message: 'No captions. Most feed video plays muted, so without captions the script goes unheard. Attach an SRT or WebVTT file, or mark captions as burned in.',
+        });
+    }
+    if (!transcript) return warnings;
+
+    const speech = measureSpeech(transcript, durationSec);
+    if (speech.wordsPerSecond > MAX_WORDS_PER_SECOND) {
+        warnings.push({
+            kind: 'speed',
+            severity: 'warning',
+            message: `${speech.wordsPerSecond} words per second is faster than viewers can read captions. Aim for under ${MAX_WORDS_PER_SECOND}.`,
+        });
+    }
+    if (speech.firstWordSec !== null && speech.firstWordSec > MAX_FIRST_WORD_SEC) {
+        warnings.push({
+            kind: 'first_word',
+            severity: 'warning',
+            message: `The first word comes ${speech.firstWordSec}s in. Start speaking within ${MAX_FIRST_WORD_SEC} seconds so the hook lands.`,
+        });
+    }
+    const lastEnd = Math.max(...transcript.cues.map((cue) => cue.endSec ?? 0));
+    if (durationSec > 0 && lastEnd > durationSec + 1) {
+        warnings.push({
+            kind: 'timing',
+            severity: 'info',
+            message: `Cues run to ${formatTimestamp(lastEnd)} but the video ends at ${formatTimestamp(durationSec)}. The captions may belong to a different cut.`,
+        });
+    }
+    return warnings;
+};
+
+// --- Prompt ---
+
+const formatCue = (cue: TranscriptCue) =>
+    cue.startSec === undefined ? `- "${cue.text}"` : `- ${formatTimestamp(cue.startSec)}-${formatTimestamp(cue.endSec ?? cue.startSec)} "${cue.text}"`;
+
+// Plain-text transcript and speech metrics for the audit prompt
+export const formatTranscript = (transcript: Transcript | undefined, burnedInCaptions: boolean, durationSec: number) => {
+    const captions = hasCaptionFile(transcript)
+        ? `Captions: caption file supplied (${transcript!.fileName ?? transcript!.source.toUpperCase()})`
+        : burnedInCaptions
+          ? 'Captions: burned into the video'
+          : 'Captions: none supplied. The user attached no caption file and did not mark captions as burned in.';
+    if (!transcript) return captions;
+
+    const speech = measureSpeech(transcript, durationSec);
+    const lines = [
+        captions,
+        isTimed(transcript) ? `Transcript (${transcript.cues.length} timed cues):` : 'Transcript (pasted, no timings):',
+        ...transcript.cues.map(formatCue),
+        speech.firstWordSec !== null
+            ? `- ${speech.wordCount} words, ${speech.wordsPerSecond} words per second while speaking, first word at ${speech.firstWordSec}s`
+            : `- ${speech.wordCount} words, ${speech.wordsPerSecond} words per second over the whole video`,
+    ];
+    return lines.join('\n');
+};
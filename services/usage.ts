@@ -0,0 +1,76 @@
+import { BillingAccount } from "../types";
+
+// Per-account audit counters. Each counter belongs to one billing period and is replaced,
+// not decremented, when the period rolls over. A workspace has one counter for all its members.
+
+const USAGE_KEY = 'viralAudit.usage';
+
+export interface UsagePeriod {
+    start: string;
+    end: string;
+}
+
+export interface UsageRecord {
+    periodStart: string;
+    audits: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Monthly periods anchored on the day the plan started, clamped for short months
+// (an anchor on the 31st renews on the 30th in April and the 28th/29th in February).
+export const billingPeriod = (anchorIso: string, now = new Date()): UsagePeriod => {
+    const anchor = new Date(anchorIso);
+    const anchorDay = anchor.getUTCDate();
+    const periodAt = (year: number, month: number) => {
+        const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        return new Date(Date.UTC(year, month, Math.min(anchorDay, lastDay), anchor.getUTCHours(), anchor.getUTCMinutes()));
+    };
+
+    let year = now.getUTCFullYear();
+    let month = now.getUTCMonth();
+    let start = periodAt(year, month);
+    if (start > now) {
+        month -= 1;
+        start = periodAt(year, month);
+    }
+    // Never report a period that started before the anchor itself
+    if (start < anchor) start = anchor;
+    const end = periodAt(start.getUTCFullYear(), start.getUTCMonth() + 1);
+    return { start: start.toISOString(), end: end.toISOString() };
+};
+
+export const usageAnchor = (account: BillingAccount) => account.billingAnchor ?? account.createdAt;
+
+const readAll = (): Record<string, UsageRecord> => {
+    try {
+        return JSON.parse(localStorage.getItem(USAGE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const getUsage = (account: BillingAccount, now = new Date()): UsageRecord => {
+    const period = billingPeriod(usageAnchor(account), now);
+    const record = readAll()[account.id];
+    if (!record || record.periodStart !== period.start) {
+        return { periodStart: period.start, audits: 0 };
+    }
+    return record;
+};
+
+export const recordAuditUsage = (account: BillingAccount, count = 1, now = new Date()) => {
+    const all = readAll();
+    const current = getUsage(account, now);
+    all[account.id] = { periodStart: current.periodStart, audits: current.audits + count };
+    localStorage.setItem(USAGE_KEY, JSON.stringify(all));
+    listeners.forEach((listener) => listener());
+};
+
+export const subscribeToUsage = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,184 @@
+import { AuditFrame } from "../types";
+import { AuditCancelledError } from "./auditErrors";
+import { FrameSignature, SIGNATURE_HEIGHT, SIGNATURE_WIDTH, frameSignature } from "./pacing";
+
+// --- Validation ---
+
+export const ACCEPTED_VIDEO_TYPES: Record<string, string> = {
+    'video/mp4': 'MP4',
+    'video/quicktime': 'MOV',
+};
+export const ACCEPTED_VIDEO_EXTENSIONS = ['.mp4', '.mov'];
+export const MAX_VIDEO_BYTES = 200 * 1024 * 1024;
+export const MAX_VIDEO_DURATION_SEC = 180;
+
+export interface VideoMetadata {
+    durationSec: number;
+    width: number;
+    height: number;
+}
+
+const formatMb = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Browsers often leave file.type empty for .mov, so fall back to the extension
+export const validateVideoFile = (file: File): string | null => {
+    const name = file.name.toLowerCase();
+    const typeOk = file.type in ACCEPTED_VIDEO_TYPES;
+    const extensionOk = ACCEPTED_VIDEO_EXTENSIONS.some((ext) => name.endsWith(ext));
+    if (!typeOk && !extensionOk) {
+        return `${file.name} is not an MP4 or MOV file.`;
+    }
+    if (file.size === 0) {
+        return `${file.name} is empty.`;
+    }
+    if (file.size > MAX_VIDEO_BYTES) {
+        return `${file.name} is ${formatMb(file.size)}. The limit is ${formatMb(MAX_VIDEO_BYTES)}.`;
+    }
+    return null;
+};
+
+export const validateVideoMetadata = (meta: VideoMetadata): string | null => {
+    if (!Number.isFinite(meta.durationSec) || meta.durationSec <= 0) {
+        return 'Could not read the video duration. The file may be corrupt.';
+    }
+    if (meta.durationSec > MAX_VIDEO_DURATION_SEC) {
+        return `The video is ${Math.round(meta.durationSec)}s long. Audits support up to ${MAX_VIDEO_DURATION_SEC}s.`;
+    }
+    if (!meta.width || !meta.height) {
+        return 'The video has no visible track.';
+    }
+    return null;
+};
+
+// --- Decoding ---
+
+const waitForEvent = (video: HTMLVideoElement, event: string, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+            video.removeEventListener(event, onEvent);
+            video.removeEventListener('error', onError);
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onEvent = () => { cleanup(); resolve(); };
+        const onError = () => { cleanup(); reject(new Error('The browser could not decode this video.')); };
+        const onAbort = () => { cleanup(); reject(new AuditCancelledError()); };
+        video.addEventListener(event, onEvent, { once: true });
+        video.addEventListener('error', onError, { once: true });
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+const createDetachedVideo = (src: string) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+    video.src = src;
+    return video;
+};
+
+export const readVideoMetadata = async (src: string, signal?: AbortSignal): Promise<VideoMetadata> => {
+    const video = createDetachedVideo(src);
+    try {
+        await waitForEvent(video, 'loadedmetadata', signal);
+        return { durationSec: video.duration, width: video.videoWidth, height: video.videoHeight };
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
+};
+
+export interface SampleFramesOptions {
+    intervalSec?: number;
+    maxFrames?: number;
+    maxWidth?: number;
+    quality?: number;
+    // Also measure a small signature of the picture this often, for pacing analysis
+    signatureIntervalSec?: number;
+    maxSignatures?: number;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface SampledVideo {
+    frames: AuditFrame[];
+    signatures: FrameSignature[];
+}
+
+const evenTimes = (duration: number, intervalSec: number, max: number) => {
+    const step = Math.max(intervalSec, duration / max);
+    const times: number[] = [];
+    for (let t = 0; t < duration && times.length < max; t += step) {
+        times.push(Number(t.toFixed(3)));
+    }
+    return times;
+};
+
+// Seeks a detached <video> through the clip at a fixed interval and captures each frame as a JPEG.
+// Long clips widen the interval so the request stays under maxFrames. Signatures, when asked for,
+// are taken on the same pass at their own (usually denser) interval.
+export const sampleVideo = async (
+    src: string,
+    { intervalSec = 1, maxFrames = 30, maxWidth = 512, quality = 0.7, signatureIntervalSec, maxSignatures = 240, signal, onProgress }: SampleFramesOptions = {}
+): Promise<SampledVideo> => {
+    const video = createDetachedVideo(src);
+    try {
+        await waitForEvent(video, 'loadeddata', signal);
+
+        const duration = video.duration;
+        const frameTimes = new Set(evenTimes(duration, intervalSec, maxFrames));
+        const signatureTimes = new Set(signatureIntervalSec ? evenTimes(duration, signatureIntervalSec, maxSignatures) : []);
+        const times = [...new Set([...frameTimes, ...signatureTimes])].sort((a, b) => a - b);
+
+        const scale = Math.min(1, maxWidth / video.videoWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        const ctx = canvas.getContext('2d');
+        const signatureCanvas = document.createElement('canvas');
+        signatureCanvas.width = SIGNATURE_WIDTH;
+        signatureCanvas.height = SIGNATURE_HEIGHT;
+        const signatureCtx = signatureCanvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx || !signatureCtx) throw new Error('Canvas 2D is not available in this browser.');
+
+        const frames: AuditFrame[] = [];
+        const signatures: FrameSignature[] = [];
+        onProgress?.(0, times.length);
+        for (const [i, time] of times.entries()) {
+            if (signal?.aborted) throw new AuditCancelledError();
+            video.currentTime = time;
+            await waitForEvent(video, 'seeked', signal);
+            if (frameTimes.has(time)) {
+                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                frames.push({ timeSec: time, dataUrl: canvas.toDataURL('image/jpeg', quality) });
+            }
+            if (signatureTimes.has(time)) {
+                signatureCtx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+                signatures.push(frameSignature(time, signatureCtx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data));
+            }
+            onProgress?.(i + 1, times.length);
+        }
+        return { frames, signatures };
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
+};
+
+export const sampleFrames = async (src: string, options: Omit<SampleFramesOptions, 'signatureIntervalSec'> = {}): Promise<AuditFrame[]> =>
+    (await sampleVideo(src, options)).frames;
+
+// Shrinks a sampled frame to a small JPEG for history lists
+export const createThumbnail = async (frame: AuditFrame, maxWidth = 240, quality = 0.6): Promise<string> => {
+    const image = new Image();
+    image.src = frame.dataUrl;
+    await image.decode();
+    const scale = Math.min(1, maxWidth / image.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available in this browser.');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+};
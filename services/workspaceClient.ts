@@ -0,0 +1,56 @@
+import { WorkspaceInvite, WorkspaceMember, WorkspaceRole, WorkspaceSummary } from "../types";
+import { createLocalWorkspaceServer } from "./localWorkspaceServer";
+
+export type WorkspaceErrorCode =
+    | 'not_found'
+    | 'forbidden'
+    | 'invalid_input'
+    | 'invalid_invite'
+    | 'already_member'
+    | 'invalid_session';
+
+export class WorkspaceError extends Error {
+    code: WorkspaceErrorCode;
+
+    constructor(code: WorkspaceErrorCode, message: string) {
+        super(message);
+        this.name = 'WorkspaceError';
+        this.code = code;
+    }
+}
+
+export const isWorkspaceError = (error: unknown): error is WorkspaceError => error instanceof WorkspaceError;
+
+export interface WorkspaceRoster {
+    members: WorkspaceMember[];
+    // Only returned to members who may invite
+    invites: WorkspaceInvite[];
+}
+
+// Contract for the workspace backend. Every method takes the caller's access token and checks
+// their role in the workspace; a workspace they don't belong to reads as missing.
+export interface WorkspaceClient {
+    // Each with the caller's role, oldest first
+    listWorkspaces: (accessToken: string) => Promise<WorkspaceSummary[]>;
+    // Requires a plan with team_workspaces. The caller becomes its owner.
+    createWorkspace: (accessToken: string, name: string) => Promise<WorkspaceSummary>;
+    renameWorkspace: (accessToken: string, workspaceId: string, name: string) => Promise<WorkspaceSummary>;
+    listMembers: (accessToken: string, workspaceId: string) => Promise<WorkspaceRoster>;
+    // Emails a link to /invite/<token>. A new invite to the same email replaces the pending one.
+    inviteMember: (accessToken: string, workspaceId: string, email: string, role: WorkspaceRole) => Promise<WorkspaceInvite>;
+    revokeInvite: (accessToken: string, workspaceId: string, inviteToken: string) => Promise<void>;
+    // For the invite page, before accepting. Throws invalid_invite for used or expired links.
+    getInvite: (accessToken: string, inviteToken: string) => Promise<WorkspaceInvite>;
+    // The caller's verified email must be the one invited
+    acceptInvite: (accessToken: string, inviteToken: string) => Promise<WorkspaceSummary>;
+    updateMemberRole: (accessToken: string, workspaceId: string, userId: string, role: WorkspaceRole) => Promise<WorkspaceMember>;
+    // Removing yourself leaves the workspace; the owner can't leave
+    removeMember: (accessToken: string, workspaceId: string, userId: string) => Promise<void>;
+}
+
+let defaultClient: WorkspaceClient | null = null;
+
+export const getWorkspaceClient = (): WorkspaceClient => {
+    if (!defaultClient) defaultClient = createLocalWorkspaceServer();
+    return defaultClient;
+};
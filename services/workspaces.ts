@@ -0,0 +1,107 @@
+import { User, WorkspaceRole, WorkspaceSummary } from "../types";
+
+// What each workspace role may do, and the scope every library read and write runs in. Outside a
+// workspace the user owns their own library, so every action is open to them.
+
+export type WorkspaceAction =
+    | 'audit.run'
+    // Edit, tag and delete audits, benchmark sets and brand profiles
+    | 'library.edit'
+    | 'share.manage'
+    // Save new versions of the scoring rubric
+    | 'rubric.manage'
+    | 'members.invite'
+    | 'members.manage'
+    | 'workspace.manage';
+
+// Least to most access
+export const ROLE_ORDER: WorkspaceRole[] = ['viewer', 'editor', 'admin', 'owner'];
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+    owner: 'Owner',
+    admin: 'Admin',
+    editor: 'Editor',
+    viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+    owner: 'Everything, including the plan the workspace runs on.',
+    admin: 'Invites and manages editors and viewers, and sets the scoring rubric.',
+    editor: 'Runs audits and edits the shared library.',
+    viewer: 'Reads reports and benchmarks.',
+};
+
+const ROLE_ACTIONS: Record<WorkspaceRole, WorkspaceAction[]> = {
+    viewer: [],
+    editor: ['audit.run', 'library.edit', 'share.manage'],
+    admin: ['audit.run', 'library.edit', 'share.manage', 'rubric.manage', 'members.invite', 'members.manage'],
+    owner: ['audit.run', 'library.edit', 'share.manage', 'rubric.manage', 'members.invite', 'members.manage', 'workspace.manage'],
+};
+
+const ACTION_LABELS: Record<WorkspaceAction, string> = {
+    'audit.run': 'run audits',
+    'library.edit': 'change the shared library',
+    'share.manage': 'manage share links',
+    'rubric.manage': 'change the scoring rubric',
+    'members.invite': 'invite members',
+    'members.manage': 'manage members',
+    'workspace.manage': 'manage the workspace',
+};
+
+export const roleAllows = (role: WorkspaceRole, action: WorkspaceAction) => ROLE_ACTIONS[role].includes(action);
+
+export const roleDeniedMessage = (role: WorkspaceRole, action: WorkspaceAction) =>
+    `As ${role === 'admin' || role === 'owner' ? 'an' : 'a'} ${ROLE_LABELS[role].toLowerCase()} in this workspace, you can't ${ACTION_LABELS[action]}.`;
+
+// Roles a member may hand out, change or remove: admins manage editors and viewers, the owner
+// manages everyone else. Ownership itself doesn't change hands here.
+export const manageableRoles = (role: WorkspaceRole): WorkspaceRole[] =>
+    role === 'owner' ? ['admin', 'editor', 'viewer'] : role === 'admin' ? ['editor', 'viewer'] : [];
+
+// --- Library scope ---
+
+// Who is reading or writing, and whose library: their own (workspaceId null) or a workspace's
+export interface LibraryScope {
+    userId: string;
+    workspaceId: string | null;
+    role: WorkspaceRole;
+}
+
+export const personalScope = (user: User): LibraryScope => ({ userId: user.id, workspaceId: null, role: 'owner' });
+
+export const workspaceScope = (user: User, workspace: WorkspaceSummary): LibraryScope => ({
+    userId: user.id,
+    workspaceId: workspace.id,
+    role: workspace.role,
+});
+
+// Records without a workspace belong to whoever created them
+export const inScope = (scope: LibraryScope, record: { userId: string; workspaceId?: string }) =>
+    scope.workspaceId ? record.workspaceId === scope.workspaceId : !record.workspaceId && record.userId === scope.userId;
+
+export const assertScopeAllows = (scope: LibraryScope, action: WorkspaceAction) => {
+    if (!roleAllows(scope.role, action)) throw new Error(roleDeniedMessage(scope.role, action));
+};
+
+// --- Active workspace ---
+
+// Which library each account last worked in, in this browser. The extension reads it too, so
+// audits run there land in the same place.
+const ACTIVE_WORKSPACE_KEY = 'viralAudit.activeWorkspace';
+
+const readActiveIds = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(ACTIVE_WORKSPACE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const readActiveWorkspaceId = (userId: string): string | null => readActiveIds()[userId] ?? null;
+
+export const writeActiveWorkspaceId = (userId: string, workspaceId: string | null) => {
+    const ids = readActiveIds();
+    if (workspaceId) ids[userId] = workspaceId;
+    else delete ids[userId];
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, JSON.stringify(ids));
+};
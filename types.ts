@@ -0,0 +1,487 @@
+import type { PlanId } from "./services/plans";
+import type { PolicySourceKind } from "./services/policyEngine";
+
+// --- Users & Sessions ---
+
+export interface User {
+    id: string;
+    email: string;
+    name?: string;
+    // Unverified accounts can browse but can't run audits until they confirm their email
+    emailVerified: boolean;
+    // Unset until the account buys a plan, and again once it lapses; no audits or plan features meanwhile
+    plan?: PlanId;
+    // When the current plan started; usage periods renew monthly from this date
+    billingAnchor?: string;
+    // Set once the account has bought a plan; kept in sync by the Lemon Squeezy webhook
+    subscription?: Subscription;
+    createdAt: string;
+}
+
+// Mirrors Lemon Squeezy's subscription statuses
+export type SubscriptionStatus = 'on_trial' | 'active' | 'paused' | 'past_due' | 'unpaid' | 'cancelled' | 'expired';
+
+export interface Subscription {
+    id: string;
+    customerId: string;
+    variantId: string;
+    status: SubscriptionStatus;
+    renewsAt: string | null;
+    // Only set once cancelled: the plan stays active until then
+    endsAt: string | null;
+    // Where the customer manages payment details and plan changes
+    portalUrl?: string;
+    // Provider-side update time, used to drop webhooks that arrive out of order
+    updatedAt: string;
+}
+
+// What audits are planned and counted against: a user's own account, or in a workspace its owner's
+// account, so the owner's personal audits and every workspace they own draw on one quota
+export interface BillingAccount {
+    id: string;
+    plan?: PlanId;
+    billingAnchor?: string;
+    createdAt: string;
+}
+
+export interface Session {
+    accessToken: string;
+    refreshToken: string;
+    // Epoch milliseconds
+    accessExpiresAt: number;
+    refreshExpiresAt: number;
+}
+
+// --- Workspaces ---
+
+export type WorkspaceRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export interface Workspace {
+    id: string;
+    name: string;
+    ownerId: string;
+    createdAt: string;
+}
+
+// A workspace as one of its members sees it
+export interface WorkspaceSummary extends Workspace {
+    role: WorkspaceRole;
+    memberCount: number;
+    // The owner's plan, with usage counted for the workspace as a whole
+    billing: BillingAccount;
+}
+
+export interface WorkspaceMember {
+    userId: string;
+    email: string;
+    name?: string;
+    role: WorkspaceRole;
+    joinedAt: string;
+}
+
+// Pending until the invited email accepts it; accepting removes it
+export interface WorkspaceInvite {
+    token: string;
+    workspaceId: string;
+    workspaceName: string;
+    email: string;
+    role: WorkspaceRole;
+    invitedBy: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+// --- Audit Report ---
+
+export type ReportSectionKey = 'hook' | 'body' | 'audio' | 'script' | 'brand';
+
+// Every report has these. #BRAND is only written when the audit ran against a brand profile.
+export const REQUIRED_REPORT_SECTIONS: ReportSectionKey[] = ['hook', 'body', 'audio', 'script'];
+
+export const REPORT_SECTION_ORDER: ReportSectionKey[] = [...REQUIRED_REPORT_SECTIONS, 'brand'];
+
+export type ReportBlock =
+    | { type: 'paragraph'; label?: string; text: string }
+    | { type: 'list'; label?: string; items: string[] };
+
+export interface ReportSection {
+    key: ReportSectionKey;
+    blocks: ReportBlock[];
+}
+
+// Per-dimension scores from the optional #SUBSCORES block. Pacing and visuals are scored from the
+// #BODY section, the call to action from #SCRIPT.
+export type ReportSubscoreKey = 'hook' | 'pacing' | 'visuals' | 'audio' | 'script' | 'cta';
+
+export const REPORT_SUBSCORE_ORDER: ReportSubscoreKey[] = ['hook', 'pacing', 'visuals', 'audio', 'script', 'cta'];
+
+export interface AuditReport {
+    score: number;
+    maxScore: number;
+    sections: Record<Exclude<ReportSectionKey, 'brand'>, ReportSection> & { brand?: ReportSection };
+    // Out of 10. Reports from before sub-scores existed have none.
+    subscores?: Partial<Record<ReportSubscoreKey, number>>;
+}
+
+export interface ReportValidationError {
+    // 'score' for the #SCORE line, 'subscores' for the #SUBSCORES block, a section key for
+    // section problems, undefined for the document
+    section?: ReportSectionKey | 'score' | 'subscores';
+    line?: number;
+    message: string;
+}
+
+// report is null whenever errors is non-empty
+export interface ReportParseResult {
+    report: AuditReport | null;
+    errors: ReportValidationError[];
+}
+
+// A timestamp or range cited in the report text, e.g. "At 0:03" or "From 0:05-0:09"
+export interface ReportFinding {
+    id: string;
+    section: ReportSectionKey;
+    startSec: number;
+    endSec?: number;
+    // The matched timestamp as written, e.g. "0:05-0:09"
+    label: string;
+    // The sentence or list item the timestamp appears in
+    text: string;
+    blockIndex: number;
+    itemIndex?: number;
+}
+
+// --- Audit Requests ---
+
+export interface AuditFrame {
+    timeSec: number;
+    // JPEG data URL as produced by canvas.toDataURL
+    dataUrl: string;
+}
+
+export interface AuditRequest {
+    creativeName: string;
+    durationSec: number;
+    width?: number;
+    height?: number;
+    mimeType?: string;
+    frames: AuditFrame[];
+    // Fingerprint matches against the account's audio library, when the creative has audio
+    audio?: AudioEvidence;
+    pacing?: PacingMetrics;
+    // What is said, from a caption file or pasted by the user
+    transcript?: Transcript;
+    // The user says captions are part of the picture, so no caption file is needed
+    burnedInCaptions?: boolean;
+    // The library's chosen brand profile; the report gets a #BRAND section when present
+    brandProfile?: BrandRules;
+    // Language the report is written in: a language code, or 'auto' for the creative's own. English when absent.
+    language?: string;
+}
+
+// One caption cue. Pasted transcripts without timestamps have no times.
+export interface TranscriptCue {
+    startSec?: number;
+    endSec?: number;
+    text: string;
+}
+
+export interface Transcript {
+    source: 'srt' | 'vtt' | 'pasted';
+    fileName?: string;
+    cues: TranscriptCue[];
+}
+
+// Shot boundaries and motion measured from frames sampled every `sampleIntervalSec`
+export interface PacingMetrics {
+    // Two cuts closer together than this count as one
+    sampleIntervalSec: number;
+    // Seconds, ascending
+    cuts: number[];
+    averageShotSec: number;
+    cutsPerSec: number;
+    // Cut rate over a sliding window, one point per second
+    curve: { timeSec: number; cutsPerSec: number }[];
+    // Stretches where the picture barely changes
+    deadAir: { startSec: number; endSec: number }[];
+}
+
+export interface AuditResult {
+    report: AuditReport;
+    rawText: string;
+    providerId: string;
+    attempts: number;
+}
+
+// Whether a locally stored record has reached the backend yet. Everything starts as 'pending'.
+export type SyncState = 'pending' | 'synced';
+
+// A completed audit kept in local history and reopened at /audits/:id. The video itself isn't stored.
+export interface SavedAudit {
+    id: string;
+    userId: string;
+    creativeName: string;
+    durationSec: number;
+    width?: number;
+    height?: number;
+    // Small JPEG data URL taken from the sampled frames
+    thumbnail?: string;
+    report: AuditReport;
+    // First sentence of each section, for lists that can't show the whole report
+    summaries: Record<ReportSectionKey, string>;
+    brand?: string;
+    // Campaign tags, lower-cased
+    tags: string[];
+    // The competitor set this audit was last benchmarked against
+    benchmarkSetId?: string;
+    audio?: AudioEvidence;
+    pacing?: PacingMetrics;
+    transcript?: Transcript;
+    burnedInCaptions?: boolean;
+    // Ad copy, on-screen text and transcript, as entered for the policy check
+    adText?: Partial<Record<PolicySourceKind, string>>;
+    // Set when the audit was run in a workspace; `userId` is then whoever ran it
+    workspaceId?: string;
+    // The headline score, weighted from the sub-scores. Absent when the report has none.
+    scoring?: AuditScoring;
+    // The brand rules the audit was checked against, as they stood when it ran
+    brandProfile?: BrandRules;
+    // The report language that was asked for, as on the request
+    language?: string;
+    providerId: string;
+    createdAt: string;
+    updatedAt: string;
+    syncState: SyncState;
+}
+
+// --- Scoring Rubrics ---
+
+// Relative weight of each sub-score in the headline score; only the ratios matter
+export type RubricWeights = Record<ReportSubscoreKey, number>;
+
+// One saved version of a library's rubric. Versions are never edited; a change saves the next one.
+export interface ScoringRubric {
+    id: string;
+    userId: string;
+    workspaceId?: string;
+    version: number;
+    name: string;
+    weights: RubricWeights;
+    createdAt: string;
+}
+
+// A score worked out under one rubric version. The weights are copied in so the breakdown still
+// reads the same after the rubric changes.
+export interface AuditScoring {
+    rubricId: string;
+    rubricVersion: number;
+    rubricName: string;
+    weights: RubricWeights;
+    // Out of 10, to one decimal
+    score: number;
+    scoredAt: string;
+}
+
+// --- Brand Profiles ---
+
+// What a client's brand allows, as sent with an audit. Phrases match case-insensitively.
+export interface BrandRules {
+    name: string;
+    // Voice descriptors, e.g. "warm", "no slang"
+    tone: string[];
+    bannedPhrases: string[];
+    requiredPhrases: string[];
+    // Must be spoken or shown word for word
+    disclaimers: string[];
+    // Seconds into the creative by which the logo should be on screen; null for no expectation
+    logoBySec: number | null;
+    logoOnEndCard: boolean;
+    // Preferred call-to-action wording, best first
+    ctaPhrases: string[];
+}
+
+export interface BrandProfile extends BrandRules {
+    id: string;
+    userId: string;
+    workspaceId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// --- Benchmarks ---
+
+// A competitor creative run through the same audit. The report is kept so the set can be reused
+// against other audits without spending the audit again.
+export interface BenchmarkCompetitor {
+    id: string;
+    creativeName: string;
+    durationSec: number;
+    thumbnail?: string;
+    report: AuditReport;
+    providerId: string;
+    auditedAt: string;
+}
+
+// A saved, reusable group of competitor creatives, filed under a niche
+export interface BenchmarkSet {
+    id: string;
+    userId: string;
+    // Shared with the workspace's members when set
+    workspaceId?: string;
+    name: string;
+    niche: string;
+    competitors: BenchmarkCompetitor[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// --- Sharing ---
+
+// A read-only public link to one audit, as its owner sees it
+export interface ShareLink {
+    token: string;
+    auditId: string;
+    url: string;
+    createdAt: string;
+    expiresAt: string | null;
+    hasPassword: boolean;
+    views: number;
+    revokedAt: string | null;
+}
+
+// What a visitor to a share link receives: a copy of the report taken when the link was made
+export interface SharedReport {
+    creativeName: string;
+    createdAt: string;
+    durationSec: number;
+    report: AuditReport;
+    scoring?: AuditScoring;
+    expiresAt: string | null;
+}
+
+// --- Script Rewrites ---
+
+// One spoken line of a script and, optionally, what should be on screen while it plays
+export interface ScriptBeat {
+    voiceover: string;
+    visual?: string;
+}
+
+export interface ScriptDraft {
+    hook: string;
+    beats: ScriptBeat[];
+}
+
+export interface ScriptVersion extends ScriptDraft {
+    createdAt: string;
+}
+
+// A generated alternative script. Edits append a version rather than overwrite, so the first
+// version is always what the model wrote.
+export interface ScriptVariant {
+    id: string;
+    userId: string;
+    auditId: string;
+    // e.g. 'Urgent', 'Playful'
+    tone: string;
+    // The script the variant was generated from, kept so its diff doesn't change if the audit is re-run
+    original: string;
+    versions: ScriptVersion[];
+    starred: boolean;
+    providerId: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// --- Audio Library ---
+
+// 'licensed' tracks are cleared for use; matches against anything else are a copyright claim risk
+export type AudioTrackLicense = 'licensed' | 'trending' | 'other';
+
+// Constellation hashes of a track: hashes[i] was anchored at frames[i] (one frame per FINGERPRINT_HOP_SEC)
+export interface AudioFingerprintData {
+    hashes: Uint32Array;
+    frames: Uint32Array;
+}
+
+export interface AudioTrack {
+    id: string;
+    userId: string;
+    title: string;
+    artist?: string;
+    license: AudioTrackLicense;
+    fileName: string;
+    durationSec: number;
+    // Only the fingerprint is kept, never the audio itself
+    fingerprint: AudioFingerprintData;
+    createdAt: string;
+}
+
+// A stretch of the creative that lines up with the same stretch of a library track
+export interface AudioMatchRange {
+    startSec: number;
+    endSec: number;
+    trackStartSec: number;
+}
+
+export interface AudioMatch {
+    trackId: string;
+    title: string;
+    artist?: string;
+    license: AudioTrackLicense;
+    // 0-1: share of the creative's fingerprints inside the matched ranges that line up with the track
+    confidence: number;
+    ranges: AudioMatchRange[];
+}
+
+export interface AudioEvidence {
+    hasAudio: boolean;
+    // How many library tracks the creative was compared against
+    libraryTracks: number;
+    matches: AudioMatch[];
+}
+
+// --- Batch Audits ---
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Where a batch item's video comes from. Files are kept until the item's audit is saved, so a
+// reloaded page can pick the batch up again.
+export type BatchItemSource =
+    | { kind: 'file'; fileName: string; file?: Blob }
+    | { kind: 'url'; url: string };
+
+export interface BatchItem {
+    id: string;
+    batchId: string;
+    userId: string;
+    // Order the creatives were added in
+    position: number;
+    name: string;
+    source: BatchItemSource;
+    status: BatchItemStatus;
+    attempts: number;
+    error?: string;
+    // Set once the audit is saved to history
+    auditId?: string;
+    score?: number;
+    maxScore?: number;
+    updatedAt: string;
+}
+
+export interface BatchSettings {
+    // Audits running at the same time
+    concurrency: number;
+    // Audits started per minute, across the whole batch
+    perMinute: number;
+    // Further attempts after a failure that may clear on its own
+    retries: number;
+}
+
+export interface BatchAudit extends BatchSettings {
+    id: string;
+    userId: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+}
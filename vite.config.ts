@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AUDIT_PROVIDER': JSON.stringify(env.AUDIT_PROVIDER),
+        'process.env.EXTENSION_URL': JSON.stringify(env.EXTENSION_URL),
+        'process.env.LEMON_SQUEEZY_STORE': JSON.stringify(env.LEMON_SQUEEZY_STORE),
+        'process.env.LEMON_SQUEEZY_STARTER_VARIANT': JSON.stringify(env.LEMON_SQUEEZY_STARTER_VARIANT),
+        'process.env.LEMON_SQUEEZY_PRO_VARIANT': JSON.stringify(env.LEMON_SQUEEZY_PRO_VARIANT)
       },
       resolve: {
         alias: {
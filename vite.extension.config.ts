@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { build, defineConfig, loadEnv, Plugin } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import { buildManifest } from './extension/manifest';
+
+// Builds the Chrome extension into dist-extension/. The side panel and background worker are ES
+// modules; content scripts can't be, so each is built again on its own as a single IIFE.
+
+const OUT_DIR = path.resolve(__dirname, 'dist-extension');
+const CONTENT_SCRIPTS = ['adsManager', 'appBridge'];
+
+const contentScripts = (define: Record<string, string>): Plugin => ({
+    name: 'viralaudit-content-scripts',
+    apply: 'build',
+    async closeBundle() {
+        for (const name of CONTENT_SCRIPTS) {
+            await build({
+                configFile: false,
+                logLevel: 'warn',
+                define,
+                build: {
+                    outDir: OUT_DIR,
+                    emptyOutDir: false,
+                    lib: { entry: path.resolve(__dirname, `extension/${name}.ts`), formats: ['iife'], name, fileName: () => `${name}.js` },
+                },
+            });
+        }
+    },
+});
+
+const manifest = (appUrl: string): Plugin => ({
+    name: 'viralaudit-manifest',
+    apply: 'build',
+    generateBundle() {
+        const { version } = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'package.json'), 'utf8'));
+        this.emitFile({ type: 'asset', fileName: 'manifest.json', source: JSON.stringify(buildManifest(appUrl, version === '0.0.0' ? '0.1.0' : version), null, 2) });
+    },
+});
+
+export default defineConfig(({ mode }) => {
+    const env = loadEnv(mode, '.', '');
+    const appUrl = env.VIRALAUDIT_APP_URL || 'http://localhost:3000';
+    const define = {
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AUDIT_PROVIDER': JSON.stringify(env.AUDIT_PROVIDER),
+        'process.env.VIRALAUDIT_APP_URL': JSON.stringify(appUrl),
+    };
+    return {
+      root: path.resolve(__dirname, 'extension'),
+      base: './',
+      plugins: [react(), manifest(appUrl), contentScripts(define)],
+      define,
+      css: {
+        postcss: {
+          plugins: [tailwindcss({ content: ['./extension/**/*.{ts,tsx,html}', './components/**/*.tsx'] })],
+        },
+      },
+      build: {
+        outDir: OUT_DIR,
+        emptyOutDir: true,
+        rollupOptions: {
+          input: {
+            sidepanel: path.resolve(__dirname, 'extension/sidepanel.html'),
+            background: path.resolve(__dirname, 'extension/background.ts'),
+          },
+          output: {
+            // The manifest names the worker, so it keeps a fixed file name
+            entryFileNames: (chunk) => (chunk.name === 'background' ? 'background.js' : 'assets/[name]-[hash].js'),
+          },
+        },
+      },
+      resolve: {
+        alias: {
+          '@': path.resolve(__dirname, '.'),
+        }
+      }
+    };
+});